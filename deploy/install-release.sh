@@ -4,18 +4,23 @@
 #
 # Lets you install a given release version (or list available ones) without
 # using the admin-portal Force update. Useful for rollback and testing.
+# Uses the same verification and side-by-side layout as the self-update
+# (see release-lib.sh); `rollback` switches back to the previous release.
 #
 # Usage (on the Pi):
 #   sudo /opt/masjidconnect/deploy/install-release.sh              # list releases
 #   sudo /opt/masjidconnect/deploy/install-release.sh 1.0.1        # install v1.0.1
 #   sudo /opt/masjidconnect/deploy/install-release.sh v1.0.2       # install v1.0.2
 #   sudo /opt/masjidconnect/deploy/install-release.sh latest        # install latest (highest semver)
+#   sudo /opt/masjidconnect/deploy/install-release.sh rollback      # switch back to the previous release
 # =============================================================================
 
 set -euo pipefail
 
 SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
-APP_DIR="$(cd "${SCRIPT_DIR}/.." && pwd)"
+# shellcheck source=release-lib.sh
+source "${SCRIPT_DIR}/release-lib.sh"
+APP_DIR="$(resolve_app_dir "$SCRIPT_DIR")"
 GITHUB_OWNER="tahmidhoque"
 GITHUB_REPO="masjidconnect-display-app"
 API_BASE="https://api.github.com/repos/${GITHUB_OWNER}/${GITHUB_REPO}"
@@ -67,7 +72,8 @@ withAsset.forEach((r, i) => console.log((i+1) + '. ' + r.tag + '  ' + (r.url ? '
 " 2>/dev/null || return 1
 }
 
-# Get asset URL for a given tag (e.g. v1.0.1). Returns empty on failure or no tarball.
+# Get asset URLs for a given tag (e.g. v1.0.1): tarball, then its .sha256 and .sig
+# (empty lines when missing). Returns empty on failure or no tarball.
 # Uses curl without -f so we get response body on 404 and can show a clear error.
 get_release_asset_url() {
   local tag="$1"
@@ -87,7 +93,13 @@ if (j.message === 'Not Found') process.exit(1);
 const assets = j.assets || [];
 const a = assets.find(x => x.name && x.name.endsWith('.tar.gz') && !x.name.includes('sha256') && (x.name.includes('masjidconnect-display') || x.name.includes('masjidconnect')))
   || assets.find(x => x.name && x.name.endsWith('.tar.gz') && !x.name.includes('sha256'));
-if (a && a.browser_download_url) console.log(a.browser_download_url);
+if (a && a.browser_download_url) {
+  const sum = assets.find(x => x.name === a.name + '.sha256');
+  const sig = assets.find(x => x.name === a.name + '.sig');
+  console.log(a.browser_download_url);
+  console.log(sum ? sum.browser_download_url : '');
+  console.log(sig ? sig.browser_download_url : '');
+}
 " "$resp_file" 2>/dev/null
 }
 
@@ -110,6 +122,18 @@ main() {
     exit 0
   fi
 
+  if [ "$version" = "rollback" ]; then
+    local result
+    if ! result=$(rollback_release); then
+      echo "No previous release to roll back to." >&2
+      exit 1
+    fi
+    rm -f "${APP_DIR}/${UPDATE_PENDING_FILE_NAME}"
+    echo "Rolled back from ${result% *} to ${result#* }. Restarting masjidconnect-display..."
+    systemctl restart masjidconnect-display.service 2>/dev/null || true
+    exit 0
+  fi
+
   tmp_dir=$(mktemp -d)
   trap "rm -rf '$tmp_dir'" EXIT
   resp_file="${tmp_dir}/release.json"
@@ -133,7 +157,10 @@ if (withAsset[0]) console.log(withAsset[0].tag);
   fi
 
   echo "Release: $tag"
-  asset_url=$(get_release_asset_url "$tag" "$resp_file") || true
+  asset_urls=$(get_release_asset_url "$tag" "$resp_file") || true
+  asset_url=$(echo "$asset_urls" | sed -n '1p')
+  sha256_url=$(echo "$asset_urls" | sed -n '2p')
+  sig_url=$(echo "$asset_urls" | sed -n '3p')
   if [ -z "$asset_url" ]; then
     echo "Release $tag not found or has no .tar.gz asset." >&2
     echo "Check: https://github.com/${GITHUB_OWNER}/${GITHUB_REPO}/releases/tag/${tag}" >&2
@@ -167,6 +194,18 @@ try {
   echo "Downloading..."
   tar_path="${tmp_dir}/masjidconnect-display.tar.gz"
   curl -sS -f -L -o "$tar_path" "$asset_url" || { echo "Download failed." >&2; exit 1; }
+  if [ -n "$sha256_url" ]; then
+    curl -sS -f -L -o "${tar_path}.sha256" "$sha256_url" || { echo "Checksum download failed." >&2; exit 1; }
+  fi
+  [ -n "$sig_url" ] && curl -sS -f -L -o "${tar_path}.sig" "$sig_url" 2>/dev/null || true
+
+  echo "Verifying..."
+  local reason
+  if ! reason=$(verify_release_asset "$tar_path" "${sha256_url:+${tar_path}.sha256}" "${tar_path}.sig"); then
+    echo "Release $tag rejected: ${reason}." >&2
+    exit 1
+  fi
+  [ -n "$reason" ] && echo "Warning: ${reason}." >&2
 
   echo "Extracting..."
   extract_dir="${tmp_dir}/extract"
@@ -180,14 +219,15 @@ try {
     exit 1
   fi
 
-  echo "Installing to ${APP_DIR}..."
-  cp -a "${APP_DIR}/dist" "${tmp_dir}/dist.bak" 2>/dev/null || true
-  cp -a "${APP_DIR}/deploy" "${tmp_dir}/deploy.bak" 2>/dev/null || true
-  rm -rf "${APP_DIR}/dist" "${APP_DIR}/deploy"
-  cp -r "${src_root}/dist" "${src_root}/deploy" "${APP_DIR}/"
-  [ -f "${src_root}/package.json" ] && cp "${src_root}/package.json" "${APP_DIR}/"
-  chown -R "${SUDO_UID:-1000}:${SUDO_GID:-1000}" "${APP_DIR}/dist" "${APP_DIR}/deploy" "${APP_DIR}/package.json" 2>/dev/null || true
-  chmod +x "${APP_DIR}/deploy/"*.sh "${APP_DIR}/deploy/xinitrc-kiosk" 2>/dev/null || true
+  local release_version="${tag#v}"
+  echo "Installing to ${APP_DIR}/releases/${release_version}..."
+  migrate_legacy_layout
+  stage_release "$src_root" "$release_version"
+  switch_release "$release_version"
+  prune_releases
+  # Installed by hand: clear any pending boot check and allow this version again
+  rm -f "${APP_DIR}/${UPDATE_PENDING_FILE_NAME}"
+  sed -i "/^${release_version//./\\.}\$/d" "${APP_DIR}/${UPDATE_REJECTED_FILE_NAME}" 2>/dev/null || true
 
   echo "Restarting masjidconnect-display..."
   systemctl restart masjidconnect-display.service 2>/dev/null || true
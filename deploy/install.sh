@@ -61,6 +61,12 @@ if ! command -v unclutter &>/dev/null; then
   apt-get install -y unclutter
 fi
 
+# Speech for emergency alerts (Chromium's Web Speech API uses speech-dispatcher on Linux)
+if ! command -v spd-say &>/dev/null; then
+  echo "Installing speech-dispatcher..."
+  apt-get install -y speech-dispatcher espeak-ng || echo "WARNING: speech-dispatcher not installed; alerts will play a tone only."
+fi
+
 # Ensure SERVICE_USER exists
 if ! getent passwd "${SERVICE_USER}" >/dev/null 2>&1; then
   echo "ERROR: User '${SERVICE_USER}' not found. Create it or run as: sudo -u <your-username> -- bash -c './deploy/install.sh'"
@@ -100,6 +106,17 @@ chmod +x "${APP_DIR}/deploy/wifi-apply-bootconf.sh" 2>/dev/null || true
 echo "${SERVICE_USER} ALL=(ALL) NOPASSWD: ${APP_DIR}/deploy/update-from-github.sh" > /etc/sudoers.d/99-masjidconnect-update
 chmod 440 /etc/sudoers.d/99-masjidconnect-update
 
+# Allow the liveness watchdog in server.mjs to restart a frozen kiosk browser
+echo "${SERVICE_USER} ALL=(ALL) NOPASSWD: /usr/bin/systemctl restart masjidconnect-kiosk.service" > /etc/sudoers.d/99-masjidconnect-kiosk
+chmod 440 /etc/sudoers.d/99-masjidconnect-kiosk
+
+# Let server.mjs set the DSI backlight (automatic brightness) through the video group
+cat > /etc/udev/rules.d/99-masjidconnect-backlight.rules <<'UDEV_EOF'
+SUBSYSTEM=="backlight", ACTION=="add", RUN+="/bin/chgrp video /sys%p/brightness", RUN+="/bin/chmod g+w /sys%p/brightness"
+UDEV_EOF
+usermod -aG video "${SERVICE_USER}"
+udevadm control --reload-rules && udevadm trigger --subsystem-match=backlight --action=add || true
+
 # Set ownership
 chown -R "${SERVICE_USER}:${SERVICE_USER}" "${APP_DIR}"
 
@@ -70,6 +70,7 @@ exec ${CHROMIUM} \
   --disable-dev-shm-usage \
   --force-device-scale-factor=1 \
   --autoplay-policy=no-user-gesture-required \
+  --enable-speech-dispatcher \
   --disable-session-crashed-bubble \
   --disable-component-update \
   --password-store=basic \
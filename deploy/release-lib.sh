@@ -0,0 +1,210 @@
+#!/usr/bin/env bash
+# =============================================================================
+# MasjidConnect Display — Shared release helpers (sourced, not run)
+#
+# Used by update-from-github.sh and install-release.sh. Releases are installed
+# side by side and switched with a symlink, so a bad build can be rolled back
+# without downloading anything:
+#
+#   ${APP_DIR}/releases/<version>/   dist/, deploy/, package.json from the tarball
+#   ${APP_DIR}/current  -> releases/<version>   (switched atomically)
+#   ${APP_DIR}/previous -> releases/<version>   (rollback target)
+#   ${APP_DIR}/dist, deploy, package.json -> current/…   (stable paths for systemd)
+#
+# Release assets are verified before install: the `.sha256` asset published
+# with every release is checked; the detached `.sig` (openssl, SHA-256) is
+# required once a public key is installed at ${APP_DIR}/release-signing.pub or
+# in the running release's deploy/ directory.
+#
+# Transition: releases published before checksums were added have no `.sha256`
+# asset. Such a release still installs (with a warning) while no signing key is
+# installed, so it can be pinned or rolled back to; with a key, it is refused.
+# This is decided from the release's asset list, never from a failed download:
+# a release that publishes a `.sha256` must verify against it.
+# =============================================================================
+
+UPDATE_PENDING_FILE_NAME=".update-pending.json"
+UPDATE_REJECTED_FILE_NAME=".update-rejected"
+
+# Install root for a script directory. Scripts may run from releases/<v>/deploy
+# (e.g. when the server spawns them through its resolved path).
+resolve_app_dir() {
+  local dir
+  dir="$(cd "$1/.." && pwd)"
+  if [ "$(basename "$(dirname "$dir")")" = "releases" ]; then
+    dir="$(dirname "$(dirname "$dir")")"
+  fi
+  echo "$dir"
+}
+
+release_owner() {
+  echo "${SUDO_UID:-1000}:${SUDO_GID:-1000}"
+}
+
+# Version of the running release, or empty on a legacy (in-place) install.
+current_release_version() {
+  local target
+  target=$(readlink "${APP_DIR}/current" 2>/dev/null) || return 0
+  basename "$target"
+}
+
+# Public key that release signatures must match, if one is installed.
+release_public_key() {
+  local key
+  for key in "${APP_DIR}/release-signing.pub" "${APP_DIR}/deploy/release-signing.pub"; do
+    if [ -s "$key" ]; then
+      echo "$key"
+      return 0
+    fi
+  done
+}
+
+# Verify a downloaded tarball. Prints the reason and returns 1 on failure; on
+# success prints a warning when the tarball went unverified (see Transition above).
+# Pass an empty <sha256-file> only when the release publishes no `.sha256` asset.
+# Usage: verify_release_asset <tar> <sha256-file> [<sig-file>]
+verify_release_asset() {
+  local tar_path="$1" sha_path="$2" sig_path="${3:-}"
+  local expected actual key
+
+  key=$(release_public_key)
+  if [ -z "$sha_path" ]; then
+    if [ -n "$key" ]; then
+      echo "checksum missing"
+      return 1
+    fi
+    echo "no checksum published for this release; installed unverified"
+    return 0
+  fi
+  expected=$(awk '{ print tolower($1); exit }' "$sha_path" 2>/dev/null || true)
+  if [ -z "$expected" ]; then
+    echo "checksum missing"
+    return 1
+  fi
+  actual=$(sha256sum "$tar_path" | awk '{ print $1 }')
+  if [ "$expected" != "$actual" ]; then
+    echo "checksum mismatch"
+    return 1
+  fi
+
+  if [ -n "$key" ]; then
+    if [ -z "$sig_path" ] || [ ! -s "$sig_path" ]; then
+      echo "signature missing"
+      return 1
+    fi
+    if ! openssl dgst -sha256 -verify "$key" -signature "$sig_path" "$tar_path" >/dev/null 2>&1; then
+      echo "signature invalid"
+      return 1
+    fi
+  fi
+}
+
+# Point dist/, deploy/ and package.json at current/ (idempotent).
+link_app_paths() {
+  local name
+  for name in dist deploy package.json; do
+    ln -sfn "current/${name}" "${APP_DIR}/${name}"
+    chown -h "$(release_owner)" "${APP_DIR}/${name}" 2>/dev/null || true
+  done
+}
+
+# Move an in-place install (real dist/ and deploy/) into releases/ once.
+migrate_legacy_layout() {
+  [ -d "${APP_DIR}/dist" ] && [ ! -L "${APP_DIR}/dist" ] || return 0
+
+  local version dest name
+  version=$(node -p "require('${APP_DIR}/package.json').version" 2>/dev/null || echo "legacy")
+  dest="${APP_DIR}/releases/${version}"
+  rm -rf "$dest"
+  mkdir -p "$dest"
+  for name in dist deploy package.json; do
+    [ -e "${APP_DIR}/${name}" ] && mv "${APP_DIR}/${name}" "${dest}/"
+  done
+  ln -sfn "releases/${version}" "${APP_DIR}/current"
+  link_app_paths
+  chown -R "$(release_owner)" "${APP_DIR}/releases" 2>/dev/null || true
+  chown -h "$(release_owner)" "${APP_DIR}/current" 2>/dev/null || true
+}
+
+# Copy an extracted tarball into releases/<version>.
+# Usage: stage_release <src_root> <version>
+stage_release() {
+  local src_root="$1" version="$2"
+  local dest="${APP_DIR}/releases/${version}"
+  local staging="${dest}.staging"
+
+  rm -rf "$staging"
+  mkdir -p "$staging"
+  cp -a "${src_root}/dist" "${src_root}/deploy" "$staging/"
+  [ -f "${src_root}/package.json" ] && cp "${src_root}/package.json" "$staging/"
+  # Tarball may not have +x on deploy scripts; set so kiosk and xinit can run them
+  chmod +x "${staging}/deploy/"*.sh "${staging}/deploy/xinitrc-kiosk" 2>/dev/null || true
+  chown -R "$(release_owner)" "$staging" 2>/dev/null || true
+
+  # Reinstalling the running version: replace its files in place of the dir
+  rm -rf "$dest"
+  mv "$staging" "$dest"
+}
+
+# Atomically repoint a link: ln to a temp name, then rename over the old one.
+swap_link() {
+  local target="$1" link="$2"
+  ln -sfn "$target" "${link}.tmp"
+  chown -h "$(release_owner)" "${link}.tmp" 2>/dev/null || true
+  mv -Tf "${link}.tmp" "$link"
+}
+
+# Make releases/<version> current; the old current becomes the rollback target.
+switch_release() {
+  local version="$1"
+  local old
+  old=$(current_release_version)
+  swap_link "releases/${version}" "${APP_DIR}/current"
+  if [ -n "$old" ] && [ "$old" != "$version" ]; then
+    swap_link "releases/${old}" "${APP_DIR}/previous"
+  fi
+  link_app_paths
+}
+
+# Drop releases that are neither current nor previous.
+prune_releases() {
+  local keep_current keep_previous dir name
+  keep_current=$(current_release_version)
+  keep_previous=$(basename "$(readlink "${APP_DIR}/previous" 2>/dev/null || echo none)")
+  for dir in "${APP_DIR}/releases/"*/; do
+    [ -d "$dir" ] || continue
+    name=$(basename "$dir")
+    [ "$name" = "$keep_current" ] || [ "$name" = "$keep_previous" ] && continue
+    rm -rf "$dir"
+  done
+}
+
+# Switch back to previous/. Records the failed version so the updater skips it.
+# Prints "<failed> <restored>"; returns 1 when there is nothing to roll back to.
+rollback_release() {
+  local failed restored
+  failed=$(current_release_version)
+  restored=$(basename "$(readlink "${APP_DIR}/previous" 2>/dev/null || true)")
+  if [ -z "$restored" ] || [ ! -d "${APP_DIR}/releases/${restored}" ]; then
+    return 1
+  fi
+  swap_link "releases/${restored}" "${APP_DIR}/current"
+  rm -f "${APP_DIR}/previous"
+  link_app_paths
+  [ -n "$failed" ] && echo "$failed" >> "${APP_DIR}/${UPDATE_REJECTED_FILE_NAME}"
+  echo "${failed} ${restored}"
+}
+
+# True if <version> was rolled back on this device before.
+is_rejected_release() {
+  grep -qxF "$1" "${APP_DIR}/${UPDATE_REJECTED_FILE_NAME}" 2>/dev/null
+}
+
+# Arm the boot health gate in server.mjs: the new app must POST /internal/boot-ok
+# within the gate window counted from <reload_at_ms>, or the server rolls back.
+# Usage: write_update_pending <version> <previous_version> <reload_at_ms>
+write_update_pending() {
+  local file="${APP_DIR}/${UPDATE_PENDING_FILE_NAME}"
+  printf '{"version":"%s","previousVersion":"%s","reloadAt":%s}\n' "$1" "$2" "$3" > "$file"
+  chown "$(release_owner)" "$file" 2>/dev/null || true
+}
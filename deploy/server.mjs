@@ -7,25 +7,52 @@
  *  - SPA fallback (all routes -> index.html)
  *  - Cache headers for hashed assets
  *  - Health check endpoint at /health
- *  - Internal (localhost-only) endpoints: POST /internal/trigger-update, GET /internal/update-status
+ *  - Internal (localhost-only) endpoints: POST /internal/trigger-update ({ channel, version? }),
+ *    GET /internal/update-status, POST /internal/boot-ok, GET /internal/screenshot,
+ *    GET|POST /internal/display-power, POST /internal/display-brightness
+ *  - Boot health gate after a self-update: the new app must POST /internal/boot-ok within
+ *    UPDATE_HEALTH_GATE_MINUTES (default 5) of reloading, or the previous release is restored
+ *  - LAN emergency trigger (PIN / token, any client on the network): GET /local/alert (mobile
+ *    form), POST /local/alert; relayed, HMAC-signed with the portal's relay secret, to the
+ *    masjid's other screens found by UDP beacon (LOCAL_DISCOVERY_PORT, default 41234). The app configures it and polls through
+ *    POST /internal/local-alert-config, GET /internal/local-alerts and GET /internal/local-peers
+ *  - Liveness watchdog: the app pings POST /internal/liveness; a crashed, frozen or silent page
+ *    is healed by soft reload, then cache purge, then a kiosk service restart. Incidents are
+ *    handed back for the heartbeat (POST /internal/watchdog/ack); GET /internal/watchdog shows them
+ *  - Device status page for installers (LAN, PIN / token or STATUS_PIN): GET /status, data from
+ *    POST /status, and POST /status/action { action: reload | purge | restart-kiosk }
  *
  * Usage:
  *   PORT=3001 node deploy/server.mjs
  */
 
 import { createServer } from 'node:http';
-import { readFileSync, writeFileSync, existsSync } from 'node:fs';
-import { join, extname, resolve } from 'node:path';
+import { readFileSync, writeFileSync, existsSync, rmSync, readdirSync } from 'node:fs';
+import { join, extname, resolve, basename, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { spawn, execSync } from 'node:child_process';
+import { uptime as systemUptime } from 'node:os';
+import { createSocket } from 'node:dgram';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
 
 const __dirname = fileURLToPath(new URL('.', import.meta.url));
-const APP_DIR = resolve(__dirname, '..');
+/** Install root. Staged installs run this file from releases/<version>/deploy (see release-lib.sh). */
+const APP_DIR = (() => {
+  const dir = resolve(__dirname, '..');
+  return basename(dirname(dir)) === 'releases' ? dirname(dirname(dir)) : dir;
+})();
+/** The `dist -> current/dist` symlink; files are read through it, so a `current` switch takes effect on the next request. */
 const DIST_DIR = resolve(APP_DIR, 'dist');
 const STATUS_FILE = join(APP_DIR, '.update-status.json');
+const UPDATE_PENDING_FILE = join(APP_DIR, '.update-pending.json');
+const UPDATE_HEALTH_GATE_MS = (parseFloat(process.env.UPDATE_HEALTH_GATE_MINUTES || '') || 5) * 60_000;
+const UPDATE_HEALTH_CHECK_MS = 30_000;
+const UPDATE_CHANNELS = ['stable', 'beta', 'pinned'];
+const RELEASE_VERSION = /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?$/;
 const UPDATE_SCRIPT = join(__dirname, 'update-from-github.sh');
 const WIFI_HOTSPOT_ACTIVE_MARKER = '/tmp/masjidconnect-hotspot-active';
 const WIFI_HOTSPOT_SCAN_CACHE = '/tmp/masjidconnect-wifi-scan.json';
+const SCREENSHOT_FILE = '/tmp/masjidconnect-screenshot.png';
 const PORT = parseInt(process.env.PORT || '3001', 10);
 const HOST = process.env.HOST || '0.0.0.0';
 
@@ -291,6 +318,1002 @@ function getSavedWifi() {
   return { profiles };
 }
 
+// =========================================================================
+// Screen capture (CAPTURE_SCREENSHOT remote command)
+// =========================================================================
+
+/**
+ * Capture tools tried in order. X11 grabbers first (the kiosk runs under xinit on :0);
+ * fbgrab reads /dev/fb0 directly for setups without an X server (e.g. cage/Wayland
+ * mirrored to the framebuffer). Each writes a PNG to SCREENSHOT_FILE.
+ */
+const SCREENSHOT_COMMANDS = [
+  { name: 'scrot', cmd: `scrot --overwrite ${SCREENSHOT_FILE}` },
+  { name: 'import', cmd: `import -window root ${SCREENSHOT_FILE}` },
+  { name: 'fbgrab', cmd: `fbgrab ${SCREENSHOT_FILE}` },
+];
+
+/**
+ * Grab what is physically on the display. Returns { png, tool } or throws with the
+ * last tool error when no capture tool is installed or all of them fail.
+ */
+function captureScreenshot() {
+  const env = {
+    ...process.env,
+    PATH: SYSTEM_PATH,
+    DISPLAY: process.env.DISPLAY || ':0',
+    XAUTHORITY: process.env.XAUTHORITY || join(process.env.HOME || '/home/pi', '.Xauthority'),
+  };
+  let lastError = 'No screen capture tool available (install scrot, imagemagick or fbgrab)';
+  for (const { name, cmd } of SCREENSHOT_COMMANDS) {
+    try {
+      execSync(`command -v ${name}`, { env, stdio: 'ignore', timeout: 2_000 });
+    } catch {
+      continue;
+    }
+    try {
+      rmSync(SCREENSHOT_FILE, { force: true });
+      execSync(cmd, { env, stdio: 'ignore', timeout: 10_000 });
+      if (existsSync(SCREENSHOT_FILE)) {
+        const png = readFileSync(SCREENSHOT_FILE);
+        rmSync(SCREENSHOT_FILE, { force: true });
+        if (png.length > 0) return { png, tool: name };
+      }
+      lastError = `${name} produced no image`;
+    } catch (e) {
+      lastError = `${name} failed: ${(e.message || String(e)).slice(0, 200)}`;
+    }
+  }
+  throw new Error(lastError);
+}
+
+// =========================================================================
+// Display power (scheduled screen off)
+// =========================================================================
+
+/**
+ * HDMI power tools tried in order. `vcgencmd display_power` blanks the Pi's HDMI output
+ * (the TV then sleeps on "no signal"); cec-client sends a CEC standby / power-on to the TV
+ * itself, which also covers KMS setups where vcgencmd reports -1.
+ */
+const DISPLAY_POWER_COMMANDS = [
+  {
+    name: 'vcgencmd',
+    cmd: (on) => `vcgencmd display_power ${on ? 1 : 0}`,
+    ok: (out) => /display_power=[01]/.test(out),
+  },
+  {
+    name: 'cec-client',
+    cmd: (on) => `echo '${on ? 'on' : 'standby'} 0' | cec-client -s -d 1`,
+    ok: () => true,
+  },
+];
+
+/** Last state set through /internal/display-power (reported back on GET). */
+let displayPower = { state: 'on', tool: null, changedAt: null };
+
+/**
+ * Switch the physical display on or off. Returns the tool used or throws with the
+ * last tool error when none is installed or all of them fail (caller falls back to CSS).
+ */
+function setDisplayPower(on) {
+  const env = { ...process.env, PATH: SYSTEM_PATH };
+  let lastError = 'No display power tool available (vcgencmd or cec-client)';
+  for (const { name, cmd, ok } of DISPLAY_POWER_COMMANDS) {
+    try {
+      execSync(`command -v ${name}`, { env, stdio: 'ignore', timeout: 2_000 });
+    } catch {
+      continue;
+    }
+    try {
+      const out = execSync(cmd(on), { env, encoding: 'utf8', timeout: 10_000 });
+      if (ok(out)) {
+        displayPower = { state: on ? 'on' : 'off', tool: name, changedAt: new Date().toISOString() };
+        return name;
+      }
+      lastError = `${name} not supported on this display (${out.trim().slice(0, 100)})`;
+    } catch (e) {
+      lastError = `${name} failed: ${(e.message || String(e)).slice(0, 200)}`;
+    }
+  }
+  throw new Error(lastError);
+}
+
+/**
+ * Sysfs backlight class: official DSI touch displays and many HATs. Writable by the service
+ * user through the video group (udev rule added by deploy/install.sh) — no sudo needed.
+ */
+const BACKLIGHT_DIR = '/sys/class/backlight';
+
+/**
+ * Set display brightness (0–100). Tries the sysfs backlight, then DDC/CI via ddcutil
+ * (VCP 0x10) for HDMI monitors that support it. TVs generally support neither — the
+ * app then dims with a CSS layer. Returns the tool used or throws with the last error.
+ */
+function setDisplayBrightness(level) {
+  let lastError = 'No brightness control available (sysfs backlight or ddcutil)';
+  try {
+    for (const device of readdirSync(BACKLIGHT_DIR)) {
+      const dir = join(BACKLIGHT_DIR, device);
+      const max = parseInt(readFileSync(join(dir, 'max_brightness'), 'utf8'), 10);
+      if (!max) continue;
+      writeFileSync(join(dir, 'brightness'), String(Math.round((level / 100) * max)));
+      return 'backlight';
+    }
+  } catch (e) {
+    if (e.code !== 'ENOENT') lastError = `backlight failed: ${(e.message || String(e)).slice(0, 200)}`;
+  }
+
+  const env = { ...process.env, PATH: SYSTEM_PATH };
+  try {
+    execSync('command -v ddcutil', { env, stdio: 'ignore', timeout: 2_000 });
+  } catch {
+    throw new Error(lastError);
+  }
+  try {
+    execSync(`ddcutil setvcp 10 ${level}`, { env, stdio: 'ignore', timeout: 10_000 });
+    return 'ddcutil';
+  } catch (e) {
+    throw new Error(`ddcutil failed: ${(e.message || String(e)).slice(0, 200)}`);
+  }
+}
+
+// =============================================================================
+// Boot health gate (self-update rollback)
+// =============================================================================
+
+const serverStartedAt = Date.now();
+let rollbackStarted = false;
+
+/** Release waiting for its boot confirmation (written by update-from-github.sh), or null. */
+function readUpdatePending() {
+  try {
+    const pending = JSON.parse(readFileSync(UPDATE_PENDING_FILE, 'utf8'));
+    return pending && typeof pending.version === 'string' ? pending : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Roll back when the updated app has not confirmed boot in time. The window is
+ * counted from the reload, or from this server's start if the device rebooted.
+ */
+function checkUpdateHealthGate() {
+  if (rollbackStarted) return;
+  const pending = readUpdatePending();
+  if (!pending) return;
+  const since = Math.max(Number(pending.reloadAt) || 0, serverStartedAt);
+  if (Date.now() - since < UPDATE_HEALTH_GATE_MS) return;
+
+  rollbackStarted = true;
+  const minutes = Math.round(UPDATE_HEALTH_GATE_MS / 60_000);
+  const reason = `v${pending.version} did not confirm boot within ${minutes} min`;
+  console.warn(`[MasjidConnect] ${reason}; rolling back`);
+  try {
+    const child = spawn('sudo', ['bash', UPDATE_SCRIPT, '--rollback', reason], {
+      detached: true,
+      stdio: 'ignore',
+      cwd: APP_DIR,
+    });
+    child.unref();
+  } catch (err) {
+    rollbackStarted = false;
+    console.error('[MasjidConnect] Rollback failed to start:', err.message);
+  }
+}
+
+setInterval(checkUpdateHealthGate, UPDATE_HEALTH_CHECK_MS);
+
+// =============================================================================
+// Liveness watchdog (crash / blank-screen self-healing)
+// =============================================================================
+
+/**
+ * The app posts POST /internal/liveness every few seconds with a frame tick
+ * (advances only while Chromium paints), its current phase and its last log
+ * lines. A crashed app (phase "error"), a frozen renderer (tick stuck) or a
+ * page that stopped pinging is healed in steps: soft reload, then reload with
+ * the API caches purged (both carried out by the page, from the ping reply),
+ * then a restart of the kiosk service. A page that no longer pings can only be
+ * restarted. Each step is an incident (`.watchdog-incidents.json`) handed to
+ * the app in the ping reply until it confirms it sent it in a heartbeat.
+ *
+ * Armed by the first ping after this server starts, so a build without the
+ * watchdog is never restarted in a loop.
+ */
+const WATCHDOG_INCIDENTS_FILE = join(APP_DIR, '.watchdog-incidents.json');
+const WATCHDOG_CHECK_MS = 15_000;
+const WATCHDOG_PING_TIMEOUT_MS = (parseFloat(process.env.WATCHDOG_PING_TIMEOUT_SECONDS || '') || 90) * 1000;
+/** Frame tick unchanged this long while pings still arrive: nothing is being painted */
+const WATCHDOG_FRAME_STALL_MS = 60_000;
+/** Time a step gets to work before the next one; doubles with every kiosk restart */
+const WATCHDOG_STEP_GRACE_MS = 2 * 60_000;
+const WATCHDOG_MAX_GRACE_MS = 60 * 60_000;
+/** Healthy this long after a step: the incident is over and the next one starts from a reload */
+const WATCHDOG_RECOVERED_MS = 10 * 60_000;
+const WATCHDOG_MAX_INCIDENTS = 50;
+const WATCHDOG_LOG_TAIL = 30;
+const WATCHDOG_MAX_BODY = 64 * 1024;
+const WATCHDOG_STEPS = ['reload', 'purge', 'restart-kiosk'];
+const KIOSK_SERVICE = 'masjidconnect-kiosk.service';
+
+function readWatchdogIncidents() {
+  try {
+    const saved = JSON.parse(readFileSync(WATCHDOG_INCIDENTS_FILE, 'utf8'));
+    return Array.isArray(saved) ? saved.slice(-WATCHDOG_MAX_INCIDENTS) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Newest last; `reported` once the app sent it in a heartbeat. */
+const watchdogIncidents = readWatchdogIncidents();
+const watchdog = {
+  armed: false,
+  lastPingAt: 0,
+  tick: null,
+  tickChangedAt: 0,
+  phase: null,
+  error: null,
+  logTail: [],
+  /** { version, connected, lastSyncAt, playlist, lastErrors } from the last ping, for GET /status */
+  appStatus: null,
+  /** Index into WATCHDOG_STEPS of the next step */
+  step: 0,
+  kioskRestarts: 0,
+  lastActionAt: 0,
+  /** 'reload' | 'purge' waiting for the page's next ping */
+  pendingAction: null,
+  /** When the page last turned healthy (0 while unhealthy) */
+  healthySince: 0,
+};
+
+function saveWatchdogIncidents() {
+  try {
+    writeFileSync(WATCHDOG_INCIDENTS_FILE, JSON.stringify(watchdogIncidents), 'utf8');
+  } catch (e) {
+    console.warn('[MasjidConnect] Could not save watchdog incidents:', e.message);
+  }
+}
+
+function recordWatchdogIncident(reason, action) {
+  watchdogIncidents.push({
+    id: `${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`,
+    at: new Date().toISOString(),
+    reason,
+    action,
+    phase: watchdog.phase,
+    logTail: watchdog.logTail,
+    reported: false,
+  });
+  watchdogIncidents.splice(0, Math.max(0, watchdogIncidents.length - WATCHDOG_MAX_INCIDENTS));
+  saveWatchdogIncidents();
+}
+
+function unreportedWatchdogIncidents() {
+  return watchdogIncidents.filter((incident) => !incident.reported).map(({ reported: _, ...incident }) => incident);
+}
+
+/** Record a ping; returns the action the page should carry out now, if any. */
+function handleLivenessPing(data) {
+  const now = Date.now();
+  watchdog.armed = true;
+  watchdog.lastPingAt = now;
+  const tick = Number.isFinite(data.tick) ? data.tick : null;
+  if (tick !== watchdog.tick) {
+    watchdog.tick = tick;
+    watchdog.tickChangedAt = now;
+  }
+  watchdog.phase = typeof data.phase === 'string' ? data.phase.slice(0, 40) : null;
+  watchdog.error = typeof data.error === 'string' ? data.error.slice(0, 500) : null;
+  if (Array.isArray(data.logTail)) {
+    watchdog.logTail = data.logTail
+      .filter((line) => typeof line === 'string')
+      .slice(-WATCHDOG_LOG_TAIL)
+      .map((line) => line.slice(0, 500));
+  }
+  if (data.status && typeof data.status === 'object') watchdog.appStatus = data.status;
+  const action = watchdog.pendingAction;
+  watchdog.pendingAction = null;
+  return action;
+}
+
+/** Why the page needs healing, or null while it is healthy (or not yet armed). */
+function watchdogProblem(now) {
+  if (!watchdog.armed) return null;
+  const silentFor = now - watchdog.lastPingAt;
+  if (silentFor > WATCHDOG_PING_TIMEOUT_MS) return `No liveness ping for ${Math.round(silentFor / 1000)} s`;
+  if (watchdog.phase === 'error') return `App crashed: ${watchdog.error || 'unknown error'}`;
+  const stalledFor = now - watchdog.tickChangedAt;
+  if (stalledFor > WATCHDOG_FRAME_STALL_MS) {
+    return `No frames painted for ${Math.round(stalledFor / 1000)} s (phase ${watchdog.phase || 'unknown'})`;
+  }
+  return null;
+}
+
+function restartKiosk() {
+  try {
+    // Full path: the sudoers rule (install.sh) allows exactly this command
+    const child = spawn('sudo', ['-n', '/usr/bin/systemctl', 'restart', KIOSK_SERVICE], {
+      detached: true,
+      stdio: 'ignore',
+    });
+    child.on('error', (err) => console.error('[MasjidConnect] Kiosk restart failed:', err.message));
+    child.unref();
+  } catch (err) {
+    console.error('[MasjidConnect] Kiosk restart failed to start:', err.message);
+  }
+}
+
+function checkWatchdog() {
+  // The boot health gate owns the window after a self-update
+  if (rollbackStarted || readUpdatePending()) return;
+  const now = Date.now();
+  const problem = watchdogProblem(now);
+  if (!problem) {
+    if (!watchdog.healthySince) watchdog.healthySince = now;
+    if (watchdog.step > 0 && now - watchdog.healthySince >= WATCHDOG_RECOVERED_MS) {
+      console.log('[MasjidConnect] Watchdog: display recovered');
+      watchdog.step = 0;
+      watchdog.kioskRestarts = 0;
+    }
+    return;
+  }
+  watchdog.healthySince = 0;
+  const grace = Math.min(WATCHDOG_STEP_GRACE_MS * 2 ** watchdog.kioskRestarts, WATCHDOG_MAX_GRACE_MS);
+  if (watchdog.lastActionAt && now - watchdog.lastActionAt < grace) return;
+
+  // Reload and purge are carried out by the page, which must still be pinging
+  const pageAlive = now - watchdog.lastPingAt <= WATCHDOG_PING_TIMEOUT_MS;
+  const action = pageAlive ? WATCHDOG_STEPS[Math.min(watchdog.step, WATCHDOG_STEPS.length - 1)] : 'restart-kiosk';
+  console.warn(`[MasjidConnect] Watchdog: ${problem}; ${action}`);
+  recordWatchdogIncident(problem, action);
+  watchdog.step = WATCHDOG_STEPS.indexOf(action) + 1;
+  watchdog.lastActionAt = now;
+  if (action === 'restart-kiosk') {
+    watchdog.pendingAction = null;
+    watchdog.kioskRestarts += 1;
+    // Fresh page: the frame tick and ping clock start again
+    watchdog.lastPingAt = now;
+    watchdog.tickChangedAt = now;
+    restartKiosk();
+  } else {
+    watchdog.pendingAction = action;
+  }
+}
+
+setInterval(checkWatchdog, WATCHDOG_CHECK_MS);
+
+// =============================================================================
+// LAN emergency alerts (POST /local/alert)
+// =============================================================================
+
+/**
+ * Staff raise an alert from a phone on the masjid network when the internet is
+ * down. The app pushes the PIN / token from the portal (POST /internal/local-alert-config)
+ * and polls GET /internal/local-alerts; it normalises payloads like WebSocket alerts.
+ * Screens of the same masjid find each other with a UDP broadcast beacon and relay
+ * each alert to the others, so one request reaches every screen in the building.
+ *
+ * Relays never carry the staff PIN / token: beacons are unauthenticated, so any host
+ * can pose as a peer. A relay is signed with the masjid's relay secret from the portal
+ * (HMAC-SHA256 over sender, timestamp, nonce and body); receivers check the signature,
+ * the clock window, that the nonce is new and, when the portal lists the masjid's
+ * screens, that the sender is one of them. Without a relay secret nothing is relayed.
+ */
+const LOCAL_ALERT_CONFIG_FILE = join(APP_DIR, '.local-alert.json');
+const LOCAL_DISCOVERY_PORT = parseInt(process.env.LOCAL_DISCOVERY_PORT || '41234', 10);
+const LOCAL_BEACON_INTERVAL_MS = 30_000;
+const LOCAL_PEER_TTL_MS = 120_000;
+const LOCAL_RELAY_TIMEOUT_MS = 5_000;
+const LOCAL_ALERT_MAX_EVENTS = 50;
+const LOCAL_ALERT_MAX_BODY = 16 * 1024;
+const LOCAL_ALERT_CATEGORIES = ['safety', 'facility', 'janazah', 'schedule', 'community', 'vehicle'];
+const LOCAL_ALERT_URGENCIES = ['critical', 'high', 'medium'];
+const LOCAL_ALERT_DEFAULT_MINUTES = 15;
+const LOCAL_ALERT_MAX_MINUTES = 240;
+/** Wrong PIN / token attempts per client address before it is locked out for the window. */
+const LOCAL_AUTH_MAX_FAILURES = 5;
+const LOCAL_AUTH_WINDOW_MS = 5 * 60_000;
+const LOCAL_RELAY_HEADER = 'x-masjidconnect-relay';
+const LOCAL_RELAY_TIME_HEADER = 'x-masjidconnect-relay-time';
+const LOCAL_RELAY_NONCE_HEADER = 'x-masjidconnect-relay-nonce';
+const LOCAL_RELAY_SIGNATURE_HEADER = 'x-masjidconnect-relay-signature';
+/** Relays older / newer than this (screen clocks drift while offline) are refused. */
+const LOCAL_RELAY_MAX_SKEW_MS = 2 * 60_000;
+const LOCAL_BEACON_SERVICE = 'masjidconnect-display';
+/** Lets the app notice a restart (the event sequence starts again). */
+const LOCAL_BOOT_ID = randomBytes(6).toString('hex');
+
+function readLocalAlertConfig() {
+  try {
+    const saved = JSON.parse(readFileSync(LOCAL_ALERT_CONFIG_FILE, 'utf8'));
+    return {
+      enabled: saved.enabled === true,
+      pin: typeof saved.pin === 'string' ? saved.pin : null,
+      token: typeof saved.token === 'string' ? saved.token : null,
+      masjidId: typeof saved.masjidId === 'string' ? saved.masjidId : null,
+      screenId: typeof saved.screenId === 'string' ? saved.screenId : null,
+      relaySecret: typeof saved.relaySecret === 'string' ? saved.relaySecret : null,
+      screenIds: Array.isArray(saved.screenIds) ? saved.screenIds.filter((id) => typeof id === 'string') : null,
+    };
+  } catch {
+    return { enabled: false, pin: null, token: null, masjidId: null, screenId: null, relaySecret: null, screenIds: null };
+  }
+}
+
+/** Persisted so the trigger works after a reboot before the app has loaded. */
+let localAlertConfig = readLocalAlertConfig();
+let localAlertSeq = 0;
+/** { seq, payload, expiresAt (ms, null for clears) } — newest last */
+const localAlertEvents = [];
+/** screenId → { masjidId, address, port, lastSeen } from discovery beacons */
+const localPeers = new Map();
+/** client address → { count, since } failed PIN / token attempts */
+const localAuthFailures = new Map();
+/** relay nonce → time seen, kept for the skew window so a captured relay cannot be replayed */
+const localRelayNonces = new Map();
+
+function saveLocalAlertConfig(config) {
+  localAlertConfig = config;
+  try {
+    writeFileSync(LOCAL_ALERT_CONFIG_FILE, JSON.stringify(config), { encoding: 'utf8', mode: 0o600 });
+  } catch (e) {
+    console.warn('[MasjidConnect] Could not save LAN alert config:', e.message);
+  }
+}
+
+/** Constant-time comparison (hashing first so lengths always match). */
+function secretMatches(given, expected) {
+  if (typeof given !== 'string' || !given || typeof expected !== 'string' || !expected) return false;
+  const a = createHash('sha256').update(given).digest();
+  const b = createHash('sha256').update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+/** PIN (body) or bearer token (header) the request authenticated with, or null. */
+function localAlertCredential(req, body) {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (token && secretMatches(token, localAlertConfig.token)) return { token };
+  if (secretMatches(typeof body.pin === 'string' ? body.pin.trim() : '', localAlertConfig.pin)) {
+    return { pin: body.pin.trim() };
+  }
+  return null;
+}
+
+function relaySignature(screenId, timestamp, nonce, body) {
+  return createHmac('sha256', localAlertConfig.relaySecret).update(`${screenId}.${timestamp}.${nonce}.${body}`).digest('hex');
+}
+
+/** Check a relayed request (signature, clock, nonce, sender); returns an error or null. */
+function verifyLocalRelay(req, body) {
+  const screenId = req.headers[LOCAL_RELAY_HEADER];
+  const timestamp = req.headers[LOCAL_RELAY_TIME_HEADER];
+  const nonce = req.headers[LOCAL_RELAY_NONCE_HEADER];
+  const signature = req.headers[LOCAL_RELAY_SIGNATURE_HEADER];
+  if (!localAlertConfig.relaySecret) return 'This screen does not accept relays';
+  if (typeof timestamp !== 'string' || typeof nonce !== 'string' || !/^[0-9a-f]{16,64}$/.test(nonce)) {
+    return 'Relay is not signed';
+  }
+  if (typeof signature !== 'string' || !secretMatches(signature, relaySignature(screenId, timestamp, nonce, body))) {
+    return 'Bad relay signature';
+  }
+  const now = Date.now();
+  if (!(Math.abs(now - Number(timestamp)) <= LOCAL_RELAY_MAX_SKEW_MS)) return 'Relay timestamp out of range';
+  for (const [seen, at] of localRelayNonces) {
+    if (now - at > LOCAL_RELAY_MAX_SKEW_MS * 2) localRelayNonces.delete(seen);
+  }
+  if (localRelayNonces.has(nonce)) return 'Relay already received';
+  if (localAlertConfig.screenIds && !localAlertConfig.screenIds.includes(screenId)) {
+    return 'Relay from a screen that is not in this masjid';
+  }
+  localRelayNonces.set(nonce, now);
+  return null;
+}
+
+function isLockedOut(address) {
+  const failures = localAuthFailures.get(address);
+  if (!failures) return false;
+  if (Date.now() - failures.since > LOCAL_AUTH_WINDOW_MS) {
+    localAuthFailures.delete(address);
+    return false;
+  }
+  return failures.count >= LOCAL_AUTH_MAX_FAILURES;
+}
+
+function recordAuthFailure(address) {
+  const failures = localAuthFailures.get(address);
+  if (failures && Date.now() - failures.since <= LOCAL_AUTH_WINDOW_MS) failures.count += 1;
+  else localAuthFailures.set(address, { count: 1, since: Date.now() });
+}
+
+function optionalString(value, maxLength) {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : null;
+}
+
+/**
+ * Build an `emergency:alert` payload from the request body: { title, message, category?,
+ * urgency?, durationMinutes?, id?, janazah?, vehicle? } or { action: 'clear', id? }.
+ * Returns { payload } or { error }.
+ */
+function buildLocalAlertPayload(body) {
+  const id = typeof body.id === 'string' && /^[\w.:-]{1,100}$/.test(body.id) ? body.id : null;
+  if (body.action === 'clear') return { payload: { action: 'clear', ...(id ? { id } : {}) } };
+
+  const title = optionalString(body.title, 120);
+  const message = optionalString(body.message, 600);
+  if (!title || !message) return { error: 'title and message are required' };
+  const category = LOCAL_ALERT_CATEGORIES.includes(body.category) ? body.category : 'community';
+  const urgency = LOCAL_ALERT_URGENCIES.includes(body.urgency) ? body.urgency : 'high';
+  const minutes = Number(body.durationMinutes) || LOCAL_ALERT_DEFAULT_MINUTES;
+  const createdAt = Date.parse(body.createdAt) || Date.now();
+  const expiresAt = Date.parse(body.expiresAt) || createdAt + Math.min(Math.max(minutes, 1), LOCAL_ALERT_MAX_MINUTES) * 60_000;
+  if (expiresAt <= Date.now()) return { error: 'alert has already expired' };
+
+  const payload = {
+    id: id || `local-${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`,
+    title,
+    message,
+    category,
+    urgency,
+    createdAt: new Date(createdAt).toISOString(),
+    expiresAt: new Date(expiresAt).toISOString(),
+    source: 'lan',
+  };
+  if (category === 'janazah' && body.janazah && typeof body.janazah === 'object') payload.janazah = body.janazah;
+  if (category === 'vehicle' && body.vehicle && typeof body.vehicle === 'object') payload.vehicle = body.vehicle;
+  return { payload };
+}
+
+function queueLocalAlert(payload) {
+  localAlertSeq += 1;
+  localAlertEvents.push({
+    seq: localAlertSeq,
+    payload,
+    expiresAt: payload.expiresAt ? Date.parse(payload.expiresAt) : null,
+  });
+  if (localAlertEvents.length > LOCAL_ALERT_MAX_EVENTS) localAlertEvents.shift();
+}
+
+/** Events after `after` the app has not seen; alerts that expired meanwhile are skipped. */
+function localAlertEventsAfter(after) {
+  const now = Date.now();
+  return localAlertEvents
+    .filter((e) => e.seq > after && (e.expiresAt === null || e.expiresAt > now))
+    .map(({ seq, payload }) => ({ seq, payload }));
+}
+
+/** Beacons of this masjid, limited to the portal's screen list when it has one. */
+function sameMasjidPeers() {
+  const now = Date.now();
+  const peers = [];
+  for (const [screenId, peer] of localPeers) {
+    if (now - peer.lastSeen > LOCAL_PEER_TTL_MS) localPeers.delete(screenId);
+    else if (peer.masjidId !== localAlertConfig.masjidId) continue;
+    else if (!localAlertConfig.screenIds || localAlertConfig.screenIds.includes(screenId)) peers.push({ screenId, ...peer });
+  }
+  return peers;
+}
+
+/** Forward an alert to the other screens of this masjid, signed with the relay secret. */
+function relayLocalAlert(payload) {
+  const { relaySecret, screenId, masjidId } = localAlertConfig;
+  if (!relaySecret || !screenId) return 0;
+  const peers = sameMasjidPeers();
+  const body = JSON.stringify({ ...payload, masjidId });
+  for (const peer of peers) {
+    const timestamp = String(Date.now());
+    const nonce = randomBytes(12).toString('hex');
+    fetch(`http://${peer.address}:${peer.port}/local/alert`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [LOCAL_RELAY_HEADER]: screenId,
+        [LOCAL_RELAY_TIME_HEADER]: timestamp,
+        [LOCAL_RELAY_NONCE_HEADER]: nonce,
+        [LOCAL_RELAY_SIGNATURE_HEADER]: relaySignature(screenId, timestamp, nonce, body),
+      },
+      body,
+      signal: AbortSignal.timeout(LOCAL_RELAY_TIMEOUT_MS),
+    })
+      .then((res) => {
+        if (!res.ok) console.warn(`[MasjidConnect] LAN relay to ${peer.screenId} refused: HTTP ${res.status}`);
+      })
+      .catch((e) => console.warn(`[MasjidConnect] LAN relay to ${peer.screenId} failed:`, e.message));
+  }
+  return peers.length;
+}
+
+/** Broadcast this screen's presence and record other screens' beacons. */
+function startLanDiscovery() {
+  const socket = createSocket({ type: 'udp4', reuseAddr: true });
+  socket.on('error', (e) => {
+    console.warn('[MasjidConnect] LAN discovery unavailable:', e.message);
+    socket.close();
+  });
+  socket.on('message', (msg, rinfo) => {
+    let beacon;
+    try {
+      beacon = JSON.parse(msg.toString('utf8'));
+    } catch {
+      return;
+    }
+    if (beacon?.service !== LOCAL_BEACON_SERVICE || typeof beacon.screenId !== 'string') return;
+    if (beacon.screenId === localAlertConfig.screenId) return;
+    localPeers.set(beacon.screenId, {
+      masjidId: typeof beacon.masjidId === 'string' ? beacon.masjidId : null,
+      address: rinfo.address,
+      port: Number(beacon.port) || PORT,
+      lastSeen: Date.now(),
+    });
+  });
+  socket.bind(LOCAL_DISCOVERY_PORT, () => {
+    socket.setBroadcast(true);
+    const announce = () => {
+      const { enabled, masjidId, screenId } = localAlertConfig;
+      if (!enabled || !masjidId || !screenId) return;
+      const beacon = Buffer.from(JSON.stringify({ service: LOCAL_BEACON_SERVICE, masjidId, screenId, port: PORT }));
+      socket.send(beacon, LOCAL_DISCOVERY_PORT, '255.255.255.255', (e) => {
+        if (e) console.warn('[MasjidConnect] LAN beacon failed:', e.message);
+      });
+    };
+    announce();
+    setInterval(announce, LOCAL_BEACON_INTERVAL_MS).unref();
+  });
+}
+
+startLanDiscovery();
+
+// =============================================================================
+// Device status page (GET /status)
+// =============================================================================
+
+/**
+ * Readable health view for installers on site, on any device on the LAN:
+ * version, update state, network, temperature, disk, uptime, and what the app
+ * reports in its liveness pings (WebSocket, last sync, playlist, last errors).
+ * Protected by the screen's LAN alert PIN / token, or STATUS_PIN from the
+ * environment, with the same lockout as POST /local/alert. Offers reload,
+ * cache purge (both carried out by the app on its next ping) and kiosk restart.
+ */
+const STATUS_PIN = process.env.STATUS_PIN || null;
+const STATUS_ACTIONS = ['reload', 'purge', 'restart-kiosk'];
+const STATUS_MAX_BODY = 4 * 1024;
+const CPU_TEMPERATURE_FILE = '/sys/class/thermal/thermal_zone0/temp';
+
+function readJsonFile(file) {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function readCpuTemperature() {
+  try {
+    const milli = parseInt(readFileSync(CPU_TEMPERATURE_FILE, 'utf8'), 10);
+    return Number.isFinite(milli) ? Math.round(milli / 100) / 10 : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Disk holding the install: { totalBytes, usedBytes, availableBytes, usedPercent } or null. */
+function readDiskUsage() {
+  try {
+    const line = execSync(`df -Pk ${JSON.stringify(APP_DIR)}`, { encoding: 'utf8', timeout: 5_000 }).trim().split('\n')[1];
+    const [, total, used, available, percent] = line.split(/\s+/);
+    return {
+      totalBytes: Number(total) * 1024,
+      usedBytes: Number(used) * 1024,
+      availableBytes: Number(available) * 1024,
+      usedPercent: parseInt(percent, 10),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function statusPinConfigured() {
+  return !!(STATUS_PIN || localAlertConfig.pin || localAlertConfig.token);
+}
+
+/** The LAN alert PIN / token (localAlertCredential) or STATUS_PIN. */
+function statusAuthorized(req, body) {
+  if (secretMatches(typeof body.pin === 'string' ? body.pin.trim() : '', STATUS_PIN)) return true;
+  return localAlertCredential(req, body) !== null;
+}
+
+function collectDeviceStatus() {
+  const now = Date.now();
+  const app = watchdog.appStatus || {};
+  let wifi = null;
+  try {
+    wifi = getWifiStatus();
+  } catch (e) {
+    wifi = { state: 'unknown', error: e.message };
+  }
+  return {
+    generatedAt: new Date(now).toISOString(),
+    version: typeof app.version === 'string' ? app.version : readJsonFile(join(APP_DIR, 'package.json'))?.version ?? null,
+    update: { status: readJsonFile(STATUS_FILE), pending: readUpdatePending() },
+    wifi,
+    cpuTemperature: readCpuTemperature(),
+    disk: readDiskUsage(),
+    uptime: { systemSeconds: Math.round(systemUptime()), serverSeconds: Math.round(process.uptime()) },
+    displayPower,
+    app: {
+      lastPingAt: watchdog.lastPingAt ? new Date(watchdog.lastPingAt).toISOString() : null,
+      phase: watchdog.phase,
+      problem: watchdogProblem(now),
+      connected: app.connected === true,
+      lastSyncAt: typeof app.lastSyncAt === 'string' ? app.lastSyncAt : null,
+      playlist: Array.isArray(app.playlist) ? app.playlist.slice(0, 100) : [],
+      lastErrors: Array.isArray(app.lastErrors) ? app.lastErrors.slice(-10) : [],
+    },
+    incidents: watchdogIncidents.slice(-5).reverse(),
+  };
+}
+
+/** Reload / purge are handed to the app on its next ping; a silent app can only be restarted. */
+function runStatusAction(action) {
+  if (action === 'restart-kiosk') {
+    restartKiosk();
+    watchdog.lastPingAt = Date.now();
+    watchdog.tickChangedAt = Date.now();
+    return null;
+  }
+  if (!watchdog.armed || Date.now() - watchdog.lastPingAt > WATCHDOG_PING_TIMEOUT_MS) {
+    return 'The display is not responding; restart the kiosk instead';
+  }
+  watchdog.pendingAction = action;
+  return null;
+}
+
+/** Read a JSON body for POST /status*, check the PIN, then call handler(data, reply). */
+function handleStatusRequest(req, res, handler) {
+  const address = req.socket?.remoteAddress || 'unknown';
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+    if (body.length > STATUS_MAX_BODY) req.destroy();
+  });
+  req.on('end', () => {
+    const reply = (status, data) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+      res.end(JSON.stringify(data));
+    };
+    let data;
+    try {
+      data = JSON.parse(body || '{}');
+    } catch {
+      // handled below
+    }
+    if (!data || typeof data !== 'object') {
+      reply(400, { success: false, error: 'Body must be a JSON object' });
+      return;
+    }
+    if (!statusPinConfigured()) {
+      reply(403, { success: false, error: 'No PIN set for this screen (LAN alert PIN in the portal, or STATUS_PIN)' });
+      return;
+    }
+    if (isLockedOut(address)) {
+      reply(429, { success: false, error: 'Too many wrong PINs, try again in a few minutes' });
+      return;
+    }
+    if (!statusAuthorized(req, data)) {
+      recordAuthFailure(address);
+      reply(401, { success: false, error: 'Wrong PIN' });
+      return;
+    }
+    localAuthFailures.delete(address);
+    handler(data, reply, address);
+  });
+}
+
+/** Mobile form served at GET /local/alert. */
+const LOCAL_ALERT_FORM_HTML = `<!DOCTYPE html>
+<html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">
+<title>MasjidConnect — Send alert</title>
+<style>
+  body{margin:0;padding:1.25rem;font-family:system-ui,sans-serif;background:#0A2647;color:#eee}
+  h1{font-size:1.3rem;margin:0 0 1rem}
+  label{display:block;margin:.9rem 0 .3rem;font-size:.9rem;opacity:.8}
+  input,select,textarea{width:100%;box-sizing:border-box;padding:.7rem;border-radius:.5rem;border:1px solid #345;background:#12335c;color:#fff;font-size:1rem}
+  textarea{min-height:5rem}
+  .row{display:flex;gap:.75rem}.row>div{flex:1}
+  button{width:100%;margin-top:1.2rem;padding:.9rem;border:0;border-radius:.5rem;font-size:1.05rem;font-weight:700}
+  #send{background:#D4AF37;color:#0A2647}#clear{background:transparent;color:#eee;border:1px solid #567}
+  #result{margin-top:1rem;min-height:1.5rem;font-weight:600}
+</style></head><body>
+<h1>Send alert to the screens</h1>
+<form id="f">
+  <label for="pin">PIN</label><input id="pin" type="password" inputmode="numeric" autocomplete="off" required>
+  <label for="title">Title</label><input id="title" maxlength="120" placeholder="Please move your vehicle">
+  <label for="message">Message</label><textarea id="message" maxlength="600"></textarea>
+  <div class="row">
+    <div><label for="category">Category</label><select id="category">
+      <option value="safety">Safety</option><option value="facility">Facility</option>
+      <option value="vehicle">Vehicle</option><option value="janazah">Janazah</option>
+      <option value="schedule">Schedule</option><option value="community" selected>Community</option>
+    </select></div>
+    <div><label for="urgency">Urgency</label><select id="urgency">
+      <option value="critical">Critical</option><option value="high" selected>High</option><option value="medium">Medium</option>
+    </select></div>
+  </div>
+  <label for="minutes">Show for (minutes)</label><input id="minutes" type="number" min="1" max="${LOCAL_ALERT_MAX_MINUTES}" value="${LOCAL_ALERT_DEFAULT_MINUTES}">
+  <button id="send" type="submit">Send alert</button>
+  <button id="clear" type="button">Clear all alerts</button>
+</form>
+<div id="result" role="status"></div>
+<script>
+  var $ = function (id) { return document.getElementById(id); };
+  function send(body) {
+    body.pin = $('pin').value;
+    $('result').textContent = 'Sending…';
+    fetch('/local/alert', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
+      .then(function (r) { return r.json(); })
+      .then(function (d) {
+        $('result').textContent = d.success
+          ? (body.action === 'clear' ? 'Alerts cleared' : 'Alert sent') + (d.relayedTo ? ' (and ' + d.relayedTo + ' other screen' + (d.relayedTo > 1 ? 's' : '') + ')' : '')
+          : 'Not sent: ' + d.error;
+      })
+      .catch(function (e) { $('result').textContent = 'Not sent: ' + e.message; });
+  }
+  $('f').addEventListener('submit', function (e) {
+    e.preventDefault();
+    send({ title: $('title').value, message: $('message').value, category: $('category').value,
+      urgency: $('urgency').value, durationMinutes: Number($('minutes').value) });
+  });
+  $('clear').addEventListener('click', function () { send({ action: 'clear' }); });
+</script>
+</body></html>`;
+
+/** Installer page served at GET /status (data from POST /status). */
+const STATUS_PAGE_HTML = `<!DOCTYPE html>
+<html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">
+<title>MasjidConnect — Screen status</title>
+<style>
+  body{margin:0;padding:1.25rem;font-family:system-ui,sans-serif;background:#0A2647;color:#eee}
+  h1{font-size:1.3rem;margin:0 0 1rem}h2{font-size:1rem;margin:1.4rem 0 .5rem;color:#D4AF37}
+  input{width:100%;box-sizing:border-box;padding:.7rem;border-radius:.5rem;border:1px solid #345;background:#12335c;color:#fff;font-size:1rem}
+  button{padding:.8rem 1rem;border:0;border-radius:.5rem;font-size:1rem;font-weight:700;background:#D4AF37;color:#0A2647}
+  .actions{display:flex;flex-wrap:wrap;gap:.6rem}.actions button{flex:1;min-width:8rem}
+  .secondary{background:transparent;color:#eee;border:1px solid #567}
+  dl{display:grid;grid-template-columns:minmax(7rem,auto) 1fr;gap:.35rem .9rem;margin:0}
+  dt{opacity:.7}dd{margin:0;word-break:break-word}
+  ul{margin:0;padding-left:1.2rem}li{margin:.2rem 0}
+  pre{white-space:pre-wrap;word-break:break-all;font-size:.8rem;background:#12335c;padding:.6rem;border-radius:.5rem;margin:0}
+  .bad{color:#ff8a80}.ok{color:#9be7a1}
+  #result{margin-top:1rem;min-height:1.5rem;font-weight:600}
+</style></head><body>
+<h1>Screen status</h1>
+<form id="login">
+  <input id="pin" type="password" inputmode="numeric" autocomplete="off" placeholder="PIN" required>
+  <button type="submit" style="margin-top:.8rem;width:100%">Show status</button>
+</form>
+<div id="status" hidden>
+  <div class="actions">
+    <button data-action="reload">Reload</button>
+    <button data-action="purge" class="secondary">Purge cache</button>
+    <button data-action="restart-kiosk" class="secondary">Restart kiosk</button>
+  </div>
+  <div id="body"></div>
+</div>
+<div id="result" role="status"></div>
+<script>
+  var $ = function (id) { return document.getElementById(id); };
+  var pin = '';
+  var timer = null;
+  function el(tag, text, cls) {
+    var e = document.createElement(tag);
+    if (text != null) e.textContent = String(text);
+    if (cls) e.className = cls;
+    return e;
+  }
+  function ago(iso) {
+    if (!iso) return 'never';
+    var s = Math.round((Date.now() - new Date(iso).getTime()) / 1000);
+    return s < 90 ? s + ' s ago' : s < 5400 ? Math.round(s / 60) + ' min ago' : Math.round(s / 3600) + ' h ago';
+  }
+  function duration(seconds) {
+    var d = Math.floor(seconds / 86400), h = Math.floor(seconds % 86400 / 3600), m = Math.floor(seconds % 3600 / 60);
+    return (d ? d + ' d ' : '') + h + ' h ' + m + ' min';
+  }
+  function gb(bytes) { return (bytes / 1e9).toFixed(1) + ' GB'; }
+  function section(title, rows) {
+    var frag = document.createDocumentFragment();
+    frag.appendChild(el('h2', title));
+    var dl = el('dl');
+    rows.forEach(function (row) {
+      dl.appendChild(el('dt', row[0]));
+      var dd = el('dd', row[1], row[2]);
+      dl.appendChild(dd);
+    });
+    frag.appendChild(dl);
+    return frag;
+  }
+  function list(title, items, empty) {
+    var frag = document.createDocumentFragment();
+    frag.appendChild(el('h2', title));
+    if (!items.length) { frag.appendChild(el('p', empty)); return frag; }
+    var ul = el('ul');
+    items.forEach(function (item) { ul.appendChild(el('li', item)); });
+    frag.appendChild(ul);
+    return frag;
+  }
+  function render(s) {
+    var body = $('body');
+    body.textContent = '';
+    var update = s.update.status || {};
+    var app = s.app;
+    body.appendChild(section('Device', [
+      ['Version', s.version || 'unknown'],
+      ['Update', (update.phase || 'idle') + (update.message ? ' — ' + update.message : '') + (s.update.pending ? ' (v' + s.update.pending.version + ' awaiting boot check)' : '')],
+      ['CPU temperature', s.cpuTemperature == null ? 'unknown' : s.cpuTemperature + ' °C', s.cpuTemperature >= 80 ? 'bad' : ''],
+      ['Disk', s.disk ? gb(s.disk.usedBytes) + ' of ' + gb(s.disk.totalBytes) + ' (' + s.disk.usedPercent + '%)' : 'unknown', s.disk && s.disk.usedPercent >= 90 ? 'bad' : ''],
+      ['Uptime', duration(s.uptime.systemSeconds) + ' (server ' + duration(s.uptime.serverSeconds) + ')'],
+      ['Screen power', s.displayPower.state],
+    ]));
+    var wifi = s.wifi || {};
+    body.appendChild(section('Network', [
+      ['Wi-Fi', wifi.state === 'connected' ? wifi.ssid + ' (' + wifi.signal + '%)' : wifi.state || 'unknown', wifi.state === 'connected' || wifi.ethernetConnected ? 'ok' : 'bad'],
+      ['Ethernet', wifi.ethernetConnected ? 'connected ' + (wifi.ethernetIp || '') : 'not connected'],
+      ['IP address', wifi.ip || wifi.ethernetIp || 'none'],
+    ]));
+    body.appendChild(section('App', [
+      ['Screen', app.phase || 'unknown', app.problem ? 'bad' : 'ok'],
+      ['Health', app.problem || 'OK', app.problem ? 'bad' : 'ok'],
+      ['Last ping', ago(app.lastPingAt)],
+      ['WebSocket', app.connected ? 'connected' : 'disconnected', app.connected ? 'ok' : 'bad'],
+      ['Last content sync', ago(app.lastSyncAt)],
+    ]));
+    body.appendChild(list('Playlist', app.playlist.map(function (item) {
+      return item.title + (item.type ? ' (' + item.type + ')' : '');
+    }), 'Nothing scheduled'));
+    body.appendChild(list('Last errors', app.lastErrors.slice().reverse(), 'None'));
+    body.appendChild(list('Recoveries', s.incidents.map(function (i) {
+      return ago(i.at) + ': ' + i.reason + ' → ' + i.action;
+    }), 'None'));
+    body.appendChild(el('p', 'Updated ' + new Date(s.generatedAt).toLocaleTimeString()));
+  }
+  function post(path, body) {
+    body.pin = pin;
+    return fetch(path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
+      .then(function (r) { return r.json(); });
+  }
+  function refresh() {
+    return post('/status', {}).then(function (d) {
+      if (!d.success) throw new Error(d.error);
+      $('login').hidden = true;
+      $('status').hidden = false;
+      render(d.status);
+    });
+  }
+  $('login').addEventListener('submit', function (e) {
+    e.preventDefault();
+    pin = $('pin').value;
+    $('result').textContent = 'Loading…';
+    refresh().then(function () {
+      $('result').textContent = '';
+      clearInterval(timer);
+      timer = setInterval(function () { refresh().catch(function () {}); }, 15000);
+    }).catch(function (err) { $('result').textContent = err.message; });
+  });
+  Array.prototype.forEach.call(document.querySelectorAll('[data-action]'), function (button) {
+    button.addEventListener('click', function () {
+      var action = button.getAttribute('data-action');
+      if (!confirm(button.textContent + ' the screen?')) return;
+      post('/status/action', { action: action })
+        .then(function (d) { $('result').textContent = d.success ? button.textContent + ' requested' : d.error; })
+        .catch(function (err) { $('result').textContent = err.message; });
+    });
+  });
+</script>
+</body></html>`;
+
 /** Serve a static file from dist/ */
 function serveFile(res, filePath) {
   if (!existsSync(filePath)) return false;
@@ -326,6 +1349,105 @@ const server = createServer((req, res) => {
     return;
   }
 
+  // LAN emergency trigger (any client on the network, PIN / token protected)
+  if (pathname === '/local/alert' && req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+    res.end(LOCAL_ALERT_FORM_HTML);
+    return;
+  }
+  if (pathname === '/local/alert' && req.method === 'POST') {
+    const address = req.socket?.remoteAddress || 'unknown';
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > LOCAL_ALERT_MAX_BODY) req.destroy();
+    });
+    req.on('end', () => {
+      const reply = (status, data) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+      let data;
+      try {
+        data = JSON.parse(body || '{}');
+      } catch {
+        reply(400, { success: false, error: 'Body must be JSON' });
+        return;
+      }
+      if (!data || typeof data !== 'object') {
+        reply(400, { success: false, error: 'Body must be a JSON object' });
+        return;
+      }
+      if (!localAlertConfig.enabled) {
+        reply(403, { success: false, error: 'LAN alerts are switched off for this screen' });
+        return;
+      }
+      // Relays are checked apart from PIN attempts: a signature cannot be guessed, and a peer
+      // with a stale relay secret must not lock out staff entering PINs from the same address
+      const relayed = typeof req.headers[LOCAL_RELAY_HEADER] === 'string';
+      if (relayed) {
+        const relayError = verifyLocalRelay(req, body);
+        if (relayError) {
+          console.warn(`[MasjidConnect] LAN relay from ${address} refused: ${relayError}`);
+          reply(401, { success: false, error: relayError });
+          return;
+        }
+      } else {
+        if (isLockedOut(address)) {
+          reply(429, { success: false, error: 'Too many wrong PINs, try again in a few minutes' });
+          return;
+        }
+        if (!localAlertCredential(req, data)) {
+          recordAuthFailure(address);
+          reply(401, { success: false, error: 'Wrong PIN' });
+          return;
+        }
+        localAuthFailures.delete(address);
+      }
+      if (relayed && data.masjidId !== localAlertConfig.masjidId) {
+        reply(403, { success: false, error: 'Alert is for another masjid' });
+        return;
+      }
+      const { payload, error } = buildLocalAlertPayload(data);
+      if (!payload) {
+        reply(400, { success: false, error });
+        return;
+      }
+      queueLocalAlert(payload);
+      const relayedTo = relayed ? 0 : relayLocalAlert(payload);
+      console.log(`[MasjidConnect] LAN alert ${payload.action === 'clear' ? 'clear' : payload.id} from ${relayed ? 'relay' : address}`);
+      reply(202, { success: true, id: payload.id ?? null, relayedTo });
+    });
+    return;
+  }
+
+  // Device status page (any client on the network, PIN / token protected)
+  if (pathname === '/status' && req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+    res.end(STATUS_PAGE_HTML);
+    return;
+  }
+  if (pathname === '/status' && req.method === 'POST') {
+    handleStatusRequest(req, res, (_data, reply) => reply(200, { success: true, status: collectDeviceStatus() }));
+    return;
+  }
+  if (pathname === '/status/action' && req.method === 'POST') {
+    handleStatusRequest(req, res, (data, reply, address) => {
+      if (!STATUS_ACTIONS.includes(data.action)) {
+        reply(400, { success: false, error: `action must be one of ${STATUS_ACTIONS.join(', ')}` });
+        return;
+      }
+      const error = runStatusAction(data.action);
+      if (error) {
+        reply(409, { success: false, error });
+        return;
+      }
+      console.log(`[MasjidConnect] Status page: ${data.action} from ${address}`);
+      reply(202, { success: true, action: data.action });
+    });
+    return;
+  }
+
   // Internal routes (localhost-only) for self-update
   if (isLocalhost(req.socket)) {
     if (pathname === '/internal/trigger-update' && req.method === 'POST') {
@@ -334,25 +1456,165 @@ const server = createServer((req, res) => {
         res.end(JSON.stringify({ success: false, error: 'Update script not found' }));
         return;
       }
-      try {
-        // Write "checking" immediately so the first poll never sees a stale "no_update" from a previous run
-        writeFileSync(STATUS_FILE, JSON.stringify({ phase: 'checking', message: 'Checking for update…' }), 'utf8');
-        // Run with bash explicitly so the script runs even if execute bit is missing after tarball extract
-        const child = spawn('sudo', ['bash', UPDATE_SCRIPT], {
-          detached: true,
-          stdio: 'ignore',
-          cwd: APP_DIR,
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        // Update channel: { channel: 'stable' | 'beta' | 'pinned', version? } (empty body = stable)
+        let channel = 'stable';
+        let version;
+        try {
+          ({ channel = 'stable', version } = JSON.parse(body || '{}'));
+        } catch {
+          // handled below
+        }
+        if (!UPDATE_CHANNELS.includes(channel)) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: false, error: 'channel must be "stable", "beta" or "pinned"' }));
+          return;
+        }
+        if (channel === 'pinned' && (typeof version !== 'string' || !RELEASE_VERSION.test(version.replace(/^v/, '')))) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: false, error: 'pinned channel needs a semver version' }));
+          return;
+        }
+        const args = ['bash', UPDATE_SCRIPT, '--channel', channel];
+        if (channel === 'pinned') args.push('--version', version.replace(/^v/, ''));
+        try {
+          // Write "checking" immediately so the first poll never sees a stale "no_update" from a previous run
+          writeFileSync(STATUS_FILE, JSON.stringify({ phase: 'checking', message: 'Checking for update…' }), 'utf8');
+          // Run with bash explicitly so the script runs even if execute bit is missing after tarball extract
+          const child = spawn('sudo', args, {
+            detached: true,
+            stdio: 'ignore',
+            cwd: APP_DIR,
+          });
+          child.unref();
+        } catch (err) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: false, error: String(err.message) }));
+          return;
+        }
+        res.writeHead(202, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: true, message: 'Update started', channel }));
+      });
+      return;
+    }
+    if (pathname === '/internal/boot-ok' && req.method === 'POST') {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        let version;
+        try {
+          ({ version } = JSON.parse(body || '{}'));
+        } catch {
+          // no version — confirms whatever is pending
+        }
+        const pending = readUpdatePending();
+        // The old app may still be running until the countdown reload: only the new version confirms
+        const confirmed = !!pending && (typeof version !== 'string' || version === pending.version);
+        if (confirmed) {
+          rmSync(UPDATE_PENDING_FILE, { force: true });
+          console.log(`[MasjidConnect] v${pending.version} confirmed boot`);
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: true, confirmed, pending: !!pending && !confirmed }));
+      });
+      return;
+    }
+
+    if (pathname === '/internal/local-alert-config' && req.method === 'POST') {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        let data = {};
+        try {
+          data = JSON.parse(body || '{}') || {};
+        } catch {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: false, error: 'Body must be JSON' }));
+          return;
+        }
+        const text = (value) => (typeof value === 'string' && value ? value : null);
+        saveLocalAlertConfig({
+          enabled: data.enabled === true,
+          pin: text(data.pin),
+          token: text(data.token),
+          masjidId: text(data.masjidId),
+          screenId: text(data.screenId),
+          relaySecret: text(data.relaySecret),
+          screenIds: Array.isArray(data.screenIds) ? data.screenIds.filter((id) => typeof id === 'string' && id) : null,
         });
-        child.unref();
-      } catch (err) {
-        res.writeHead(500, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ success: false, error: String(err.message) }));
-        return;
-      }
-      res.writeHead(202, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ success: true, message: 'Update started' }));
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: true, enabled: localAlertConfig.enabled }));
+      });
       return;
     }
+    if (pathname === '/internal/local-alerts' && req.method === 'GET') {
+      const after = parseInt(url.searchParams.get('after') || '0', 10) || 0;
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+      res.end(JSON.stringify({ bootId: LOCAL_BOOT_ID, seq: localAlertSeq, events: localAlertEventsAfter(after) }));
+      return;
+    }
+    if (pathname === '/internal/liveness' && req.method === 'POST') {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+        if (body.length > WATCHDOG_MAX_BODY) req.destroy();
+      });
+      req.on('end', () => {
+        let data;
+        try {
+          data = JSON.parse(body || '{}');
+        } catch {
+          // handled below
+        }
+        if (!data || typeof data !== 'object') {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: false, error: 'Body must be a JSON object' }));
+          return;
+        }
+        const action = handleLivenessPing(data);
+        res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+        res.end(JSON.stringify({ action, incidents: unreportedWatchdogIncidents() }));
+      });
+      return;
+    }
+    if (pathname === '/internal/watchdog/ack' && req.method === 'POST') {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        let ids = [];
+        try {
+          ({ ids = [] } = JSON.parse(body || '{}'));
+        } catch {
+          // handled below
+        }
+        if (!Array.isArray(ids)) ids = [];
+        let acked = 0;
+        for (const incident of watchdogIncidents) {
+          if (!incident.reported && ids.includes(incident.id)) {
+            incident.reported = true;
+            acked += 1;
+          }
+        }
+        if (acked) saveWatchdogIncidents();
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: true, acked }));
+      });
+      return;
+    }
+    if (pathname === '/internal/watchdog' && req.method === 'GET') {
+      const { logTail: _, appStatus: __, ...state } = watchdog;
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+      res.end(JSON.stringify({ ...state, problem: watchdogProblem(Date.now()), incidents: watchdogIncidents }));
+      return;
+    }
+    if (pathname === '/internal/local-peers' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ peers: sameMasjidPeers() }));
+      return;
+    }
+
     if (pathname === '/internal/wifi-recovery-status' && req.method === 'GET') {
       const hotspotActive = existsSync(WIFI_HOTSPOT_ACTIVE_MARKER);
       res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -376,6 +1638,81 @@ const server = createServer((req, res) => {
       }
       return;
     }
+    if (pathname === '/internal/screenshot' && req.method === 'GET') {
+      try {
+        const { png, tool } = captureScreenshot();
+        res.writeHead(200, {
+          'Content-Type': 'image/png',
+          'Cache-Control': 'no-store',
+          'X-Capture-Tool': tool,
+        });
+        res.end(png);
+      } catch (e) {
+        res.writeHead(503, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: false, error: e.message }));
+      }
+      return;
+    }
+    if (pathname === '/internal/display-power' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(displayPower));
+      return;
+    }
+
+    if (pathname === '/internal/display-power' && req.method === 'POST') {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        let state;
+        try {
+          ({ state } = JSON.parse(body || '{}'));
+        } catch {
+          // handled below
+        }
+        if (state !== 'on' && state !== 'off') {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: false, error: 'state must be "on" or "off"' }));
+          return;
+        }
+        try {
+          const tool = setDisplayPower(state === 'on');
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: true, state, tool }));
+        } catch (e) {
+          res.writeHead(503, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: false, error: e.message }));
+        }
+      });
+      return;
+    }
+
+    if (pathname === '/internal/display-brightness' && req.method === 'POST') {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        let level;
+        try {
+          ({ level } = JSON.parse(body || '{}'));
+        } catch {
+          // handled below
+        }
+        if (typeof level !== 'number' || !Number.isFinite(level) || level < 0 || level > 100) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: false, error: 'level must be a number 0–100' }));
+          return;
+        }
+        try {
+          const tool = setDisplayBrightness(Math.round(level));
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: true, level: Math.round(level), tool }));
+        } catch (e) {
+          res.writeHead(503, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: false, error: e.message }));
+        }
+      });
+      return;
+    }
+
     // =========================================================================
     // WiFi management endpoints (NetworkManager via nmcli)
     // =========================================================================
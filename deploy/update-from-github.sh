@@ -2,18 +2,32 @@
 # =============================================================================
 # MasjidConnect Display — Self-update from GitHub release
 #
-# Downloads the latest release tarball from GitHub, extracts dist/ and deploy/,
-# then restarts the app. Writes status to .update-status.json for the UI.
-# Phases: checking -> no_update | downloading -> installing -> countdown -> done
+# Downloads the latest release tarball from GitHub, verifies its checksum (and
+# signature, when a release key is installed), stages it in releases/<version>
+# and switches the `current` symlink (see release-lib.sh). Writes status to
+# .update-status.json for the UI.
+# Phases: checking -> no_update | downloading -> verifying -> failed
+#         | installing -> countdown -> done
+# After the switch, server.mjs waits for the new app to POST /internal/boot-ok;
+# if it never does, the server runs this script with --rollback (phase rolled_back).
 # Run with sudo so systemctl restart works. Invoked by Node server on FORCE_UPDATE.
 #
-# Usage: sudo /opt/masjidconnect/deploy/update-from-github.sh
+# Channels: stable (default) = highest full release; beta = highest release
+# including prereleases; pinned = exactly --version (may downgrade). stable and
+# beta only ever move forward from the running version. A pin that cannot be
+# installed (no tarball, predates checksums on a device with a signing key, rolled
+# back before, download failed) ends in phase failed with the pinned version.
+#
+# Usage: sudo /opt/masjidconnect/deploy/update-from-github.sh [--channel stable|beta|pinned] [--version X.Y.Z]
+#        sudo /opt/masjidconnect/deploy/update-from-github.sh --rollback "<reason>"
 # =============================================================================
 
 set -euo pipefail
 
 SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
-APP_DIR="$(cd "${SCRIPT_DIR}/.." && pwd)"
+# shellcheck source=release-lib.sh
+source "${SCRIPT_DIR}/release-lib.sh"
+APP_DIR="$(resolve_app_dir "$SCRIPT_DIR")"
 STATUS_FILE="${APP_DIR}/.update-status.json"
 DEBUG_LOG="/tmp/masjidconnect-update-debug.log"
 GITHUB_OWNER="tahmidhoque"
@@ -27,24 +41,77 @@ CURL_AUTH=()
 
 debug() { echo "$(date -Iseconds) $*" >> "$DEBUG_LOG" 2>/dev/null || true; }
 
+TARGET_VERSION=""
+
 write_status() {
   local phase="$1"
   local message="${2:-}"
   local restart_at="${3:-}"
-  local payload
+  local payload extra=""
+  # Release the channel resolved to, reported in the heartbeat by the app
+  [ -n "$TARGET_VERSION" ] && extra=$(printf ',"targetVersion":"%s"' "$TARGET_VERSION")
   if [ -n "$restart_at" ]; then
-    payload=$(printf '{"phase":"%s","message":"%s","restartAt":%s}' "$phase" "$message" "$restart_at")
+    payload=$(printf '{"phase":"%s","message":"%s","restartAt":%s%s}' "$phase" "$message" "$restart_at" "$extra")
   else
-    payload=$(printf '{"phase":"%s","message":"%s"}' "$phase" "$message")
+    payload=$(printf '{"phase":"%s","message":"%s"%s}' "$phase" "$message" "$extra")
   fi
   echo "$payload" > "$STATUS_FILE"
   chown "${SUDO_UID:-1000}:${SUDO_GID:-1000}" "$STATUS_FILE" 2>/dev/null || true
 }
 
-# Fetch releases and pick the one with highest semver (so v1.0.2 is used over v1.0.1).
-# /releases/latest only returns the most recently **published** full release and excludes pre-releases.
+# Status with the reason the update was rejected or undone (shown in the UI).
+write_failure_status() {
+  local phase="$1" message="$2" reason="$3" version="${4:-}"
+  reason=${reason//\"/\'}
+  printf '{"phase":"%s","message":"%s","reason":"%s","version":"%s","at":%s}\n' \
+    "$phase" "$message" "$reason" "$version" "$(($(date +%s) * 1000))" > "$STATUS_FILE"
+  chown "${SUDO_UID:-1000}:${SUDO_GID:-1000}" "$STATUS_FILE" 2>/dev/null || true
+}
+
+# --rollback: called by server.mjs when the new release never confirmed boot.
+if [ "${1:-}" = "--rollback" ]; then
+  reason="${2:-No boot confirmation}"
+  debug "rollback requested: $reason"
+  rm -f "${APP_DIR}/${UPDATE_PENDING_FILE_NAME}"
+  if ! result=$(rollback_release); then
+    write_failure_status "failed" "Rollback not possible" "$reason — no previous release" "$(current_release_version)"
+    exit 1
+  fi
+  failed_version=${result% *}
+  restored_version=${result#* }
+  write_failure_status "rolled_back" "Rolled back to v${restored_version}" "$reason" "$failed_version"
+  # Reload the kiosk on the restored build; restart the server last (it is our parent's service)
+  systemctl restart masjidconnect-kiosk.service 2>/dev/null || true
+  systemctl restart --no-block masjidconnect-display.service 2>/dev/null || true
+  exit 0
+fi
+
+UPDATE_CHANNEL="stable"
+PINNED_VERSION=""
+while [ $# -gt 0 ]; do
+  case "$1" in
+    --channel) UPDATE_CHANNEL="${2:-stable}"; shift 2 ;;
+    --version) PINNED_VERSION="${2#v}"; shift 2 ;;
+    *) shift ;;
+  esac
+done
+case "$UPDATE_CHANNEL" in
+  stable|beta|pinned) ;;
+  *) UPDATE_CHANNEL="stable" ;;
+esac
+if [ "$UPDATE_CHANNEL" = "pinned" ] && [ -z "$PINNED_VERSION" ]; then
+  UPDATE_CHANNEL="stable"
+fi
+debug "update check: channel=${UPDATE_CHANNEL} pinned=${PINNED_VERSION}"
+
+# Fetch releases and pick the one the channel asks for (highest semver, so v1.0.2 is used
+# over v1.0.1). /releases/latest only returns the most recently **published** full release
+# and excludes pre-releases, so it cannot serve beta or pinned.
 write_status "checking" "Checking for update…"
 
+migrate_legacy_layout
+running_version=$(current_release_version)
+
 tmp_dir=$(mktemp -d)
 trap 'rm -rf "$tmp_dir"' EXIT
 resp_file="${tmp_dir}/releases.json"
@@ -57,56 +124,132 @@ curl -sS -f -L -o "$resp_file" "${CURL_AUTH[@]}" "https://api.github.com/repos/$
   exit 0
 }
 
-# Parse releases: find those with tarball asset, sort by semver desc, output first tag + asset URL
-parsed=$(RESP_FILE="$resp_file" node -e "
+# Parse releases: find those with tarball asset, pick by channel, output tag, asset URLs
+# and whether to install ("install") or stay ("current")
+parsed=$(RESP_FILE="$resp_file" UPDATE_CHANNEL="$UPDATE_CHANNEL" PINNED_VERSION="$PINNED_VERSION" \
+  RUNNING_VERSION="$running_version" node -e "
 const fs = require('fs');
 const j = JSON.parse(fs.readFileSync(process.env.RESP_FILE, 'utf8'));
 if (!Array.isArray(j) || j.length === 0) process.exit(0);
-const withAsset = j.filter(r => {
-  const tag = (r.tag_name || '').trim();
-  if (!tag) return false;
-  const a = (r.assets || []).find(x => x.name && x.name.startsWith('masjidconnect-display-') && x.name.endsWith('.tar.gz'));
-  return !!a;
-}).map(r => {
-  const tag = (r.tag_name || '').replace(/^v/, '');
-  const a = (r.assets || []).find(x => x.name && x.name.startsWith('masjidconnect-display-') && x.name.endsWith('.tar.gz'));
-  return { tag, version: tag, url: a ? a.browser_download_url : '' };
-}).filter(x => x.url);
-
-const semver = (v) => {
-  const m = (v + '').match(/^(\\d+)\\.(\\d+)\\.(\\d+)(?:-(.+))?$/);
-  if (!m) return [0,0,0,0];
-  return [parseInt(m[1],10), parseInt(m[2],10), parseInt(m[3],10), (m[4] || '').localeCompare('')];
+const channel = process.env.UPDATE_CHANNEL;
+
+// Semver precedence: numeric core, then a release ranks above its prereleases
+const parse = (v) => {
+  const m = String(v).match(/^(\\d+)\\.(\\d+)\\.(\\d+)(?:-([0-9A-Za-z.-]+))?$/);
+  return m ? { core: [+m[1], +m[2], +m[3]], pre: m[4] ? m[4].split('.') : [] } : null;
 };
-withAsset.sort((a, b) => {
-  const va = semver(a.version), vb = semver(b.version);
-  for (let i = 0; i < 4; i++) {
-    if (va[i] !== vb[i]) return (typeof vb[i] === 'number' ? vb[i] - va[i] : va[i] - vb[i]);
+const compare = (a, b) => {
+  for (let i = 0; i < 3; i++) if (a.core[i] !== b.core[i]) return a.core[i] - b.core[i];
+  if (!a.pre.length || !b.pre.length) return b.pre.length - a.pre.length;
+  for (let i = 0; i < Math.max(a.pre.length, b.pre.length); i++) {
+    const x = a.pre[i], y = b.pre[i];
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    const nx = /^\\d+$/.test(x), ny = /^\\d+$/.test(y);
+    if (nx && ny && +x !== +y) return +x - +y;
+    if (nx !== ny) return nx ? -1 : 1;
+    if (x !== y) return x < y ? -1 : 1;
   }
   return 0;
-});
-const best = withAsset[0];
+};
+
+const withAsset = j.filter(r => !r.draft && (r.tag_name || '').trim()).map(r => {
+  const tag = (r.tag_name || '').replace(/^v/, '');
+  const assets = r.assets || [];
+  const a = assets.find(x => x.name && x.name.startsWith('masjidconnect-display-') && x.name.endsWith('.tar.gz'));
+  const sum = a && assets.find(x => x.name === a.name + '.sha256');
+  const sig = a && assets.find(x => x.name === a.name + '.sig');
+  const semver = parse(tag);
+  return {
+    tag, semver, prerelease: !!r.prerelease || !!(semver && semver.pre.length),
+    url: a ? a.browser_download_url : '',
+    sha256Url: sum ? sum.browser_download_url : '', sigUrl: sig ? sig.browser_download_url : '',
+  };
+}).filter(x => x.url && x.semver);
+
+let best;
+if (channel === 'pinned') {
+  best = withAsset.find(r => r.tag === process.env.PINNED_VERSION);
+} else {
+  best = withAsset
+    .filter(r => channel === 'beta' || !r.prerelease)
+    .sort((a, b) => compare(b.semver, a.semver))[0];
+}
 if (best) {
+  const running = parse(process.env.RUNNING_VERSION);
+  const install = channel === 'pinned'
+    ? best.tag !== process.env.RUNNING_VERSION
+    : !running || compare(best.semver, running) > 0;
   console.log(best.tag);
   console.log(best.url);
+  console.log(best.sha256Url);
+  console.log(best.sigUrl);
+  console.log(install ? 'install' : 'current');
 }
 " 2>/dev/null) || true
 latest_tag=$(echo "$parsed" | sed -n '1p')
 asset_url=$(echo "$parsed" | sed -n '2p')
+sha256_url=$(echo "$parsed" | sed -n '3p')
+sig_url=$(echo "$parsed" | sed -n '4p')
+action=$(echo "$parsed" | sed -n '5p')
 
 if [ -z "$latest_tag" ] || [ -z "$asset_url" ]; then
+  if [ "$UPDATE_CHANNEL" = "pinned" ]; then
+    write_failure_status "failed" "Update not found" "pinned v${PINNED_VERSION} has no release tarball" "$PINNED_VERSION"
+    exit 1
+  fi
   write_status "no_update" "Up to date"
   exit 0
 fi
 
+TARGET_VERSION="$latest_tag"
+if [ "$action" != "install" ]; then
+  write_status "no_update" "Up to date"
+  exit 0
+fi
+if is_rejected_release "$latest_tag"; then
+  debug "v${latest_tag} was rolled back on this device; skipping"
+  if [ "$UPDATE_CHANNEL" = "pinned" ]; then
+    write_failure_status "failed" "Update skipped" "pinned v${latest_tag} was rolled back on this device" "$latest_tag"
+    exit 1
+  fi
+  write_status "no_update" "Up to date"
+  exit 0
+fi
+
+# Releases from before checksums were published: refused up front where signatures are required
+# (see Transition in release-lib.sh), instead of failing verification after the download
+if [ "$UPDATE_CHANNEL" = "pinned" ] && [ -z "$sha256_url" ] && [ -n "$(release_public_key)" ]; then
+  write_failure_status "failed" "Update rejected" "pinned v${latest_tag} predates checksummed releases and this device requires signed releases" "$latest_tag"
+  exit 1
+fi
+
 write_status "downloading" "Downloading update…"
 
 tar_path="${tmp_dir}/masjidconnect-display.tar.gz"
+sha256_path="${tar_path}.sha256"
+sig_path="${tar_path}.sig"
 
-curl -sS -f -L -o "$tar_path" "${CURL_AUTH[@]}" "$asset_url" 2>/dev/null || {
+# A published checksum that fails to download aborts like the tarball (never "unverified")
+if ! curl -sS -f -L -o "$tar_path" "${CURL_AUTH[@]}" "$asset_url" 2>/dev/null \
+  || { [ -n "$sha256_url" ] && ! curl -sS -f -L -o "$sha256_path" "${CURL_AUTH[@]}" "$sha256_url" 2>/dev/null; }; then
+  if [ "$UPDATE_CHANNEL" = "pinned" ]; then
+    write_failure_status "failed" "Download failed" "could not download pinned v${latest_tag}" "$latest_tag"
+    exit 1
+  fi
   write_status "no_update" "Up to date"
   exit 0
-}
+fi
+[ -n "$sig_url" ] && curl -sS -f -L -o "$sig_path" "${CURL_AUTH[@]}" "$sig_url" 2>/dev/null || true
+
+write_status "verifying" "Verifying update…"
+
+if ! reason=$(verify_release_asset "$tar_path" "${sha256_url:+$sha256_path}" "$sig_path"); then
+  debug "v${latest_tag} rejected: $reason"
+  write_failure_status "failed" "Update rejected" "$reason" "$latest_tag"
+  exit 1
+fi
+[ -n "$reason" ] && debug "v${latest_tag} warning: $reason"
 
 write_status "installing" "Installing…"
 
@@ -118,26 +261,21 @@ tar -xzf "$tar_path" -C "$extract_dir"
 src_root="$extract_dir"
 [ -d "${extract_dir}/dist" ] || src_root=$(find "$extract_dir" -maxdepth 2 -type d -name dist 2>/dev/null | head -1 | xargs dirname)
 if [ -z "$src_root" ] || [ ! -d "${src_root}/dist" ]; then
-  write_status "no_update" "Up to date"
-  exit 0
+  write_failure_status "failed" "Update rejected" "archive has no dist/" "$latest_tag"
+  exit 1
 fi
 
-# Replace dist/ and deploy/ (and package.json)
-cp -a "${APP_DIR}/dist" "${tmp_dir}/dist.bak" 2>/dev/null || true
-cp -a "${APP_DIR}/deploy" "${tmp_dir}/deploy.bak" 2>/dev/null || true
-rm -rf "${APP_DIR}/dist" "${APP_DIR}/deploy"
-cp -r "${src_root}/dist" "${src_root}/deploy" "${APP_DIR}/"
-if [ -f "${src_root}/package.json" ]; then
-  cp "${src_root}/package.json" "${APP_DIR}/"
-fi
-chown -R "${SUDO_UID:-1000}:${SUDO_GID:-1000}" "${APP_DIR}/dist" "${APP_DIR}/deploy" "${APP_DIR}/package.json" 2>/dev/null || true
-# Tarball may not have +x on deploy scripts; set so kiosk and xinit can run them
-chmod +x "${APP_DIR}/deploy/"*.sh "${APP_DIR}/deploy/xinitrc-kiosk" 2>/dev/null || true
+stage_release "$src_root" "$latest_tag"
+switch_release "$latest_tag"
+prune_releases
 
-# No server restart: the Node process serves from disk, so after replacing dist/ the next
-# request (the frontend reload at countdown 0) gets the new app. Restarting caused a double
-# reload (connection drop + intentional reload) and the first load sometimes showed old version.
+# No server restart: the Node process serves from disk (through the current/ symlink), so
+# the next request (the frontend reload at countdown 0) gets the new app. Restarting caused
+# a double reload (connection drop + intentional reload) and the first load sometimes
+# showed old version.
 restart_at=$(($(date +%s) * 1000 + COUNTDOWN_SECONDS * 1000))
+# Health gate: the reloaded app must confirm boot or server.mjs rolls back to $running_version
+write_update_pending "$latest_tag" "$running_version" "$restart_at"
 write_status "countdown" "Restarting in ${COUNTDOWN_SECONDS}s" "$restart_at"
 
 sleep "$COUNTDOWN_SECONDS"
@@ -6,7 +6,7 @@
  *  2. App lifecycle via useAppLoader (startup → pairing → loading → ready).
  *  3. Smooth screen transitions between Loading, Pairing, and Display screens.
  *  4. Emergency alert overlay (reads from emergencySlice via EmergencyAlertOverlay).
- *  5. Error boundary wrapping.
+ *  5. Error boundary wrapping (a crash is reported to the liveness watchdog).
  */
 
 import React, { useEffect, useState, useRef, useMemo, useCallback, Suspense, lazy } from 'react';
@@ -20,9 +20,12 @@ import useAppLoader from './hooks/useAppLoader';
 import useDevKeyboard from './hooks/useDevKeyboard';
 import useWifiKeyboard from './hooks/useWifiKeyboard';
 import useWifiStatus from './hooks/useWifiStatus';
+import useWatchdogPhase from './hooks/useWatchdogPhase';
 import { OrientationWrapper } from './components/layout';
-import { EmergencyAlertOverlay, WifiSettingsOverlay } from './components/display';
+import { EmergencyAlertOverlay, RecentAlertsOverlay, WifiSettingsOverlay } from './components/display';
 import logger from './utils/logger';
+import remoteControlService from './services/remoteControlService';
+import watchdogService from './services/watchdogService';
 
 /* ------------------------------------------------------------------
    Lazy-loaded screen components (created in Phase 3d)
@@ -168,6 +171,16 @@ const AppRoutes: React.FC = () => {
   /** Cleanup on unmount */
   useEffect(() => clearTimers, [clearTimers]);
 
+  /** Screen reported in liveness pings to the deploy server's watchdog */
+  useWatchdogPhase(activeScreen);
+
+  /** A screen rendered: confirm boot so the deploy server keeps this build after an update */
+  useEffect(() => {
+    if (activeScreen === 'display' || activeScreen === 'pairing') {
+      void remoteControlService.confirmBoot();
+    }
+  }, [activeScreen]);
+
   /* ---- Content screen ---- */
   const renderContent = () => {
     if (activeScreen === 'loading' && !isTransitioning) return null;
@@ -262,12 +275,16 @@ const App: React.FC = () => {
   return (
     <ErrorBoundary
       FallbackComponent={ErrorFallback}
-      onError={(error, info) => logger.error('[App] Unhandled error', { error: error.message, stack: info.componentStack })}
+      onError={(error, info) => {
+        logger.error('[App] Unhandled error', { error: error.message, stack: info.componentStack });
+        watchdogService.reportCrash(error.message);
+      }}
       onReset={() => window.location.reload()}
     >
       <div className="fullscreen bg-midnight gpu-accelerated">
         <AppRoutes />
         <WifiSettingsOverlay />
+        <RecentAlertsOverlay />
         <EmergencyAlertOverlay />
         {showDebug && (
           <div className="fixed bottom-0 left-0 right-0 z-[9998] max-h-[40vh] overflow-auto bg-black/90 text-white p-3 font-mono text-xs border-t border-white/20">
@@ -36,6 +36,8 @@ import {
 import type {
   RequestPairingCodeResponse as PairingCodeResponse,
   PairedCredentialsResponse as BasePairedCredentialsResponse,
+  ContentViewAnalyticsRequest,
+  AnalyticsResponse,
 } from './models';
 
 // ============================================================================
@@ -126,6 +128,48 @@ export interface HeartbeatResponse {
   commands?: RemoteCommand[];
 }
 
+/**
+ * Screenshot upload metadata (image bytes travel as the multipart `image` field)
+ */
+export interface ScreenshotUploadRequest {
+  commandId: string;
+  /** `device` = framebuffer/X grab via deploy server; `dom` = in-browser rasterised fallback */
+  source: 'device' | 'dom';
+  width?: number;
+  height?: number;
+  capturedAt: string;
+}
+
+/**
+ * Screenshot upload response
+ */
+export interface ScreenshotUploadResponse {
+  success: boolean;
+  url?: string;
+}
+
+/**
+ * Log bundle upload metadata (NDJSON bytes travel as the multipart `bundle` field)
+ */
+export interface LogUploadRequest {
+  commandId: string;
+  from: string;
+  to: string;
+  /** Lowest level included */
+  level: string;
+  entries: number;
+  /** `gzip` when the browser could compress the bundle, else `identity` */
+  encoding: 'gzip' | 'identity';
+}
+
+/**
+ * Log bundle upload response
+ */
+export interface LogUploadResponse {
+  success: boolean;
+  url?: string;
+}
+
 /**
  * Content response
  */
@@ -827,6 +871,96 @@ class ApiClient {
     );
   }
 
+  /**
+   * Upload a screen capture for a CAPTURE_SCREENSHOT command.
+   * Sent as multipart/form-data — the explicit Content-Type stops axios serialising
+   * the FormData to JSON (instance default) and lets the browser add the boundary.
+   */
+  public async uploadScreenshot(
+    image: Blob,
+    meta: ScreenshotUploadRequest,
+  ): Promise<ApiResponse<ScreenshotUploadResponse>> {
+    if (!credentialService.hasCredentials()) {
+      return {
+        success: false,
+        error: 'Not authenticated',
+      };
+    }
+
+    const form = new FormData();
+    form.append('commandId', meta.commandId);
+    form.append('source', meta.source);
+    form.append('capturedAt', meta.capturedAt);
+    if (meta.width != null) form.append('width', String(meta.width));
+    if (meta.height != null) form.append('height', String(meta.height));
+    const ext = image.type === 'image/png' ? 'png' : 'jpg';
+    form.append('image', image, `screenshot-${meta.commandId}.${ext}`);
+
+    return this.requestWithRetry<ScreenshotUploadResponse>(
+      {
+        method: 'POST',
+        url: SCREEN_ENDPOINTS.UPLOAD_SCREENSHOT,
+        data: form,
+        headers: { 'Content-Type': 'multipart/form-data' },
+        timeout: 60000,
+      },
+      1,
+    );
+  }
+
+  /**
+   * Upload a log bundle for a FETCH_LOGS command (multipart, like screenshots).
+   */
+  public async uploadLogs(bundle: Blob, meta: LogUploadRequest): Promise<ApiResponse<LogUploadResponse>> {
+    if (!credentialService.hasCredentials()) {
+      return {
+        success: false,
+        error: 'Not authenticated',
+      };
+    }
+
+    const form = new FormData();
+    form.append('commandId', meta.commandId);
+    form.append('from', meta.from);
+    form.append('to', meta.to);
+    form.append('level', meta.level);
+    form.append('entries', String(meta.entries));
+    form.append('encoding', meta.encoding);
+    const ext = meta.encoding === 'gzip' ? 'ndjson.gz' : 'ndjson';
+    form.append('bundle', bundle, `logs-${meta.commandId}.${ext}`);
+
+    return this.requestWithRetry<LogUploadResponse>(
+      {
+        method: 'POST',
+        url: SCREEN_ENDPOINTS.UPLOAD_LOGS,
+        data: form,
+        headers: { 'Content-Type': 'multipart/form-data' },
+        timeout: 60000,
+      },
+      1,
+    );
+  }
+
+  /**
+   * Upload a batch of proof-of-play impressions (see proofOfPlayService).
+   */
+  public async sendContentViews(
+    events: ContentViewAnalyticsRequest[],
+  ): Promise<ApiResponse<AnalyticsResponse>> {
+    if (!credentialService.hasCredentials()) {
+      return {
+        success: false,
+        error: 'Not authenticated',
+      };
+    }
+
+    return this.requestWithRetry<AnalyticsResponse>({
+      method: 'POST',
+      url: SCREEN_ENDPOINTS.UPLOAD_ANALYTICS,
+      data: { events },
+    });
+  }
+
   // ==========================================================================
   // Utility Methods
   // ==========================================================================
@@ -25,6 +25,10 @@ describe('endpoints', () => {
       expect(SCREEN_ENDPOINTS.HEARTBEAT).toBe('/api/screen/heartbeat');
       expect(SCREEN_ENDPOINTS.GET_CONTENT).toBe('/api/screen/content');
     });
+
+    it('has the proof-of-play upload path', () => {
+      expect(SCREEN_ENDPOINTS.UPLOAD_ANALYTICS).toBe('/api/screen/analytics');
+    });
   });
 
   describe('buildUrl', () => {
@@ -91,6 +91,30 @@ export const SCREEN_ENDPOINTS = {
    * Response: { contentUpdated: string, prayerTimesUpdated: string, ... }
    */
   GET_SYNC_STATUS: '/api/screen/sync',
+
+  /**
+   * Upload a screen capture taken for a CAPTURE_SCREENSHOT command
+   * POST /api/screen/screenshot
+   * Body: multipart/form-data { commandId, source, width, height, capturedAt, image }
+   * Response: { success: boolean, url?: string }
+   */
+  UPLOAD_SCREENSHOT: '/api/screen/screenshot',
+
+  /**
+   * Upload buffered proof-of-play impressions
+   * POST /api/screen/analytics
+   * Body: { events: ContentViewAnalyticsRequest[] }
+   * Response: { success: boolean, message?: string }
+   */
+  UPLOAD_ANALYTICS: '/api/screen/analytics',
+
+  /**
+   * Upload a log bundle pulled by a FETCH_LOGS command
+   * POST /api/screen/logs
+   * Body: multipart/form-data { commandId, from, to, level, entries, encoding, bundle }
+   * Response: { success: boolean, url?: string }
+   */
+  UPLOAD_LOGS: '/api/screen/logs',
 } as const;
 
 /**
@@ -123,6 +123,8 @@ export interface RemoteCommand {
     | "UPDATE_SETTINGS"
     | "FACTORY_RESET"
     | "CAPTURE_SCREENSHOT"
+    | "FETCH_LOGS"
+    | "SET_LOG_LEVEL"
     | "UPDATE_ORIENTATION"
     | "REFRESH_PRAYER_TIMES"
     | "DISPLAY_MESSAGE"
@@ -137,6 +139,27 @@ export interface RemoteCommand {
   _queueId?: string; // Internal: queue ID for marking as delivered
 }
 
+// DISPLAY_MESSAGE command payload (ad-hoc admin text, lighter than an emergency alert)
+export type DisplayMessagePosition = "ticker" | "banner" | "fullscreen";
+export type DisplayMessageStyle = "info" | "notice" | "warning" | "success";
+export type DisplayMessagePriority = "low" | "normal" | "high";
+
+export interface DisplayMessagePayload {
+  /** "show" (default), "dismiss" (by id) or "clear" (all messages). */
+  action?: "show" | "dismiss" | "clear";
+  /** Stable id so the portal can replace or dismiss the message later. */
+  id?: string;
+  text?: string;
+  /** Alias for text (older portal builds). */
+  message?: string;
+  style?: DisplayMessageStyle;
+  position?: DisplayMessagePosition;
+  priority?: DisplayMessagePriority;
+  /** Seconds on screen; ignored when expiresAt is given. */
+  duration?: number;
+  expiresAt?: string;
+}
+
 export interface HeartbeatResponse {
   success: boolean;
   hasPendingEvents?: boolean; // Backward compatibility: indicates queued SSE events are available on backend
@@ -236,8 +259,14 @@ export interface ContentViewAnalyticsData {
   endTime?: string; // ISO 8601 timestamp when content stopped (if applicable)
   duration: number; // Display duration in milliseconds
   viewComplete: boolean; // Whether the content was fully displayed
+  impressionId?: string; // Device-generated id; lets the server drop duplicates of a retried upload
+  expectedDuration?: number | null; // Scheduled on-screen time in milliseconds (null for clips without one)
+  interruptedBy?: ContentViewInterruption | null; // What cut the view short, if anything
 }
 
+/** Why a slide left the screen before its time was up. */
+export type ContentViewInterruption = "prayer" | "alert" | "display_off";
+
 export interface ContentViewAnalyticsRequest extends BaseAnalyticsRequest {
   type: "content_view";
   data: ContentViewAnalyticsData;
@@ -322,6 +351,13 @@ export interface DisplaySettings {
   ramadanMode: "auto" | "on" | "off";
   /** Resolved value: true if Ramadan mode should be shown (based on ramadanMode + Hijri date) */
   isRamadanActive: boolean;
+  /**
+   * Admin choice for Eid mode: "auto" = 1 Shawwal / 10 Dhu al-Hijjah from the Hijri calendar,
+   * "on" = force Eid mode today, "off" = never. Missing = "auto".
+   */
+  eidMode?: "auto" | "on" | "off";
+  /** Eid salah congregations (first, second, … jamaat). Shown in place of the countdown on Eid morning. */
+  eidJamaats?: EidJamaat[] | null;
   /** "12h" = 5:30 AM, "24h" = 05:30 */
   timeFormat: "12h" | "24h";
   /** Show imsak/sehri time in the prayer times section */
@@ -345,6 +381,11 @@ export interface DisplaySettings {
   imsakOffset: number;
   /** Days to add to the calculated Hijri date (e.g. +1 if API/local calc is 1 day behind). */
   hijriDateAdjustment: number;
+  /**
+   * Moon-sighting announcements: declared first day of specific Hijri months.
+   * Take precedence over the Umm al-Qura table and are not shifted by hijriDateAdjustment.
+   */
+  hijriMonthOverrides?: HijriMonthOverride[] | null;
   /**
    * Minutes after the "Jamaat in progress" segment ends before shifting next-prayer countdown/highlight.
    * Also the duration of the "In progress" sub-phase. Range 5–30; default 10.
@@ -386,6 +427,234 @@ export interface DisplaySettings {
    * This map is merged server-side so every key may be present with a string value.
    */
   terminology?: Partial<Record<TerminologyKey, string>> | null;
+
+  /**
+   * Offline fallback: how to calculate adhan times locally from masjid coordinates
+   * when the cached timetable runs out. Defaults: MWL, Shafi'i Asr, angle-based.
+   */
+  prayerCalculation?: PrayerCalculationSettings;
+
+  /** Adhan audio played at each adhan time. Off when missing. */
+  adhanAudio?: AdhanAudioSettings | null;
+
+  /**
+   * Jamaat buzzer. Unset fields fall back to the device's own settings
+   * (see utils/jamaatBuzzerSettings for precedence).
+   */
+  jamaatBuzzer?: JamaatBuzzerSettings | null;
+
+  /** Scheduled screen off / sleep windows. Screen stays on when missing. */
+  powerSchedule?: PowerScheduleSettings | null;
+
+  /** Automatic screen brightness. Full brightness when missing. */
+  brightness?: BrightnessSettings | null;
+
+  /** Release channel for self-updates. Latest stable release when missing. */
+  updateChannel?: UpdateChannelSettings | null;
+
+  /** Tone and speech for critical emergency alerts. On (critical only) when missing. */
+  emergencyAudio?: EmergencyAlertAudioSettings | null;
+
+  /** On-site alert trigger over the masjid LAN (POST /local/alert on the Pi). Off when missing. */
+  localAlerts?: LocalAlertSettings | null;
+
+  /** Screens of the masjid show the same slide at the same time. Off when missing. */
+  carouselSync?: CarouselSyncSettings | null;
+}
+
+/** Portal-controlled jamaat buzzer configuration. */
+export interface JamaatBuzzerSettings {
+  /** `false` switches the buzzer off on every screen; a device cannot re-enable it */
+  enabled?: boolean;
+  /** 0–1 */
+  volume?: number;
+  /** Built-in sound id (see `BUZZER_SOUNDS`) or an audio URL */
+  sound?: string | null;
+  /** Per-prayer switch; prayers not listed buzz */
+  prayers?: Partial<Record<SalahKey, boolean>> | null;
+  /** Seconds relative to jamaat: negative = before, positive = after. Range −120–120 */
+  offsetSeconds?: number;
+  /** When false, volume / on-off set on the device itself are ignored. Default true */
+  allowLocalOverride?: boolean;
+}
+
+/**
+ * A moment in the masjid-local day: a fixed time ("HH:mm") or a prayer time
+ * plus offset, anchored like playlist `PRAYER_WINDOW` assignments.
+ */
+export type TimeOfDayAnchor =
+  | { time: string }
+  | { prayer: PrayerBoundaryPrayer; anchor?: PrayerTimeAnchor; offsetMinutes?: number };
+
+/** Screen is off from `start` until `end` (may cross midnight). */
+export interface PowerScheduleWindow {
+  start: TimeOfDayAnchor;
+  end: TimeOfDayAnchor;
+}
+
+export interface PowerScheduleSettings {
+  enabled: boolean;
+  windows: PowerScheduleWindow[];
+  /** Switch the screen back on while an emergency alert is showing. Default true */
+  wakeForEmergency?: boolean;
+}
+
+/** Brightness (0–100) reached at `at`; levels in between are interpolated. */
+export interface BrightnessCurvePoint {
+  at: TimeOfDayAnchor;
+  level: number;
+}
+
+export interface BrightnessSettings {
+  enabled: boolean;
+  /** Time-of-day curve, e.g. dim after Isha, full from sunrise. Wraps midnight */
+  curve: BrightnessCurvePoint[];
+  /** Blend in the companion service's ambient light reading (0–100) */
+  ambientLight?: {
+    enabled: boolean;
+    /** Share of the ambient reading in the result, 0–1. Default 0.5 */
+    weight?: number;
+  } | null;
+  /** Clamp for the final level. Defaults 10 and 100 */
+  minLevel?: number;
+  maxLevel?: number;
+}
+
+/**
+ * Which releases a device installs. "stable" skips prereleases, "beta" takes
+ * the highest release including prereleases, "pinned" installs exactly
+ * `pinnedVersion` (also to go back to a known-good build).
+ */
+export type UpdateChannel = "stable" | "beta" | "pinned";
+
+export interface UpdateChannelSettings {
+  channel: UpdateChannel;
+  /** Semver without the "v", e.g. "1.4.2". Required for "pinned" */
+  pinnedVersion?: string | null;
+}
+
+/** Per-prayer adhan recording and level. */
+export interface AdhanPrayerAudio {
+  /** Defaults to true when the prayer has a recording */
+  enabled?: boolean;
+  /** Audio file URL; falls back to `AdhanAudioSettings.defaultUrl` */
+  url?: string | null;
+  /** 0–1, multiplied by the master volume. Default 1 */
+  volume?: number;
+}
+
+/** Portal-controlled adhan playback (see hooks/useAdhanAudio). */
+export interface AdhanAudioSettings {
+  enabled: boolean;
+  /** Master volume 0–1. Default 0.8 */
+  volume?: number;
+  /** Recording used by prayers without their own `url` */
+  defaultUrl?: string | null;
+  /** Keyed by lower-case prayer name: fajr, zuhr, asr, maghrib, isha */
+  prayers?: Partial<Record<SalahKey, AdhanPrayerAudio>> | null;
+  /** No adhan audio between these masjid-local times (HH:mm); may wrap midnight */
+  quietHours?: { start: string; end: string } | null;
+  /** Cut playback after this many seconds (0 / missing = play to the end) */
+  maxDurationSeconds?: number | null;
+  /** Fade-out length when playback is cut short. Default 3 */
+  fadeOutSeconds?: number;
+}
+
+/** Portal-controlled emergency alert tone and speech (see hooks/useEmergencyAlertAudio). */
+export interface EmergencyAlertAudioSettings {
+  /** Default true */
+  enabled?: boolean;
+  /** Also sound `high` urgency alerts. Default false (critical only) */
+  includeHigh?: boolean;
+  /** 0–1. Default 1 */
+  volume?: number;
+  /** Read the title and message aloud after the tone (Web Speech API). Default true */
+  speak?: boolean;
+  /** Voice language (BCP 47, e.g. "en-GB"); the browser default when missing */
+  voiceLang?: string | null;
+  /** Repeat every N seconds until the alert expires; 0 = once. Default 60, minimum 15 */
+  repeatIntervalSeconds?: number;
+}
+
+/**
+ * Portal-controlled LAN alert trigger. Staff send alerts from a phone on the
+ * masjid network with the PIN; automation (e.g. a panic button) uses the token.
+ * Every screen of the masjid shares these, so a screen can relay to the others.
+ */
+export interface LocalAlertSettings {
+  /** Default false */
+  enabled?: boolean;
+  /** 4–8 digits, entered in the mobile form */
+  pin?: string | null;
+  /** Bearer token for scripted triggers */
+  token?: string | null;
+  /** Per-masjid secret screens sign relayed alerts with; without it alerts are not relayed */
+  relaySecret?: string | null;
+  /** Screen ids of the masjid that may relay alerts; missing = any screen holding the secret */
+  screenIds?: string[] | null;
+}
+
+/**
+ * Synchronised carousel: slides follow a schedule shared by every screen of
+ * the masjid (server-corrected clock) instead of each screen's own timers.
+ */
+export interface CarouselSyncSettings {
+  /** Default false */
+  enabled?: boolean;
+}
+
+/** One Jumu'ah session (khutbah followed by jamaat). */
+export interface JummahSession {
+  /** Khutbah start (HH:mm); omitted when only the jamaat time is published */
+  khutbah?: string | null;
+  /** Jamaat time (HH:mm) */
+  jamaat: string;
+  /** Optional label, e.g. "Arabic khutbah" */
+  label?: string | null;
+}
+
+/** One Eid salah congregation. */
+export interface EidJamaat {
+  /** Jamaat time (HH:mm, masjid local) */
+  time: string;
+  /** Optional label, e.g. "Main hall" or "Sisters' jamaat" */
+  label?: string | null;
+  /** Gregorian date (YYYY-MM-DD) this slot applies to; omitted = whichever day Eid falls on */
+  date?: string | null;
+}
+
+/** Portal-declared start of a Hijri month (local moon-sighting). */
+export interface HijriMonthOverride {
+  /** Hijri year, e.g. 1447 */
+  year: number;
+  /** Hijri month 1–12 (9 = Ramadan, 10 = Shawwal) */
+  month: number;
+  /** Gregorian date (YYYY-MM-DD) of the 1st of the month */
+  startDate: string;
+}
+
+/** Twilight-angle conventions supported by the local prayer-time calculator. */
+export type PrayerCalculationMethod =
+  | "MWL"
+  | "ISNA"
+  | "UmmAlQura"
+  | "Egyptian"
+  | "Karachi"
+  | "MoonsightingCommittee";
+
+/** Asr shadow length: Shafi'i (and Maliki/Hanbali) = 1, Hanafi = 2. */
+export type AsrMadhab = "shafi" | "hanafi";
+
+/**
+ * Fajr/Isha clamp for latitudes where twilight never ends (UK summer) or the
+ * night is very short: fraction of the night as 1/2, 1/7 or angle/60.
+ */
+export type HighLatitudeRule = "middle-of-night" | "seventh-of-night" | "angle-based";
+
+export interface PrayerCalculationSettings {
+  method?: PrayerCalculationMethod;
+  asrMadhab?: AsrMadhab;
+  highLatitudeRule?: HighLatitudeRule;
 }
 
 /**
@@ -511,6 +780,13 @@ export interface PrayerTimes {
   ishaJamaat: string;
   jummahKhutbah?: string;
   jummahJamaat?: string;
+  /**
+   * Every Jumu'ah session for the day, earliest first. Takes precedence over
+   * `jummahKhutbah` / `jummahJamaat`, which mirror the first session.
+   */
+  jummahSessions?: JummahSession[] | null;
+  /** True when computed on-device (offline fallback), not the masjid's published timetable. */
+  isCalculated?: boolean;
   data?: PrayerTimes[]; // For new API format that returns an array of days
   success?: boolean;
   error?: null | string;
@@ -540,6 +816,8 @@ export interface ScreenContent {
     id?: string; // masjidId - added for WebSocket connection support
     name: string;
     timezone: string;
+    /** ISO 3166 alpha-2, e.g. "GB" (picks the number plate style for vehicle alerts) */
+    country?: string;
   };
   schedule: Schedule;
   scheduledPlaylists?: ScheduledPlaylistAssignment[];
@@ -556,6 +834,8 @@ export interface ScreenContent {
       id?: string; // masjidId - added for WebSocket connection support
       name: string;
       timezone: string;
+      /** ISO 3166 alpha-2, e.g. "GB" */
+      country?: string;
       coordinates?: {
         latitude: number;
         longitude: number;
@@ -743,4 +1023,33 @@ export interface EmergencyAlert {
   action?: "show" | "clear" | "hide" | "cancel"; // Action to perform with this alert
   /** Kept for backward compatibility with old-format alerts during migration */
   colorScheme?: string;
+  /** Structured details when category === 'janazah' (title/message stay as a fallback) */
+  janazah?: JanazahAlertDetails | null;
+  /** Plate details when category === 'vehicle'; without them the message is the registration */
+  vehicle?: VehicleAlertDetails | null;
+}
+
+/** Number plate styles a vehicle alert can be rendered in ('text' = plain sign). */
+export type NumberPlateFormat = "uk" | "ie" | "eu" | "us" | "text";
+
+/** Plate details sent with a `vehicle` alert. */
+export interface VehicleAlertDetails {
+  /** Registration mark; falls back to the alert message */
+  registration?: string | null;
+  /** Explicit plate style — otherwise worked out from the country */
+  plateFormat?: NumberPlateFormat | null;
+  /** ISO 3166 alpha-2 country of the vehicle, e.g. "IE", "DE" */
+  plateCountry?: string | null;
+}
+
+/** Janazah notice details sent with a `janazah` alert. */
+export interface JanazahAlertDetails {
+  deceasedName: string;
+  /** Absolute salah time: ISO date-time, or "HH:mm" for the next occurrence after the alert was created */
+  salahTime?: string | null;
+  /** Salah held after a congregational prayer, e.g. "Zuhr" — resolved to that prayer's jamaat time */
+  salahAfterPrayer?: string | null;
+  location?: string | null;
+  /** Burial details, e.g. cemetery and time */
+  burial?: string | null;
 }
@@ -0,0 +1,55 @@
+/**
+ * AnnouncementTicker
+ *
+ * Scrolling strip for the `ticker` layout zone: the playlist's announcements
+ * (utils/announcementTicker) in one line. Same track animation as the
+ * DISPLAY_MESSAGE ticker; renders nothing when there are no announcements.
+ */
+
+import React from 'react';
+import { Megaphone } from 'lucide-react';
+import type { TickerZoneSpeed } from '@/types/displayLayout';
+
+/** Seconds per character at each speed — a constant reading pace whatever the length. */
+const SECONDS_PER_CHAR: Record<TickerZoneSpeed, number> = {
+  slow: 0.33,
+  normal: 0.25,
+  fast: 0.18,
+};
+const TICKER_MIN_SECONDS = 12;
+const TICKER_SEPARATOR = '   •   ';
+
+interface AnnouncementTickerProps {
+  lines: string[];
+  speed?: TickerZoneSpeed;
+}
+
+const AnnouncementTicker: React.FC<AnnouncementTickerProps> = ({ lines, speed = 'normal' }) => {
+  if (lines.length === 0) return null;
+  const text = lines.join(TICKER_SEPARATOR);
+  const duration = Math.max(TICKER_MIN_SECONDS, text.length * SECONDS_PER_CHAR[speed]);
+
+  return (
+    <div
+      className="flex items-center overflow-hidden rounded-lg bg-midnight-light text-text-primary"
+      role="marquee"
+      aria-label={text}
+      data-testid="announcement-ticker"
+    >
+      <span className="flex items-center self-stretch px-3 shrink-0 bg-gold text-midnight-dark">
+        <Megaphone className="w-5 h-5" />
+      </span>
+      <div className="flex-1 min-w-0 overflow-hidden py-1">
+        <span
+          className="display-message-ticker__track text-body font-semibold"
+          style={{ '--ticker-duration': `${duration}s` } as React.CSSProperties}
+          aria-hidden
+        >
+          {text}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default React.memo(AnnouncementTicker);
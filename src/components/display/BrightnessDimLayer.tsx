@@ -0,0 +1,47 @@
+/**
+ * BrightnessDimLayer
+ *
+ * Translucent black layer used for automatic brightness where the panel
+ * backlight cannot be set (non-Pi, or no sysfs backlight / DDC). Never fully
+ * opaque, so the lowest curve level still leaves the screen readable.
+ * Portalled into `#orientation-portal-root` like JamaatBlackoutOverlay,
+ * above fullscreen media and messages and below the power blackout.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+const MAX_DIM_OPACITY = 0.9;
+
+function resolvePortalRoot(): HTMLElement {
+  return document.getElementById('orientation-portal-root') ?? document.body;
+}
+
+interface BrightnessDimLayerProps {
+  /** 0–100 */
+  level: number;
+}
+
+const BrightnessDimLayer: React.FC<BrightnessDimLayerProps> = ({ level }) => {
+  const [portalRoot, setPortalRoot] = useState<HTMLElement | null>(null);
+
+  useEffect(() => {
+    setPortalRoot(resolvePortalRoot());
+  }, []);
+
+  if (!portalRoot) return null;
+
+  const opacity = Math.min(MAX_DIM_OPACITY, Math.max(0, (100 - level) / 100));
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9150] bg-black pointer-events-none transition-opacity duration-1000"
+      style={{ opacity }}
+      aria-hidden
+      data-testid="brightness-dim-layer"
+    />,
+    portalRoot,
+  );
+};
+
+export default React.memo(BrightnessDimLayer);
@@ -0,0 +1,107 @@
+/**
+ * ClockZone
+ *
+ * Large clock for the `clock` layout zone, in the masjid's timezone. Digital
+ * follows the display's 12h / 24h setting; analogue is an SVG face with hour
+ * marks. Both scale to the zone they are placed in.
+ */
+
+import React from 'react';
+import type { TimeFormat } from '@/api/models';
+import type { ClockZoneStyle } from '@/types/displayLayout';
+import useMasjidTime from '../../hooks/useMasjidTime';
+import { getTimeDisplayParts } from '../../utils/dateUtils';
+
+interface ClockZoneProps {
+  clockStyle?: ClockZoneStyle;
+  showSeconds?: boolean;
+  timeFormat?: TimeFormat;
+}
+
+const HOUR_MARKS = Array.from({ length: 12 }, (_, i) => i * 30);
+
+/** Hand from the centre of a 200 × 200 face, `angle` degrees clockwise from 12. */
+const Hand: React.FC<{ angle: number; length: number; width: number; className: string }> = ({
+  angle,
+  length,
+  width,
+  className,
+}) => (
+  <line
+    x1={100}
+    y1={100}
+    x2={100}
+    y2={100 - length}
+    strokeWidth={width}
+    strokeLinecap="round"
+    transform={`rotate(${angle} 100 100)`}
+    className={className}
+  />
+);
+
+const ClockZone: React.FC<ClockZoneProps> = ({
+  clockStyle = 'digital',
+  showSeconds = false,
+  timeFormat = '12h',
+}) => {
+  const now = useMasjidTime();
+  const hours = now.hour();
+  const minutes = now.minute();
+  const seconds = now.second();
+
+  if (clockStyle === 'analogue') {
+    return (
+      <div className="flex h-full w-full items-center justify-center p-2" data-testid="clock-zone-analogue">
+        <svg
+          viewBox="0 0 200 200"
+          className="h-full w-full max-h-full"
+          role="img"
+          aria-label={now.format('HH:mm')}
+        >
+          <circle cx={100} cy={100} r={96} className="fill-white/5 stroke-gold/60" strokeWidth={3} />
+          {HOUR_MARKS.map((angle) => (
+            <line
+              key={angle}
+              x1={100}
+              y1={12}
+              x2={100}
+              y2={angle % 90 === 0 ? 28 : 22}
+              strokeWidth={angle % 90 === 0 ? 5 : 3}
+              strokeLinecap="round"
+              transform={`rotate(${angle} 100 100)`}
+              className="stroke-text-primary/70"
+            />
+          ))}
+          <Hand
+            angle={(hours % 12) * 30 + minutes * 0.5}
+            length={50}
+            width={8}
+            className="stroke-gold"
+          />
+          <Hand angle={minutes * 6 + seconds * 0.1} length={74} width={5} className="stroke-text-primary" />
+          {showSeconds && <Hand angle={seconds * 6} length={80} width={2} className="stroke-emerald-light" />}
+          <circle cx={100} cy={100} r={6} className="fill-gold" />
+        </svg>
+      </div>
+    );
+  }
+
+  const timeStr24h = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  const { main, period } = getTimeDisplayParts(timeStr24h, timeFormat);
+
+  return (
+    <div className="clock-zone flex h-full w-full items-center justify-center" data-testid="clock-zone-digital">
+      <div className="flex items-baseline gap-[2cqw] text-gold">
+        <span className="clock-zone__digits">{main}</span>
+        {(showSeconds || period != null) && (
+          <span className="clock-zone__suffix flex flex-col font-semibold leading-none text-gold/80">
+            {showSeconds && <span className="tabular-nums">{String(seconds).padStart(2, '0')}</span>}
+            {period != null && <span>{period}</span>}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default React.memo(ClockZone);
@@ -14,7 +14,7 @@
  *  - Green (dot only): WiFi + WS connected
  *  - Green (pill): "Up to date" after a successful update check
  *  - Orange: reconnecting, weak signal, or update in progress
- *  - Red: WiFi disconnected, no internet, or no adapter
+ *  - Red: WiFi disconnected, no internet, or no adapter; update rejected or rolled back
  *  - Blue: hotspot active (user reconfiguring WiFi)
  */
 
@@ -104,6 +104,13 @@ const ConnectionBanner: React.FC = () => {
       if (updatePhase === 'no_update') {
         return { variant: 'green', icon: <Wifi className={iconSize} />, message: 'Up to date' };
       }
+      if (updatePhase === 'failed' || updatePhase === 'rolled_back') {
+        return {
+          variant: 'red',
+          icon: <AlertTriangle className={iconSize} />,
+          message: updateMessage || (updatePhase === 'failed' ? 'Update failed' : 'Update rolled back'),
+        };
+      }
       return {
         variant: 'orange',
         icon: <Settings className={`${iconSize} animate-spin`} />,
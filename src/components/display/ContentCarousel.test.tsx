@@ -3,8 +3,12 @@
  */
 
 import React from 'react';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, waitFor, fireEvent, act } from '@testing-library/react';
+
+vi.mock('@/services/realtimeService', () => ({
+  default: { serverNow: () => Date.now() },
+}));
 
 vi.mock('./MediaPdfPage', () => {
   // eslint-disable-next-line @typescript-eslint/no-require-imports -- Vitest hoists mocks before ESM imports; need React in factory scope
@@ -28,6 +32,7 @@ vi.mock('./MediaPdfPage', () => {
 });
 
 import ContentCarousel from './ContentCarousel';
+import { CAROUSEL_SYNC_EPOCH_MS } from '@/utils/carouselSync';
 
 beforeEach(() => {
   vi.stubGlobal(
@@ -312,4 +317,43 @@ describe('ContentCarousel', () => {
       expect(screen.getByText(/not available for this screen/i)).toBeInTheDocument();
     });
   });
+
+  describe('sync mode', () => {
+    const slide = (id: string, duration: number) => ({ id, type: 'ANNOUNCEMENT', title: `Slide ${id}`, duration });
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('shows the slide the shared schedule puts on screen and advances on the slot boundary', () => {
+      vi.setSystemTime(CAROUSEL_SYNC_EPOCH_MS + 25_000);
+      render(<ContentCarousel items={[slide('a', 20), slide('b', 20)]} interval={30} sync />);
+      expect(screen.getByText('Slide b')).toBeInTheDocument();
+
+      act(() => {
+        vi.advanceTimersByTime(15_000);
+      });
+      expect(screen.getByText('Slide a')).toBeInTheDocument();
+      expect(screen.queryByText('Slide b')).not.toBeInTheDocument();
+    });
+
+    it('lets the slide on screen finish when the playlist changes mid-cycle', () => {
+      vi.setSystemTime(CAROUSEL_SYNC_EPOCH_MS + 5_000);
+      const { rerender } = render(<ContentCarousel items={[slide('a', 20), slide('b', 20)]} interval={30} sync />);
+      expect(screen.getByText('Slide a')).toBeInTheDocument();
+
+      // New schedule puts 'c' on screen now; 'a' is still listed so it keeps its slot until 20 s
+      rerender(<ContentCarousel items={[slide('c', 30), slide('a', 30)]} interval={30} sync />);
+      expect(screen.getByText('Slide a')).toBeInTheDocument();
+
+      act(() => {
+        vi.advanceTimersByTime(15_000);
+      });
+      expect(screen.getByText('Slide c')).toBeInTheDocument();
+    });
+  });
 });
@@ -37,10 +37,15 @@ import {
 } from './contentScaling';
 import type { FontSizeConfig } from './contentScaling';
 import MediaPdfPage from './MediaPdfPage';
+import useSyncedCarouselSlide from '@/hooks/useSyncedCarouselSlide';
+import { slideDurationSeconds } from '@/utils/carouselSync';
+import useCachedMediaResolver from '@/hooks/useCachedMediaResolver';
+import { collectMediaUrls, rewriteCarouselItemMedia } from '@/utils/mediaCache';
 
 const EventSlide = lazy(() => import('./EventSlide'));
 const DonationSlide = lazy(() => import('./DonationSlide'));
 const CourseSlide = lazy(() => import('./CourseSlide'));
+const JanazahSlide = lazy(() => import('./JanazahSlide'));
 const VideoSlide = lazy(() => import('./VideoSlide'));
 
 /**
@@ -156,6 +161,9 @@ export interface CarouselItem {
 
   /** COURSE: resolved course data + enrolment QR (hydrated by the API). */
   course?: CourseSlideData;
+
+  /** JANAZAH: pinned janazah notice (built on the device from an emergency alert). */
+  janazah?: import('../../utils/janazahAlert').JanazahNotice;
 }
 
 interface ContentCarouselProps {
@@ -164,6 +172,13 @@ interface ContentCarouselProps {
   interval?: number;
   /** True when rendered inside a portrait layout — forwarded to EventSlide */
   compact?: boolean;
+  /**
+   * Follow the masjid-wide schedule (displaySettings.carouselSync) instead of
+   * local timers; see useSyncedCarouselSlide.
+   */
+  sync?: boolean;
+  /** Called as each slide comes on screen (proof of play, see useProofOfPlay) */
+  onSlideShown?: (item: CarouselItem) => void;
 }
 
 /** Maximum binary-search iterations to prevent infinite loops */
@@ -205,9 +220,15 @@ function applyFontSizeProps(el: HTMLElement, sizes: FontSizeConfig): void {
   el.style.setProperty('--carousel-arabic-size', `${sizes.arabicSize}rem`);
 }
 
-const ContentCarousel: React.FC<ContentCarouselProps> = ({ items, interval = 30, compact = false }) => {
-  const [activeIdx, setActiveIdx] = useState(0);
-  const [phase, setPhase] = useState<'in' | 'out'>('in');
+const ContentCarousel: React.FC<ContentCarouselProps> = ({
+  items,
+  interval = 30,
+  compact = false,
+  sync = false,
+  onSlideShown,
+}) => {
+  const [localIdx, setActiveIdx] = useState(0);
+  const [localPhase, setPhase] = useState<'in' | 'out'>('in');
   const [selectedNameIdx, setSelectedNameIdx] = useState(0);
   const [needsScroll, setNeedsScroll] = useState(false);
   /**
@@ -238,6 +259,12 @@ const ContentCarousel: React.FC<ContentCarouselProps> = ({ items, interval = 30,
 
   const safeItems = useMemo(() => (items.length > 0 ? items : []), [items]);
 
+  /** Sync mode drives the slide and crossfade; local state is only used without it. */
+  const synced = useSyncedCarouselSlide(safeItems, interval, sync);
+  const activeIdx = synced?.index ?? localIdx;
+  const phase = synced?.phase ?? localPhase;
+  const syncCycle = synced?.cycle ?? null;
+
   /** Stable identity for the active slide's media — avoids resetting preload when `items` is a new array reference each Redux render. */
   const mediaPreloadKey = useMemo(() => {
     if (safeItems.length === 0) return '';
@@ -272,10 +299,11 @@ const ContentCarousel: React.FC<ContentCarouselProps> = ({ items, interval = 30,
    * Per-item auto-advance: use the current slide's duration (from API) or the
    * default interval. VIDEO slides instead advance when the clip ends (see the
    * VideoSlide `onEnded` → `advance`); here we only arm a long safety-cap timer
-   * so a stalled or broken video can never freeze the carousel.
+   * so a stalled or broken video can never freeze the carousel. Not used in
+   * sync mode.
    */
   useEffect(() => {
-    if (safeItems.length <= 1) return;
+    if (sync || safeItems.length <= 1) return;
 
     const item = safeItems[activeIdx];
     const isVideo =
@@ -283,11 +311,7 @@ const ContentCarousel: React.FC<ContentCarouselProps> = ({ items, interval = 30,
       typeof item.videoUrl === 'string' &&
       item.videoUrl.trim() !== '';
 
-    const seconds = isVideo
-      ? VIDEO_SAFETY_CAP_SECONDS
-      : item?.duration != null && item.duration > 0
-        ? Math.max(5, Math.min(300, Number(item.duration)))
-        : interval;
+    const seconds = isVideo ? VIDEO_SAFETY_CAP_SECONDS : slideDurationSeconds(item, interval);
     const ms = seconds * 1000;
 
     const id = setTimeout(advance, ms);
@@ -295,7 +319,7 @@ const ContentCarousel: React.FC<ContentCarouselProps> = ({ items, interval = 30,
       clearTimeout(id);
       if (timerRef.current) clearTimeout(timerRef.current);
     };
-  }, [activeIdx, advance, interval, safeItems, safeItems.length]);
+  }, [activeIdx, advance, interval, safeItems, safeItems.length, sync]);
 
   /** Reset index if items change */
   useEffect(() => {
@@ -303,13 +327,20 @@ const ContentCarousel: React.FC<ContentCarouselProps> = ({ items, interval = 30,
     setPhase('in');
   }, [items]);
 
-  /** Pick a random Asma al-Husna name when slide becomes active */
+  /**
+   * Pick a random Asma al-Husna name when slide becomes active. In sync mode
+   * the cycle number picks it, so every screen shows the same name.
+   */
   useEffect(() => {
     const activeItem = safeItems[activeIdx];
     if (activeItem?.names && activeItem.names.length > 0) {
-      setSelectedNameIdx(Math.floor(Math.random() * activeItem.names.length));
+      setSelectedNameIdx(
+        syncCycle !== null
+          ? syncCycle % activeItem.names.length
+          : Math.floor(Math.random() * activeItem.names.length),
+      );
     }
-  }, [activeIdx, safeItems]);
+  }, [activeIdx, safeItems, syncCycle]);
 
   /** Dev-only: listen for the carousel-advance event to skip slides instantly. */
   useEffect(() => {
@@ -364,9 +395,32 @@ const ContentCarousel: React.FC<ContentCarouselProps> = ({ items, interval = 30,
     };
   }, [mediaPreloadKey]);
 
-  const currentItem = safeItems[activeIdx] ?? safeItems[0];
+  /**
+   * Offline media cache: lease the active and next slide's media (read into
+   * memory only while they are up) and point the active slide at its copies.
+   */
+  const activeItem = safeItems[activeIdx] ?? safeItems[0];
+  const upcomingItem = safeItems.length > 1 ? safeItems[(activeIdx + 1) % safeItems.length] : undefined;
+  const mediaLeaseUrls = useMemo(
+    () => collectMediaUrls(activeItem, upcomingItem),
+    [activeItem, upcomingItem],
+  );
+  const resolveCachedMedia = useCachedMediaResolver(mediaLeaseUrls);
+  const currentItem = useMemo(
+    () => (activeItem ? rewriteCarouselItemMedia(activeItem, resolveCachedMedia) : activeItem),
+    [activeItem, resolveCachedMedia],
+  );
   const isEventSlide = !!currentItem?.event;
 
+  /** Report each slide once as it comes up; a new `items` array with the same slide is not a new showing. */
+  const onSlideShownRef = useRef(onSlideShown);
+  onSlideShownRef.current = onSlideShown;
+  const currentItemId = currentItem?.id;
+  useEffect(() => {
+    const shown = safeItemsRef.current[activeIdx];
+    if (shown && currentItemId !== undefined) onSlideShownRef.current?.(shown);
+  }, [activeIdx, currentItemId]);
+
   /** MEDIA_SLIDE: full-bleed image or PDF — no typography fit loop. */
   const isMediaSlide = useMemo(() => {
     const it = currentItem;
@@ -419,15 +473,22 @@ const ContentCarousel: React.FC<ContentCarouselProps> = ({ items, interval = 30,
     [currentItem],
   );
 
+  /** JANAZAH: fixed notice layout — no typography fit loop. */
+  const isJanazahSlide = useMemo(
+    () => currentItem?.type?.toLowerCase() === 'janazah' && !!currentItem?.janazah,
+    [currentItem],
+  );
+
   /** Compute the scaling result for the current item (memoised). Event slides use getScalingForEvent. */
   const scalingResult = useMemo(() => {
     if (!currentItem) return null;
     if (isMediaLike) return null;
     if (isDonationSlide) return null;
     if (isCourseSlide) return null;
+    if (isJanazahSlide) return null;
     if (isEventSlide && currentItem.event) return getScalingForEvent(currentItem.event);
     return getScalingForItem(currentItem);
-  }, [currentItem, isDonationSlide, isCourseSlide, isEventSlide, isMediaLike]);
+  }, [currentItem, isDonationSlide, isCourseSlide, isJanazahSlide, isEventSlide, isMediaLike]);
 
   /**
    * Apply the tier's initial font sizes synchronously before the browser paints.
@@ -821,9 +882,9 @@ const ContentCarousel: React.FC<ContentCarouselProps> = ({ items, interval = 30,
                 title={item.title}
                 fit={effectiveMediaFit}
                 muted={item.muted ?? true}
-                loop={safeItems.length <= 1}
+                loop={sync || safeItems.length <= 1}
                 onReady={onMediaAssetLoaded}
-                onEnded={advance}
+                onEnded={sync ? undefined : advance}
                 className="min-h-0 flex-1"
               />
             </Suspense>
@@ -929,6 +990,10 @@ const ContentCarousel: React.FC<ContentCarouselProps> = ({ items, interval = 30,
               <Suspense fallback={null}>
                 <CourseSlide course={item.course} compact={compact} />
               </Suspense>
+            ) : isJanazahSlide && item.janazah ? (
+              <Suspense fallback={null}>
+                <JanazahSlide notice={item.janazah} compact={compact} />
+              </Suspense>
             ) : isVideoSlide && item.videoUrl ? (
               isFullscreenMedia ? (
                 /* Smart/cover render edge-to-edge via the fullscreen portal above. */
@@ -942,9 +1007,9 @@ const ContentCarousel: React.FC<ContentCarouselProps> = ({ items, interval = 30,
                       title={item.title}
                       fit="contain"
                       muted={item.muted ?? true}
-                      loop={safeItems.length <= 1}
+                      loop={sync || safeItems.length <= 1}
                       onReady={onMediaAssetLoaded}
-                      onEnded={advance}
+                      onEnded={sync ? undefined : advance}
                       className="min-h-0 w-full flex-1"
                     />
                   </Suspense>
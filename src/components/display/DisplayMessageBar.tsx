@@ -0,0 +1,86 @@
+/**
+ * DisplayMessageBar
+ *
+ * In-layout strip for DISPLAY_MESSAGE text. Rendered by LayoutRenderer as:
+ *  - banner: static bar above the zones (top-priority banner message only)
+ *  - ticker: scrolling bar above the footer (all ticker messages, queue order)
+ *
+ * Fullscreen messages use DisplayMessageFullscreen instead.
+ */
+
+import React from 'react';
+import { Info, Megaphone, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import type { DisplayMessageStyle } from '@/api/models';
+import type { DisplayMessage } from '@/utils/displayMessage';
+
+/** Background / text classes per style — shared with DisplayMessageFullscreen. */
+export const MESSAGE_STYLE_CLASSES: Record<DisplayMessageStyle, string> = {
+  info: 'bg-midnight-light text-text-primary border-emerald',
+  notice: 'bg-gold text-midnight-dark border-gold-dark',
+  warning: 'bg-alert-orange text-midnight-dark border-alert-red',
+  success: 'bg-emerald text-text-primary border-emerald-light',
+};
+
+export const MESSAGE_STYLE_ICONS: Record<DisplayMessageStyle, React.ComponentType<{ className?: string }>> = {
+  info: Info,
+  notice: Megaphone,
+  warning: AlertTriangle,
+  success: CheckCircle2,
+};
+
+/** Ticker speed — roughly constant reading pace regardless of text length. */
+const TICKER_SECONDS_PER_CHAR = 0.25;
+const TICKER_MIN_SECONDS = 12;
+const TICKER_SEPARATOR = '   •   ';
+
+interface DisplayMessageBarProps {
+  variant: 'banner' | 'ticker';
+  /** Banner renders the first message; ticker joins them all. */
+  messages: DisplayMessage[];
+}
+
+const DisplayMessageBar: React.FC<DisplayMessageBarProps> = ({ variant, messages }) => {
+  if (messages.length === 0) return null;
+  const lead = messages[0];
+  const Icon = MESSAGE_STYLE_ICONS[lead.style];
+
+  if (variant === 'banner') {
+    return (
+      <div
+        className={`flex items-center gap-3 px-5 py-2 rounded-xl border-l-4 shadow-lg animate-fade-in ${MESSAGE_STYLE_CLASSES[lead.style]}`}
+        role="status"
+        data-testid="display-message-banner"
+      >
+        <Icon className="w-7 h-7 shrink-0" />
+        <p className="text-prayer-dense leading-snug line-clamp-2 min-w-0">{lead.text}</p>
+      </div>
+    );
+  }
+
+  const text = messages.map((m) => m.text).join(TICKER_SEPARATOR);
+  const duration = Math.max(TICKER_MIN_SECONDS, text.length * TICKER_SECONDS_PER_CHAR);
+
+  return (
+    <div
+      className={`flex items-center overflow-hidden rounded-lg ${MESSAGE_STYLE_CLASSES[lead.style]}`}
+      role="marquee"
+      aria-label={text}
+      data-testid="display-message-ticker"
+    >
+      <span className="flex items-center self-stretch px-3 shrink-0 bg-black/20">
+        <Icon className="w-5 h-5" />
+      </span>
+      <div className="flex-1 min-w-0 overflow-hidden py-1">
+        <span
+          className="display-message-ticker__track text-body font-semibold"
+          style={{ '--ticker-duration': `${duration}s` } as React.CSSProperties}
+          aria-hidden
+        >
+          {text}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default React.memo(DisplayMessageBar);
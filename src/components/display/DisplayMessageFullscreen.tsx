@@ -0,0 +1,47 @@
+/**
+ * DisplayMessageFullscreen
+ *
+ * Full logical-viewport takeover for a `position: fullscreen` DISPLAY_MESSAGE.
+ * Portalled into `#orientation-portal-root` like JamaatBlackoutOverlay so it
+ * rotates with the layout; sits below emergency alerts (9999) and Wi-Fi (9998).
+ */
+
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { DisplayMessage } from '@/utils/displayMessage';
+import { MESSAGE_STYLE_CLASSES, MESSAGE_STYLE_ICONS } from './DisplayMessageBar';
+
+function resolvePortalRoot(): HTMLElement {
+  return document.getElementById('orientation-portal-root') ?? document.body;
+}
+
+interface DisplayMessageFullscreenProps {
+  message: DisplayMessage;
+}
+
+const DisplayMessageFullscreen: React.FC<DisplayMessageFullscreenProps> = ({ message }) => {
+  const [portalRoot, setPortalRoot] = useState<HTMLElement | null>(null);
+
+  useEffect(() => {
+    setPortalRoot(resolvePortalRoot());
+  }, []);
+
+  if (!portalRoot) return null;
+
+  const Icon = MESSAGE_STYLE_ICONS[message.style];
+
+  return createPortal(
+    <div
+      key={message.id}
+      className={`fixed inset-0 z-[9100] flex flex-col items-center justify-center gap-8 p-16 text-center border-8 animate-scale-in ${MESSAGE_STYLE_CLASSES[message.style]}`}
+      role="alert"
+      data-testid="display-message-fullscreen"
+    >
+      <Icon className="w-24 h-24 opacity-90" />
+      <p className="text-display max-w-[80%] whitespace-pre-line break-words">{message.text}</p>
+    </div>,
+    portalRoot,
+  );
+};
+
+export default React.memo(DisplayMessageFullscreen);
@@ -0,0 +1,37 @@
+/**
+ * DisplayPowerBlackout
+ *
+ * Full logical-viewport black layer shown while the power schedule has the
+ * screen "off". On the Pi the HDMI output is normally switched off as well;
+ * elsewhere (or without vcgencmd / cec-client) this layer is the whole effect.
+ * Portalled into `#orientation-portal-root` like JamaatBlackoutOverlay, but
+ * stacked above fullscreen media and messages (z 9000–9100).
+ */
+
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+function resolvePortalRoot(): HTMLElement {
+  return document.getElementById('orientation-portal-root') ?? document.body;
+}
+
+const DisplayPowerBlackout: React.FC = () => {
+  const [portalRoot, setPortalRoot] = useState<HTMLElement | null>(null);
+
+  useEffect(() => {
+    setPortalRoot(resolvePortalRoot());
+  }, []);
+
+  if (!portalRoot) return null;
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9200] bg-black cursor-none"
+      aria-hidden
+      data-testid="display-power-blackout"
+    />,
+    portalRoot,
+  );
+};
+
+export default React.memo(DisplayPowerBlackout);
@@ -0,0 +1,133 @@
+/**
+ * EidJamaatSlots
+ *
+ * Replaces the prayer countdown on Eid morning (useEidMode.showJamaatSlots).
+ * Lists every Eid salah congregation with its time; the next one carries a
+ * live countdown, a running one reads "Jamaat in progress" and finished
+ * ones are dimmed.
+ *
+ * Uses the same in-progress minutes as the phase machine
+ * (`jamaatPhaseMinutesForDisplayPrayer` for "Eid") so the slot status and
+ * the in-prayer / blackout screen always agree.
+ */
+
+import React, { useMemo } from 'react';
+import type { TimeFormat } from '../../api/models';
+import useMasjidTime from '../../hooks/useMasjidTime';
+import { useAppSelector } from '../../store/hooks';
+import { selectDisplaySettings, selectMasjidTimezone } from '../../store/slices/contentSlice';
+import { defaultMasjidTimezone } from '../../config/environment';
+import {
+  formatTimeToDisplay,
+  getTimeUntilNextPrayer,
+  toMinutesFromMidnight,
+} from '../../utils/dateUtils';
+import { jamaatPhaseMinutesForDisplayPrayer } from '../../utils/displaySettingsJamaat';
+import { EID_PRAYER_NAME, type EidJamaatSlot } from '../../utils/eidMode';
+import { resolveTerminology } from '../../utils/prayerTerminology';
+
+export type EidSlotStatus = 'done' | 'in-progress' | 'next' | 'upcoming';
+
+/**
+ * Pure status resolution for each slot. Only the first slot that has not yet
+ * started is `next`; a slot is `in-progress` for `progressMin` after its time.
+ */
+export function resolveEidSlotStatuses(
+  jamaats: EidJamaatSlot[],
+  nowMin: number,
+  progressMin: number,
+): EidSlotStatus[] {
+  let nextAssigned = false;
+  return jamaats.map((slot) => {
+    const J = toMinutesFromMidnight(slot.time, EID_PRAYER_NAME);
+    if (nowMin >= J + progressMin) return 'done';
+    if (nowMin >= J) return 'in-progress';
+    if (!nextAssigned) {
+      nextAssigned = true;
+      return 'next';
+    }
+    return 'upcoming';
+  });
+}
+
+const ORDINALS = ['1st', '2nd', '3rd', '4th', '5th', '6th'];
+
+interface EidJamaatSlotsProps {
+  jamaats: EidJamaatSlot[];
+  /** "Eid al-Fitr" / "Eid al-Adha" */
+  eidName: string;
+  timeFormat?: TimeFormat;
+  /** Strip / sidebar match the PrayerCountdown variants they replace */
+  variant?: 'default' | 'strip' | 'sidebar';
+}
+
+const EidJamaatSlots: React.FC<EidJamaatSlotsProps> = ({
+  jamaats,
+  eidName,
+  timeFormat = '12h',
+  variant = 'default',
+}) => {
+  const now = useMasjidTime();
+  const masjidTz = useAppSelector(selectMasjidTimezone) || defaultMasjidTimezone;
+  const displaySettings = useAppSelector(selectDisplaySettings);
+  const jamaatLabel = resolveTerminology(displaySettings?.terminology, 'jamaat', 'Jamaat');
+
+  const nowMin = now.hour() * 60 + now.minute() + now.second() / 60;
+  const progressMin = jamaatPhaseMinutesForDisplayPrayer(displaySettings, EID_PRAYER_NAME);
+  const statuses = useMemo(
+    () => resolveEidSlotStatuses(jamaats, nowMin, progressMin),
+    [jamaats, nowMin, progressMin],
+  );
+
+  if (jamaats.length === 0) return null;
+
+  const isSidebar = variant === 'sidebar';
+  const isStrip = variant === 'strip';
+  const titleClass = isSidebar || isStrip
+    ? 'text-countdown-strip-label text-gold uppercase font-bold tracking-wider'
+    : 'prayer-countdown-label text-gold uppercase font-semibold tracking-wider';
+  const timeClass = isSidebar || isStrip
+    ? 'text-countdown-strip-label font-extrabold'
+    : 'text-subheading font-bold';
+
+  return (
+    <div
+      className={`eid-jamaat-slots flex w-full max-w-full min-w-0 items-center justify-center gap-x-4 gap-y-1 ${
+        isSidebar ? 'flex-col text-center' : 'flex-wrap'
+      } ${variant === 'default' ? 'countdown-container' : ''}`}
+      aria-label={`${eidName} ${jamaatLabel} times`}
+    >
+      <span className={titleClass}>{eidName}</span>
+      {jamaats.map((slot, i) => {
+        const status = statuses[i];
+        const label = slot.label ?? `${ORDINALS[i] ?? `${i + 1}th`} ${jamaatLabel}`;
+        return (
+          <span
+            key={slot.time}
+            className={`flex min-w-0 items-baseline gap-2 rounded-lg px-3 py-1 ${
+              status === 'next' || status === 'in-progress'
+                ? 'border border-gold/40 bg-gold/10'
+                : 'border border-transparent'
+            } ${status === 'done' ? 'opacity-50' : ''}`}
+            data-status={status}
+          >
+            <span className="text-caption text-text-secondary uppercase tracking-wider">{label}</span>
+            <span className={`${timeClass} ${status === 'done' ? 'text-text-muted' : 'text-gold'}`}>
+              {formatTimeToDisplay(slot.time, timeFormat)}
+            </span>
+            {status === 'next' ? (
+              <span className="text-caption text-text-primary font-semibold">
+                in {getTimeUntilNextPrayer(slot.time, false, {}, masjidTz)}
+              </span>
+            ) : null}
+            {status === 'in-progress' ? (
+              <span className="text-caption text-text-primary font-semibold">{jamaatLabel} in progress</span>
+            ) : null}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default React.memo(EidJamaatSlots);
@@ -40,4 +40,89 @@ describe('EmergencyAlertOverlay', () => {
     expect(screen.getByText(mockEmergencyAlert.title)).toBeInTheDocument();
     expect(screen.getByText(mockEmergencyAlert.message)).toBeInTheDocument();
   });
+
+  it('shows the most urgent alert full-screen and queues the rest in the ticker', () => {
+    const store = createTestStore();
+    store.dispatch(
+      setCurrentAlert({ ...mockEmergencyAlert, id: 'janazah', category: 'janazah', urgency: 'medium', title: 'Janazah notice', message: 'After Asr' }),
+    );
+    store.dispatch(
+      setCurrentAlert({ ...mockEmergencyAlert, id: 'fire', urgency: 'critical', title: 'Fire alarm', message: 'Evacuate now' }),
+    );
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(
+        AllTheProviders,
+        { preloadedState: store.getState() } as React.ComponentProps<typeof AllTheProviders>,
+        children,
+      );
+    render(React.createElement(EmergencyAlertOverlay), { wrapper });
+    expect(screen.getByText('Evacuate now')).toBeInTheDocument();
+    expect(screen.getByRole('status', { name: 'Queued alerts' })).toHaveTextContent('Janazah notice');
+    expect(screen.queryByText('After Asr')).not.toBeInTheDocument();
+  });
+
+  it('renders a structured janazah alert with its details', () => {
+    const store = createTestStore();
+    store.dispatch(
+      setCurrentAlert({
+        ...mockEmergencyAlert,
+        category: 'janazah',
+        urgency: 'medium',
+        title: 'Janazah Announcement',
+        janazah: { deceasedName: 'Abdullah Rahman', salahTime: '2030-01-01T14:00:00.000Z', location: 'Main hall' },
+      }),
+    );
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(
+        AllTheProviders,
+        { preloadedState: store.getState() } as React.ComponentProps<typeof AllTheProviders>,
+        children,
+      );
+    render(React.createElement(EmergencyAlertOverlay), { wrapper });
+    expect(screen.getByRole('heading', { name: 'Abdullah Rahman' })).toBeInTheDocument();
+    expect(screen.getByText('Main hall')).toBeInTheDocument();
+    expect(screen.getByText('Salah')).toBeInTheDocument();
+  });
+
+  it('renders a vehicle alert in the plate format of the vehicle country', () => {
+    const store = createTestStore();
+    store.dispatch(
+      setCurrentAlert({
+        ...mockEmergencyAlert,
+        category: 'vehicle',
+        title: 'Please move your vehicle',
+        message: '241d12345',
+        vehicle: { plateCountry: 'IE' },
+      }),
+    );
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(
+        AllTheProviders,
+        { preloadedState: store.getState() } as React.ComponentProps<typeof AllTheProviders>,
+        children,
+      );
+    render(React.createElement(EmergencyAlertOverlay), { wrapper });
+    expect(screen.getByRole('img', { name: 'Vehicle registration 241-D-12345' })).toHaveTextContent('IRL');
+  });
+
+  it('shows a vehicle message that is not a valid plate as plain text', () => {
+    const store = createTestStore();
+    store.dispatch(
+      setCurrentAlert({
+        ...mockEmergencyAlert,
+        category: 'vehicle',
+        title: 'Please move your vehicle',
+        message: 'Silver estate by the gate',
+      }),
+    );
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(
+        AllTheProviders,
+        { preloadedState: store.getState() } as React.ComponentProps<typeof AllTheProviders>,
+        children,
+      );
+    render(React.createElement(EmergencyAlertOverlay), { wrapper });
+    expect(screen.getByText('Silver estate by the gate')).toBeInTheDocument();
+    expect(screen.queryByRole('img', { name: /Vehicle registration/ })).not.toBeInTheDocument();
+  });
 });
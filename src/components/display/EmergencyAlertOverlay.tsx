@@ -11,9 +11,22 @@
  *
  * The countdown is driven by `expiresAt`, not `timing.remaining`, to avoid
  * clock-skew drift.
+ *
+ * Alerts are queued by priority (emergencySlice): the head of the queue is
+ * shown full-screen and the rest are stacked in a ticker along the footer,
+ * each with its own countdown. A queued alert that reaches its `expiresAt`
+ * is cleared on its own; the others are untouched.
+ *
+ * Janazah alerts with structured details render JanazahAlertContent; their
+ * "after X" salah time comes resolved from useJanazahNotices.
+ *
+ * The first frame of each live alert is reported with `markAlertShown`
+ * (display:alert:shown receipt). With `replayAlert` the overlay shows that
+ * alert instead of the store's, for the admin recent-alerts view: no receipt
+ * is sent and expiry calls `onReplayEnd` rather than clearing the store.
  */
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { sanitizeHtml } from '@/utils/sanitizeHtml';
 import {
   ShieldAlert,
@@ -24,8 +37,14 @@ import {
   Pencil,
 } from 'lucide-react';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
-import { clearCurrentAlert } from '@/store/slices/emergencySlice';
-import { selectTimeFormat } from '@/store/slices/contentSlice';
+import {
+  clearExpiredAlert,
+  markAlertShown,
+  selectAlertQueue,
+  selectJanazahSalahTimes,
+} from '@/store/slices/emergencySlice';
+import { selectMasjidTimezone, selectTimeFormat } from '@/store/slices/contentSlice';
+import { defaultMasjidTimezone } from '@/config/environment';
 import type { RootState } from '@/store';
 import type { AlertCategory, AlertUrgency, EmergencyAlert, TimeFormat } from '@/api/models';
 import { ORIENTATION_FORCE_EVENT } from '@/hooks/useDevKeyboard';
@@ -34,6 +53,8 @@ import { getTimeDisplayParts } from '@/utils/dateUtils';
 import type { RotationDegrees } from '@/types/realtime';
 import logger from '@/utils/logger';
 import VehicleAlertContent from '@/components/display/VehicleAlertContent';
+import JanazahAlertContent from '@/components/display/JanazahAlertContent';
+import { describeJanazahSalah, getJanazahDetails, resolveJanazahSalah } from '@/utils/janazahAlert';
 
 /* ------------------------------------------------------------------ */
 /*  Colour helpers                                                     */
@@ -313,15 +334,79 @@ const AlertContent: React.FC<AlertContentProps> = ({
   );
 };
 
+/* ------------------------------------------------------------------ */
+/*  AlertTicker — queued alerts behind the one on screen              */
+/* ------------------------------------------------------------------ */
+
+/** Ticker rows before the rest collapse into "+N more". */
+const TICKER_MAX_ROWS = 3;
+
+const AlertTicker: React.FC<{ alerts: EmergencyAlert[] }> = ({ alerts }) => {
+  const now = useCurrentTime().getTime();
+  const visible = alerts.slice(0, TICKER_MAX_ROWS);
+  const hidden = alerts.length - visible.length;
+
+  return (
+    <div
+      className="fixed flex flex-col items-stretch gap-[0.6vh] pointer-events-none"
+      style={{ zIndex: 10000, right: '3vw', bottom: '2vh', width: '48vw' }}
+      role="status"
+      aria-label="Queued alerts"
+    >
+      {visible.map((queued) => {
+        const bg = getAlertBackgroundColor(queued);
+        const meta = getCategoryMeta(queued.category);
+        const remaining = Math.max(0, new Date(queued.expiresAt).getTime() - now);
+        return (
+          <div
+            key={queued.id}
+            className="flex items-center gap-[1vw] rounded-[0.6vw] px-[1.2vw] py-[0.8vh] shadow-lg border border-white/20"
+            style={{ backgroundColor: bg, color: getTextColor(bg) }}
+          >
+            <span className="font-bold tracking-wider shrink-0" style={{ fontSize: '1.1vw' }}>
+              {meta.label}
+            </span>
+            <span className="flex-1 min-w-0 truncate font-semibold" style={{ fontSize: '1.4vw' }}>
+              {getJanazahDetails(queued)?.deceasedName ?? queued.title}
+            </span>
+            {meta.showCountdownInHeader && (
+              <span className="shrink-0 tabular-nums opacity-80" style={{ fontSize: '1.2vw' }}>
+                {formatCountdown(remaining)}
+              </span>
+            )}
+          </div>
+        );
+      })}
+      {hidden > 0 && (
+        <div className="self-end text-white/80 font-semibold" style={{ fontSize: '1.1vw' }}>
+          +{hidden} more
+        </div>
+      )}
+    </div>
+  );
+};
+
 /* ------------------------------------------------------------------ */
 /*  EmergencyAlertOverlay — mount / unmount lifecycle                 */
 /* ------------------------------------------------------------------ */
 
 const FADE_OUT_MS = 400; // must match emergency-exit animation duration
+const MAX_TIMEOUT_MS = 2_147_483_647;
 
-const EmergencyAlertOverlay: React.FC = () => {
+interface EmergencyAlertOverlayProps {
+  /** Replay this alert (admin recent-alerts view) instead of the current one. */
+  replayAlert?: EmergencyAlert | null;
+  /** Called when a replayed alert has finished its exit animation. */
+  onReplayEnd?: () => void;
+}
+
+const EmergencyAlertOverlay: React.FC<EmergencyAlertOverlayProps> = ({ replayAlert, onReplayEnd }) => {
   const dispatch = useAppDispatch();
-  const alert = useAppSelector((s: RootState) => s.emergency.currentAlert);
+  const currentAlert = useAppSelector((s: RootState) => s.emergency.currentAlert);
+  const alertQueue = useAppSelector(selectAlertQueue);
+  const isReplay = replayAlert !== undefined;
+  const alert = isReplay ? replayAlert : currentAlert;
+  const queuedAlerts = useMemo(() => (isReplay ? [] : alertQueue.slice(1)), [isReplay, alertQueue]);
 
   /* Dev-mode orientation override */
   const [orientationOverride, setOrientationOverride] = useState<
@@ -335,6 +420,8 @@ const EmergencyAlertOverlay: React.FC = () => {
   }, []);
 
   const timeFormat = useAppSelector(selectTimeFormat);
+  const masjidTz = useAppSelector(selectMasjidTimezone) || defaultMasjidTimezone;
+  const janazahSalahTimes = useAppSelector(selectJanazahSalahTimes);
 
   const uiRotationDegrees = useAppSelector((s: RootState) => s.ui.rotationDegrees);
   const rotationDegrees: RotationDegrees =
@@ -374,6 +461,18 @@ const EmergencyAlertOverlay: React.FC = () => {
     }, FADE_OUT_MS);
   }, []);
 
+  /** Take the alert down: the store's alert is cleared, a replay just ends. */
+  const finish = useCallback(
+    (expired: EmergencyAlert) => {
+      if (isReplay) {
+        onReplayEnd?.();
+      } else {
+        dispatch(clearExpiredAlert(expired.id));
+      }
+    },
+    [dispatch, isReplay, onReplayEnd],
+  );
+
   useEffect(() => {
     if (alert) {
       clearAllTimers();
@@ -383,7 +482,8 @@ const EmergencyAlertOverlay: React.FC = () => {
       if (ms <= 0) {
         // Already expired at receipt time — dismiss immediately
         logger.debug('[EmergencyOverlay] Alert already expired, dismissing');
-        dispatch(clearCurrentAlert());
+        if (isReplay) onReplayEnd?.();
+        else dispatch(clearExpiredAlert(alert.id));
         return;
       }
 
@@ -400,7 +500,7 @@ const EmergencyAlertOverlay: React.FC = () => {
         startExitSequence();
         // Give the exit animation time to finish before clearing Redux state
         setTimeout(() => {
-          dispatch(clearCurrentAlert());
+          finish(alert);
         }, FADE_OUT_MS);
       }, Math.max(0, ms - FADE_OUT_MS));
 
@@ -423,13 +523,52 @@ const EmergencyAlertOverlay: React.FC = () => {
 
   useEffect(() => () => clearAllTimers(), [clearAllTimers]);
 
+  /* Queued alerts count down independently: clear each at its own expiresAt */
+  useEffect(() => {
+    const timers = queuedAlerts
+      // Beyond setTimeout's range; rescheduled whenever the queue changes
+      .filter((queued) => getRemainingMs(queued.expiresAt) <= MAX_TIMEOUT_MS)
+      .map((queued) =>
+        setTimeout(() => {
+          logger.debug('[EmergencyOverlay] Queued alert expired', { id: queued.id });
+          dispatch(clearExpiredAlert(queued.id));
+        }, getRemainingMs(queued.expiresAt)),
+      );
+    return () => timers.forEach(clearTimeout);
+  }, [dispatch, queuedAlerts]);
+
+  /* Render receipt: stamp the first frame after a live alert mounts */
+  const shownAlertId = mounted && !isExiting && !isReplay ? alert?.id : undefined;
+  useEffect(() => {
+    if (!shownAlertId) return;
+    const frame = requestAnimationFrame(() => {
+      dispatch(markAlertShown({ alertId: shownAlertId, shownAt: new Date().toISOString() }));
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [dispatch, shownAlertId]);
+
   if (!mounted) return null;
 
   const displayAlert = alertDataRef.current;
   if (!displayAlert) return null;
 
-  const content =
-    displayAlert.category === 'vehicle' ? (
+  const janazahDetails = getJanazahDetails(displayAlert);
+  const alertContent = janazahDetails ? (
+      <JanazahAlertContent
+        alert={displayAlert}
+        details={janazahDetails}
+        salahLabel={describeJanazahSalah(
+          // Without prayer times (not resolved yet) an absolute time still shows
+          janazahSalahTimes[displayAlert.id] ??
+            resolveJanazahSalah(janazahDetails, [], displayAlert.createdAt, masjidTz),
+          masjidTz,
+          timeFormat,
+        )}
+        isExiting={isExiting}
+        rotationDegrees={rotationDegrees}
+        timeFormat={timeFormat}
+      />
+    ) : displayAlert.category === 'vehicle' ? (
       <VehicleAlertContent
         alert={displayAlert}
         isExiting={isExiting}
@@ -447,6 +586,13 @@ const EmergencyAlertOverlay: React.FC = () => {
       />
     );
 
+  const content = (
+    <>
+      {alertContent}
+      {queuedAlerts.length > 0 && !isExiting && <AlertTicker alerts={queuedAlerts} />}
+    </>
+  );
+
   if (rotationDegrees !== 0) {
     const swapDimensions = rotationDegrees === 90 || rotationDegrees === 270;
     return (
@@ -16,6 +16,9 @@ import ConnectionBanner from './ConnectionBanner';
 /** After showing "Up to date", clear the message after this delay (ms). */
 const NO_UPDATE_CLEAR_MS = 8_000;
 
+/** A rejected or rolled-back update stays up longer so staff can read the reason. */
+const UPDATE_PROBLEM_CLEAR_MS = 5 * 60_000;
+
 /** Injected at build time by Vite (from package.json). */
 const APP_VERSION = import.meta.env.VITE_APP_VERSION;
 
@@ -23,10 +26,14 @@ const Footer: React.FC = () => {
   const dispatch = useAppDispatch();
   const updatePhase = useAppSelector(selectUpdatePhase);
 
-  // Clear "Up to date" after delay
+  // Clear "Up to date" / update problems after delay
   useEffect(() => {
-    if (updatePhase !== 'no_update') return;
-    const timer = setTimeout(() => dispatch(clearUpdateStatus()), NO_UPDATE_CLEAR_MS);
+    const problem = updatePhase === 'failed' || updatePhase === 'rolled_back';
+    if (updatePhase !== 'no_update' && !problem) return;
+    const timer = setTimeout(
+      () => dispatch(clearUpdateStatus()),
+      problem ? UPDATE_PROBLEM_CLEAR_MS : NO_UPDATE_CLEAR_MS,
+    );
     return () => clearTimeout(timer);
   }, [updatePhase, dispatch]);
 
@@ -9,9 +9,10 @@
  */
 
 import React, { useMemo } from 'react';
-import type { TimeFormat } from '@/api/models';
+import type { HijriMonthOverride, TimeFormat } from '@/api/models';
 import useMasjidTime from '../../hooks/useMasjidTime';
-import { calculateApproximateHijriDate, getTimeDisplayParts } from '../../utils/dateUtils';
+import { getTimeDisplayParts } from '../../utils/dateUtils';
+import { getHijriDateString } from '../../utils/hijriCalendar';
 
 interface HeaderProps {
   masjidName?: string | null;
@@ -33,6 +34,8 @@ interface HeaderProps {
   timeFormat?: TimeFormat;
   /** Days to add to the calculated Hijri date (from displaySettings.hijriDateAdjustment) */
   hijriDateAdjustment?: number;
+  /** Moon-sighting month starts (from displaySettings.hijriMonthOverrides) */
+  hijriMonthOverrides?: HijriMonthOverride[] | null;
   /** When false, hide trailing seconds in 24h mode (e.g. portrait header) */
   showClockSeconds?: boolean;
   /** Horizontal bar (default) or vertical sidebar column. */
@@ -66,6 +69,7 @@ const Header: React.FC<HeaderProps> = ({
   ramadanTwoLines = false,
   timeFormat = '12h',
   hijriDateAdjustment = 0,
+  hijriMonthOverrides = null,
   showClockSeconds = true,
   layout = 'horizontal',
 }) => {
@@ -89,8 +93,12 @@ const Header: React.FC<HeaderProps> = ({
     [calendarYear, calendarMonth, calendarDate],
   );
   const hijriDate = useMemo(
-    () => calculateApproximateHijriDate(masjidCalendarDate, hijriDateAdjustment),
-    [masjidCalendarDate, hijriDateAdjustment],
+    () =>
+      getHijriDateString(masjidCalendarDate, {
+        adjustmentDays: hijriDateAdjustment,
+        overrides: hijriMonthOverrides,
+      }),
+    [masjidCalendarDate, hijriDateAdjustment, hijriMonthOverrides],
   );
 
   const showName = showMasjidName && !!masjidName?.trim();
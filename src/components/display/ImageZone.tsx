@@ -0,0 +1,41 @@
+/**
+ * ImageZone
+ *
+ * Image or logo for the `image` layout zone. The source is leased from the
+ * offline media cache like slide images, and a picture that fails to load
+ * leaves the zone empty rather than showing a broken-image icon.
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { ImageZoneFit } from '@/types/displayLayout';
+import useCachedMediaResolver from '../../hooks/useCachedMediaResolver';
+
+interface ImageZoneProps {
+  src: string;
+  fit?: ImageZoneFit;
+  alt?: string;
+}
+
+const ImageZone: React.FC<ImageZoneProps> = ({ src, fit = 'contain', alt }) => {
+  const resolveCachedMedia = useCachedMediaResolver([src]);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setFailed(false);
+  }, [src]);
+
+  if (failed) return null;
+
+  return (
+    <div className="h-full w-full overflow-hidden" data-testid="image-zone">
+      <img
+        src={resolveCachedMedia(src) ?? src}
+        alt={alt ?? ''}
+        className={`h-full w-full ${fit === 'cover' ? 'object-cover' : 'object-contain'}`}
+        onError={() => setFailed(true)}
+      />
+    </div>
+  );
+};
+
+export default React.memo(ImageZone);
@@ -0,0 +1,164 @@
+/**
+ * JanazahAlertContent
+ *
+ * Full-screen janazah notice for alerts that carry structured details
+ * (`alert.janazah`): the name of the deceased with the salah time, location
+ * and burial arrangements laid out as rows rather than one free-text message.
+ * Calm presentation — no countdown and no pulse, as for every janazah alert.
+ *
+ * `JanazahDetailRows` is shared with JanazahSlide, which keeps the notice in
+ * the carousel until the salah once the takeover has ended.
+ */
+
+import React from 'react';
+import { Clock, Landmark, MapPin } from 'lucide-react';
+import type { EmergencyAlert, JanazahAlertDetails, TimeFormat } from '@/api/models';
+import { useCurrentTime } from '@/hooks/useCurrentTime';
+import { getTimeDisplayParts } from '@/utils/dateUtils';
+import type { RotationDegrees } from '@/types/realtime';
+
+/** Matches the janazah colour in EmergencyAlertOverlay. */
+const JANAZAH_BG = '#263238';
+
+export const INNA_LILLAHI_ARABIC = 'إِنَّا لِلَّٰهِ وَإِنَّا إِلَيْهِ رَاجِعُونَ';
+export const INNA_LILLAHI_TRANSLATION = 'To Allah we belong and to Him we return';
+
+/* ------------------------------------------------------------------ */
+/*  JanazahDetailRows — salah / location / burial                     */
+/* ------------------------------------------------------------------ */
+
+export interface JanazahDetailRowsProps {
+  details: JanazahAlertDetails;
+  /** From describeJanazahSalah; row hidden when null */
+  salahLabel: string | null;
+  /** Font size of a row, e.g. '2.6vw' full-screen */
+  fontSize: string;
+}
+
+export const JanazahDetailRows: React.FC<JanazahDetailRowsProps> = ({ details, salahLabel, fontSize }) => {
+  const rows = [
+    { key: 'salah', icon: Clock, label: 'Salah', value: salahLabel },
+    { key: 'location', icon: MapPin, label: 'Location', value: details.location ?? null },
+    { key: 'burial', icon: Landmark, label: 'Burial', value: details.burial ?? null },
+  ].filter((row) => row.value);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <dl className="flex flex-col gap-[0.8em]" style={{ fontSize }}>
+      {rows.map(({ key, icon: Icon, label, value }) => (
+        <div key={key} className="flex items-baseline gap-[0.6em] min-w-0">
+          <Icon className="shrink-0 self-center opacity-70" style={{ width: '1em', height: '1em' }} aria-hidden="true" />
+          <dt className="shrink-0 font-semibold opacity-70">{label}</dt>
+          <dd className="min-w-0 font-semibold">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+/* ------------------------------------------------------------------ */
+/*  JanazahAlertContent — full-screen takeover                        */
+/* ------------------------------------------------------------------ */
+
+export interface JanazahAlertContentProps {
+  alert: EmergencyAlert;
+  details: JanazahAlertDetails;
+  salahLabel: string | null;
+  isExiting: boolean;
+  rotationDegrees: RotationDegrees;
+  timeFormat: TimeFormat;
+}
+
+const JanazahAlertContent: React.FC<JanazahAlertContentProps> = ({
+  alert,
+  details,
+  salahLabel,
+  isExiting,
+  rotationDegrees,
+  timeFormat,
+}) => {
+  const isPortrait = rotationDegrees === 90 || rotationDegrees === 270;
+  const currentTime = useCurrentTime();
+  const timeStr24h = `${String(currentTime.getHours()).padStart(2, '0')}:${String(currentTime.getMinutes()).padStart(2, '0')}`;
+  const { main: timeMain, period: timePeriod } = getTimeDisplayParts(timeStr24h, timeFormat);
+
+  const overlayClasses = [
+    'emergency-overlay',
+    'emergency-overlay--medium',
+    isExiting ? 'emergency-overlay--exiting' : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <div
+      className={`${overlayClasses} gpu-accelerated`}
+      style={{ backgroundColor: JANAZAH_BG, color: '#ffffff' }}
+      role="alert"
+      aria-live="assertive"
+      aria-atomic="true"
+    >
+      {/* ---- HEADER ---- */}
+      <div
+        className="emergency-zone-tint grid grid-cols-3 items-center px-[5vw]"
+        style={{ height: '12%', minHeight: 0 }}
+      >
+        <div className="flex items-center gap-[1vw]">
+          <Landmark className="w-[1.8vw] h-[1.8vw] shrink-0" aria-hidden="true" />
+          <span className="emergency-category-label">JANAZAH ANNOUNCEMENT</span>
+        </div>
+
+        <div className="flex items-baseline justify-center gap-[0.4vw]">
+          <span className="emergency-clock">{timeMain}</span>
+          {timePeriod != null && (
+            <span style={{ fontSize: '2.2vw', fontWeight: 500, opacity: 0.75 }}>{timePeriod}</span>
+          )}
+        </div>
+
+        <div />
+      </div>
+
+      {/* ---- BODY ---- */}
+      <div
+        className="flex flex-col items-center justify-center px-[5vw] text-center"
+        style={{ flex: 1, minHeight: 0, gap: isPortrait ? '2.5vh' : '2vw' }}
+      >
+        <p className="arabic-text opacity-80" style={{ fontSize: isPortrait ? '4vw' : '2.8vw', textAlign: 'center' }} dir="rtl">
+          {INNA_LILLAHI_ARABIC}
+        </p>
+        <p className="opacity-70 italic" style={{ fontSize: isPortrait ? '2.2vw' : '1.4vw' }}>
+          {INNA_LILLAHI_TRANSLATION}
+        </p>
+
+        <div className="flex flex-col items-center" style={{ gap: '0.6vw' }}>
+          <span className="uppercase tracking-widest opacity-70" style={{ fontSize: isPortrait ? '2vw' : '1.3vw' }}>
+            {alert.title}
+          </span>
+          <h1 className="emergency-title" style={{ fontWeight: 700, maxWidth: '85vw' }}>
+            {details.deceasedName}
+          </h1>
+        </div>
+
+        <div className="text-left" style={{ maxWidth: '80vw' }}>
+          <JanazahDetailRows details={details} salahLabel={salahLabel} fontSize={isPortrait ? '3.6vw' : '2.4vw'} />
+        </div>
+      </div>
+
+      {/* ---- FOOTER ---- */}
+      <div
+        className="emergency-zone-tint flex items-center px-[5vw]"
+        style={{ height: '16%', minHeight: 0 }}
+      >
+        <span
+          className="font-bold tracking-wide"
+          style={{ opacity: 0.6, fontSize: '1.1vw', letterSpacing: '0.05em' }}
+        >
+          MasjidConnect
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default JanazahAlertContent;
@@ -0,0 +1,60 @@
+/**
+ * JanazahSlide
+ *
+ * Carousel slide for a janazah notice whose full-screen takeover has ended.
+ * DisplayScreen pins it to the front of the carousel until the salah time
+ * (see useJanazahNotices), so latecomers still see when and where the salah
+ * is held. Fixed layout — skips the carousel typography fit loop.
+ */
+
+import React from 'react';
+import { Landmark } from 'lucide-react';
+import { useAppSelector } from '@/store/hooks';
+import { selectMasjidTimezone, selectTimeFormat } from '@/store/slices/contentSlice';
+import { defaultMasjidTimezone } from '@/config/environment';
+import { describeJanazahSalah, type JanazahNotice } from '@/utils/janazahAlert';
+import { INNA_LILLAHI_ARABIC, INNA_LILLAHI_TRANSLATION, JanazahDetailRows } from './JanazahAlertContent';
+
+export interface JanazahSlideProps {
+  notice: JanazahNotice;
+  /** Portrait layout — smaller type. */
+  compact?: boolean;
+}
+
+const JanazahSlide: React.FC<JanazahSlideProps> = ({ notice, compact = false }) => {
+  const timeFormat = useAppSelector(selectTimeFormat);
+  const tz = useAppSelector(selectMasjidTimezone) || defaultMasjidTimezone;
+  const salahLabel = describeJanazahSalah(notice, tz, timeFormat);
+
+  return (
+    <div className="flex h-full min-h-0 w-full flex-col items-center justify-center gap-4 text-center">
+      <div className="flex items-center justify-center gap-2 text-gold">
+        <Landmark className="w-[1.2rem] h-[1.2rem]" aria-hidden />
+        <span className="text-caption font-semibold uppercase tracking-[0.2em]">Janazah</span>
+      </div>
+
+      <p className="arabic-text text-subheading text-text-secondary" style={{ textAlign: 'center' }} dir="rtl">
+        {INNA_LILLAHI_ARABIC}
+      </p>
+      <p className="text-caption italic text-text-muted">{INNA_LILLAHI_TRANSLATION}</p>
+
+      <h2 className="text-heading font-semibold text-text-primary tracking-tight">
+        {notice.details.deceasedName}
+      </h2>
+      <div
+        className="h-[0.15rem] w-[3rem] mx-auto rounded-full bg-gradient-to-r from-gold to-gold-light"
+        aria-hidden
+      />
+
+      <div className="text-left text-text-primary">
+        <JanazahDetailRows
+          details={notice.details}
+          salahLabel={salahLabel}
+          fontSize={compact ? '1.25rem' : '1.6rem'}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default JanazahSlide;
@@ -4,6 +4,8 @@
  * Portrait layout: compact bar between the prayer times panel and the countdown
  * showing the upcoming Friday Khutbah and Jamaat (same source as the landscape
  * prayer strip), whenever the API provides jummah times in the week data.
+ * Masjids with several sessions get one "1st · Khutbah … · Jamaat …" group
+ * per session.
  *
  * Uses gold-tinted styling to draw attention without overwhelming the display.
  * GPU-safe: no backdrop-filter, no box-shadow animations.
@@ -16,6 +18,7 @@ import { formatTimeToDisplay } from '../../utils/dateUtils';
 import { useAppSelector } from '../../store/hooks';
 import { selectDisplaySettings } from '../../store/slices/contentSlice';
 import { resolveTerminology } from '../../utils/prayerTerminology';
+import { jumuahSessionLabel } from '../../utils/jumuahJamaat';
 
 interface JumuahBarProps {
   /** When true (landscape), use tighter spacing */
@@ -28,7 +31,7 @@ const JumuahBar: React.FC<JumuahBarProps> = ({
   compact = false,
   timeFormat = '12h',
 }) => {
-  const { upcomingJumuahJamaatRaw, upcomingJumuahKhutbahRaw } =
+  const { upcomingJumuahJamaatRaw, upcomingJumuahKhutbahRaw, upcomingJumuahSessions } =
     usePrayerTimesContext();
   const terminology = useAppSelector(selectDisplaySettings)?.terminology;
 
@@ -56,10 +59,22 @@ const JumuahBar: React.FC<JumuahBarProps> = ({
   const khutbahLabel = resolveTerminology(terminology, 'khutbah', 'Khutbah');
   const jamaatLabel = resolveTerminology(terminology, 'jamaat', 'Jamaat');
 
-  const parts: string[] = [];
-  if (hasKhutbah) parts.push(`${khutbahLabel} ${khutbahDisplay}`);
-  if (hasJamaat) parts.push(`${jamaatLabel} ${jamaatDisplay}`);
-  const content = parts.join(' · ');
+  let content: string;
+  if (upcomingJumuahSessions.length > 1) {
+    content = upcomingJumuahSessions
+      .map((session, i) => {
+        const khutbah = session.khutbah
+          ? ` · ${khutbahLabel} ${formatTimeToDisplay(session.khutbah, timeFormat)}`
+          : '';
+        return `${jumuahSessionLabel(session, i)}${khutbah} · ${jamaatLabel} ${formatTimeToDisplay(session.jamaat, timeFormat)}`;
+      })
+      .join('  |  ');
+  } else {
+    const parts: string[] = [];
+    if (hasKhutbah) parts.push(`${khutbahLabel} ${khutbahDisplay}`);
+    if (hasJamaat) parts.push(`${jamaatLabel} ${jamaatDisplay}`);
+    content = parts.join(' · ');
+  }
 
   return (
     <div
@@ -0,0 +1,86 @@
+/**
+ * NumberPlate
+ *
+ * Renders a vehicle registration in the style of its country (see
+ * utils/numberPlate): UK yellow rear plate, Irish and EU white plates with
+ * the blue EU band, a generic US plate, or a plain sign for free text and
+ * registrations that fail validation.
+ */
+
+import React from 'react';
+import UkRearNumberPlate from '@/components/display/UkRearNumberPlate';
+import type { NumberPlateFormat } from '@/api/models';
+import type { ResolvedPlate } from '@/utils/numberPlate';
+
+interface PlateRendererProps {
+  text: string;
+  countrySign: string | null;
+  className: string;
+}
+
+const EU_STAR_COUNT = 12;
+
+/** Circle of twelve stars on the EU band. */
+const EuStars: React.FC = () => (
+  <svg className="eu-plate__stars" viewBox="-10 -10 20 20" aria-hidden="true">
+    {Array.from({ length: EU_STAR_COUNT }, (_, i) => {
+      const angle = (i / EU_STAR_COUNT) * Math.PI * 2;
+      return <circle key={i} cx={Math.sin(angle) * 7} cy={-Math.cos(angle) * 7} r={1.3} fill="#ffcc00" />;
+    })}
+  </svg>
+);
+
+/** White plate with the blue EU band (Ireland and EU member states). */
+const EuRearPlate: React.FC<PlateRendererProps> = ({ text, countrySign, className }) => (
+  <div
+    className={`eu-plate gpu-accelerated ${className}`.trim()}
+    role="img"
+    aria-label={`Vehicle registration ${text}`}
+  >
+    <div className="eu-plate__band" aria-hidden="true">
+      <EuStars />
+      {countrySign && <span className="eu-plate__sign">{countrySign}</span>}
+    </div>
+    <div className="eu-plate__registration">{text}</div>
+  </div>
+);
+
+const UsPlate: React.FC<PlateRendererProps> = ({ text, className }) => (
+  <div
+    className={`us-plate gpu-accelerated ${className}`.trim()}
+    role="img"
+    aria-label={`Vehicle registration ${text}`}
+  >
+    <div className="us-plate__registration">{text}</div>
+  </div>
+);
+
+/** Free text or a registration no plate format accepted. */
+const PlateSign: React.FC<PlateRendererProps> = ({ text, className }) => (
+  <div className={`plate-sign gpu-accelerated ${className}`.trim()}>{text}</div>
+);
+
+const UkPlate: React.FC<PlateRendererProps> = ({ text, className }) => (
+  <UkRearNumberPlate registration={text} className={className} />
+);
+
+const PLATE_RENDERERS: Record<NumberPlateFormat, React.FC<PlateRendererProps>> = {
+  uk: UkPlate,
+  ie: EuRearPlate,
+  eu: EuRearPlate,
+  us: UsPlate,
+  text: PlateSign,
+};
+
+export interface NumberPlateProps {
+  /** From resolvePlate */
+  plate: ResolvedPlate;
+  className?: string;
+}
+
+const NumberPlate: React.FC<NumberPlateProps> = ({ plate, className = '' }) => {
+  const Renderer = PLATE_RENDERERS[plate.format];
+  return <Renderer text={plate.text} countrySign={plate.countrySign} className={className} />;
+};
+
+export default NumberPlate;
@@ -83,6 +83,7 @@ describe('PrayerCountdown — after-Isha tomorrow regression', () => {
       currentPrayer: null,
       isJumuahToday: false,
       jumuahTime: null,
+      jumuahSessions: [],
     });
 
     render(
@@ -109,6 +110,7 @@ describe('PrayerCountdown — after-Isha tomorrow regression', () => {
       currentPrayer: ishaToday,
       isJumuahToday: false,
       jumuahTime: null,
+      jumuahSessions: [],
     });
 
     render(
@@ -137,6 +139,7 @@ describe('PrayerCountdown — after-Isha tomorrow regression', () => {
       currentPrayer: null,
       isJumuahToday: false,
       jumuahTime: null,
+      jumuahSessions: [],
     });
 
     render(
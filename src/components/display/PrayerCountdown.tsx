@@ -23,7 +23,11 @@ import CountdownDisplay from './CountdownDisplay';
 import { useAppSelector } from '../../store/hooks';
 import { selectDisplaySettings, selectMasjidTimezone } from '../../store/slices/contentSlice';
 import { prayerRowNameToTerminologyKey, resolveTerminology } from '../../utils/prayerTerminology';
-import { getEffectiveJamaat } from '../../utils/jumuahJamaat';
+import {
+  getEffectiveJamaat,
+  jumuahSessionLabel,
+  resolveJumuahSession,
+} from '../../utils/jumuahJamaat';
 import { defaultMasjidTimezone } from '../../config/environment';
 
 interface PrayerCountdownProps {
@@ -55,20 +59,34 @@ const PrayerCountdown: React.FC<PrayerCountdownProps> = ({
   inPrayerSubPhase,
   variant = 'default',
 }) => {
-  const { nextPrayer, isJumuahToday, jumuahTime } = usePrayerTimesContext();
+  const { nextPrayer, isJumuahToday, jumuahTime, jumuahSessions } = usePrayerTimesContext();
   // Use masjid-local time so comparisons against prayer strings are correct
   // when the Pi's system timezone is UTC.
   const now = useMasjidTime();
   const masjidTz = useAppSelector(selectMasjidTimezone) || defaultMasjidTimezone;
-  const terminology = useAppSelector(selectDisplaySettings)?.terminology;
+  const displaySettings = useAppSelector(selectDisplaySettings);
+  const terminology = displaySettings?.terminology;
 
   /**
    * On Fridays, the countdown must target `jummahJamaat` even though
    * `nextPrayer` is still the Zuhr slot (the panel keeps the Zuhr row anchored
    * to its own jamaat — `JumuahBar` displays the Friday time separately).
    * `getEffectiveJamaat` is the single source of truth for that swap.
+   * With several sessions, count down to the one the phase machine targets.
    */
-  const effectiveJamaat = getEffectiveJamaat(nextPrayer, isJumuahToday, jumuahTime);
+  const nowMinute = now.hour() * 60 + now.minute() + now.second() / 60;
+  const activeJumuah = isJumuahToday
+    ? resolveJumuahSession(jumuahSessions, nowMinute, displaySettings)
+    : null;
+  const effectiveJamaat = getEffectiveJamaat(
+    nextPrayer,
+    isJumuahToday,
+    activeJumuah?.jamaat ?? jumuahTime,
+  );
+  const adhanTime =
+    activeJumuah && nextPrayer?.name === 'Zuhr'
+      ? (activeJumuah.khutbah ?? activeJumuah.jamaat)
+      : nextPrayer?.time;
 
   /**
    * Determine what to count down to. Mirrors the `usePrayerPhase` rule so the
@@ -95,7 +113,8 @@ const PrayerCountdown: React.FC<PrayerCountdownProps> = ({
     if (!nextPrayer) return null;
 
     const nowMin = now.hour() * 60 + now.minute() + now.second() / 60;
-    const A = toMinutesFromMidnight(nextPrayer.time, nextPrayer.name);
+    const adhan = adhanTime ?? nextPrayer.time;
+    const A = toMinutesFromMidnight(adhan, nextPrayer.name);
     const J = toMinutesFromMidnight(effectiveJamaat, nextPrayer.name);
 
     if (A < 0 && J < 0) return null;
@@ -107,7 +126,7 @@ const PrayerCountdown: React.FC<PrayerCountdownProps> = ({
       if (J >= 0 && nowMin >= J - JAMAAT_LEAD_MIN) {
         return { time: effectiveJamaat!, forceTomorrow: false, target: 'jamaat' };
       }
-      return { time: nextPrayer.time, forceTomorrow: false, target: 'adhan' };
+      return { time: adhan, forceTomorrow: false, target: 'adhan' };
     }
 
     // Adhan passed (or missing) but jamaat still upcoming today
@@ -138,7 +157,7 @@ const PrayerCountdown: React.FC<PrayerCountdownProps> = ({
     }
 
     return null;
-  }, [nextPrayer, now, effectiveJamaat, phase]);
+  }, [nextPrayer, now, effectiveJamaat, adhanTime, phase]);
 
   /**
    * Live countdown string, recomputed every second via now (masjid tz).
@@ -155,11 +174,13 @@ const PrayerCountdown: React.FC<PrayerCountdownProps> = ({
   const displayName = useMemo(() => {
     if (!nextPrayer?.name) return '';
     if (nextPrayer.name === 'Zuhr' && isJumuahToday) {
-      return resolveTerminology(terminology, 'jummah', 'Jumuah');
+      const jummah = resolveTerminology(terminology, 'jummah', 'Jumuah');
+      if (jumuahSessions.length < 2 || !activeJumuah) return jummah;
+      return jumuahSessionLabel(activeJumuah, jumuahSessions.indexOf(activeJumuah), jummah);
     }
     const key = prayerRowNameToTerminologyKey(nextPrayer.name);
     return key ? resolveTerminology(terminology, key, nextPrayer.name) : nextPrayer.name;
-  }, [nextPrayer?.name, isJumuahToday, terminology]);
+  }, [nextPrayer?.name, isJumuahToday, terminology, jumuahSessions, activeJumuah]);
 
   const jamaatLabel = resolveTerminology(terminology, 'jamaat', 'Jamaat');
   const countdownLabel = useMemo(
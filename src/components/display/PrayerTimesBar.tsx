@@ -9,7 +9,8 @@ import React, { useMemo } from 'react';
 import { usePrayerTimesContext } from '../../contexts/PrayerTimesContext';
 import type { TomorrowsJamaatsMap } from '../../hooks/usePrayerTimes';
 import useMasjidTime from '../../hooks/useMasjidTime';
-import { calculateApproximateHijriDate, getTimeDisplayParts } from '../../utils/dateUtils';
+import { getTimeDisplayParts } from '../../utils/dateUtils';
+import { getHijriDateString } from '../../utils/hijriCalendar';
 import type { TimeFormat } from '../../api/models';
 import { useAppSelector } from '../../store/hooks';
 import { selectDisplaySettings } from '../../store/slices/contentSlice';
@@ -104,9 +105,15 @@ const PrayerTimesBar: React.FC<PrayerTimesBarProps> = ({
   const dayNameLong = DAYS_LONG[now.day()];
   const dateStrShort = `${now.date()} ${MONTHS_SHORT[now.month()]} ${now.year()}`;
   const dateStrLong = `${now.date()} ${MONTHS_LONG[now.month()]} ${now.year()}`;
+  const masjidDay = now.format('YYYY-MM-DD');
+  const hijriMonthOverrides = displaySettings?.hijriMonthOverrides;
   const hijriDate = useMemo(
-    () => calculateApproximateHijriDate(undefined, hijriDateAdjustment),
-    [now.date(), hijriDateAdjustment],
+    () =>
+      getHijriDateString(masjidDay, {
+        adjustmentDays: hijriDateAdjustment,
+        overrides: hijriMonthOverrides,
+      }),
+    [masjidDay, hijriDateAdjustment, hijriMonthOverrides],
   );
 
   const showTomorrowCol =
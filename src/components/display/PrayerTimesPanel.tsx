@@ -240,6 +240,7 @@ const PrayerTimesPanel: React.FC<PrayerTimesPanelProps> = ({
                   ${fillHeight ? 'py-2.5' : 'py-1.5'}
                   ${isNext ? 'bg-emerald/20 ring-1 ring-inset ring-emerald/30' : ''}
                   ${isRollForward && !isNext ? 'prayer-row--roll-forward' : ''}
+                  ${prayer.isCalculated ? 'outline-dashed outline-1 -outline-offset-1 outline-alert-orange/40' : ''}
                 `}
               >
                 <div className="flex items-center gap-2 min-w-0">
@@ -265,6 +266,9 @@ const PrayerTimesPanel: React.FC<PrayerTimesPanelProps> = ({
                   {ramadanLabel && (
                     <span className="text-caption text-gold/75 font-normal italic">{ramadanLabel}</span>
                   )}
+                  {prayer.isCalculated && (
+                    <span className="text-caption text-alert-orange/80 font-normal italic">Calculated</span>
+                  )}
                 </div>
 
                 {prayer.jamaat && resolvedJamaat ? (
@@ -0,0 +1,39 @@
+/**
+ * QrPanel
+ *
+ * Static QR code for the `qr` layout zone (donation page, website) with an
+ * optional caption. The code is drawn as a scalable SVG and fills whatever
+ * the zone leaves after the caption.
+ */
+
+import React from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+
+interface QrPanelProps {
+  url: string;
+  caption?: string;
+}
+
+const QrPanel: React.FC<QrPanelProps> = ({ url, caption }) => (
+  <div className="flex h-full w-full flex-col items-center justify-center gap-2 p-2" data-testid="qr-panel">
+    <div className="flex min-h-0 flex-1 items-center justify-center">
+      <div className="aspect-square h-full max-w-full rounded-2xl bg-white p-3 shadow-[0_4px_24px_rgba(0,0,0,0.12)]">
+        <QRCodeSVG
+          value={url}
+          level="M"
+          marginSize={1}
+          fgColor="#0A2647"
+          bgColor="#ffffff"
+          className="h-full w-full"
+        />
+      </div>
+    </div>
+    {caption && (
+      <p className="shrink-0 text-body font-semibold text-gold text-center leading-tight line-clamp-2">
+        {caption}
+      </p>
+    )}
+  </div>
+);
+
+export default React.memo(QrPanel);
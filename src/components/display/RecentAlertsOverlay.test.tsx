@@ -0,0 +1,52 @@
+/**
+ * Tests for RecentAlertsOverlay (admin replay view).
+ */
+
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import RecentAlertsOverlay, { getRecentAlerts } from './RecentAlertsOverlay';
+import { createTestStore } from '@/test-utils';
+import { setCurrentAlert, clearCurrentAlert } from '@/store/slices/emergencySlice';
+import { setShowRecentAlerts } from '@/store/slices/uiSlice';
+import { mockEmergencyAlert } from '@/test-utils/mocks';
+
+vi.mock('@/utils/logger', () => ({
+  default: { info: vi.fn(), debug: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+describe('getRecentAlerts', () => {
+  it('lists received alerts newest first with how each ended', () => {
+    const store = createTestStore();
+    store.dispatch(setCurrentAlert({ ...mockEmergencyAlert, id: 'first', title: 'First' }));
+    store.dispatch(clearCurrentAlert());
+    store.dispatch(setCurrentAlert({ ...mockEmergencyAlert, id: 'second', title: 'Second' }));
+
+    const recent = getRecentAlerts(store.getState().emergency.alertHistory);
+
+    expect(recent.map((r) => [r.received.alert.id, r.outcome])).toEqual([
+      ['second', null],
+      ['first', 'cleared'],
+    ]);
+  });
+});
+
+describe('RecentAlertsOverlay', () => {
+  it('replays a listed alert full-screen without touching the current alert', () => {
+    const store = createTestStore();
+    store.dispatch(setCurrentAlert({ ...mockEmergencyAlert, id: 'old', title: 'Old notice' }));
+    store.dispatch(clearCurrentAlert());
+    store.dispatch(setShowRecentAlerts(true));
+
+    render(
+      <Provider store={store}>
+        <RecentAlertsOverlay />
+      </Provider>,
+    );
+    fireEvent.click(screen.getByText('Old notice'));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Old notice');
+    expect(store.getState().emergency.currentAlert).toBeNull();
+  });
+});
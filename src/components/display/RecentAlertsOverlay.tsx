@@ -0,0 +1,214 @@
+/**
+ * RecentAlertsOverlay
+ *
+ * Hidden admin view listing the last emergency alerts this screen received
+ * (persisted alert history), with when each was shown and how long it took to
+ * render. Selecting one replays it full-screen through EmergencyAlertOverlay
+ * so staff can check how an alert looked without sending it again.
+ *
+ * Opened with Ctrl+Shift+A while the WiFi settings overlay is open; not listed
+ * in any on-screen hint.
+ *
+ * Keyboard model:
+ *   - ArrowUp / ArrowDown — move focus through the list (wraps).
+ *   - Enter / Space — replay the focused alert.
+ *   - Escape — stop a replay, otherwise go back to WiFi settings.
+ *
+ * z-index: 9998 (same layer as WiFi settings); a replay and any live alert
+ * render above it at 9999.
+ */
+
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import { History, X, Play } from 'lucide-react';
+import { useAppDispatch, useAppSelector } from '../../store/hooks';
+import {
+  selectShowRecentAlerts,
+  setShowRecentAlerts,
+  setShowWifiSettings,
+} from '../../store/slices/uiSlice';
+import { selectAlertHistory, type AlertHistoryEntry } from '../../store/slices/emergencySlice';
+import type { EmergencyAlert } from '../../api/models';
+import EmergencyAlertOverlay from './EmergencyAlertOverlay';
+import logger from '../../utils/logger';
+
+/** Alerts listed (most recent first). */
+export const RECENT_ALERTS_LIMIT = 10;
+/** How long a replay stays on screen. */
+const REPLAY_DURATION_MS = 15_000;
+
+interface RecentAlert {
+  received: AlertHistoryEntry;
+  /** How the alert left the screen, if it has */
+  outcome: AlertHistoryEntry['action'] | null;
+}
+
+/** Last `limit` alerts received, newest first, each with how it ended. */
+export function getRecentAlerts(history: AlertHistoryEntry[], limit = RECENT_ALERTS_LIMIT): RecentAlert[] {
+  const recent: RecentAlert[] = [];
+  for (let i = history.length - 1; i >= 0 && recent.length < limit; i--) {
+    const entry = history[i];
+    if (entry.action !== 'received') continue;
+    const end = history.slice(i + 1).find((e) => e.alert.id === entry.alert.id && e.action !== 'received');
+    recent.push({ received: entry, outcome: end?.action ?? null });
+  }
+  return recent;
+}
+
+function formatReceivedAt(iso: string): string {
+  return new Date(iso).toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+const RecentAlertsOverlay: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const isVisible = useAppSelector(selectShowRecentAlerts);
+  const history = useAppSelector(selectAlertHistory);
+  const recentAlerts = useMemo(() => getRecentAlerts(history), [history]);
+
+  const [replaying, setReplaying] = useState<EmergencyAlert | null>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => {
+    setReplaying(null);
+    dispatch(setShowRecentAlerts(false));
+    dispatch(setShowWifiSettings(true));
+  }, [dispatch]);
+
+  const replay = useCallback((alert: EmergencyAlert) => {
+    logger.info('[RecentAlerts] Replaying alert', { id: alert.id, category: alert.category });
+    setReplaying({ ...alert, expiresAt: new Date(Date.now() + REPLAY_DURATION_MS).toISOString() });
+  }, []);
+
+  // Escape stops a replay first, then closes
+  useEffect(() => {
+    if (!isVisible) return;
+    const handler = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (replaying) setReplaying(null);
+      else close();
+    };
+    window.addEventListener('keydown', handler, { capture: true });
+    return () => window.removeEventListener('keydown', handler, { capture: true });
+  }, [isVisible, replaying, close]);
+
+  // Arrow-key roving focus (same model as WifiSettingsOverlay)
+  useEffect(() => {
+    if (!isVisible || replaying) return;
+    const handler = (e: KeyboardEvent) => {
+      if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return;
+      const focusables = Array.from(dialogRef.current?.querySelectorAll<HTMLElement>('button') ?? []);
+      if (focusables.length === 0) return;
+
+      const currentIdx = focusables.indexOf(document.activeElement as HTMLElement);
+      const lastIdx = focusables.length - 1;
+      const nextIdx =
+        e.key === 'ArrowDown'
+          ? currentIdx < 0 ? 0 : (currentIdx + 1) % focusables.length
+          : currentIdx <= 0 ? lastIdx : currentIdx - 1;
+
+      e.preventDefault();
+      e.stopPropagation();
+      focusables[nextIdx].focus();
+      focusables[nextIdx].scrollIntoView({ block: 'nearest' });
+    };
+    window.addEventListener('keydown', handler, { capture: true });
+    return () => window.removeEventListener('keydown', handler, { capture: true });
+  }, [isVisible, replaying]);
+
+  useEffect(() => {
+    if (isVisible && !replaying) closeRef.current?.focus();
+  }, [isVisible, replaying]);
+
+  if (!isVisible) return null;
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-[9998] flex items-center justify-center bg-black/80"
+        style={{ cursor: 'auto' }}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Recent alerts"
+      >
+        <div
+          ref={dialogRef}
+          className="w-full max-w-lg bg-[#0f1729] border border-white/10 rounded-2xl shadow-2xl overflow-hidden animate-fade-in"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+            <div className="flex items-center gap-3">
+              <History className="w-5 h-5 text-gold" />
+              <h2 className="text-lg font-bold text-white">Recent alerts</h2>
+            </div>
+            <button
+              ref={closeRef}
+              onClick={close}
+              className="p-2 rounded-lg text-text-muted hover:text-white hover:bg-white/10 transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-gold/70"
+              aria-label="Close"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Alert list */}
+          <div className="px-6 py-4 max-h-[60vh] overflow-y-auto">
+            {recentAlerts.length === 0 ? (
+              <p className="text-sm text-text-muted text-center py-6">No alerts received on this screen yet.</p>
+            ) : (
+              <div className="space-y-1">
+                {recentAlerts.map(({ received, outcome }) => (
+                  <button
+                    key={`${received.alert.id}-${received.timestamp}`}
+                    onClick={() => replay(received.alert)}
+                    className="w-full flex items-center gap-3 px-3 py-2.5 rounded-lg hover:bg-white/5 transition-colors text-left focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-gold/70"
+                  >
+                    <Play className="w-4 h-4 text-gold shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-text-primary truncate">{received.alert.title}</div>
+                      <div className="text-xs text-text-muted">
+                        {formatReceivedAt(received.timestamp)} · {received.alert.category} · {received.alert.urgency}
+                      </div>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <div className="text-xs text-text-secondary tabular-nums">
+                        {received.renderLatencyMs !== undefined ? `${received.renderLatencyMs} ms` : 'Not shown'}
+                      </div>
+                      <div className="text-[11px] text-text-muted">{outcome ?? 'active'}</div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Footer hint */}
+          <div className="px-6 py-3 border-t border-white/10 bg-white/[0.02]">
+            <p className="text-[11px] text-text-muted text-center flex flex-wrap items-center justify-center gap-x-3 gap-y-1">
+              <span className="flex items-center gap-1.5">
+                <kbd className="px-1.5 py-0.5 bg-white/10 rounded text-text-secondary font-mono text-[10px]">Enter</kbd>
+                replay
+              </span>
+              <span className="flex items-center gap-1.5">
+                <kbd className="px-1.5 py-0.5 bg-white/10 rounded text-text-secondary font-mono text-[10px]">Esc</kbd>
+                stop / back
+              </span>
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {replaying && (
+        <EmergencyAlertOverlay key={replaying.expiresAt} replayAlert={replaying} onReplayEnd={() => setReplaying(null)} />
+      )}
+    </>
+  );
+};
+
+export default RecentAlertsOverlay;
@@ -1,16 +1,22 @@
 /**
  * VehicleAlertContent
  *
- * Full-screen vehicle / parking alert: dark backdrop with an oversized UK rear
- * plate so worshippers recognise it instantly from across the carpark.
+ * Full-screen vehicle / parking alert: dark backdrop with an oversized rear
+ * plate so worshippers recognise it instantly from across the carpark. The
+ * plate style follows the alert's plate details, else the masjid's country
+ * or timezone (see utils/numberPlate).
  */
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Car } from 'lucide-react';
-import UkRearNumberPlate from '@/components/display/UkRearNumberPlate';
+import NumberPlate from '@/components/display/NumberPlate';
 import type { EmergencyAlert, TimeFormat } from '@/api/models';
 import { useCurrentTime } from '@/hooks/useCurrentTime';
+import { useAppSelector } from '@/store/hooks';
+import { selectMasjidCountry, selectMasjidTimezone } from '@/store/slices/contentSlice';
+import { defaultMasjidTimezone } from '@/config/environment';
 import { getTimeDisplayParts } from '@/utils/dateUtils';
+import { resolvePlate, resolvePlateFormat } from '@/utils/numberPlate';
 import type { RotationDegrees } from '@/types/realtime';
 
 function formatCountdown(ms: number): string {
@@ -46,6 +52,18 @@ const VehicleAlertContent: React.FC<VehicleAlertContentProps> = ({
   const currentTime = useCurrentTime();
   const timeStr24h = `${String(currentTime.getHours()).padStart(2, '0')}:${String(currentTime.getMinutes()).padStart(2, '0')}`;
   const { main: timeMain, period: timePeriod } = getTimeDisplayParts(timeStr24h, timeFormat);
+  const masjidCountry = useAppSelector(selectMasjidCountry);
+  const masjidTimezone = useAppSelector(selectMasjidTimezone) || defaultMasjidTimezone;
+
+  const plate = useMemo(() => {
+    const { format, countrySign } = resolvePlateFormat({
+      format: alert.vehicle?.plateFormat,
+      country: alert.vehicle?.plateCountry,
+      masjidCountry,
+      masjidTimezone,
+    });
+    return resolvePlate(alert.vehicle?.registration || alert.message, format, countrySign);
+  }, [alert.vehicle, alert.message, masjidCountry, masjidTimezone]);
 
   const overlayClasses = [
     'emergency-overlay',
@@ -91,7 +109,7 @@ const VehicleAlertContent: React.FC<VehicleAlertContentProps> = ({
         className="vehicle-alert-body flex flex-col items-center justify-center text-center"
         style={{ flex: 1, minHeight: 0, minWidth: 0 }}
       >
-        <UkRearNumberPlate registration={alert.message} />
+        {plate && <NumberPlate plate={plate} />}
 
         <p className="vehicle-alert-reason text-white">
           {alert.title}
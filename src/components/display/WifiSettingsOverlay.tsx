@@ -20,6 +20,8 @@
  *   - ArrowLeft / ArrowRight — adjust the volume slider when it is focused
  *     (native range-input behaviour).
  *   - Escape — close the overlay.
+ *   - Ctrl+Shift+A — hidden: open the recent emergency alerts view
+ *     (RecentAlertsOverlay); Escape there comes back here.
  *
  * z-index: 9998 (below EmergencyAlertOverlay at 9999, above everything else).
  * Cursor is set to auto within the overlay (exception to global cursor:none).
@@ -31,6 +33,7 @@ import { useAppDispatch, useAppSelector } from '../../store/hooks';
 import {
   selectShowWifiSettings,
   selectWifiStatus,
+  setShowRecentAlerts,
   setShowWifiSettings,
 } from '../../store/slices/uiSlice';
 import { useBuzzerSettings } from '../../hooks/useBuzzerSettings';
@@ -63,8 +66,20 @@ const WifiSettingsOverlay: React.FC = () => {
   const [isConnecting, setIsConnecting] = useState(false);
   const [statusMsg, setStatusMsg] = useState<{ type: 'success' | 'error' | 'info'; text: string } | null>(null);
 
-  /* Jamaat buzzer settings (device-local, persisted to localStorage) */
-  const { enabled: buzzerEnabled, volume: buzzerVolume, setEnabled: setBuzzerEnabled, setVolume: setBuzzerVolume } = useBuzzerSettings();
+  /* Jamaat buzzer settings (portal values, overridable on this device) */
+  const {
+    enabled: buzzerEnabled,
+    volume: buzzerVolume,
+    soundUrl: buzzerSoundUrl,
+    localOverrideAllowed: buzzerOverrideAllowed,
+    source: buzzerSource,
+    hasLocalOverrides: buzzerHasLocalOverrides,
+    setEnabled: setBuzzerEnabled,
+    setVolume: setBuzzerVolume,
+    clearLocalOverrides: clearBuzzerOverrides,
+  } = useBuzzerSettings();
+  /* Portal either forbids device changes or has switched the buzzer off outright. */
+  const buzzerLocked = !buzzerOverrideAllowed || (!buzzerEnabled && buzzerSource.enabled === 'portal');
   const [isTestingSound, setIsTestingSound] = useState(false);
 
   const passwordRef = useRef<HTMLInputElement>(null);
@@ -78,18 +93,24 @@ const WifiSettingsOverlay: React.FC = () => {
     setStatusMsg(null);
   }, [dispatch]);
 
-  // Escape to close
+  // Escape to close; Ctrl+Shift+A (unlisted) opens the recent-alerts admin view
   useEffect(() => {
     if (!isVisible) return;
     const handler = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
         e.preventDefault();
         close();
+      } else if (e.ctrlKey && e.shiftKey && (e.key === 'A' || e.key === 'a')) {
+        e.preventDefault();
+        e.stopPropagation();
+        close();
+        dispatch(setShowRecentAlerts(true));
+        logger.info('[WifiOverlay] Opened recent alerts view');
       }
     };
     window.addEventListener('keydown', handler, { capture: true });
     return () => window.removeEventListener('keydown', handler, { capture: true });
-  }, [isVisible, close]);
+  }, [isVisible, close, dispatch]);
 
   /**
    * Arrow-key roving focus.
@@ -232,7 +253,7 @@ const WifiSettingsOverlay: React.FC = () => {
   const testBuzzer = useCallback(async () => {
     setIsTestingSound(true);
     try {
-      await playBuzzerPreview(buzzerVolume);
+      await playBuzzerPreview(buzzerVolume, buzzerSoundUrl);
     } catch (e) {
       logger.warn('[Settings] Buzzer test failed', {
         error: e instanceof Error ? e.message : String(e),
@@ -242,7 +263,7 @@ const WifiSettingsOverlay: React.FC = () => {
       /* Re-enable shortly so users can re-test without a hard wait. */
       setTimeout(() => setIsTestingSound(false), 800);
     }
-  }, [buzzerVolume]);
+  }, [buzzerVolume, buzzerSoundUrl]);
 
   if (!isVisible) return null;
 
@@ -444,7 +465,7 @@ const WifiSettingsOverlay: React.FC = () => {
           </div>
         )}
 
-        {/* Sound — jamaat buzzer settings (device-local) */}
+        {/* Sound — jamaat buzzer settings (portal, with device override) */}
         <div className="px-6 py-4 border-t border-white/10">
           <span className="text-sm font-semibold text-text-secondary uppercase tracking-wider mb-3 block">
             Sound
@@ -453,7 +474,8 @@ const WifiSettingsOverlay: React.FC = () => {
           {/* Enable / disable toggle */}
           <button
             onClick={() => setBuzzerEnabled(!buzzerEnabled)}
-            className="w-full flex items-center gap-3 px-3 py-2.5 rounded-lg hover:bg-white/5 transition-colors text-left focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-gold/70"
+            disabled={buzzerLocked}
+            className="w-full flex items-center gap-3 px-3 py-2.5 rounded-lg hover:bg-white/5 disabled:hover:bg-transparent disabled:cursor-not-allowed transition-colors text-left focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-gold/70"
             aria-pressed={buzzerEnabled}
             aria-label={`Jamaat buzzer ${buzzerEnabled ? 'enabled' : 'disabled'}`}
           >
@@ -465,6 +487,7 @@ const WifiSettingsOverlay: React.FC = () => {
             <span className="flex-1 text-sm font-medium text-text-primary">
               Jamaat buzzer
             </span>
+            {buzzerLocked && <Lock className="w-3.5 h-3.5 text-text-muted shrink-0" aria-label="Set by portal" />}
             <span className="text-xs text-text-muted">
               {buzzerEnabled ? 'On' : 'Off'}
             </span>
@@ -498,8 +521,8 @@ const WifiSettingsOverlay: React.FC = () => {
                 onChange={(e) => setBuzzerVolume(Number(e.target.value) / 100)}
                 aria-label="Buzzer volume"
                 className="flex-1 h-1.5 rounded-full appearance-none bg-white/10 accent-gold cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-gold/70 focus-visible:ring-offset-2 focus-visible:ring-offset-[#0f1729]"
-                style={{ cursor: 'pointer' }}
-                disabled={!buzzerEnabled}
+                style={{ cursor: buzzerLocked ? 'not-allowed' : 'pointer' }}
+                disabled={!buzzerEnabled || buzzerLocked}
               />
               <span className="text-xs text-text-muted tabular-nums w-10 text-right">
                 {buzzerVolumePct}%
@@ -515,8 +538,20 @@ const WifiSettingsOverlay: React.FC = () => {
               </button>
             </div>
             <p className="text-[11px] text-text-muted mt-2">
-              Plays once when each jamaat begins. Stored on this device only.
+              {buzzerLocked
+                ? 'Plays once at each jamaat. Managed from the portal.'
+                : buzzerHasLocalOverrides
+                  ? 'Plays once at each jamaat. Changed on this device — overrides the portal.'
+                  : 'Plays once at each jamaat. Following the portal settings.'}
             </p>
+            {buzzerHasLocalOverrides && !buzzerLocked && (
+              <button
+                onClick={clearBuzzerOverrides}
+                className="mt-1 text-[11px] font-semibold text-gold hover:underline focus:outline-none focus-visible:ring-2 focus-visible:ring-gold/70 rounded"
+              >
+                Use portal settings
+              </button>
+            )}
           </div>
         </div>
 
@@ -15,10 +15,20 @@ export { default as RamadanPattern } from './RamadanPattern';
 export { default as SilentPhonesGraphic } from './SilentPhonesGraphic';
 export { default as TomorrowsJamaatChangeSlide } from './TomorrowsJamaatChangeSlide';
 export { default as JamaatSoonSlot } from './JamaatSoonSlot';
+export { default as EidJamaatSlots } from './EidJamaatSlots';
 export { default as SupplicationScreen } from './SupplicationScreen';
 export { default as PostJamaatSupplicationSlot } from './PostJamaatSupplicationSlot';
 export { default as JamaatBlackoutOverlay } from './JamaatBlackoutOverlay';
+export { default as DisplayPowerBlackout } from './DisplayPowerBlackout';
+export { default as BrightnessDimLayer } from './BrightnessDimLayer';
+export { default as DisplayMessageBar } from './DisplayMessageBar';
+export { default as DisplayMessageFullscreen } from './DisplayMessageFullscreen';
 export { default as InPrayerScreen } from './InPrayerScreen';
 export { default as ForbiddenPrayerNotice } from './ForbiddenPrayerNotice';
 export { default as EventSlide } from './EventSlide';
 export { default as WifiSettingsOverlay } from './WifiSettingsOverlay';
+export { default as RecentAlertsOverlay } from './RecentAlertsOverlay';
+export { default as ClockZone } from './ClockZone';
+export { default as AnnouncementTicker } from './AnnouncementTicker';
+export { default as QrPanel } from './QrPanel';
+export { default as ImageZone } from './ImageZone';
@@ -32,6 +32,10 @@ export interface StripPrayerRow {
   jamaat?: string;
   isNext: boolean;
   isJumuah?: boolean;
+  /** Every session's jamaat when the masjid runs more than one Jumu'ah. */
+  jumuahJamaats?: string[];
+  /** Calculated on-device (offline fallback) — tile gets a dashed outline and "≈" marker. */
+  isCalculated?: boolean;
 }
 
 export const TimeWithPeriod: React.FC<{
@@ -188,7 +192,9 @@ export const PrayerCueTile: React.FC<PrayerCueTileProps> = ({
         rounded-lg transition-colors duration-normal overflow-hidden
         ${isNext ? 'bg-emerald/15 border-2 border-emerald/40' : 'bg-surface/50 border border-border'}
         ${isRollForward && !isNext ? 'prayer-cue-tile--roll-forward' : ''}
+        ${prayer.isCalculated ? 'outline-dashed outline-1 -outline-offset-2 outline-alert-orange/50' : ''}
       `}
+      title={prayer.isCalculated ? 'Calculated locally' : undefined}
     >
       <div className="flex items-center gap-1 flex-wrap justify-center max-w-full">
         <span
@@ -204,6 +210,11 @@ export const PrayerCueTile: React.FC<PrayerCueTileProps> = ({
             {ramadanLabel}
           </span>
         )}
+        {prayer.isCalculated && (
+          <span className="text-prayer-strip-label text-alert-orange/80 font-semibold" aria-label="Calculated">
+            ≈
+          </span>
+        )}
       </div>
 
       <span
@@ -238,6 +249,19 @@ export const PrayerCueTile: React.FC<PrayerCueTileProps> = ({
         </span>
       ) : null}
 
+      {prayer.isJumuah && prayer.jumuahJamaats && prayer.jumuahJamaats.length > 1 && (
+        <span className="text-prayer-strip-jamaat text-text-secondary mt-0.5 tabular-nums text-center leading-tight">
+          {prayer.jumuahJamaats
+            .filter((t) => t !== prayer.jamaat)
+            .map((t, i) => (
+              <React.Fragment key={t}>
+                {i > 0 && ' · '}
+                <TimeWithPeriod timeString={t} timeFormat={timeFormat} />
+              </React.Fragment>
+            ))}
+        </span>
+      )}
+
       {showImsakInCard && imsakTime && (
         <span className="text-prayer-strip-jamaat text-gold/80 mt-0.5 italic font-medium tabular-nums text-center leading-tight">
           Imsak <TimeWithPeriod timeString={imsakTime} timeFormat={timeFormat} />
@@ -3,6 +3,7 @@
  *
  * Renders a display layout orientation using the configured spatial structure:
  * vertical stack (default), left/right sidebar, or split-top band.
+ * DISPLAY_MESSAGE bars span the full width: banner on top, ticker above the footer.
  */
 
 import React, { useMemo } from 'react';
@@ -25,6 +26,10 @@ export interface LayoutRendererProps {
   prayerOnly?: boolean;
   background?: React.ReactNode;
   themeStyle?: React.CSSProperties;
+  /** DISPLAY_MESSAGE banner (see DisplayMessageBar). */
+  banner?: React.ReactNode;
+  /** DISPLAY_MESSAGE ticker (see DisplayMessageBar). */
+  ticker?: React.ReactNode;
 }
 
 const DEFAULT_SIDEBAR_WIDTH = 0.22;
@@ -109,6 +114,8 @@ const LayoutRenderer: React.FC<LayoutRendererProps> = ({
   prayerOnly = false,
   background,
   themeStyle,
+  banner,
+  ticker,
 }) => {
   const layoutZones = useMemo(
     () => zones.filter((zone) => !isFooterChromeZone(zone)),
@@ -132,6 +139,8 @@ const LayoutRenderer: React.FC<LayoutRendererProps> = ({
         prayerOnly={prayerOnly}
         background={background}
         themeStyle={themeStyle}
+        banner={banner}
+        ticker={ticker}
       />
     );
   }
@@ -174,6 +183,8 @@ const LayoutRenderer: React.FC<LayoutRendererProps> = ({
         className="relative z-10 flex flex-col w-full h-full min-h-0"
         style={stackStyle}
       >
+        {banner && <div className="shrink-0">{banner}</div>}
+
         {structure === 'split-top' && (
           <>
             <VerticalZoneList
@@ -219,6 +230,8 @@ const LayoutRenderer: React.FC<LayoutRendererProps> = ({
           </div>
         )}
 
+        {ticker && <div className="shrink-0">{ticker}</div>}
+
         {footerZones.map((zone) => (
           <ZoneCell key={zone.id} zone={zone} />
         ))}
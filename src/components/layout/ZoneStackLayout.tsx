@@ -14,6 +14,9 @@
  *
  * Theme overrides arrive as a CSS-variable style object (themeStyle) applied
  * to the root so all Tailwind token utilities re-resolve.
+ *
+ * Optional message bars (DISPLAY_MESSAGE): `banner` sits above the first zone,
+ * `ticker` sits directly above the footer zone (or at the bottom if none).
  */
 
 import React from 'react';
@@ -46,6 +49,10 @@ export interface ZoneStackLayoutProps {
   background?: React.ReactNode;
   /** CSS-variable overrides for a custom theme (see utils/displayTheme). */
   themeStyle?: React.CSSProperties;
+  /** Message banner rendered above the zones. */
+  banner?: React.ReactNode;
+  /** Message ticker rendered above the footer. */
+  ticker?: React.ReactNode;
 }
 
 /** Base spacing (rem) per orientation — matches the previous hardcoded layouts. */
@@ -61,7 +68,11 @@ const ZoneStackLayout: React.FC<ZoneStackLayoutProps> = ({
   prayerOnly = false,
   background,
   themeStyle,
+  banner,
+  ticker,
 }) => {
+  const footerIndex = zones.findIndex((zone) => zone.component === 'footer');
+  const tickerIndex = footerIndex === -1 ? zones.length : footerIndex;
   const base = BASE_SPACING[orientation];
   const stackStyle: React.CSSProperties = {
     paddingTop: `${base.top * spacingScale}rem`,
@@ -93,23 +104,27 @@ const ZoneStackLayout: React.FC<ZoneStackLayoutProps> = ({
 
       {/* Zone stack */}
       <div className="relative z-10 flex flex-col w-full h-full" style={stackStyle}>
-        {zones.map((zone) => {
+        {banner && <div className="shrink-0">{banner}</div>}
+        {zones.map((zone, index) => {
           const flexible = zone.size > 0;
           const zoneStyle: React.CSSProperties = {
             ...(flexible ? { flex: `${zone.size} 1 0%` } : {}),
             ...(zone.fontScale !== 1 ? { zoom: zone.fontScale } : {}),
           };
           return (
-            <div
-              key={zone.id}
-              className={`${flexible ? 'min-h-0 flex flex-col' : 'shrink-0'} ${zone.className ?? ''}`}
-              style={zoneStyle}
-              aria-label={zone.label}
-            >
-              {zone.node}
-            </div>
+            <React.Fragment key={zone.id}>
+              {ticker && index === tickerIndex && <div className="shrink-0">{ticker}</div>}
+              <div
+                className={`${flexible ? 'min-h-0 flex flex-col' : 'shrink-0'} ${zone.className ?? ''}`}
+                style={zoneStyle}
+                aria-label={zone.label}
+              >
+                {zone.node}
+              </div>
+            </React.Fragment>
           );
         })}
+        {ticker && tickerIndex === zones.length && <div className="shrink-0">{ticker}</div>}
       </div>
     </div>
   );
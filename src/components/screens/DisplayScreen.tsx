@@ -17,6 +17,14 @@
  *  - Applies the green/gold theme via useRamadanMode's CSS side effect
  *  - Countdown is unified: always PrayerCountdown (Maghrib = Iftar, Fajr = Suhoor end)
  *
+ * On Eid (useEidMode) the Eid theme replaces the Ramadan one, the Eid salah
+ * jamaats replace the countdown until the last congregation has finished, and a
+ * Takbeerat slide is pinned to the front of the carousel.
+ *
+ * Remote DISPLAY_MESSAGE text (displayMessageSlice) renders as a banner above the
+ * zones, a ticker above the footer, or a fullscreen takeover (hidden while the
+ * jamaat blackout is active).
+ *
  * Data is sourced from Redux (contentSlice) and hooks.
  */
 
@@ -52,21 +60,43 @@ import {
   IslamicPattern,
   JumuahBar,
   JamaatSoonSlot,
+  EidJamaatSlots,
+  SilentPhonesGraphic,
   InPrayerScreen,
   SupplicationScreen,
   PostJamaatSupplicationSlot,
   JamaatBlackoutOverlay,
+  DisplayPowerBlackout,
+  BrightnessDimLayer,
+  DisplayMessageBar,
+  DisplayMessageFullscreen,
+  ClockZone,
+  AnnouncementTicker,
+  QrPanel,
+  ImageZone,
 } from '../display';
-import { POST_ADHAN_SUPPLICATION } from '@/constants/scheduledSupplications';
+import { EID_TAKBEERAT, POST_ADHAN_SUPPLICATION } from '@/constants/scheduledSupplications';
+import { EID_PRAYER_NAME } from '@/utils/eidMode';
+import { jumuahSessionLabel } from '@/utils/jumuahJamaat';
 import { isJamaatBlackoutMode } from '@/utils/displaySettingsSupplications';
+import { isCarouselSyncEnabled } from '@/utils/carouselSync';
 import {
   PRAYER_DISPLAY_DEV_EVENT,
   isJamaatBlackoutDevForced,
 } from '@/dev/prayerDisplayDevOverride';
 
 import useRamadanMode from '../../hooks/useRamadanMode';
+import useEidMode from '../../hooks/useEidMode';
 import usePrayerPhase from '../../hooks/usePrayerPhase';
+import useProofOfPlay from '../../hooks/useProofOfPlay';
 import useJamaatBuzzer from '../../hooks/useJamaatBuzzer';
+import useAdhanAudio from '../../hooks/useAdhanAudio';
+import useEmergencyAlertAudio from '../../hooks/useEmergencyAlertAudio';
+import useJanazahNotices from '../../hooks/useJanazahNotices';
+import type { JanazahNotice } from '../../utils/janazahAlert';
+import useDisplayPowerSchedule from '../../hooks/useDisplayPowerSchedule';
+import useBrightnessControl from '../../hooks/useBrightnessControl';
+import useDisplayMessages from '../../hooks/useDisplayMessages';
 import { PrayerTimesProvider, usePrayerTimesContext } from '../../contexts/PrayerTimesContext';
 import useScheduledPlaylist from '../../hooks/useScheduledPlaylist';
 import {
@@ -75,8 +105,10 @@ import {
   selectDisplayLayoutConfig,
   selectDisplayLayoutRevision,
 } from '../../store/slices/contentSlice';
+import { selectBrightness, selectDisplayPower } from '../../store/slices/uiSlice';
 import { parseMediaFullscreenFlag, resolveMediaFit } from '../../utils/mediaSlide';
 import { resolveTerminology } from '../../utils/prayerTerminology';
+import { buildAnnouncementTickerLines } from '../../utils/announcementTicker';
 import type { CarouselItem } from '../display/ContentCarousel';
 
 /**
@@ -549,6 +581,30 @@ function buildCarouselItems(
   return items;
 }
 
+/** Zones rendered from their own options by `buildOptionZoneSlot`. */
+const OPTION_ZONE_COMPONENTS = new Set<LayoutZoneComponent>(['clock', 'ticker', 'qr', 'image']);
+
+/** Takbeerat slide pinned to the front of the carousel during Eid mode. */
+const EID_TAKBEERAT_ITEM: CarouselItem = {
+  id: EID_TAKBEERAT.id,
+  type: 'DUA',
+  title: EID_TAKBEERAT.label,
+  arabicBody: EID_TAKBEERAT.arabicText,
+  transliteration: EID_TAKBEERAT.transliteration,
+  body: EID_TAKBEERAT.translation,
+  source: EID_TAKBEERAT.reference,
+};
+
+/** Pinned janazah slide for a notice from useJanazahNotices. */
+function janazahNoticeToCarouselItem(notice: JanazahNotice): CarouselItem {
+  return {
+    id: `janazah-${notice.alertId}`,
+    type: 'JANAZAH',
+    title: notice.title,
+    janazah: notice,
+  };
+}
+
 const DisplayScreenInner: React.FC = () => {
   const screenContent = useSelector((s: RootState) => s.content.screenContent);
   const { schedule } = useScheduledPlaylist();
@@ -595,13 +651,30 @@ const DisplayScreenInner: React.FC = () => {
   const carouselInterval =
     screenContent?.screen?.contentConfig?.carouselInterval ?? 30;
 
-  const carouselItems = useMemo(
-    () => buildCarouselItems(schedule, events, screenContent),
-    [schedule, events, screenContent]
+  /* ---- Eid mode (Hijri calendar or portal override); takes precedence over Ramadan ---- */
+  const eid = useEidMode();
+
+  /* ---- Janazah notices pinned until their salah once the alert takeover ends ---- */
+  const janazahNotices = useJanazahNotices();
+
+  const carouselItems = useMemo(() => {
+    // Media stays remote here; ContentCarousel swaps in cached copies for the slides it shows
+    const items = buildCarouselItems(schedule, events, screenContent);
+    const janazahItems = janazahNotices.map(janazahNoticeToCarouselItem);
+    return eid.isEid ? [...janazahItems, EID_TAKBEERAT_ITEM, ...items] : [...janazahItems, ...items];
+  }, [schedule, events, screenContent, eid.isEid, janazahNotices]);
+
+  /* ---- Ticker layout zone: the playlist's announcements ---- */
+  const announcementTickerLines = useMemo(
+    () => buildAnnouncementTickerLines(carouselItems),
+    [carouselItems],
   );
 
   /* ---- Ramadan mode (auto-detected from Hijri calendar) ---- */
-  const ramadan = useRamadanMode();
+  const ramadanMode = useRamadanMode({ eidActive: eid.isEid });
+  const ramadan = eid.isEid
+    ? { ...ramadanMode, isRamadan: false, ramadanDay: null, imsakTime: null }
+    : ramadanMode;
   const isPortrait = isPortraitLayout(orientation);
 
   /* ---- Prayer phase (jamaat-soon, in-prayer, etc.) ---- */
@@ -610,15 +683,38 @@ const DisplayScreenInner: React.FC = () => {
     prayerName: phasePrayerName,
     inPrayerSubPhase,
     adhanSupplicationActive,
+    jumuahSession,
   } = usePrayerPhase();
 
   /* ---- Jamaat buzzer: plays a short sound once when jamaat begins ---- */
   useJamaatBuzzer();
 
+  /* ---- Adhan audio: full recording at each adhan time (portal-configured) ---- */
+  useAdhanAudio();
+
+  /* ---- Emergency alerts: tone + speech for critical alerts (silent during jamaat) ---- */
+  useEmergencyAlertAudio();
+
+  /* ---- Scheduled screen off / sleep windows (woken by emergency alerts) ---- */
+  useDisplayPowerSchedule();
+  const screenPoweredOff = useAppSelector(selectDisplayPower).state === 'off';
+
+  /* ---- Automatic brightness (time-of-day curve + ambient light) ---- */
+  useBrightnessControl();
+  const brightness = useAppSelector(selectBrightness);
+  const cssDimLevel =
+    brightness.method === 'css' && brightness.level !== null && brightness.level < 100
+      ? brightness.level
+      : null;
+
+  /* ---- Remote DISPLAY_MESSAGE queue (banner / ticker / fullscreen) ---- */
+  const displayMessages = useDisplayMessages();
+
   /* ---- Forbidden (makruh) time for voluntary prayer ---- */
-  const { forbiddenPrayer, tomorrowsJamaats, isJumuahToday } = usePrayerTimesContext();
+  const { forbiddenPrayer, tomorrowsJamaats, isJumuahToday, jumuahSessions } = usePrayerTimesContext();
   const timeFormat = useAppSelector(selectTimeFormat);
   const displaySettings = useAppSelector(selectDisplaySettings);
+  const carouselSync = isCarouselSyncEnabled(displaySettings);
 
   /**
    * On Fridays the in-prayer screen for the Zuhr slot must read "Jumu'ah" so
@@ -627,10 +723,17 @@ const DisplayScreenInner: React.FC = () => {
    * (key: `jummah`); we only swap when the phase has resolved to the Zuhr
    * slot on a Friday so non-Zuhr prayers and non-Friday days are unchanged.
    */
+  const jummahTerm = resolveTerminology(displaySettings?.terminology, 'jummah', 'Jumuah');
+  const jumuahSessionIndex = (jumuahSession ?? 0) - 1;
+  const activeJumuahSession = jumuahSessionIndex >= 0 ? jumuahSessions[jumuahSessionIndex] : undefined;
   const inPrayerScreenName =
-    isJumuahToday && phasePrayerName === 'Zuhr'
-      ? resolveTerminology(displaySettings?.terminology, 'jummah', 'Jumuah')
-      : phasePrayerName;
+    phasePrayerName === EID_PRAYER_NAME && eid.eidName
+      ? eid.eidName
+      : isJumuahToday && phasePrayerName === 'Zuhr'
+        ? activeJumuahSession
+          ? jumuahSessionLabel(activeJumuahSession, jumuahSessionIndex, jummahTerm)
+          : jummahTerm
+        : phasePrayerName;
 
   /* ---- Layout config (admin layout editor; falls back to built-in default) ---- */
   const layoutConfig = useAppSelector(selectDisplayLayoutConfig);
@@ -674,6 +777,7 @@ const DisplayScreenInner: React.FC = () => {
         showClockSeconds={!isPortrait && !inSidebar}
         timeFormat={timeFormat}
         hijriDateAdjustment={hijriDateAdjustment}
+        hijriMonthOverrides={displaySettings?.hijriMonthOverrides}
         layout={inSidebar ? 'vertical' : 'horizontal'}
       />
     );
@@ -694,11 +798,19 @@ const DisplayScreenInner: React.FC = () => {
       tomorrowsJamaats={tomorrowsJamaats}
     />
   );
-  const countdown = (
+  const countdownVariant = prayerOnly && isPortrait ? 'default' : undefined;
+  const countdown = eid.showJamaatSlots && eid.eidName ? (
+    <EidJamaatSlots
+      jamaats={eid.jamaats}
+      eidName={eid.eidName}
+      timeFormat={timeFormat}
+      variant={countdownVariant}
+    />
+  ) : (
     <PrayerCountdown
       phase={prayerPhase}
       inPrayerSubPhase={inPrayerSubPhase}
-      variant={prayerOnly && isPortrait ? 'default' : undefined}
+      variant={countdownVariant}
     />
   );
 
@@ -733,6 +845,13 @@ const DisplayScreenInner: React.FC = () => {
     return () => window.removeEventListener(PRAYER_DISPLAY_DEV_EVENT, bump);
   }, []);
 
+  /** Carousel has the content slot (not a prayer phase or the post-adhan supplication); mirrors contentSlot below */
+  const carouselInSlot =
+    !adhanSupplicationActive &&
+    prayerPhase !== 'jamaat-soon' &&
+    (prayerPhase !== 'in-prayer' || inPrayerSubPhase === 'post-jamaat');
+  const onSlideShown = useProofOfPlay(carouselInSlot, carouselInterval);
+
   const jamaatBlackoutActive =
     prayerPhase === 'in-prayer' &&
     inPrayerSubPhase === 'jamaat' &&
@@ -748,6 +867,10 @@ const DisplayScreenInner: React.FC = () => {
 
     switch (prayerPhase) {
       case 'jamaat-soon':
+        // Eid salah has no tomorrow-change announcement — phones-off graphic only.
+        if (phasePrayerName === EID_PRAYER_NAME) {
+          return <SilentPhonesGraphic landscapeSplit={!isPortrait} />;
+        }
         return <JamaatSoonSlot landscapeSplit={!isPortrait} />;
       case 'in-prayer':
         if (inPrayerSubPhase === 'post-jamaat-supplication') {
@@ -763,6 +886,8 @@ const DisplayScreenInner: React.FC = () => {
               items={carouselItems}
               interval={carouselInterval}
               compact={isPortrait}
+              sync={carouselSync}
+              onSlideShown={onSlideShown}
             />
           );
         }
@@ -787,12 +912,15 @@ const DisplayScreenInner: React.FC = () => {
             items={carouselItems}
             interval={carouselInterval}
             compact={isPortrait}
+            sync={carouselSync}
+            onSlideShown={onSlideShown}
           />
         );
     }
   }, [
     adhanSupplicationActive,
     prayerPhase,
+    phasePrayerName,
     inPrayerScreenName,
     inPrayerSubPhase,
     displaySettings,
@@ -800,6 +928,8 @@ const DisplayScreenInner: React.FC = () => {
     carouselItems,
     carouselInterval,
     carouselKey,
+    carouselSync,
+    onSlideShown,
     isPortrait,
   ]);
 
@@ -810,12 +940,13 @@ const DisplayScreenInner: React.FC = () => {
 
   /**
    * Custom theme colours (CSS-variable overrides on the layout root).
-   * Skipped while Ramadan mode is active — the seasonal green/gold palette
-   * (html[data-theme="ramadan"]) takes precedence over mosque customisation.
+   * Skipped while Ramadan or Eid mode is active — the seasonal palettes
+   * (html[data-theme="ramadan"|"eid"]) take precedence over mosque customisation.
    */
+  const seasonalTheme = ramadan.isRamadan || eid.isEid;
   const themeStyle = useMemo(
-    () => (ramadan.isRamadan ? undefined : buildThemeStyle(layoutConfig.theme)),
-    [ramadan.isRamadan, layoutConfig.theme],
+    () => (seasonalTheme ? undefined : buildThemeStyle(layoutConfig.theme)),
+    [seasonalTheme, layoutConfig.theme],
   );
 
   const buildPrayerTimesSlot = (zone: LayoutZone) => {
@@ -841,7 +972,14 @@ const DisplayScreenInner: React.FC = () => {
         tomorrowsJamaats={tomorrowsJamaats}
         clockPosition={layoutStructureOptions?.stripClockPosition ?? 'left'}
         countdownSlot={
-          showEmbeddedCountdown ? (
+          showEmbeddedCountdown && eid.showJamaatSlots && eid.eidName ? (
+            <EidJamaatSlots
+              jamaats={eid.jamaats}
+              eidName={eid.eidName}
+              timeFormat={timeFormat}
+              variant={variant === 'sidebar' ? 'sidebar' : 'strip'}
+            />
+          ) : showEmbeddedCountdown ? (
             <PrayerCountdown
               phase={prayerPhase}
               inPrayerSubPhase={inPrayerSubPhase}
@@ -853,6 +991,29 @@ const DisplayScreenInner: React.FC = () => {
     );
   };
 
+  /** Clock / ticker / QR / image zones — their node depends on the zone's own options. */
+  const buildOptionZoneSlot = (zone: LayoutZone): React.ReactNode => {
+    const options = zone.options ?? {};
+    switch (zone.component) {
+      case 'clock':
+        return (
+          <ClockZone
+            clockStyle={options.clockStyle}
+            showSeconds={options.showSeconds}
+            timeFormat={timeFormat}
+          />
+        );
+      case 'ticker':
+        return <AnnouncementTicker lines={announcementTickerLines} speed={options.speed} />;
+      case 'qr':
+        return options.url ? <QrPanel url={options.url} caption={options.caption} /> : null;
+      case 'image':
+        return options.src ? <ImageZone src={options.src} fit={options.fit} alt={options.alt} /> : null;
+      default:
+        return null;
+    }
+  };
+
   /**
    * Component registry: maps a zone's component type to its rendered node and
    * any wrapper constraints carried over from the previous hardcoded layouts
@@ -888,6 +1049,10 @@ const DisplayScreenInner: React.FC = () => {
         ? ''
         : 'landscape-footer min-h-[1.5rem] py-0.5 flex items-center',
     },
+    clock: { node: null, className: 'min-h-[6rem]', label: 'Clock' },
+    ticker: { node: null, className: 'shrink-0', label: 'Announcements ticker' },
+    qr: { node: null, className: 'min-h-[8rem]', label: 'QR code' },
+    image: { node: null, className: 'min-h-[4rem]', label: 'Image' },
   };
 
   const renderedZones: RenderedZone[] = orientationLayout.zones
@@ -907,7 +1072,9 @@ const DisplayScreenInner: React.FC = () => {
           ? buildHeaderSlot(zone)
           : component === 'prayer-times'
             ? buildPrayerTimesSlot(zone)
-            : entry.node;
+            : OPTION_ZONE_COMPONENTS.has(component)
+              ? buildOptionZoneSlot(zone)
+              : entry.node;
       let className = entry.className;
       if (component === 'prayer-panel') {
         className = prayerOnly
@@ -947,9 +1114,24 @@ const DisplayScreenInner: React.FC = () => {
           prayerOnly={prayerOnly}
           background={bg}
           themeStyle={themeStyle}
+          banner={
+            displayMessages.banner ? (
+              <DisplayMessageBar variant="banner" messages={[displayMessages.banner]} />
+            ) : undefined
+          }
+          ticker={
+            displayMessages.ticker.length > 0 ? (
+              <DisplayMessageBar variant="ticker" messages={displayMessages.ticker} />
+            ) : undefined
+          }
         />
       </ReferenceViewport>
+      {displayMessages.fullscreen && !jamaatBlackoutActive ? (
+        <DisplayMessageFullscreen message={displayMessages.fullscreen} />
+      ) : null}
       {jamaatBlackoutActive ? <JamaatBlackoutOverlay /> : null}
+      {cssDimLevel !== null ? <BrightnessDimLayer level={cssDimLevel} /> : null}
+      {screenPoweredOff ? <DisplayPowerBlackout /> : null}
     </OrientationWrapper>
   );
 };
@@ -89,3 +89,19 @@ export const POST_JAMAAT_SUPPLICATIONS: readonly HardcodedSupplication[] = [
     reference: "Qur'an 2:201",
   },
 ] as const;
+
+/**
+ * Takbeerat of Eid — reported from Ibn Mas'ud (Musannaf Ibn Abi Shaybah 5633).
+ * Pinned to the front of the carousel while Eid mode is active.
+ */
+export const EID_TAKBEERAT: HardcodedSupplication = {
+  id: 'eid-takbeerat',
+  label: 'Takbeerat al-Eid',
+  arabicText:
+    'اللَّهُ أَكْبَرُ، اللَّهُ أَكْبَرُ، لَا إِلٰهَ إِلَّا اللَّهُ، وَاللَّهُ أَكْبَرُ، اللَّهُ أَكْبَرُ، وَلِلَّهِ الْحَمْدُ',
+  transliteration:
+    'Allahu akbar, Allahu akbar, la ilaha illallah, wallahu akbar, Allahu akbar, wa lillahil-hamd.',
+  translation:
+    'Allah is the Greatest, Allah is the Greatest. None has the right to be worshipped but Allah. Allah is the Greatest, Allah is the Greatest, and to Allah belongs all praise.',
+  reference: 'Musannaf Ibn Abi Shaybah 5633',
+};
@@ -0,0 +1,235 @@
+/**
+ * useAdhanAudio
+ *
+ * Plays the full adhan recording when a prayer's adhan time is reached.
+ * Configured from the portal via `displaySettings.adhanAudio` (see
+ * utils/adhanAudio): master enable + volume, a recording and level per
+ * prayer (Fajr usually has its own), quiet hours, an optional maximum
+ * duration and the fade-out used whenever playback is cut short.
+ *
+ * Behaviour:
+ *   - Edge-triggered off `usePrayerPhase().adhanStarted` — same phase
+ *     machine as the countdown, so a Friday plays at the khutbah of each
+ *     Jumu'ah session (`Zuhr#1`, `Zuhr#2`, …) and Eid never plays.
+ *   - Per-day dedupe (`mc.adhan.lastPlayed`) and the 5-second safety window
+ *     are shared with the jamaat buzzer (utils/phaseEdgeCue): a reload or a
+ *     late boot never starts the adhan part-way through the countdown.
+ *   - Quiet hours suppress (and mark) the adhan instead of playing it.
+ *   - Fades out and stops when the jamaat begins, after `maxDurationSeconds`
+ *     or when adhan audio is switched off.
+ *   - Recordings are pre-cached in Cache Storage whenever the settings
+ *     change, and played from there so adhan still sounds while offline.
+ *
+ * Chromium on the Pi kiosk runs with `--autoplay-policy=no-user-gesture-required`
+ * (see `deploy/xinitrc-kiosk`).
+ */
+
+import { useEffect, useRef } from 'react';
+import usePrayerPhase from './usePrayerPhase';
+import { usePrayerTimesContext } from '../contexts/PrayerTimesContext';
+import { useAppSelector } from '../store/hooks';
+import { selectDisplaySettings, selectMasjidTimezone } from '../store/slices/contentSlice';
+import { defaultMasjidTimezone } from '../config/environment';
+import {
+  adhanAudioUrls,
+  isWithinQuietHours,
+  resolveAdhanPlayback,
+  type AdhanPlayback,
+} from '../utils/adhanAudio';
+import { precacheAdhanAudio, resolveCachedAdhanSource } from '../utils/adhanAudioCache';
+import { nowMinutesInTz } from '../utils/dateUtils';
+import {
+  createDailyCueDedupe,
+  isWithinCueSafetyWindow,
+  secondsSinceCueTime,
+} from '../utils/phaseEdgeCue';
+import logger from '../utils/logger';
+
+/** localStorage key for the per-day dedupe map. */
+const DEDUPE_KEY = 'mc.adhan.lastPlayed';
+
+/** Volume step interval while fading. */
+const FADE_STEP_MS = 100;
+
+const playedToday = createDailyCueDedupe(DEDUPE_KEY);
+
+interface ActivePlayback {
+  /** Fade out (or stop at once with 0 s) and release the element. */
+  stop: (fadeSeconds: number) => void;
+}
+
+/**
+ * Start one recording. Resolves the cached source first; the returned handle
+ * is usable immediately, even while the source is still loading.
+ */
+function startPlayback(
+  playback: AdhanPlayback,
+  cueKey: string,
+  onFinished: () => void,
+): ActivePlayback {
+  let audio: HTMLAudioElement | null = null;
+  let revoke = () => {};
+  let cancelled = false;
+  let fadeTimer: ReturnType<typeof setInterval> | null = null;
+  let capTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const release = () => {
+    if (fadeTimer) clearInterval(fadeTimer);
+    if (capTimer) clearTimeout(capTimer);
+    fadeTimer = null;
+    capTimer = null;
+    if (audio) {
+      audio.pause();
+      audio.removeAttribute('src');
+    }
+    audio = null;
+    revoke();
+    onFinished();
+  };
+
+  const stop = (fadeSeconds: number) => {
+    cancelled = true;
+    if (!audio || fadeTimer) {
+      if (!audio) release();
+      return;
+    }
+    if (fadeSeconds <= 0) {
+      release();
+      return;
+    }
+    const el = audio;
+    const step = (el.volume * FADE_STEP_MS) / (fadeSeconds * 1000);
+    fadeTimer = setInterval(() => {
+      el.volume = Math.max(0, el.volume - step);
+      if (el.volume <= 0) release();
+    }, FADE_STEP_MS);
+  };
+
+  void resolveCachedAdhanSource(playback.url).then(({ src, revoke: revokeSrc }) => {
+    revoke = revokeSrc;
+    if (cancelled) {
+      release();
+      return;
+    }
+    audio = new Audio(src);
+    audio.volume = playback.volume;
+    audio.addEventListener('ended', release);
+    audio
+      .play()
+      .then(() => {
+        logger.info('[AdhanAudio] Playing', { cue: cueKey, url: playback.url });
+        playedToday.mark(cueKey);
+        if (playback.maxDurationSeconds !== null) {
+          const capMs = Math.max(0, playback.maxDurationSeconds - playback.fadeOutSeconds) * 1000;
+          capTimer = setTimeout(() => stop(playback.fadeOutSeconds), capMs);
+        }
+      })
+      .catch((err) => {
+        logger.warn('[AdhanAudio] Play failed', {
+          cue: cueKey,
+          error: err instanceof Error ? err.message : String(err),
+        });
+        /* Not marked: a later edge (e.g. after a reload) may retry. */
+        release();
+      });
+  });
+
+  return { stop };
+}
+
+/**
+ * Mount-once hook (call from a single top-level component such as
+ * `DisplayScreenInner`). Has no return value.
+ */
+export function useAdhanAudio(): void {
+  const { phase, prayerName, inPrayerSubPhase, adhanStarted, jumuahSession } =
+    usePrayerPhase();
+  const { nextPrayer, currentPrayer, jumuahSessions } = usePrayerTimesContext();
+  const displaySettings = useAppSelector(selectDisplaySettings);
+  const masjidTz = useAppSelector(selectMasjidTimezone) || defaultMasjidTimezone;
+
+  const activeRef = useRef<ActivePlayback | null>(null);
+  const prevRef = useRef<{ cue?: string; started?: boolean }>({});
+  const fadeOutSecondsRef = useRef(0);
+
+  /* ---- Pre-cache whenever the set of recordings changes ---- */
+  const urlsKey = adhanAudioUrls(displaySettings).join('\n');
+  useEffect(() => {
+    if (!urlsKey) return;
+    void precacheAdhanAudio(urlsKey.split('\n'));
+  }, [urlsKey]);
+
+  /* ---- Adhan edge ---- */
+  useEffect(() => {
+    const cue = prayerName && jumuahSession ? `${prayerName}#${jumuahSession}` : prayerName;
+    const prev = prevRef.current;
+    const entering = !!adhanStarted && !!cue && !(prev.cue === cue && prev.started);
+    prevRef.current = { cue: cue ?? undefined, started: !!adhanStarted };
+
+    if (!entering || !cue || !prayerName) return;
+    const playback = resolveAdhanPlayback(displaySettings, prayerName);
+    if (!playback) return;
+    if (playedToday.has(cue)) {
+      logger.debug('[AdhanAudio] Skipped — already played today', { cue });
+      return;
+    }
+
+    const session = jumuahSession ? jumuahSessions[jumuahSession - 1] : undefined;
+    const prayer = nextPrayer?.name === prayerName ? nextPrayer : currentPrayer;
+    const adhanStr = session ? (session.khutbah ?? session.jamaat) : prayer?.time;
+    const elapsedSec = secondsSinceCueTime(adhanStr, prayerName, masjidTz);
+    if (elapsedSec !== null && !isWithinCueSafetyWindow(elapsedSec)) {
+      logger.info('[AdhanAudio] Skipped — outside safety window', {
+        cue,
+        adhanStr,
+        elapsedSec: Math.round(elapsedSec),
+      });
+      playedToday.mark(cue);
+      return;
+    }
+    if (
+      isWithinQuietHours(
+        nowMinutesInTz(new Date(), masjidTz),
+        displaySettings?.adhanAudio?.quietHours,
+      )
+    ) {
+      logger.info('[AdhanAudio] Skipped — quiet hours', { cue });
+      playedToday.mark(cue);
+      return;
+    }
+
+    activeRef.current?.stop(0);
+    fadeOutSecondsRef.current = playback.fadeOutSeconds;
+    const active = startPlayback(playback, cue, () => {
+      if (activeRef.current === active) activeRef.current = null;
+    });
+    activeRef.current = active;
+  }, [
+    adhanStarted,
+    prayerName,
+    jumuahSession,
+    jumuahSessions,
+    displaySettings,
+    nextPrayer,
+    currentPrayer,
+    masjidTz,
+  ]);
+
+  /* ---- Never play over the congregation, or after audio is switched off ---- */
+  const adhanAudioEnabled = displaySettings?.adhanAudio?.enabled === true;
+  useEffect(() => {
+    const jamaatStarted = phase === 'in-prayer' && inPrayerSubPhase === 'jamaat';
+    if (activeRef.current && (jamaatStarted || !adhanAudioEnabled)) {
+      activeRef.current.stop(fadeOutSecondsRef.current);
+    }
+  }, [phase, inPrayerSubPhase, adhanAudioEnabled]);
+
+  useEffect(
+    () => () => {
+      activeRef.current?.stop(0);
+    },
+    [],
+  );
+}
+
+export default useAdhanAudio;
@@ -0,0 +1,82 @@
+/**
+ * useBrightnessControl
+ *
+ * Drives automatic brightness from `displaySettings.brightness`: a
+ * time-of-day curve that can be anchored to prayer times (dim from Isha,
+ * bright from Fajr / sunrise), optionally blended with the companion
+ * service's ambient light reading (polled once a minute while enabled).
+ * See utils/brightnessCurve.
+ *
+ * The level is applied through brightnessService (sysfs backlight / DDC on
+ * the Pi, CSS dimming elsewhere) and mirrored into `ui.brightness` so
+ * DisplayScreen can draw the dimming layer. Full brightness is restored when
+ * the setting is switched off or the hook unmounts.
+ */
+
+import { useEffect, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { selectDisplaySettings, selectPrayerTimes } from '@/store/slices/contentSlice';
+import { setBrightness } from '@/store/slices/uiSlice';
+import brightnessService from '@/services/brightnessService';
+import { resolveBrightnessLevel } from '@/utils/brightnessCurve';
+import { fetchCompanionMetrics } from '@/utils/metricsCollector';
+import useMasjidTime from './useMasjidTime';
+
+const AMBIENT_POLL_INTERVAL_MS = 60_000;
+
+/**
+ * Mount-once hook (call from a single top-level component such as
+ * `DisplayScreenInner`). Has no return value.
+ */
+export function useBrightnessControl(): void {
+  const dispatch = useAppDispatch();
+  const displaySettings = useAppSelector(selectDisplaySettings);
+  const prayerTimes = useAppSelector(selectPrayerTimes);
+  const now = useMasjidTime();
+  const [ambientLight, setAmbientLight] = useState<number | null>(null);
+
+  const brightness = displaySettings?.brightness;
+  const ambientEnabled = brightness?.enabled === true && brightness.ambientLight?.enabled === true;
+
+  useEffect(() => {
+    if (!ambientEnabled) {
+      setAmbientLight(null);
+      return;
+    }
+    let cancelled = false;
+    const poll = async () => {
+      const { ambientLight: reading } = await fetchCompanionMetrics();
+      if (!cancelled) setAmbientLight(typeof reading === 'number' ? reading : null);
+    };
+    void poll();
+    const interval = setInterval(() => void poll(), AMBIENT_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [ambientEnabled]);
+
+  const level = resolveBrightnessLevel(
+    displaySettings,
+    prayerTimes,
+    now.hour() * 60 + now.minute(),
+    ambientLight,
+  );
+
+  useEffect(() => {
+    void brightnessService.setLevel(level).then((status) => {
+      dispatch(setBrightness(status));
+    });
+  }, [level, dispatch]);
+
+  useEffect(
+    () => () => {
+      void brightnessService.setLevel(null).then((status) => {
+        dispatch(setBrightness(status));
+      });
+    },
+    [dispatch],
+  );
+}
+
+export default useBrightnessControl;
@@ -1,69 +1,74 @@
 /**
  * useBuzzerSettings
  *
- * Local, device-only settings for the jamaat buzzer (enabled + volume).
- * Backed by `localStorage` and exposed via `useSyncExternalStore` so any
- * component that calls this hook re-renders when settings change anywhere
- * (e.g., the settings overlay updates and the buzzer hook picks it up
- * without a remount).
+ * Effective jamaat buzzer settings: the portal's `displaySettings.jamaatBuzzer`
+ * combined with values set on this device from the settings overlay (see
+ * utils/jamaatBuzzerSettings for the precedence rules). Portal changes arrive
+ * through the store (`content:invalidate` → `display_settings` refetch), so
+ * every consumer re-renders live.
  *
- * Storage key: `mc.buzzer.settings` — JSON `{ enabled: boolean, volume: number }`.
- *   - `enabled` defaults to `true`.
- *   - `volume` is clamped to [0, 1]; defaults to `0.8`.
+ * Device values are backed by `localStorage` and exposed via
+ * `useSyncExternalStore` so any component that calls this hook re-renders when
+ * they change anywhere (e.g., the settings overlay updates and the buzzer hook
+ * picks it up without a remount).
  *
- * No portal/API involvement — kiosk-local on purpose.
+ * Storage key: `mc.buzzer.settings` — JSON `{ enabled?: boolean, volume?: number }`.
+ * Only fields changed on the device are stored, so untouched fields keep
+ * following the portal.
  */
 
-import { useCallback, useSyncExternalStore } from 'react';
-
-export interface BuzzerSettings {
-  enabled: boolean;
-  volume: number;
-}
-
-export interface BuzzerSettingsApi extends BuzzerSettings {
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { useAppSelector } from '../store/hooks';
+import { selectDisplaySettings } from '../store/slices/contentSlice';
+import {
+  clampBuzzerVolume,
+  resolveEffectiveBuzzerSettings,
+  type EffectiveBuzzerSettings,
+  type LocalBuzzerOverrides,
+} from '../utils/jamaatBuzzerSettings';
+
+export interface BuzzerSettingsApi extends EffectiveBuzzerSettings {
+  /** True when this device has its own on / off or volume stored */
+  hasLocalOverrides: boolean;
   setEnabled: (enabled: boolean) => void;
   setVolume: (volume: number) => void;
+  /** Forget device values and follow the portal again */
+  clearLocalOverrides: () => void;
 }
 
 const STORAGE_KEY = 'mc.buzzer.settings';
-const DEFAULTS: BuzzerSettings = { enabled: true, volume: 0.8 };
+const EMPTY: LocalBuzzerOverrides = {};
 
 /**
  * Cached snapshot — must be a stable object reference between writes so
  * `useSyncExternalStore` does not loop. A new object is constructed only
  * inside `write`.
  */
-let cached: BuzzerSettings | null = null;
+let cached: LocalBuzzerOverrides | null = null;
 const subscribers = new Set<() => void>();
 
-function clampVolume(v: unknown): number {
-  if (typeof v !== 'number' || Number.isNaN(v)) return DEFAULTS.volume;
-  return Math.max(0, Math.min(1, v));
-}
-
-function readFromStorage(): BuzzerSettings {
-  if (typeof localStorage === 'undefined') return DEFAULTS;
+function readFromStorage(): LocalBuzzerOverrides {
+  if (typeof localStorage === 'undefined') return EMPTY;
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return DEFAULTS;
-    const parsed = JSON.parse(raw) as Partial<BuzzerSettings> | null;
-    return {
-      enabled: typeof parsed?.enabled === 'boolean' ? parsed.enabled : DEFAULTS.enabled,
-      volume: clampVolume(parsed?.volume),
-    };
+    if (!raw) return EMPTY;
+    const parsed = JSON.parse(raw) as Partial<LocalBuzzerOverrides> | null;
+    const out: LocalBuzzerOverrides = {};
+    if (typeof parsed?.enabled === 'boolean') out.enabled = parsed.enabled;
+    if (typeof parsed?.volume === 'number') out.volume = clampBuzzerVolume(parsed.volume);
+    return out;
   } catch {
-    return DEFAULTS;
+    return EMPTY;
   }
 }
 
-function getSnapshot(): BuzzerSettings {
+function getSnapshot(): LocalBuzzerOverrides {
   if (cached === null) cached = readFromStorage();
   return cached;
 }
 
-function getServerSnapshot(): BuzzerSettings {
-  return DEFAULTS;
+function getServerSnapshot(): LocalBuzzerOverrides {
+  return EMPTY;
 }
 
 function subscribe(cb: () => void): () => void {
@@ -73,11 +78,15 @@ function subscribe(cb: () => void): () => void {
   };
 }
 
-function write(next: BuzzerSettings): void {
+function write(next: LocalBuzzerOverrides): void {
   cached = next;
   try {
     if (typeof localStorage !== 'undefined') {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      if (next.enabled === undefined && next.volume === undefined) {
+        localStorage.removeItem(STORAGE_KEY);
+      } else {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      }
     }
   } catch {
     /* quota / private mode — ignore, in-memory cache still updated */
@@ -85,22 +94,42 @@ function write(next: BuzzerSettings): void {
   subscribers.forEach((cb) => cb());
 }
 
+/** Device values for non-React callers (e.g. the heartbeat provider). */
+export function readLocalBuzzerOverrides(): LocalBuzzerOverrides {
+  return getSnapshot();
+}
+
 /**
- * React hook returning the live buzzer settings plus setters.
- * Re-renders whenever any consumer (or this hook itself) updates the values.
+ * React hook returning the live effective buzzer settings plus setters.
+ * Re-renders whenever device values or the portal settings change.
  */
 export function useBuzzerSettings(): BuzzerSettingsApi {
-  const settings = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+  const local = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+  const displaySettings = useAppSelector(selectDisplaySettings);
+  const effective = useMemo(
+    () => resolveEffectiveBuzzerSettings(displaySettings, local),
+    [displaySettings, local],
+  );
 
   const setEnabled = useCallback((enabled: boolean) => {
     write({ ...getSnapshot(), enabled });
   }, []);
 
   const setVolume = useCallback((volume: number) => {
-    write({ ...getSnapshot(), volume: clampVolume(volume) });
+    write({ ...getSnapshot(), volume: clampBuzzerVolume(volume) });
   }, []);
 
-  return { enabled: settings.enabled, volume: settings.volume, setEnabled, setVolume };
+  const clearLocalOverrides = useCallback(() => {
+    write({});
+  }, []);
+
+  return {
+    ...effective,
+    hasLocalOverrides: local.enabled !== undefined || local.volume !== undefined,
+    setEnabled,
+    setVolume,
+    clearLocalOverrides,
+  };
 }
 
 export default useBuzzerSettings;
@@ -0,0 +1,30 @@
+/**
+ * useCachedMediaResolver
+ *
+ * Resolver from a remote media URL to its offline cached copy (a `blob:` URL,
+ * or undefined on a miss). The `urls` given are leased from the media cache
+ * while the component shows them — only leased assets are read into memory —
+ * and released when they change or the component unmounts. A new function is
+ * returned whenever local URLs appear or go, so memoised items rebuild.
+ */
+
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import mediaCacheService from '../services/mediaCacheService';
+
+const subscribe = (cb: () => void) => mediaCacheService.subscribe(cb);
+const getSnapshot = () => mediaCacheService.getRevision();
+const NO_URLS: readonly string[] = [];
+
+export default function useCachedMediaResolver(
+  urls: readonly string[] = NO_URLS,
+): (url: string) => string | undefined {
+  const revision = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+  // Stable across re-renders that pass a new array with the same URLs
+  const leaseKey = urls.join('\n');
+  useEffect(() => {
+    if (!leaseKey) return undefined;
+    return mediaCacheService.acquire(leaseKey.split('\n'));
+  }, [leaseKey]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  return useCallback((url: string) => mediaCacheService.resolve(url), [revision]);
+}
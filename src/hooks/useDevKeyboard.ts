@@ -15,7 +15,8 @@
  *   Ctrl + Shift + 7  — Safety (medium) alert      (15 s)
  *   Ctrl + Shift + 8  — Vehicle plate alert        (15 s)
  *   Ctrl + Shift + V  — Vehicle plate alert        (15 s, mnemonic)
- *   Ctrl + Shift + 0  — Clear current alert
+ *   Ctrl + Shift + 0  — Clear current alert (the next queued alert takes over)
+ *   Ctrl + Shift + 9  — Clear every queued alert
  *   Ctrl + Shift + R  — Toggle Ramadan mode
  *   Ctrl + Shift + J  — Cycle prayer display (phones → adhan dua → jamaat → … → auto)
  *   Ctrl + Shift + A  — Toggle post-adhan supplication force
@@ -32,6 +33,10 @@
  *                       Ctrl+Shift+M (profile picker) interception.
  *   Escape            — Clear current alert
  *
+ * Test alerts join the priority queue like live ones, so pressing several
+ * shortcuts in a row shows the most urgent full-screen and the rest in the
+ * ticker, each expiring on its own.
+ *
  * Console fallbacks (when a browser shortcut is intercepted):
  *   window.__devCyclePrayerDisplay()      — same as Ctrl+Shift+J
  *   window.__devToggleAdhanSupplication() — same as Ctrl+Shift+A
@@ -46,6 +51,7 @@ import type { AppDispatch } from '@/store';
 import {
   createTestAlert,
   clearCurrentAlert,
+  clearAllAlerts,
 } from '../store/slices/emergencySlice';
 import { RAMADAN_FORCE_EVENT } from './useRamadanMode';
 import { PRAYER_PHASE_FORCE_EVENT } from './usePrayerPhase';
@@ -110,6 +116,8 @@ const ALERT_MAP: Record<string, string> = {
 
 /** Characters that mean "clear" (Shift+0 = ')' on US layout) */
 const CLEAR_KEYS = new Set(['0', ')']);
+/** Characters that mean "clear all" (Shift+9 = '(' on US/UK layouts) */
+const CLEAR_ALL_KEYS = new Set(['9', '(']);
 
 const TEST_ALERT_DURATION = 15; // seconds
 const VEHICLE_PLATE_ALERT_TYPE = '8';
@@ -413,6 +421,13 @@ const useDevKeyboard = (): void => {
           dispatch(clearCurrentAlert());
           return;
         }
+
+        if (CLEAR_ALL_KEYS.has(e.key)) {
+          e.preventDefault();
+          logger.info('[DevKeyboard] Clearing all queued alerts');
+          dispatch(clearAllAlerts());
+          return;
+        }
       }
 
       // Escape (unmodified) → clear alert
@@ -0,0 +1,53 @@
+/**
+ * useDisplayMessages
+ *
+ * Reads the DISPLAY_MESSAGE queue and removes entries as they expire (one timer for
+ * the soonest expiry, re-armed whenever the queue changes). Returns what each
+ * position should render: the top banner, the top fullscreen message, and every
+ * ticker message in queue order.
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { pruneExpiredMessages, selectDisplayMessages } from '@/store/slices/displayMessageSlice';
+import type { DisplayMessage } from '@/utils/displayMessage';
+
+/** setTimeout overflows above ~24.8 days; messages are capped well below that. */
+const MAX_TIMER_MS = 2_147_000_000;
+
+export interface ActiveDisplayMessages {
+  banner: DisplayMessage | null;
+  ticker: DisplayMessage[];
+  fullscreen: DisplayMessage | null;
+}
+
+export function useDisplayMessages(): ActiveDisplayMessages {
+  const dispatch = useAppDispatch();
+  const messages = useAppSelector(selectDisplayMessages);
+
+  useEffect(() => {
+    if (messages.length === 0) return;
+    const now = Date.now();
+    const soonest = Math.min(...messages.map((m) => Date.parse(m.expiresAt)));
+    if (soonest <= now) {
+      dispatch(pruneExpiredMessages(now));
+      return;
+    }
+    const id = setTimeout(
+      () => dispatch(pruneExpiredMessages(Date.now())),
+      Math.min(soonest - now, MAX_TIMER_MS),
+    );
+    return () => clearTimeout(id);
+  }, [messages, dispatch]);
+
+  return useMemo(
+    () => ({
+      banner: messages.find((m) => m.position === 'banner') ?? null,
+      ticker: messages.filter((m) => m.position === 'ticker'),
+      fullscreen: messages.find((m) => m.position === 'fullscreen') ?? null,
+    }),
+    [messages],
+  );
+}
+
+export default useDisplayMessages;
@@ -0,0 +1,70 @@
+/**
+ * useDisplayPowerSchedule
+ *
+ * Applies `displaySettings.powerSchedule`: switches the screen off inside a
+ * scheduled window (e.g. 23:30 until 30 min before Fajr) and back on at its
+ * end, through displayPowerService (HDMI / CEC on the Pi, CSS blackout
+ * elsewhere). The resulting status is mirrored into `ui.displayPower`, which
+ * DisplayScreen uses to draw the blackout layer.
+ *
+ * An emergency alert wakes the screen for as long as it is showing, unless
+ * the portal sets `wakeForEmergency: false`. The screen is switched back on
+ * when the hook unmounts (e.g. on unpair) so a device is never left dark.
+ *
+ * Portal changes arrive live via `content:invalidate` → `display_settings`.
+ */
+
+import { useEffect } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import {
+  selectDisplaySettings,
+  selectPrayerTimes,
+} from '@/store/slices/contentSlice';
+import { selectHasActiveAlert } from '@/store/slices/emergencySlice';
+import { setDisplayPower } from '@/store/slices/uiSlice';
+import displayPowerService, { type DisplayPowerState } from '@/services/displayPowerService';
+import { findActivePowerOffWindow } from '@/utils/powerSchedule';
+import { describeTimeOfDayAnchor } from '@/utils/timeOfDayAnchor';
+import useMasjidTime from './useMasjidTime';
+
+/**
+ * Mount-once hook (call from a single top-level component such as
+ * `DisplayScreenInner`). Has no return value.
+ */
+export function useDisplayPowerSchedule(): void {
+  const dispatch = useAppDispatch();
+  const displaySettings = useAppSelector(selectDisplaySettings);
+  const prayerTimes = useAppSelector(selectPrayerTimes);
+  const hasAlert = useAppSelector(selectHasActiveAlert);
+  const now = useMasjidTime();
+
+  const offWindow = findActivePowerOffWindow(
+    displaySettings,
+    prayerTimes,
+    now.hour() * 60 + now.minute(),
+  );
+  const wakeForEmergency = displaySettings?.powerSchedule?.wakeForEmergency !== false;
+  const desired: DisplayPowerState = offWindow && !(hasAlert && wakeForEmergency) ? 'off' : 'on';
+  const reason = !offWindow
+    ? 'schedule'
+    : desired === 'on'
+      ? 'emergency alert'
+      : `schedule ${describeTimeOfDayAnchor(offWindow.start)}–${describeTimeOfDayAnchor(offWindow.end)}`;
+
+  useEffect(() => {
+    void displayPowerService.setPower(desired, reason).then((status) => {
+      dispatch(setDisplayPower(status));
+    });
+  }, [desired, reason, dispatch]);
+
+  useEffect(
+    () => () => {
+      void displayPowerService.setPower('on', 'display closed').then((status) => {
+        dispatch(setDisplayPower(status));
+      });
+    },
+    [dispatch],
+  );
+}
+
+export default useDisplayPowerSchedule;
@@ -0,0 +1,91 @@
+/**
+ * useEidMode
+ *
+ * Detects Eid al-Fitr / Eid al-Adha for the masjid-local day (see
+ * utils/eidMode) and exposes the morning's Eid salah jamaats.
+ *
+ * Manages the `data-theme="eid"` attribute on `<html>`. Eid takes
+ * precedence over the Ramadan theme: useRamadanMode never replaces or
+ * removes an active Eid theme, and reapplies its own when `isEid` turns
+ * false (call useEidMode first and pass `eidActive`).
+ *
+ * `showJamaatSlots` stays true until the last Eid jamaat's in-prayer
+ * window (jamaat + supplication + post-jamaat delay) has ended, after
+ * which the normal prayer countdown returns for Zuhr.
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useAppSelector } from '@/store/hooks';
+import { selectDisplaySettings } from '@/store/slices/contentSlice';
+import useMasjidTime from './useMasjidTime';
+import {
+  EID_NAMES,
+  EID_PRAYER_NAME,
+  resolveEidMode,
+  type EidJamaatSlot,
+  type EidType,
+} from '../utils/eidMode';
+import { toMinutesFromMidnight } from '../utils/dateUtils';
+import { totalJamaatPhaseWindowForDisplayPrayer } from '../utils/displaySettingsJamaat';
+import logger from '../utils/logger';
+
+/* ------------------------------------------------------------------ */
+/*  Types                                                              */
+/* ------------------------------------------------------------------ */
+
+export interface EidModeData {
+  /** Whether today is Eid (or forced via displaySettings.eidMode) */
+  isEid: boolean;
+  eidType: EidType | null;
+  /** "Eid al-Fitr" / "Eid al-Adha", or null outside Eid mode */
+  eidName: string | null;
+  /** Today's Eid salah jamaats, earliest first */
+  jamaats: EidJamaatSlot[];
+  /** True while the jamaat slots should replace the normal countdown */
+  showJamaatSlots: boolean;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Hook                                                               */
+/* ------------------------------------------------------------------ */
+
+export const useEidMode = (): EidModeData => {
+  const now = useMasjidTime();
+  const displaySettings = useAppSelector(selectDisplaySettings);
+  const day = now.format('YYYY-MM-DD');
+
+  const { isEid, eidType, jamaats } = useMemo(
+    () => resolveEidMode(day, displaySettings),
+    [day, displaySettings],
+  );
+
+  const nowMin = now.hour() * 60 + now.minute();
+  const showJamaatSlots = useMemo(() => {
+    if (!isEid || jamaats.length === 0) return false;
+    const lastJ = toMinutesFromMidnight(jamaats[jamaats.length - 1].time, EID_PRAYER_NAME);
+    const windowMin = totalJamaatPhaseWindowForDisplayPrayer(displaySettings, EID_PRAYER_NAME);
+    return nowMin <= lastJ + windowMin;
+  }, [isEid, jamaats, displaySettings, nowMin]);
+
+  /* ---- Theme attribute side effect ---- */
+  useEffect(() => {
+    if (!isEid) return undefined;
+    const root = document.documentElement;
+    root.dataset.theme = 'eid';
+    logger.info('[EidMode] Eid theme activated', { eidType });
+
+    return () => {
+      if (root.dataset.theme === 'eid') delete root.dataset.theme;
+    };
+  }, [isEid, eidType]);
+
+  return {
+    isEid,
+    eidType,
+    eidName: eidType ? EID_NAMES[eidType] : null,
+    jamaats,
+    showJamaatSlots,
+  };
+};
+
+export default useEidMode;
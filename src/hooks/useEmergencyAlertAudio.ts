@@ -0,0 +1,177 @@
+/**
+ * useEmergencyAlertAudio
+ *
+ * Makes critical emergency alerts audible — worshippers facing the qiblah do
+ * not see the screen. Configured from the portal via
+ * `displaySettings.emergencyAudio` (see utils/emergencyAlertAudio).
+ *
+ * Behaviour:
+ *   - Sounds `critical` alerts (and `high` with `includeHigh`): a
+ *     category-specific tone synthesised with Web Audio, then the title and
+ *     message read aloud with the Web Speech API where it is available.
+ *   - Repeats every `repeatIntervalSeconds` until the alert expires or is
+ *     cleared; a new or cleared alert stops whatever is playing.
+ *   - Jamaat in progress (the window `jamaatInProgressMode` applies to, in
+ *     both `screen` and `dark` modes): silent unless the alert is `safety`.
+ *     A repeat due during the jamaat is skipped, and sound already playing
+ *     stops when the jamaat begins.
+ *   - Replays from the admin recent-alerts view never sound (only the store's
+ *     current alert is watched).
+ *
+ * Chromium on the Pi kiosk runs with `--autoplay-policy=no-user-gesture-required`
+ * and `--enable-speech-dispatcher` (see `deploy/xinitrc-kiosk`), so both the
+ * tone and speech start without a user gesture.
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import usePrayerPhase from './usePrayerPhase';
+import { useAppSelector } from '../store/hooks';
+import { selectDisplaySettings } from '../store/slices/contentSlice';
+import { selectCurrentAlert } from '../store/slices/emergencySlice';
+import type { EmergencyAlert } from '../api/models';
+import {
+  ALERT_TONES,
+  alertSpeechText,
+  isAudibleAlert,
+  isSilencedForJamaat,
+  resolveEmergencyAudio,
+  toneDurationMs,
+  type EmergencyAudioConfig,
+} from '../utils/emergencyAlertAudio';
+import logger from '../utils/logger';
+
+/** Attack / release of each tone note, to avoid clicks. */
+const NOTE_RAMP_S = 0.02;
+
+interface Announcement {
+  stop: () => void;
+}
+
+type AudioContextCtor = typeof AudioContext;
+
+function getAudioContextCtor(): AudioContextCtor | null {
+  if (typeof window === 'undefined') return null;
+  const w = window as { AudioContext?: AudioContextCtor; webkitAudioContext?: AudioContextCtor };
+  return w.AudioContext ?? w.webkitAudioContext ?? null;
+}
+
+/** Play the category tone; resolves when it has finished (or at once without Web Audio). */
+function playTone(alert: EmergencyAlert, volume: number, onContext: (ctx: AudioContext) => void): Promise<void> {
+  const Ctor = getAudioContextCtor();
+  if (!Ctor || volume <= 0) return Promise.resolve();
+
+  const notes = ALERT_TONES[alert.category] ?? ALERT_TONES.custom;
+  const ctx = new Ctor();
+  onContext(ctx);
+  const start = ctx.currentTime + 0.05;
+  for (const note of notes) {
+    const t0 = start + note.startMs / 1000;
+    const t1 = t0 + note.durationMs / 1000;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = alert.category === 'safety' || alert.category === 'vehicle' ? 'square' : 'sine';
+    osc.frequency.setValueAtTime(note.frequency, t0);
+    gain.gain.setValueAtTime(0, t0);
+    gain.gain.linearRampToValueAtTime(volume, t0 + NOTE_RAMP_S);
+    gain.gain.setValueAtTime(volume, Math.max(t0 + NOTE_RAMP_S, t1 - NOTE_RAMP_S));
+    gain.gain.linearRampToValueAtTime(0, t1);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(t0);
+    osc.stop(t1);
+  }
+  return new Promise((resolve) => {
+    setTimeout(() => {
+      void ctx.close().catch(() => {});
+      resolve();
+    }, toneDurationMs(notes) + 100);
+  });
+}
+
+/** Tone, then speech. The handle stops both. */
+function announce(alert: EmergencyAlert, config: EmergencyAudioConfig): Announcement {
+  let cancelled = false;
+  const tone: { ctx: AudioContext | null } = { ctx: null };
+  const synth = typeof window !== 'undefined' ? window.speechSynthesis : undefined;
+
+  void playTone(alert, config.volume, (ctx) => {
+    tone.ctx = ctx;
+  })
+    .then(() => {
+      if (cancelled || !config.speak || !synth || typeof SpeechSynthesisUtterance === 'undefined') return;
+      const utterance = new SpeechSynthesisUtterance(alertSpeechText(alert));
+      utterance.volume = config.volume;
+      utterance.rate = 0.9;
+      if (config.voiceLang) utterance.lang = config.voiceLang;
+      synth.cancel();
+      synth.speak(utterance);
+    })
+    .catch((err) => {
+      logger.warn('[EmergencyAudio] Playback failed', {
+        id: alert.id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    });
+
+  return {
+    stop: () => {
+      cancelled = true;
+      if (tone.ctx && tone.ctx.state !== 'closed') void tone.ctx.close().catch(() => {});
+      synth?.cancel();
+    },
+  };
+}
+
+/**
+ * Mount-once hook (call from a single top-level component such as
+ * `DisplayScreenInner`). Has no return value.
+ */
+export function useEmergencyAlertAudio(): void {
+  const alert = useAppSelector(selectCurrentAlert);
+  const displaySettings = useAppSelector(selectDisplaySettings);
+  const { phase, inPrayerSubPhase } = usePrayerPhase();
+  const jamaatInProgress = phase === 'in-prayer' && inPrayerSubPhase === 'jamaat';
+
+  const emergencyAudio = displaySettings?.emergencyAudio;
+  const config = useMemo(() => resolveEmergencyAudio(emergencyAudio), [emergencyAudio]);
+
+  const activeRef = useRef<Announcement | null>(null);
+  const jamaatRef = useRef(jamaatInProgress);
+
+  /* ---- Jamaat: remember for repeats, and cut anything non-safety ---- */
+  useEffect(() => {
+    jamaatRef.current = jamaatInProgress;
+    if (alert && activeRef.current && isSilencedForJamaat(alert, jamaatInProgress)) {
+      activeRef.current.stop();
+      activeRef.current = null;
+    }
+  }, [jamaatInProgress, alert]);
+
+  /* ---- Announce the current alert, repeating until it expires ---- */
+  useEffect(() => {
+    if (!alert || !isAudibleAlert(alert, config)) return;
+    const expiresAt = new Date(alert.expiresAt).getTime();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const round = () => {
+      if (Date.now() >= expiresAt) return;
+      activeRef.current?.stop();
+      activeRef.current = null;
+      if (isSilencedForJamaat(alert, jamaatRef.current)) {
+        logger.debug('[EmergencyAudio] Silent during jamaat', { id: alert.id, category: alert.category });
+      } else {
+        logger.info('[EmergencyAudio] Announcing alert', { id: alert.id, category: alert.category });
+        activeRef.current = announce(alert, config);
+      }
+      if (config.repeatIntervalMs > 0) timer = setTimeout(round, config.repeatIntervalMs);
+    };
+    round();
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      activeRef.current?.stop();
+      activeRef.current = null;
+    };
+  }, [alert, config]);
+}
+
+export default useEmergencyAlertAudio;
@@ -1,98 +1,59 @@
 /**
  * useJamaatBuzzer
  *
- * Plays a short buzzer sound exactly once when the prayer phase transitions
- * into "jamaat in progress" — recreating the audible cue the old sign-board
- * mosque clocks used to make at jamaat time.
+ * Plays a short buzzer sound exactly once per jamaat — recreating the audible
+ * cue the old sign-board mosque clocks used to make at jamaat time.
  *
  * Behaviour:
- *   - Edge-triggered off `usePrayerPhase`: fires when entering
- *     `{ phase: 'in-prayer', inPrayerSubPhase: 'jamaat' }` for a prayer that
- *     has not already been buzzed today.
- *   - Per-day dedupe in `localStorage` (key `mc.buzzer.lastFired`) prevents a
- *     refresh during the jamaat sub-phase from replaying the sound.
+ *   - Driven by `usePrayerPhase`: the cue is due at jamaat + `offsetSeconds`
+ *     (portal setting; negative buzzes during the silent-phones lead, positive
+ *     inside "jamaat in progress"). Checked on every 1 s tick while the prayer
+ *     is in the matching phase.
+ *   - Per-day dedupe in `localStorage` (key `mc.buzzer.lastFired`, see
+ *     utils/phaseEdgeCue) prevents a refresh during the jamaat sub-phase
+ *     from replaying the sound.
  *   - 5-second safety window: if the device boots / mounts more than 5 s after
- *     the actual jamaat time, the buzz is suppressed (no late blast). The
+ *     the cue time, the buzz is suppressed (no late blast). The
  *     prayer is still marked as buzzed so we do not retry on every tick. On
  *     Fridays the safety window is anchored on `jummahJamaat` (via
  *     `getEffectiveJamaat`) so the Zuhr slot beeps for Jumu'ah, not the
- *     regular `zuhrJamaat`.
- *   - Disabled / silent when `useBuzzerSettings().enabled === false`.
+ *     regular `zuhrJamaat`. With several Jumu'ah sessions each one is buzzed
+ *     and deduped separately (`Zuhr#1`, `Zuhr#2`, …).
+ *   - Enabled, volume, sound and which prayers buzz come from
+ *     `useBuzzerSettings()` (portal settings with device overrides).
  *
- * The sound asset is served from `/public/sounds/jamaat-buzzer.mp3`. On the
+ * The default sound is served from `/public/sounds/jamaat-buzzer.mp3`. On the
  * Pi kiosk, Chromium is launched with `--autoplay-policy=no-user-gesture-required`
  * (see `deploy/xinitrc-kiosk`) so playback succeeds without a user gesture.
  *
- * Also exports `playBuzzerPreview(volume)` for the settings "Test sound" button.
+ * Also exports `playBuzzerPreview(volume, url)` for the settings "Test sound" button.
  */
 
 import { useEffect, useRef } from 'react';
+import useCurrentTime from './useCurrentTime';
 import usePrayerPhase from './usePrayerPhase';
 import { usePrayerTimesContext } from '../contexts/PrayerTimesContext';
 import { useBuzzerSettings } from './useBuzzerSettings';
-import { nowMinutesInTz, toMinutesFromMidnight } from '../utils/dateUtils';
 import { useAppSelector } from '../store/hooks';
 import { selectMasjidTimezone } from '../store/slices/contentSlice';
 import { defaultMasjidTimezone } from '../config/environment';
 import { getEffectiveJamaat } from '../utils/jumuahJamaat';
+import { prayerNameToSalahKey } from '../utils/displaySettingsJamaat';
+import { BUZZER_SOUNDS, DEFAULT_BUZZER_SOUND } from '../utils/jamaatBuzzerSettings';
+import {
+  createDailyCueDedupe,
+  isWithinCueSafetyWindow,
+  secondsSinceCueTime,
+} from '../utils/phaseEdgeCue';
 import logger from '../utils/logger';
 
-/** Public so the settings overlay's "Test sound" button can play the same file. */
-export const BUZZER_SOUND_URL = '/sounds/jamaat-buzzer.mp3';
-
-/** Maximum seconds past the jamaat minute that the buzz is still allowed to fire. */
-const SAFETY_WINDOW_SEC = 5;
+/** Default sound; the portal may pick another (`jamaatBuzzer.sound`). */
+export const BUZZER_SOUND_URL = BUZZER_SOUNDS[DEFAULT_BUZZER_SOUND];
 
 /** localStorage key for the per-day dedupe map. */
 const DEDUPE_KEY = 'mc.buzzer.lastFired';
 
-interface DedupeState {
-  /** Local-date key in `YYYY-MM-DD` format. */
-  date: string;
-  /** Prayer names already buzzed today. */
-  prayers: string[];
-}
-
-function todayKey(): string {
-  const d = new Date();
-  const y = d.getFullYear();
-  const m = String(d.getMonth() + 1).padStart(2, '0');
-  const day = String(d.getDate()).padStart(2, '0');
-  return `${y}-${m}-${day}`;
-}
-
-function loadDedupe(): DedupeState {
-  if (typeof localStorage === 'undefined') return { date: todayKey(), prayers: [] };
-  try {
-    const raw = localStorage.getItem(DEDUPE_KEY);
-    if (!raw) return { date: todayKey(), prayers: [] };
-    const parsed = JSON.parse(raw) as Partial<DedupeState> | null;
-    if (parsed?.date !== todayKey()) return { date: todayKey(), prayers: [] };
-    const prayers = Array.isArray(parsed.prayers)
-      ? parsed.prayers.filter((p): p is string => typeof p === 'string')
-      : [];
-    return { date: parsed.date, prayers };
-  } catch {
-    return { date: todayKey(), prayers: [] };
-  }
-}
-
-function alreadyBuzzedToday(prayer: string): boolean {
-  return loadDedupe().prayers.includes(prayer);
-}
-
-function markBuzzedToday(prayer: string): void {
-  const state = loadDedupe();
-  if (state.prayers.includes(prayer)) return;
-  const next: DedupeState = { date: state.date, prayers: [...state.prayers, prayer] };
-  try {
-    if (typeof localStorage !== 'undefined') {
-      localStorage.setItem(DEDUPE_KEY, JSON.stringify(next));
-    }
-  } catch {
-    /* quota / private mode — non-fatal */
-  }
-}
+const buzzedToday = createDailyCueDedupe(DEDUPE_KEY);
 
 /**
  * Construct an `Audio` element and call `play()` immediately. Used by both
@@ -100,9 +61,9 @@ function markBuzzedToday(prayer: string): void {
  *
  * Returns the underlying play promise so callers can `.catch` autoplay errors.
  */
-export function playBuzzerPreview(volume: number): Promise<void> {
+export function playBuzzerPreview(volume: number, url: string = BUZZER_SOUND_URL): Promise<void> {
   if (typeof Audio === 'undefined') return Promise.resolve();
-  const audio = new Audio(BUZZER_SOUND_URL);
+  const audio = new Audio(url);
   audio.volume = Math.max(0, Math.min(1, volume));
   return audio.play();
 }
@@ -113,50 +74,36 @@ export function playBuzzerPreview(volume: number): Promise<void> {
  * playing the buzzer sound at the right moment.
  */
 export function useJamaatBuzzer(): void {
-  const { phase, prayerName, inPrayerSubPhase } = usePrayerPhase();
-  const { currentPrayer, nextPrayer, isJumuahToday, jumuahTime } =
+  const { phase, prayerName, inPrayerSubPhase, jumuahSession } = usePrayerPhase();
+  const { currentPrayer, nextPrayer, isJumuahToday, jumuahTime, jumuahSessions } =
     usePrayerTimesContext();
-  const { enabled, volume } = useBuzzerSettings();
+  const { enabled, volume, soundUrl, prayers, offsetSeconds } = useBuzzerSettings();
+  const currentTime = useCurrentTime();
   const masjidTz =
     useAppSelector(selectMasjidTimezone) || defaultMasjidTimezone;
 
   const audioRef = useRef<HTMLAudioElement | null>(null);
-  const prevRef = useRef<{ phase?: string; sub?: string; prayer?: string }>({});
 
   useEffect(() => {
     if (typeof Audio === 'undefined') return;
-    if (!audioRef.current) {
-      audioRef.current = new Audio(BUZZER_SOUND_URL);
+    if (!audioRef.current || audioRef.current.getAttribute('src') !== soundUrl) {
+      audioRef.current = new Audio(soundUrl);
       audioRef.current.preload = 'auto';
     }
     audioRef.current.volume = Math.max(0, Math.min(1, volume));
-  }, [volume]);
+  }, [volume, soundUrl]);
 
   useEffect(() => {
-    const prev = prevRef.current;
-    const enteringJamaat =
-      phase === 'in-prayer' &&
-      inPrayerSubPhase === 'jamaat' &&
-      !!prayerName &&
-      !(prev.phase === 'in-prayer' && prev.sub === 'jamaat' && prev.prayer === prayerName);
-
-    prevRef.current = {
-      phase,
-      sub: inPrayerSubPhase,
-      prayer: prayerName ?? undefined,
-    };
-
-    if (!enteringJamaat || !prayerName) return;
-    if (!enabled) {
-      logger.debug('[JamaatBuzzer] Skipped — disabled in settings', { prayerName });
-      return;
-    }
-    if (alreadyBuzzedToday(prayerName)) {
-      logger.debug('[JamaatBuzzer] Skipped — already buzzed today', { prayerName });
-      return;
-    }
+    /* A negative offset falls inside the silent-phones lead (jamaat-soon). */
+    const inJamaat = phase === 'in-prayer' && inPrayerSubPhase === 'jamaat';
+    const inCuePhase = inJamaat || (offsetSeconds < 0 && phase === 'jamaat-soon');
+    if (!inCuePhase || !prayerName) return;
+
+    /* Dedupe key: one entry per Jumu'ah session when there are several. */
+    const buzzKey = jumuahSession ? `${prayerName}#${jumuahSession}` : prayerName;
+    if (buzzedToday.has(buzzKey)) return;
 
-    /* Resolve jamaat HH:mm string for the prayer that just entered jamaat phase.
+    /* Resolve jamaat HH:mm string for the prayer in the cue phase.
      * Prefer `currentPrayer` (during the in-prayer window it is set to the
      * praying prayer); fall back to `nextPrayer` for the moment of transition.
      *
@@ -174,59 +121,66 @@ export function useJamaatBuzzer(): void {
     const jamaatStr = getEffectiveJamaat(
       candidatePrayer,
       isJumuahToday,
-      jumuahTime,
+      (jumuahSession ? jumuahSessions[jumuahSession - 1]?.jamaat : undefined) ?? jumuahTime,
     );
 
-    if (jamaatStr) {
-      const jamaatMin = toMinutesFromMidnight(jamaatStr, prayerName);
-      if (jamaatMin >= 0) {
-        // Compare in masjid wall-clock minutes; using `Date.getHours()` here
-        // would be wrong when the device runs in UTC (e.g. the Pi kiosk).
-        const nowMin = nowMinutesInTz(new Date(), masjidTz);
-        const elapsedSec = (nowMin - jamaatMin) * 60;
-        if (elapsedSec < 0 || elapsedSec > SAFETY_WINDOW_SEC) {
-          logger.info('[JamaatBuzzer] Skipped — outside safety window', {
-            prayerName,
-            jamaatStr,
-            elapsedSec: Math.round(elapsedSec),
-          });
-          /* Mark as buzzed so we don't keep checking on every 1 s tick while
-           * the in-prayer phase persists. */
-          markBuzzedToday(prayerName);
-          return;
-        }
-      }
+    const sinceJamaat = secondsSinceCueTime(jamaatStr, prayerName, masjidTz, currentTime);
+    const elapsedSec = sinceJamaat === null ? null : sinceJamaat - offsetSeconds;
+    /* Cue not due yet (lag offset) — wait for a later tick. */
+    if (elapsedSec !== null && elapsedSec < 0) return;
+
+    const salahKey = prayerNameToSalahKey(prayerName);
+    if (!enabled || (salahKey && !prayers[salahKey])) {
+      logger.debug('[JamaatBuzzer] Skipped — disabled in settings', { prayerName: buzzKey });
+      buzzedToday.mark(buzzKey);
+      return;
+    }
+
+    if (elapsedSec !== null && !isWithinCueSafetyWindow(elapsedSec)) {
+      logger.info('[JamaatBuzzer] Skipped — outside safety window', {
+        prayerName: buzzKey,
+        jamaatStr,
+        offsetSeconds,
+        elapsedSec: Math.round(elapsedSec),
+      });
+      /* Mark as buzzed so we don't keep checking on every 1 s tick while
+       * the in-prayer phase persists. */
+      buzzedToday.mark(buzzKey);
+      return;
     }
 
     const audio = audioRef.current;
     if (!audio) return;
 
+    /* Marked before playing so the next tick does not start a second play. */
+    buzzedToday.mark(buzzKey);
     audio.currentTime = 0;
     audio
       .play()
       .then(() => {
-        logger.info('[JamaatBuzzer] Played', { prayerName });
-        markBuzzedToday(prayerName);
+        logger.info('[JamaatBuzzer] Played', { prayerName: buzzKey, offsetSeconds });
       })
       .catch((err) => {
         logger.warn('[JamaatBuzzer] Play failed', {
-          prayerName,
+          prayerName: buzzKey,
           error: err instanceof Error ? err.message : String(err),
         });
-        /* Intentionally NOT marking as buzzed: if autoplay was blocked the
-         * user may unlock audio (e.g. via the test button) and a future tick
-         * could try again. */
       });
   }, [
     phase,
     inPrayerSubPhase,
     prayerName,
     enabled,
+    prayers,
+    offsetSeconds,
     currentPrayer,
     nextPrayer,
     masjidTz,
     isJumuahToday,
     jumuahTime,
+    jumuahSession,
+    jumuahSessions,
+    currentTime,
   ]);
 }
 
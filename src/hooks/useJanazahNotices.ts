@@ -0,0 +1,85 @@
+/**
+ * useJanazahNotices
+ *
+ * Resolves the salah time of every structured janazah alert against today's
+ * prayer times ("after Zuhr" → Zuhr jamaat) and publishes the result to
+ * `emergency.janazahSalahTimes`, where EmergencyAlertOverlay reads it (the
+ * overlay sits outside PrayerTimesProvider).
+ *
+ * Returns the notices to pin in the carousel: janazah alerts whose full-screen
+ * takeover has ended (expired or taken down, not cancelled by an admin) and
+ * whose salah is still ahead. Each drops out when its salah time passes. Notices come from
+ * the persisted alert history, so they survive a reload.
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import {
+  selectAlertHistory,
+  selectAlertQueue,
+  selectJanazahSalahTimes,
+  setJanazahSalahTimes,
+} from '@/store/slices/emergencySlice';
+import { selectMasjidTimezone } from '@/store/slices/contentSlice';
+import { defaultMasjidTimezone } from '@/config/environment';
+import { usePrayerTimesContext } from '@/contexts/PrayerTimesContext';
+import { useCurrentTime } from './useCurrentTime';
+import {
+  collectJanazahAlerts,
+  resolveJanazahSalah,
+  type JanazahNotice,
+  type JanazahSalah,
+} from '@/utils/janazahAlert';
+
+const MINUTE_MS = 60_000;
+
+function sameSalahTimes(a: Record<string, JanazahSalah>, b: Record<string, JanazahSalah>): boolean {
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every((id) => b[id] && a[id].salahAt === b[id].salahAt && a[id].afterPrayer === b[id].afterPrayer);
+}
+
+/**
+ * Mount-once hook (call from a single top-level component such as
+ * `DisplayScreenInner`, inside PrayerTimesProvider).
+ */
+export function useJanazahNotices(): JanazahNotice[] {
+  const dispatch = useAppDispatch();
+  const history = useAppSelector(selectAlertHistory);
+  const queue = useAppSelector(selectAlertQueue);
+  const published = useAppSelector(selectJanazahSalahTimes);
+  const tz = useAppSelector(selectMasjidTimezone) || defaultMasjidTimezone;
+  const { todaysPrayerTimes } = usePrayerTimesContext();
+  // Minute resolution is plenty for "until the salah"; keeps the carousel items stable
+  const minute = Math.floor(useCurrentTime().getTime() / MINUTE_MS);
+
+  /* Latest version of each janazah alert, and whether an admin cancelled it */
+  const janazahAlerts = useMemo(() => collectJanazahAlerts(history, queue), [history, queue]);
+
+  const salahTimes = useMemo(() => {
+    const resolved: Record<string, JanazahSalah> = {};
+    janazahAlerts.forEach(({ alert }) => {
+      resolved[alert.id] = resolveJanazahSalah(alert.janazah!, todaysPrayerTimes, alert.createdAt, tz);
+    });
+    return resolved;
+  }, [janazahAlerts, todaysPrayerTimes, tz]);
+
+  useEffect(() => {
+    if (!sameSalahTimes(salahTimes, published)) dispatch(setJanazahSalahTimes(salahTimes));
+  }, [dispatch, salahTimes, published]);
+
+  return useMemo(() => {
+    const now = minute * MINUTE_MS;
+    const activeIds = new Set(queue.map((alert) => alert.id));
+    const notices: JanazahNotice[] = [];
+    janazahAlerts.forEach(({ alert, cancelled }) => {
+      const salah = salahTimes[alert.id];
+      if (cancelled || activeIds.has(alert.id) || !salah?.salahAt) return;
+      if (new Date(salah.salahAt).getTime() <= now) return;
+      notices.push({ alertId: alert.id, title: alert.title, details: alert.janazah!, ...salah });
+    });
+    return notices.sort((a, b) => (a.salahAt ?? '').localeCompare(b.salahAt ?? ''));
+  }, [janazahAlerts, salahTimes, queue, minute]);
+}
+
+export default useJanazahNotices;
@@ -39,6 +39,9 @@ const mockNextRef: { value: MockPrayer | null } = { value: null };
 const mockCurrentRef: { value: MockPrayer | null } = { value: null };
 const mockIsJumuahTodayRef: { value: boolean } = { value: false };
 const mockJumuahTimeRef: { value: string | null } = { value: null };
+const mockJumuahSessionsRef: { value: { khutbah?: string | null; jamaat: string; label?: string | null }[] } = {
+  value: [],
+};
 
 vi.mock('../contexts/PrayerTimesContext', () => ({
   usePrayerTimesContext: () => ({
@@ -52,6 +55,8 @@ vi.mock('../contexts/PrayerTimesContext', () => ({
     jumuahKhutbahRaw: null,
     upcomingJumuahJamaatRaw: null,
     upcomingJumuahKhutbahRaw: null,
+    jumuahSessions: mockJumuahSessionsRef.value,
+    upcomingJumuahSessions: [],
     forbiddenPrayer: null,
     tomorrowsJamaats: null,
     currentDate: '',
@@ -92,6 +97,7 @@ describe('usePrayerPhase', () => {
     mockCurrentRef.value = null;
     mockIsJumuahTodayRef.value = false;
     mockJumuahTimeRef.value = null;
+    mockJumuahSessionsRef.value = [];
   });
 
   afterEach(() => {
@@ -167,6 +173,22 @@ describe('usePrayerPhase', () => {
     });
   });
 
+  describe('adhanStarted (adhan audio edge)', () => {
+    beforeEach(() => {
+      mockNextRef.value = { name: 'Asr', time: '16:00', jamaat: '16:30' };
+    });
+
+    it('is false before adhan', () => {
+      setMasjidTime('15:59');
+      expect(renderPhase().result.current).toMatchObject({ phase: 'countdown-adhan', adhanStarted: false });
+    });
+
+    it('is true once adhan is reached', () => {
+      setMasjidTime('16:00');
+      expect(renderPhase().result.current).toMatchObject({ phase: 'countdown-jamaat', adhanStarted: true });
+    });
+  });
+
   describe('jamaat missing from payload', () => {
     it('never enters jamaat-soon or in-prayer', () => {
       mockNextRef.value = { name: 'Asr', time: '15:30', jamaat: undefined };
@@ -238,6 +260,107 @@ describe('usePrayerPhase', () => {
     });
   });
 
+  describe('Friday — multiple Jumu\u2019ah sessions', () => {
+    beforeEach(() => {
+      // usePrayerTimes substitutes the first session into the Zuhr row.
+      mockNextRef.value = { name: 'Zuhr', time: '12:45', jamaat: '13:00' };
+      mockIsJumuahTodayRef.value = true;
+      mockJumuahTimeRef.value = '13:00';
+      mockJumuahSessionsRef.value = [
+        { khutbah: '12:45', jamaat: '13:00' },
+        { khutbah: '13:45', jamaat: '14:00' },
+      ];
+    });
+
+    it('runs the in-prayer phase for the first session', () => {
+      setMasjidTime('13:02');
+      expect(renderPhase().result.current).toMatchObject({
+        phase: 'in-prayer',
+        inPrayerSubPhase: 'jamaat',
+        prayerName: 'Zuhr',
+        jumuahSession: 1,
+      });
+    });
+
+    it('counts down to the second session once the first has finished', () => {
+      setMasjidTime('13:40');
+      expect(renderPhase().result.current).toMatchObject({
+        phase: 'countdown-adhan',
+        prayerName: 'Zuhr',
+        jumuahSession: 2,
+      });
+    });
+
+    it('gives the second session its own silent-phones lead', () => {
+      setMasjidTime('13:56');
+      expect(renderPhase().result.current).toMatchObject({ phase: 'jamaat-soon', jumuahSession: 2 });
+    });
+
+    it('gives the second session its own in-prayer phase', () => {
+      setMasjidTime('14:01');
+      expect(renderPhase().result.current).toMatchObject({
+        phase: 'in-prayer',
+        inPrayerSubPhase: 'jamaat',
+        jumuahSession: 2,
+      });
+    });
+
+    it('omits jumuahSession with a single session', () => {
+      mockJumuahSessionsRef.value = [{ khutbah: '12:45', jamaat: '13:00' }];
+      setMasjidTime('13:02');
+      expect(renderPhase().result.current.jumuahSession).toBeUndefined();
+    });
+  });
+
+  describe('Eid salah jamaats', () => {
+    function renderEidPhase() {
+      const content = createTestStore().getState().content;
+      return renderPhase({
+        content: {
+          ...content,
+          displaySettings: {
+            ...content.displaySettings,
+            eidMode: 'on',
+            eidJamaats: [{ time: '08:00' }, { time: '09:30' }],
+          } as typeof content.displaySettings,
+        },
+      });
+    }
+
+    beforeEach(() => {
+      mockNextRef.value = { name: 'Zuhr', time: '13:00', jamaat: '13:30' };
+    });
+
+    it('shows jamaat-soon before each Eid jamaat', () => {
+      setMasjidTime('07:57');
+      expect(renderEidPhase().result.current).toMatchObject({ phase: 'jamaat-soon', prayerName: 'Eid' });
+      setMasjidTime('09:26');
+      expect(renderEidPhase().result.current).toMatchObject({ phase: 'jamaat-soon', prayerName: 'Eid' });
+    });
+
+    it('enters in-prayer (sub-phase jamaat) at each Eid jamaat', () => {
+      setMasjidTime('09:32');
+      expect(renderEidPhase().result.current).toMatchObject({
+        phase: 'in-prayer',
+        prayerName: 'Eid',
+        inPrayerSubPhase: 'jamaat',
+      });
+    });
+
+    it('falls back to the normal Zuhr countdown between and after Eid jamaats', () => {
+      setMasjidTime('08:45');
+      expect(renderEidPhase().result.current).toMatchObject({ phase: 'countdown-adhan', prayerName: 'Zuhr' });
+      setMasjidTime('11:00');
+      expect(renderEidPhase().result.current).toMatchObject({ phase: 'countdown-adhan', prayerName: 'Zuhr' });
+    });
+
+    it('ignores Eid jamaats when Eid mode is off', () => {
+      setMasjidTime('08:00');
+      const { result } = renderPhase();
+      expect(result.current.phase).toBe('countdown-adhan');
+    });
+  });
+
   describe('Pi-in-UTC scenario (device tz ≠ masjid tz)', () => {
     /**
      * Force the Vitest "system tz" to UTC so that `Date.getHours()` would
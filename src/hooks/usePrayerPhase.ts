@@ -18,6 +18,11 @@
  *                      (sub-phase 'jamaat') then `delayMin` (sub-phase
  *                      'post-jamaat') sourced from displaySettings.
  *
+ * On Eid (see utils/eidMode) each Eid salah jamaat gets the same jamaat-soon
+ * and in-prayer windows as a fard jamaat, reported as prayer "Eid".
+ * Multiple Jumu'ah sessions likewise each run the full cycle in turn
+ * (`jumuahSession` says which one).
+ *
  * All comparisons happen in masjid-local minutes-from-midnight via
  * `nowMinutesInTz` + `toMinutesFromMidnight`, so the phase machine works
  * correctly when the device runs in a different timezone (Pi kiosk in UTC).
@@ -27,6 +32,9 @@
  */
 
 import { useMemo, useState, useEffect, useRef } from 'react';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
 import { usePrayerTimesContext } from '../contexts/PrayerTimesContext';
 import { useCurrentTime } from './useCurrentTime';
 import { nowMinutesInTz, toMinutesFromMidnight } from '../utils/dateUtils';
@@ -43,12 +51,16 @@ import {
   postJamaatSupplicationWindowMinutes,
 } from '@/utils/displaySettingsJamaat';
 import { isPostAdhanSupplicationActive } from '@/utils/displaySettingsSupplications';
-import { getEffectiveJamaat } from '@/utils/jumuahJamaat';
+import { getEffectiveJamaat, resolveJumuahSessionIndex } from '@/utils/jumuahJamaat';
+import { EID_PRAYER_NAME, resolveEidMode } from '@/utils/eidMode';
 import {
   PRAYER_DISPLAY_DEV_EVENT,
   resolvePrayerDisplayDevOverride,
 } from '@/dev/prayerDisplayDevOverride';
 
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
 /* ------------------------------------------------------------------ */
 /*  Types                                                              */
 /* ------------------------------------------------------------------ */
@@ -73,6 +85,16 @@ export interface PrayerPhaseData {
   inPrayerSubPhase?: 'jamaat' | 'post-jamaat-supplication' | 'post-jamaat';
   /** Post-adhan supplication replaces carousel between adhan and jamaat-soon. */
   adhanSupplicationActive?: boolean;
+  /**
+   * 1-based Jumu'ah session this phase relates to. Only set for the Friday
+   * Zuhr slot when the masjid runs more than one session.
+   */
+  jumuahSession?: number;
+  /**
+   * True once the prayer's adhan time (A) has been reached — the edge
+   * `useAdhanAudio` plays on. Not set for Eid, which has no adhan.
+   */
+  adhanStarted?: boolean;
 }
 
 /* ------------------------------------------------------------------ */
@@ -108,7 +130,7 @@ declare global {
 /* ------------------------------------------------------------------ */
 
 export const usePrayerPhase = (): PrayerPhaseData => {
-  const { nextPrayer, currentPrayer, isJumuahToday, jumuahTime } =
+  const { nextPrayer, currentPrayer, isJumuahToday, jumuahTime, jumuahSessions } =
     usePrayerTimesContext();
   const currentTime = useCurrentTime();
   const displaySettings = useAppSelector(selectDisplaySettings);
@@ -144,6 +166,13 @@ export const usePrayerPhase = (): PrayerPhaseData => {
     }
   }, [currentPrayer?.name, currentPrayer?.jamaat]);
 
+  /* ---- Eid salah jamaats for the masjid-local day (recomputed once per day) ---- */
+  const masjidDay = dayjs(currentTime).tz(masjidTz).format('YYYY-MM-DD');
+  const eidJamaats = useMemo(
+    () => resolveEidMode(masjidDay, displaySettings).jamaats,
+    [masjidDay, displaySettings],
+  );
+
   /* ---- Phase calculation (single source of truth, anchored on J) ---- */
   const phaseData = useMemo((): PrayerPhaseData => {
     const devOverride = resolvePrayerDisplayDevOverride(
@@ -192,19 +221,48 @@ export const usePrayerPhase = (): PrayerPhaseData => {
       return { phase: 'in-prayer', prayerName, inPrayerSubPhase: sub };
     };
 
+    // 0) Eid salah. Falls between sunrise and Zuhr, so it never overlaps the
+    //    fard windows below. With several congregations a jamaat in progress
+    //    wins (keeps the blackout up); otherwise the latest slot that has
+    //    started or is about to start.
+    const eidPhases = eidJamaats.map((slot): PrayerPhaseData | null => {
+      const inPrayer = resolveInPrayer(EID_PRAYER_NAME, slot.time);
+      if (inPrayer) return inPrayer;
+      const J = toMinutesFromMidnight(slot.time, EID_PRAYER_NAME);
+      return now >= J - JAMAAT_LEAD_MIN && now < J
+        ? { phase: 'jamaat-soon', prayerName: EID_PRAYER_NAME }
+        : null;
+    });
+    const eidInJamaat = eidPhases.find((p) => p?.inPrayerSubPhase === 'jamaat');
+    if (eidInJamaat) return eidInJamaat;
+    const eidLatest = [...eidPhases].reverse().find((p) => p != null);
+    if (eidLatest) return eidLatest;
+
     // On Fridays the live phase machine targets `jummahJamaat` for the Zuhr
     // slot (countdown + in-prayer + jamaat-soon all anchor on it). The panel
     // continues to display `zuhrJamaat`; this only swaps the J value used by
     // the phase calculation. See `getEffectiveJamaat` for the exact rule.
+    // With several sessions the active one is resolved here to the second
+    // rather than waiting for usePrayerTimes' next recompute.
+    const sessionIndex = isJumuahToday
+      ? resolveJumuahSessionIndex(jumuahSessions, now, displaySettings)
+      : -1;
+    const activeSession = sessionIndex >= 0 ? jumuahSessions[sessionIndex] : null;
+    const activeJumuahTime = activeSession?.jamaat ?? jumuahTime;
+    const withSession = (data: PrayerPhaseData): PrayerPhaseData =>
+      data.prayerName === 'Zuhr' && isJumuahToday && jumuahSessions.length > 1
+        ? { ...data, jumuahSession: sessionIndex + 1 }
+        : data;
+
     const currentEffectiveJamaat = getEffectiveJamaat(
       currentPrayer ?? undefined,
       isJumuahToday,
-      jumuahTime,
+      activeJumuahTime,
     );
     const nextEffectiveJamaat = getEffectiveJamaat(
       nextPrayer ?? undefined,
       isJumuahToday,
-      jumuahTime,
+      activeJumuahTime,
     );
 
     // 1) Stay on in-prayer for the just-finished prayer (currentPrayer is set
@@ -214,25 +272,29 @@ export const usePrayerPhase = (): PrayerPhaseData => {
       currentPrayer?.name,
       currentEffectiveJamaat,
     );
-    if (currentInPrayer) return currentInPrayer;
+    if (currentInPrayer) return withSession({ ...currentInPrayer, adhanStarted: true });
 
     if (!nextPrayer) return defaultResult;
 
-    const A = toMinutesFromMidnight(nextPrayer.time, nextPrayer.name);
+    const sessionStart =
+      activeSession && nextPrayer.name === 'Zuhr'
+        ? (activeSession.khutbah ?? activeSession.jamaat)
+        : nextPrayer.time;
+    const A = toMinutesFromMidnight(sessionStart, nextPrayer.name);
     const J = toMinutesFromMidnight(nextEffectiveJamaat, nextPrayer.name);
 
     // 2) At/just-past jamaat for nextPrayer (in case currentPrayer hasn't
     //    advanced yet) — same window calculation as above.
     const nextInPrayer = resolveInPrayer(nextPrayer.name, nextEffectiveJamaat);
-    if (nextInPrayer) return nextInPrayer;
+    if (nextInPrayer) return withSession({ ...nextInPrayer, adhanStarted: true });
 
     if (A < 0 && J < 0) return defaultResult;
 
     // 3) When jamaat is missing, only the adhan countdown applies.
     if (J < 0) {
       return now < A
-        ? { phase: 'countdown-adhan', prayerName: nextPrayer.name }
-        : { phase: 'countdown-adhan', prayerName: nextPrayer.name };
+        ? { phase: 'countdown-adhan', prayerName: nextPrayer.name, adhanStarted: false }
+        : { phase: 'countdown-adhan', prayerName: nextPrayer.name, adhanStarted: true };
     }
 
     /**
@@ -250,7 +312,11 @@ export const usePrayerPhase = (): PrayerPhaseData => {
     // 4) Within the silent-phones lead window — fires regardless of A so the
     //    screen still shows when adhan == jamaat or A is inside the window.
     if (now >= J - JAMAAT_LEAD_MIN && now < J) {
-      return { phase: 'jamaat-soon', prayerName: nextPrayer.name };
+      return withSession({
+        phase: 'jamaat-soon',
+        prayerName: nextPrayer.name,
+        adhanStarted: now >= Aeff,
+      });
     }
 
     // 5) Adhan passed but more than the lead window remaining → countdown to jamaat.
@@ -262,15 +328,20 @@ export const usePrayerPhase = (): PrayerPhaseData => {
         J,
         JAMAAT_LEAD_MIN,
       );
-      return {
+      return withSession({
         phase: 'countdown-jamaat',
         prayerName: nextPrayer.name,
         adhanSupplicationActive,
-      };
+        adhanStarted: true,
+      });
     }
 
     // 6) Default — counting down to adhan.
-    return { phase: 'countdown-adhan', prayerName: nextPrayer.name };
+    return withSession({
+      phase: 'countdown-adhan',
+      prayerName: nextPrayer.name,
+      adhanStarted: false,
+    });
   }, [
     nextPrayer,
     currentPrayer,
@@ -280,6 +351,8 @@ export const usePrayerPhase = (): PrayerPhaseData => {
     masjidTz,
     isJumuahToday,
     jumuahTime,
+    jumuahSessions,
+    eidJamaats,
   ]);
 
   /* ---- Transition-gated diagnostic log ----
@@ -288,7 +361,7 @@ export const usePrayerPhase = (): PrayerPhaseData => {
    */
   const lastTransitionRef = useRef<string>('');
   useEffect(() => {
-    const key = `${phaseData.phase}|${phaseData.inPrayerSubPhase ?? ''}|${phaseData.adhanSupplicationActive ? 'adhan-dua' : ''}|${phaseData.prayerName ?? ''}`;
+    const key = `${phaseData.phase}|${phaseData.inPrayerSubPhase ?? ''}|${phaseData.adhanSupplicationActive ? 'adhan-dua' : ''}|${phaseData.prayerName ?? ''}|${phaseData.jumuahSession ?? ''}`;
     if (lastTransitionRef.current === key) return;
     lastTransitionRef.current = key;
     const now = nowMinutesInTz(currentTime, masjidTz);
@@ -301,6 +374,7 @@ export const usePrayerPhase = (): PrayerPhaseData => {
       phase: phaseData.phase,
       sub: phaseData.inPrayerSubPhase,
       prayer: phaseData.prayerName,
+      jumuahSession: phaseData.jumuahSession,
       A: nextPrayer ? toMinutesFromMidnight(nextPrayer.time, nextPrayer.name) : null,
       J: nextPrayer ? toMinutesFromMidnight(effectiveJamaat, nextPrayer.name) : null,
       nowMin: Math.round(now),
@@ -649,4 +649,64 @@ describe('usePrayerTimes', () => {
       vi.useRealTimers();
     }
   });
+
+  it('targets the first of several Jumuah sessions and exposes them all', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const friday = dayjs.tz('2026-06-19', TEST_TZ).hour(11).minute(0).second(0).millisecond(0);
+    vi.setSystemTime(friday.toDate());
+
+    const sessions = [
+      { khutbah: '14:00', jamaat: '14:15', label: 'Second' },
+      { khutbah: '13:00', jamaat: '13:15' },
+    ];
+    const weekPrayerTimes = {
+      data: [
+        {
+          date: '2026-06-19',
+          fajr: '05:30',
+          sunrise: '06:45',
+          zuhr: '12:15',
+          asr: '15:30',
+          maghrib: '18:20',
+          isha: '19:45',
+          fajrJamaat: '05:45',
+          zuhrJamaat: '12:30',
+          asrJamaat: '16:00',
+          maghribJamaat: '18:25',
+          ishaJamaat: '20:00',
+          jummahSessions: sessions,
+        },
+      ],
+    } as PrayerTimes;
+
+    const contentState = createTestStore().getState().content;
+    const preloaded = createTestStore({
+      content: {
+        ...contentState,
+        prayerTimes: weekPrayerTimes,
+        masjidTimezone: TEST_TZ,
+        timeFormat: '24h',
+      },
+    }).getState();
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(
+        AllTheProviders,
+        { preloadedState: preloaded } as React.ComponentProps<typeof AllTheProviders>,
+        children,
+      );
+    const { result } = renderHook(() => usePrayerTimes(), { wrapper });
+    try {
+      await waitFor(() => {
+        expect(result.current.jumuahSessions.map((x) => x.jamaat)).toEqual(['13:15', '14:15']);
+      });
+      expect(result.current.jumuahTime).toBe('13:15');
+      expect(result.current.upcomingJumuahSessions).toHaveLength(2);
+      expect(result.current.upcomingJumuahJamaatRaw).toBe('13:15');
+      const zuhrRow = result.current.todaysPrayerTimes.find((p) => p.name === 'Zuhr');
+      expect(zuhrRow?.jamaat).toBe('13:15');
+      expect(zuhrRow?.jumuahJamaats).toEqual(['13:15', '14:15']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
 });
@@ -1,9 +1,16 @@
-import { useState, useEffect, useCallback, useRef } from "react";
-import { PrayerTimes, type DisplaySettings, type TimeFormat } from "../api/models";
+import { useState, useEffect, useCallback, useRef, useMemo } from "react";
+import { PrayerTimes, type DisplaySettings, type JummahSession, type TimeFormat } from "../api/models";
 import apiClient from "../api/apiClient";
 import { useDispatch, useSelector } from "react-redux";
 import type { AppDispatch, RootState } from "../store";
-import { refreshPrayerTimes, loadPrayerTimesFromStorage, selectTimeFormat, selectDisplaySettings, selectMasjidTimezone } from "../store/slices/contentSlice";
+import {
+  refreshPrayerTimes,
+  loadPrayerTimesFromStorage,
+  selectTimeFormat,
+  selectDisplaySettings,
+  selectMasjidTimezone,
+  selectMasjidCoordinates,
+} from "../store/slices/contentSlice";
 import {
   formatTimeToDisplay,
   getNextPrayerTime,
@@ -12,13 +19,15 @@ import {
   toMinutesFromMidnight,
   nowMinutesInTz,
   fetchHijriDate,
-  calculateApproximateHijriDate,
 } from "../utils/dateUtils";
 import { prayerTimesSyncInterval, defaultMasjidTimezone } from "../config/environment";
 import { getCurrentForbiddenWindow } from "../utils/forbiddenPrayerTimes";
 import type { CurrentForbiddenState } from "../utils/forbiddenPrayerTimes";
 import logger from "../utils/logger";
 import { totalJamaatPhaseWindowForDisplayPrayer } from "../utils/displaySettingsJamaat";
+import { buildCalculatedPrayerTimes, isPrayerTimetableExhausted } from "../utils/prayerTimesFallback";
+import { getHijriCalendarOptions, getHijriDateString } from "../utils/hijriCalendar";
+import { getJumuahSessions, resolveJumuahSession } from "../utils/jumuahJamaat";
 import dayjs from "dayjs";
 import utc from "dayjs/plugin/utc";
 import timezone from "dayjs/plugin/timezone";
@@ -70,6 +79,14 @@ interface FormattedPrayerTime {
    * the JamaatSoonSlot diff can still consult it.
    */
   alternateJamaat?: string;
+  /**
+   * When `isJumuah` and the masjid runs more than one session: every
+   * session's jamaat (HH:mm), earliest first. `jamaat` is the session the
+   * live UI currently targets.
+   */
+  jumuahJamaats?: string[];
+  /** True when the time was calculated on-device (offline fallback), not published by the masjid. */
+  isCalculated?: boolean;
 }
 
 /**
@@ -111,10 +128,16 @@ interface PrayerTimesHook {
   upcomingJumuahJamaatRaw: string | null;
   /** Next Friday khutbah (HH:mm) for landscape prayer strip. */
   upcomingJumuahKhutbahRaw: string | null;
+  /** Displayed Friday's Jumu'ah sessions, earliest first (empty on other days). */
+  jumuahSessions: JummahSession[];
+  /** Next Friday's Jumu'ah sessions; `upcomingJumuah*Raw` mirror the first one. */
+  upcomingJumuahSessions: JummahSession[];
   /** When voluntary (nafl) prayer is discouraged (makruh times). */
   forbiddenPrayer: CurrentForbiddenState | null;
   /** Tomorrow's jamaat times by prayer name (Fajr, Zuhr, Asr, Maghrib, Isha). Null when no tomorrow data. */
   tomorrowsJamaats: TomorrowsJamaatsMap;
+  /** True while showing locally calculated times because the cached timetable ran out. */
+  isCalculatedFallback: boolean;
 }
 
 const PRAYER_NAMES = ["Fajr", "Sunrise", "Zuhr", "Asr", "Maghrib", "Isha"];
@@ -195,6 +218,11 @@ function buildTomorrowsJamaats(
  * `jummahJamaat` (no adhan-only countdown — straight into the jamaat
  * countdown). `jamaat` is always replaced with `jummahJamaat`.
  *
+ * With several sessions (`jummahSessions`) the row carries the session
+ * `resolveJumuahSessionIndex` picks for `nowMin`, so next-prayer selection
+ * keeps Zuhr pending until the last session has finished. Without `nowMin`
+ * (a future day) the first session is used.
+ *
  * Returns silently when `jummahJamaat` is missing — the regular Zuhr times
  * remain in place rather than blanking the row.
  *
@@ -208,15 +236,17 @@ function applyJummahSubstitution(
   zuhrRow: FormattedPrayerTime,
   dayData: unknown,
   timeFormat: TimeFormat,
+  nowMin?: number,
+  displaySettings?: DisplaySettings | null,
 ): void {
-  if (!dayData || typeof dayData !== "object") return;
-  const rec = dayData as Record<string, unknown>;
-  const jamaat =
-    typeof rec.jummahJamaat === "string" ? rec.jummahJamaat : undefined;
-  if (!jamaat) return;
-  const khutbah =
-    typeof rec.jummahKhutbah === "string" ? rec.jummahKhutbah : undefined;
-  const slotStart = khutbah ?? jamaat;
+  const sessions = getJumuahSessions(dayData);
+  const session =
+    nowMin != null
+      ? resolveJumuahSession(sessions, nowMin, displaySettings)
+      : (sessions[0] ?? null);
+  if (!session) return;
+  const { jamaat } = session;
+  const slotStart = session.khutbah ?? jamaat;
   // Capture the regular zuhrJamaat before overwriting. The UI no longer
   // renders this alongside today's Jumuah jamaat (Jumuah is the only mosque
   // congregational prayer on Fridays), but the value is preserved on the row
@@ -231,6 +261,9 @@ function applyJummahSubstitution(
   if (originalZuhrJamaat) {
     zuhrRow.alternateJamaat = originalZuhrJamaat;
   }
+  if (sessions.length > 1) {
+    zuhrRow.jumuahJamaats = sessions.map((s) => s.jamaat);
+  }
 }
 
 /** Parse YYYY-MM-DD to that calendar day in masjid timezone (noon avoids DST edge cases). */
@@ -240,6 +273,26 @@ function parseYmdInTz(dateStr: string, tz: string): dayjs.Dayjs | null {
   return parsed.isValid() ? parsed : null;
 }
 
+interface UpcomingJummah {
+  /** First session's jamaat / khutbah (HH:mm) */
+  jamaat: string | null;
+  khutbah: string | null;
+  sessions: JummahSession[];
+}
+
+/** Jummah fields of one day, or null when it has none. */
+function readUpcomingJummah(dayData: unknown): UpcomingJummah | null {
+  if (!dayData || typeof dayData !== "object") return null;
+  const sessions = getJumuahSessions(dayData);
+  if (sessions.length > 0) {
+    return { jamaat: sessions[0].jamaat, khutbah: sessions[0].khutbah ?? null, sessions };
+  }
+  // Khutbah-only payload: nothing to count down to, but the strip still shows it.
+  const rec = dayData as Record<string, unknown>;
+  const khutbah = typeof rec.jummahKhutbah === "string" ? rec.jummahKhutbah : null;
+  return khutbah ? { jamaat: null, khutbah, sessions: [] } : null;
+}
+
 /**
  * First row in the API week array on or after today whose date is Friday and has jummah fields.
  */
@@ -247,20 +300,15 @@ function findUpcomingFridayJummahInWeek(
   dataArr: (PrayerTimes & { date?: string })[],
   todayYmd: string,
   tz: string,
-): { jamaat: string | null; khutbah: string | null } | null {
+): UpcomingJummah | null {
   for (const row of dataArr) {
     const dateStr = row.date;
     if (!dateStr || typeof dateStr !== "string") continue;
     if (dateStr < todayYmd) continue;
     const local = parseYmdInTz(dateStr, tz);
     if (!local || local.day() !== 5) continue;
-    const rec = row as unknown as Record<string, unknown>;
-    const jamaat =
-      typeof rec.jummahJamaat === "string" ? rec.jummahJamaat : null;
-    const khutbah =
-      typeof rec.jummahKhutbah === "string" ? rec.jummahKhutbah : null;
-    if (!jamaat && !khutbah) continue;
-    return { jamaat, khutbah };
+    const upcoming = readUpcomingJummah(row);
+    if (upcoming) return upcoming;
   }
   return null;
 }
@@ -273,33 +321,82 @@ function resolveUpcomingFridayJummahRaw(
   todayYmd: string,
   tz: string,
   todayData: unknown,
-): { jamaat: string | null; khutbah: string | null } | null {
+): UpcomingJummah | null {
   if (dataArr?.length) {
     const fromWeek = findUpcomingFridayJummahInWeek(dataArr, todayYmd, tz);
     if (fromWeek) return fromWeek;
   }
   const todayLocal = parseYmdInTz(todayYmd, tz);
   if (!todayLocal || todayLocal.day() !== 5) return null;
-  if (!todayData || typeof todayData !== "object") return null;
-  const rec = todayData as Record<string, unknown>;
-  const jamaat =
-    typeof rec.jummahJamaat === "string" ? rec.jummahJamaat : null;
-  const khutbah =
-    typeof rec.jummahKhutbah === "string" ? rec.jummahKhutbah : null;
-  if (!jamaat && !khutbah) return null;
-  return { jamaat, khutbah };
+  return readUpcomingJummah(todayData);
 }
 
 export const usePrayerTimes = (): PrayerTimesHook => {
   // Get prayerTimes and timeFormat from Redux store
   const dispatch = useDispatch<AppDispatch>();
-  const prayerTimes = useSelector(
+  const storedPrayerTimes = useSelector(
     (state: RootState) => state.content.prayerTimes,
   );
   const timeFormat = useSelector(selectTimeFormat);
   const displaySettings = useSelector(selectDisplaySettings);
   const masjidTimezone = useSelector(selectMasjidTimezone);
+  const masjidCoordinates = useSelector(selectMasjidCoordinates);
+  const prayerCalculationSettings = displaySettings?.prayerCalculation;
+
+  /** Masjid-local calendar day; ticks over at midnight so the fallback below re-evaluates. */
+  const [calendarDay, setCalendarDay] = useState(() =>
+    dayjs().tz(masjidTimezone || defaultMasjidTimezone).format("YYYY-MM-DD"),
+  );
+  useEffect(() => {
+    const tz = masjidTimezone || defaultMasjidTimezone;
+    const tick = () => setCalendarDay(dayjs().tz(tz).format("YYYY-MM-DD"));
+    tick();
+    const interval = setInterval(tick, 60000);
+    return () => clearInterval(interval);
+  }, [masjidTimezone]);
+
+  /**
+   * Offline fallback: once the stored timetable no longer covers today (refresh
+   * keeps failing and the cached days have run out), calculate times locally
+   * from the masjid coordinates. Everything below reads `prayerTimes`, so the
+   * calculated payload flows through the normal formatting path; rows carry
+   * `isCalculated` so the UI can mark them.
+   */
+  const prayerTimes = useMemo<PrayerTimes | null>(() => {
+    if (!masjidCoordinates || !isPrayerTimetableExhausted(storedPrayerTimes, calendarDay)) {
+      return storedPrayerTimes;
+    }
+    try {
+      return buildCalculatedPrayerTimes({
+        coordinates: masjidCoordinates,
+        timezone: masjidTimezone || defaultMasjidTimezone,
+        today: calendarDay,
+        settings: prayerCalculationSettings,
+        previous: storedPrayerTimes,
+      });
+    } catch (error) {
+      logger.error("[PrayerTimes] Local prayer-time calculation failed", { error });
+      return storedPrayerTimes;
+    }
+  }, [storedPrayerTimes, masjidCoordinates, masjidTimezone, calendarDay, prayerCalculationSettings]);
+  const isCalculatedFallback = prayerTimes?.isCalculated === true;
+  /** Stored timetable is missing or stale — keep retrying the API even while the fallback shows times. */
+  const needsFreshTimetable = !storedPrayerTimes || isCalculatedFallback;
+
+  useEffect(() => {
+    if (isCalculatedFallback) {
+      logger.warn("[PrayerTimes] Cached timetable exhausted; showing locally calculated times", {
+        date: calendarDay,
+        method: prayerCalculationSettings?.method ?? "MWL",
+      });
+    }
+  }, [isCalculatedFallback, calendarDay, prayerCalculationSettings?.method]);
   const hijriDateAdjustment = displaySettings?.hijriDateAdjustment ?? 0;
+  const hijriMonthOverrides = displaySettings?.hijriMonthOverrides;
+  const hijriCalendarOptions = useMemo(
+    () => getHijriCalendarOptions({ hijriDateAdjustment, hijriMonthOverrides }),
+    [hijriDateAdjustment, hijriMonthOverrides],
+  );
 
   // Use refs to prevent unnecessary re-processing
   const lastProcessedTimes = useRef<PrayerTimes | null>(null);
@@ -345,6 +442,10 @@ export const usePrayerTimes = (): PrayerTimesHook => {
   const [upcomingJumuahKhutbahRaw, setUpcomingJumuahKhutbahRaw] = useState<
     string | null
   >(null);
+  const [jumuahSessions, setJumuahSessions] = useState<JummahSession[]>([]);
+  const [upcomingJumuahSessions, setUpcomingJumuahSessions] = useState<
+    JummahSession[]
+  >([]);
   const [forbiddenPrayer, setForbiddenPrayer] =
     useState<CurrentForbiddenState | null>(null);
   const [tomorrowsJamaats, setTomorrowsJamaats] =
@@ -404,8 +505,9 @@ export const usePrayerTimes = (): PrayerTimesHook => {
       // Process the prayer times data only if we need to (time has changed)
       if (prayerTimes && !calculationsRef.current.isProcessing) {
         processPrayerTimes();
-      } else if (!prayerTimes && !calculationsRef.current.isProcessing) {
-        // If no prayer times data, try to refresh (throttled)
+      }
+      if (needsFreshTimetable && !calculationsRef.current.isProcessing) {
+        // If no current prayer times data, try to refresh (throttled)
         const now = Date.now();
         if (now - calculationsRef.current.lastRefreshRequest > 30000) {
           // 30 second throttle
@@ -417,7 +519,7 @@ export const usePrayerTimes = (): PrayerTimesHook => {
     }, 60000); // Every minute
 
     // Perform an immediate check for prayer times data (throttled)
-    if (!prayerTimes) {
+    if (needsFreshTimetable) {
       const now = Date.now();
       if (now - calculationsRef.current.lastRefreshRequest > 10000) {
         // 10 second throttle
@@ -435,7 +537,7 @@ export const usePrayerTimes = (): PrayerTimesHook => {
         intervalRef.current = null;
       }
     };
-  }, [prayerTimes, refreshPrayerTimesHandler]);
+  }, [prayerTimes, needsFreshTimetable, refreshPrayerTimesHandler]);
 
   // Periodic refresh every 4 hours to ensure long-running displays get fresh prayer times
   useEffect(() => {
@@ -682,7 +784,8 @@ export const usePrayerTimes = (): PrayerTimesHook => {
       localStorage.removeItem("hijriDateTimestamp");
       logger.info("Cleared cached Hijri date to ensure fresh calculation");
 
-      const hijriDateStr = await fetchHijriDate(undefined, hijriDateAdjustment);
+      const masjidToday = dayjs().tz(masjidTimezone || defaultMasjidTimezone).format("YYYY-MM-DD");
+      const hijriDateStr = await fetchHijriDate(masjidToday, hijriCalendarOptions);
 
       // Cache the result in localStorage
       localStorage.setItem("hijriDate", hijriDateStr);
@@ -697,7 +800,7 @@ export const usePrayerTimes = (): PrayerTimesHook => {
 
       // Calculate approximate date as fallback
       try {
-        const approximateDate = calculateApproximateHijriDate(undefined, hijriDateAdjustment);
+        const approximateDate = getHijriDateString(new Date(), hijriCalendarOptions);
         logger.info("Using approximate Hijri date calculation", {
           approximateDate,
         });
@@ -717,7 +820,7 @@ export const usePrayerTimes = (): PrayerTimesHook => {
         refreshHijriDate();
       }, 60000);
     }
-  }, [hijriDateAdjustment]);
+  }, [hijriCalendarOptions, masjidTimezone]);
 
   // Check for day change and refresh data if needed - memoized
   const checkForDayChange = useCallback(() => {
@@ -980,6 +1083,7 @@ export const usePrayerTimes = (): PrayerTimesHook => {
     const applyStripJummahState = () => {
       setUpcomingJumuahJamaatRaw(stripJummah?.jamaat ?? null);
       setUpcomingJumuahKhutbahRaw(stripJummah?.khutbah ?? null);
+      setUpcomingJumuahSessions(stripJummah?.sessions ?? []);
     };
 
     // Helper function to safely extract time
@@ -1020,10 +1124,13 @@ export const usePrayerTimes = (): PrayerTimesHook => {
     // below; falls through to `jummahJamaat` so the slot collapses to the
     // jamaat time rather than blanking when khutbah is missing.
     if (isFridayToday) {
-      const jummahJamaat = extractTime("jummahJamaat");
-      if (jummahJamaat) {
-        const jummahKhutbah = extractTime("jummahKhutbah");
-        prayerRecord.zuhr = jummahKhutbah || jummahJamaat;
+      const session = resolveJumuahSession(
+        getJumuahSessions(todayData),
+        nowMinutesInTz(nowInMasjidTz.toDate(), tz),
+        displaySettings ?? null,
+      );
+      if (session) {
+        prayerRecord.zuhr = session.khutbah || session.jamaat;
       }
     }
 
@@ -1074,6 +1181,7 @@ export const usePrayerTimes = (): PrayerTimesHook => {
           timeUntil: "",
           jamaatTime: jamaat,
         };
+        if ((todayData as PrayerTimes | null)?.isCalculated) prayer.isCalculated = true;
 
         prayers.push(prayer);
       } catch (error) {
@@ -1110,7 +1218,13 @@ export const usePrayerTimes = (): PrayerTimesHook => {
           displayTime: zuhrRow.displayTime,
           displayJamaat: zuhrRow.displayJamaat,
         };
-        applyJummahSubstitution(zuhrRow, todayData, timeFormat);
+        applyJummahSubstitution(
+          zuhrRow,
+          todayData,
+          timeFormat,
+          nowMinutesInTz(nowInMasjidTz.toDate(), tz),
+          displaySettings ?? null,
+        );
       }
     }
 
@@ -1149,6 +1263,7 @@ export const usePrayerTimes = (): PrayerTimesHook => {
           zuhrRow.displayJamaat = zuhrRevertSnapshot.displayJamaat;
           zuhrRow.isJumuah = false;
           zuhrRow.alternateJamaat = undefined;
+          zuhrRow.jumuahJamaats = undefined;
         }
       }
     }
@@ -1334,34 +1449,27 @@ export const usePrayerTimes = (): PrayerTimesHook => {
         nowDayjs.add(1, "day").format("dddd, MMMM D, YYYY"),
       );
       setIsJumuahToday(nowDayjs.add(1, "day").day() === 5);
-      const tomorrowObj = tomorrowData as unknown as Record<string, unknown>;
-      if (nowDayjs.add(1, "day").day() === 5 && tomorrowObj.jummahJamaat) {
-        setJumuahTime((tomorrowObj.jummahJamaat as string) ?? null);
+      const tomorrowSessions =
+        nowDayjs.add(1, "day").day() === 5 ? getJumuahSessions(tomorrowData) : [];
+      const firstTomorrowSession = tomorrowSessions[0];
+      if (firstTomorrowSession) {
+        setJumuahTime(firstTomorrowSession.jamaat);
         setJumuahDisplayTime(
-          formatTimeToDisplay(
-            (tomorrowObj.jummahJamaat as string) ?? "",
-            timeFormat,
-          ),
+          formatTimeToDisplay(firstTomorrowSession.jamaat, timeFormat),
         );
         setJumuahKhutbahTime(
-          tomorrowObj.jummahKhutbah
-            ? formatTimeToDisplay(
-                tomorrowObj.jummahKhutbah as string,
-                timeFormat,
-              )
-            : null,
-        );
-        setJumuahKhutbahRaw(
-          typeof tomorrowObj.jummahKhutbah === "string"
-            ? tomorrowObj.jummahKhutbah
+          firstTomorrowSession.khutbah
+            ? formatTimeToDisplay(firstTomorrowSession.khutbah, timeFormat)
             : null,
         );
+        setJumuahKhutbahRaw(firstTomorrowSession.khutbah ?? null);
       } else {
         setJumuahTime(null);
         setJumuahDisplayTime(null);
         setJumuahKhutbahTime(null);
         setJumuahKhutbahRaw(null);
       }
+      setJumuahSessions(tomorrowSessions);
       setForbiddenPrayer(
         getCurrentForbiddenWindow(
           tomorrowData as unknown as PrayerTimes,
@@ -1455,22 +1563,30 @@ export const usePrayerTimes = (): PrayerTimesHook => {
 
     // Set Jumuah time if it's Friday — use nowDayjs.day() directly to avoid stale closure
     // (isJumuahToday state may not have updated yet when this effect runs)
+    // With several sessions these track the session the live UI targets now.
     const isFriday = nowDayjs.day() === 5;
-    if (isFriday && todayData && todayData.jummahJamaat) {
-      setJumuahTime(todayData.jummahJamaat);
-      setJumuahDisplayTime(formatTimeToDisplay(todayData.jummahJamaat, timeFormat));
+    const todaySessions = isFriday ? getJumuahSessions(todayData) : [];
+    const activeSession = resolveJumuahSession(
+      todaySessions,
+      nowMinutesInTz(nowDayjs.toDate(), tz),
+      displaySettings ?? null,
+    );
+    if (activeSession) {
+      setJumuahTime(activeSession.jamaat);
+      setJumuahDisplayTime(formatTimeToDisplay(activeSession.jamaat, timeFormat));
       setJumuahKhutbahTime(
-        todayData.jummahKhutbah
-          ? formatTimeToDisplay(todayData.jummahKhutbah, timeFormat)
+        activeSession.khutbah
+          ? formatTimeToDisplay(activeSession.khutbah, timeFormat)
           : null,
       );
-      setJumuahKhutbahRaw(todayData.jummahKhutbah ?? null);
+      setJumuahKhutbahRaw(activeSession.khutbah ?? null);
     } else {
       setJumuahTime(null);
       setJumuahDisplayTime(null);
       setJumuahKhutbahTime(null);
       setJumuahKhutbahRaw(null);
     }
+    setJumuahSessions(todaySessions);
 
     applyStripJummahState();
   }, [
@@ -1545,12 +1661,12 @@ export const usePrayerTimes = (): PrayerTimesHook => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [prayerTimes]); // Only depend on prayerTimes
 
-  // Refresh Hijri date when hijriDateAdjustment changes (e.g. after display_settings content:invalidate)
+  // Refresh Hijri date when the adjustment or moon-sighting overrides change (e.g. after display_settings content:invalidate)
   useEffect(() => {
     if (initializedRef.current) {
       refreshHijriDate();
     }
-  }, [hijriDateAdjustment, refreshHijriDate]);
+  }, [hijriCalendarOptions, refreshHijriDate]);
 
   // Re-process prayer times when timeFormat changes
   useEffect(() => {
@@ -1624,7 +1740,10 @@ export const usePrayerTimes = (): PrayerTimesHook => {
     jumuahKhutbahRaw,
     upcomingJumuahJamaatRaw,
     upcomingJumuahKhutbahRaw,
+    jumuahSessions,
+    upcomingJumuahSessions,
     forbiddenPrayer: effectiveForbiddenPrayer,
     tomorrowsJamaats,
+    isCalculatedFallback,
   };
 };
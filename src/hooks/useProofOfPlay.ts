@@ -0,0 +1,57 @@
+/**
+ * useProofOfPlay
+ *
+ * Feeds proofOfPlayService from DisplayScreen: returns the carousel's
+ * `onSlideShown` callback, and tells the service when the carousel is off
+ * screen — replaced by a prayer phase, covered by an emergency alert, or the
+ * display switched off by the power schedule.
+ */
+
+import { useCallback, useEffect } from 'react';
+import { useAppSelector } from '@/store/hooks';
+import { selectHasActiveAlert } from '@/store/slices/emergencySlice';
+import { selectDisplayPower } from '@/store/slices/uiSlice';
+import proofOfPlayService from '@/services/proofOfPlayService';
+import { slideDurationSeconds } from '@/utils/carouselSync';
+import type { CarouselItem } from '@/components/display/ContentCarousel';
+import type { ContentViewInterruption } from '@/api/models';
+
+/**
+ * Mount-once hook (DisplayScreen). `carouselInSlot` is false while a prayer
+ * phase has the content slot; `interval` is the carousel's default slide time.
+ */
+export function useProofOfPlay(carouselInSlot: boolean, interval: number): (item: CarouselItem) => void {
+  const hasAlert = useAppSelector(selectHasActiveAlert);
+  const displayOff = useAppSelector(selectDisplayPower).state === 'off';
+
+  const interruption: ContentViewInterruption | null = !carouselInSlot
+    ? 'prayer'
+    : hasAlert
+      ? 'alert'
+      : displayOff
+        ? 'display_off'
+        : null;
+
+  useEffect(() => {
+    proofOfPlayService.start();
+    return () => proofOfPlayService.stop();
+  }, []);
+
+  useEffect(() => {
+    proofOfPlayService.setInterruption(interruption);
+  }, [interruption]);
+
+  return useCallback(
+    (item: CarouselItem) => {
+      const isVideo = item.type?.toLowerCase() === 'video' && !(item.duration != null && item.duration > 0);
+      proofOfPlayService.slideShown({
+        contentId: item.id,
+        contentType: (item.type ?? '').toLowerCase(),
+        expectedMs: isVideo ? null : slideDurationSeconds(item, interval) * 1000,
+      });
+    },
+    [interval],
+  );
+}
+
+export default useProofOfPlay;
@@ -0,0 +1,50 @@
+/**
+ * Tests for the Ramadan / Eid theme hand-over on `<html data-theme>`.
+ */
+
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import useRamadanMode from './useRamadanMode';
+import useEidMode from './useEidMode';
+import { createTestStore } from '@/test-utils';
+import type { DisplaySettings } from '@/api/models';
+
+vi.mock('../contexts/PrayerTimesContext', () => ({
+  usePrayerTimesContext: () => ({ todaysPrayerTimes: [] }),
+}));
+
+/** Eid and Ramadan hooks in DisplayScreen's order. */
+function useSeasonalThemes() {
+  const eid = useEidMode();
+  const ramadan = useRamadanMode({ eidActive: eid.isEid });
+  return { eid, ramadan };
+}
+
+function setDisplaySettings(store: ReturnType<typeof createTestStore>, overrides: Partial<DisplaySettings>) {
+  const displaySettings = { ...store.getState().content.displaySettings, ...overrides } as DisplaySettings;
+  store.dispatch({ type: 'content/loadCachedContent/fulfilled', payload: { displaySettings } });
+}
+
+describe('useRamadanMode theme', () => {
+  afterEach(() => {
+    delete document.documentElement.dataset.theme;
+  });
+
+  it('gives way to the Eid theme and returns when Eid ends', () => {
+    const store = createTestStore();
+    setDisplaySettings(store, { isRamadanActive: true, eidMode: 'on' } as Partial<DisplaySettings>);
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(Provider, { store } as React.ComponentProps<typeof Provider>, children);
+
+    const { result } = renderHook(() => useSeasonalThemes(), { wrapper });
+    expect(result.current.eid.isEid).toBe(true);
+    expect(document.documentElement.dataset.theme).toBe('eid');
+
+    act(() => setDisplaySettings(store, { eidMode: 'off' }));
+    expect(result.current.eid.isEid).toBe(false);
+    expect(result.current.ramadan.isRamadan).toBe(true);
+    expect(document.documentElement.dataset.theme).toBe('ramadan');
+  });
+});
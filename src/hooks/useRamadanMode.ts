@@ -6,11 +6,13 @@
  * fasting state, and live countdowns.
  *
  * Also manages the `data-theme="ramadan"` attribute on `<html>` so
- * the entire CSS theme switches automatically.
+ * the entire CSS theme switches automatically. An active Eid theme
+ * (useEidMode) is left in place; pass `eidActive` so the Ramadan theme
+ * is applied again when Eid ends.
  *
- * Detection is purely local — no backend dependency. Uses the existing
- * `calculateApproximateHijriDate()` utility which returns strings like
- * "15 Ramadan 1447 AH".
+ * Detection is purely local — no backend dependency. Uses the Hijri
+ * calendar module (Umm al-Qura table, arithmetic fallback, and any
+ * moon-sighting month overrides from display settings).
  *
  * A dev override flag (`__RAMADAN_FORCE`) on `window` allows toggling
  * Ramadan mode for testing outside the actual month (see useDevKeyboard).
@@ -20,7 +22,8 @@ import { useMemo, useEffect, useCallback, useState } from 'react';
 import { useSelector } from 'react-redux';
 import { usePrayerTimesContext } from '../contexts/PrayerTimesContext';
 import { useCurrentTime } from './useCurrentTime';
-import { calculateApproximateHijriDate, getTimeUntilNextPrayer, formatTimeToDisplay } from '../utils/dateUtils';
+import { getTimeUntilNextPrayer, formatTimeToDisplay } from '../utils/dateUtils';
+import { getHijriCalendarOptions, toHijriDate } from '../utils/hijriCalendar';
 import { selectTimeFormat, selectDisplaySettings, selectPrayerTimes } from '../store/slices/contentSlice';
 import type { PrayerTimes } from '../api/models';
 import logger from '../utils/logger';
@@ -75,14 +78,11 @@ declare global {
 }
 
 /* ------------------------------------------------------------------ */
-/*  Hijri date parser                                                  */
+/*  Helpers                                                            */
 /* ------------------------------------------------------------------ */
 
-interface ParsedHijri {
-  day: number;
-  month: string;
-  year: number;
-}
+/** Hijri month number of Ramadan. */
+const RAMADAN_MONTH = 9;
 
 /**
  * Extract today's raw prayer times entry (with imsak) from Redux.
@@ -94,29 +94,16 @@ function getTodaysPrayerTimesRaw(pt: PrayerTimes | null): PrayerTimes | null {
   return pt as PrayerTimes;
 }
 
-/**
- * Parse the string returned by `calculateApproximateHijriDate()`.
- * Expected format: "15 Ramadan 1447 AH"
- */
-function parseHijriString(hijri: string): ParsedHijri | null {
-  if (!hijri) return null;
-
-  const parts = hijri.replace(/\s*AH\s*$/i, '').trim().split(/\s+/);
-  if (parts.length < 3) return null;
-
-  const day = parseInt(parts[0], 10);
-  const month = parts[1];
-  const year = parseInt(parts[2], 10);
-
-  if (isNaN(day) || isNaN(year) || !month) return null;
-  return { day, month, year };
-}
-
 /* ------------------------------------------------------------------ */
 /*  Hook                                                               */
 /* ------------------------------------------------------------------ */
 
-export const useRamadanMode = (): RamadanModeData => {
+export interface RamadanModeOptions {
+  /** Eid mode is on (useEidMode): its theme wins; Ramadan's returns when this turns false */
+  eidActive?: boolean;
+}
+
+export const useRamadanMode = ({ eidActive = false }: RamadanModeOptions = {}): RamadanModeData => {
   const currentTime = useCurrentTime();
   const { todaysPrayerTimes } = usePrayerTimesContext();
   const timeFormat = useSelector(selectTimeFormat);
@@ -137,15 +124,21 @@ export const useRamadanMode = (): RamadanModeData => {
   }, []);
 
   /* ---- Hijri date (recalculated once per calendar day) ---- */
-  const hijriParsed = useMemo(() => {
-    const adjustment = displaySettings?.hijriDateAdjustment ?? 0;
-    const hijriStr = calculateApproximateHijriDate(undefined, adjustment);
-    return parseHijriString(hijriStr);
+  const hijri = useMemo(
+    () =>
+      toHijriDate(
+        currentTime,
+        getHijriCalendarOptions({
+          hijriDateAdjustment: displaySettings?.hijriDateAdjustment ?? 0,
+          hijriMonthOverrides: displaySettings?.hijriMonthOverrides,
+        }),
+      ),
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentTime.getDate(), displaySettings?.hijriDateAdjustment]);
+    [currentTime.getDate(), displaySettings?.hijriDateAdjustment, displaySettings?.hijriMonthOverrides],
+  );
 
   /* ---- Ramadan detection: API displaySettings.isRamadanActive takes precedence when present; else Hijri ---- */
-  const isRamadanFromHijri = hijriParsed?.month === 'Ramadan';
+  const isRamadanFromHijri = hijri.month === RAMADAN_MONTH;
   const isRamadan = useMemo(() => {
     if (forceFlag === true) return true;
     if (forceFlag === false) return false;
@@ -156,9 +149,9 @@ export const useRamadanMode = (): RamadanModeData => {
   const ramadanDay = useMemo(() => {
     if (!isRamadan) return null;
     // When forced and not actually Ramadan, show day 15 as placeholder
-    if (hijriParsed?.month !== 'Ramadan') return 15;
-    return hijriParsed?.day ?? null;
-  }, [isRamadan, hijriParsed]);
+    if (hijri.month !== RAMADAN_MONTH) return 15;
+    return hijri.day;
+  }, [isRamadan, hijri]);
 
   /* ---- Extract Fajr (Suhoor end) and Maghrib (Iftar) times ---- */
   const suhoorEndTime = useMemo(() => {
@@ -237,24 +230,28 @@ export const useRamadanMode = (): RamadanModeData => {
 
   /* ---- Theme attribute side effect ---- */
   const applyTheme = useCallback((active: boolean) => {
+    const root = document.documentElement;
+    if (root.dataset.theme === 'eid') return;
     if (active) {
-      document.documentElement.dataset.theme = 'ramadan';
+      root.dataset.theme = 'ramadan';
     } else {
-      delete document.documentElement.dataset.theme;
+      delete root.dataset.theme;
     }
   }, []);
 
   useEffect(() => {
     applyTheme(isRamadan);
-    if (isRamadan) {
+    if (isRamadan && !eidActive) {
       logger.info('[RamadanMode] Ramadan theme activated', { day: ramadanDay });
     }
 
     return () => {
-      // Clean up on unmount — restore default theme
-      delete document.documentElement.dataset.theme;
+      // Clean up on unmount — restore default theme (unless Eid owns it)
+      if (document.documentElement.dataset.theme === 'ramadan') {
+        delete document.documentElement.dataset.theme;
+      }
     };
-  }, [isRamadan, ramadanDay, applyTheme]);
+  }, [isRamadan, ramadanDay, applyTheme, eidActive]);
 
   return {
     isRamadan,
@@ -0,0 +1,113 @@
+/**
+ * useSyncedCarouselSlide
+ *
+ * Sync mode for ContentCarousel (`displaySettings.carouselSync`): which slide
+ * to show, and when to fade, comes from the schedule in utils/carouselSync
+ * read off the server-corrected clock (realtimeService.serverNow), so every
+ * screen of the masjid with the same playlist shows the same slide.
+ *
+ * When the playlist changes mid-cycle the slide on screen runs to the end of
+ * its slot and the carousel then joins the new schedule; a slide that was
+ * removed is replaced straight away. Screens still on the old playlist
+ * converge as soon as they receive the new one.
+ */
+
+import { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import realtimeService from '@/services/realtimeService';
+import {
+  playlistHash,
+  slideDurationSeconds,
+  syncedSlidePosition,
+  type SyncSlide,
+  type SyncedSlidePosition,
+} from '@/utils/carouselSync';
+
+/** Fade-out before the slot ends (ms). Matches ContentCarousel's transition. */
+const CROSSFADE_MS = 700;
+
+export interface SyncedCarouselSlide {
+  index: number;
+  phase: 'in' | 'out';
+  /** Cycles since the sync epoch — lets per-cycle picks (e.g. Asma al-Husna) match across screens */
+  cycle: number;
+}
+
+interface ShownSlide extends SyncedCarouselSlide {
+  id: string;
+  /** Server time (ms) the slide's slot ends */
+  endsAt: number;
+}
+
+/** null when sync is off or the playlist is empty — the carousel then uses its own timers. */
+export function useSyncedCarouselSlide(
+  items: readonly SyncSlide[],
+  interval: number,
+  enabled: boolean,
+): SyncedCarouselSlide | null {
+  const [shown, setShown] = useState<ShownSlide | null>(null);
+  const itemsRef = useRef(items);
+  const shownRef = useRef(shown);
+  itemsRef.current = items;
+  shownRef.current = shown;
+
+  const hash = useMemo(() => (enabled ? playlistHash(items, interval) : ''), [enabled, items, interval]);
+
+  // Layout effect: a new playlist is applied before paint, so the old index never flashes on the new list
+  useLayoutEffect(() => {
+    if (!enabled) {
+      setShown(null);
+      return;
+    }
+    const durations = itemsRef.current.map((item) => slideDurationSeconds(item, interval) * 1000);
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const at = (serverMs: number, fn: () => void) => {
+      timers.push(setTimeout(fn, Math.max(0, serverMs - realtimeService.serverNow())));
+    };
+    const fadeOutAt = (endsAt: number) => {
+      at(endsAt - CROSSFADE_MS, () => setShown((prev) => prev && { ...prev, phase: 'out' }));
+    };
+    const joinAt = (endsAt: number) => {
+      at(endsAt, () => {
+        const next = syncedSlidePosition(durations, Math.max(realtimeService.serverNow(), endsAt));
+        if (next) show(next);
+      });
+    };
+    const show = (pos: SyncedSlidePosition) => {
+      setShown({
+        id: itemsRef.current[pos.index]?.id ?? '',
+        index: pos.index,
+        phase: 'in',
+        cycle: pos.cycle,
+        endsAt: pos.endsAt,
+      });
+      if (durations.length <= 1) return;
+      fadeOutAt(pos.endsAt);
+      joinAt(pos.endsAt);
+    };
+
+    const now = realtimeService.serverNow();
+    const pos = syncedSlidePosition(durations, now);
+    if (!pos) {
+      setShown(null);
+      return;
+    }
+    const current = shownRef.current;
+    const currentIdx = current ? itemsRef.current.findIndex((item) => item.id === current.id) : -1;
+    if (current && current.endsAt > now && currentIdx >= 0 && itemsRef.current[pos.index]?.id !== current.id) {
+      // Playlist changed mid-slide: finish the slide on screen, then join the new schedule
+      setShown({ ...current, index: currentIdx });
+      fadeOutAt(current.endsAt);
+      joinAt(current.endsAt);
+    } else {
+      show(pos);
+    }
+    return () => timers.forEach(clearTimeout);
+  }, [enabled, hash, interval]);
+
+  if (!enabled || !shown) return null;
+  const index = items[shown.index]?.id === shown.id ? shown.index : items.findIndex((item) => item.id === shown.id);
+  if (index < 0) return null;
+  return { index, phase: shown.phase, cycle: shown.cycle };
+}
+
+export default useSyncedCarouselSlide;
@@ -0,0 +1,17 @@
+/**
+ * useWatchdogPhase
+ *
+ * Tells the liveness watchdog (watchdogService) which screen the app is on,
+ * so an incident on the deploy server records where the display got stuck.
+ */
+
+import { useEffect } from 'react';
+import watchdogService from '@/services/watchdogService';
+
+export function useWatchdogPhase(phase: string): void {
+  useEffect(() => {
+    watchdogService.setPhase(phase);
+  }, [phase]);
+}
+
+export default useWatchdogPhase;
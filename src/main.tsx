@@ -7,6 +7,13 @@ import App from './App';
 import './index.css';
 import './pwa';
 import logger, { setLastError } from './utils/logger';
+import logStoreService from './services/logStoreService';
+import watchdogService from './services/watchdogService';
+
+// Persist the log from the very start, so a blank screen overnight leaves a trail (FETCH_LOGS)
+logStoreService.start();
+// Liveness pings to the deploy server, which reloads or restarts a crashed / frozen display
+watchdogService.start();
 
 /**
  * PersistGate error recovery.
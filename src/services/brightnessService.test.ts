@@ -0,0 +1,69 @@
+/**
+ * Brightness service tests — device control on the Pi and the CSS fallback.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../utils/logger', () => ({
+  default: { info: vi.fn(), debug: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+vi.mock('../config/platform', () => ({ isPiPlatform: true }));
+
+const fetchMock = vi.fn();
+
+function reply(ok: boolean, body: unknown) {
+  return Promise.resolve({ ok, status: ok ? 200 : 503, json: () => Promise.resolve(body) });
+}
+
+/** Fresh singleton per test. */
+async function loadService() {
+  vi.resetModules();
+  return (await import('./brightnessService')).default;
+}
+
+describe('brightnessService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('falls back to CSS after a device failure and retries the device after a backoff', async () => {
+    fetchMock.mockImplementationOnce(() => Promise.reject(new TypeError('Failed to fetch')));
+    fetchMock.mockImplementation(() => reply(true, { success: true, tool: 'backlight' }));
+    const service = await loadService();
+
+    expect(await service.setLevel(40)).toEqual({ level: 40, method: 'css' });
+    // Within the backoff the device is not asked again
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(await service.setLevel(45)).toEqual({ level: 45, method: 'css' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(await service.setLevel(50)).toEqual({ level: 50, method: 'backlight' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('doubles the backoff while the device keeps failing', async () => {
+    fetchMock.mockImplementation(() => reply(false, { success: false, error: 'No brightness control available' }));
+    const service = await loadService();
+
+    await service.setLevel(40);
+    await vi.advanceTimersByTimeAsync(2 * 60_000);
+    await service.setLevel(40);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(2 * 60_000);
+    await service.setLevel(40);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2 * 60_000);
+    await service.setLevel(40);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
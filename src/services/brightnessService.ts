@@ -0,0 +1,112 @@
+/**
+ * Brightness Service
+ *
+ * Applies the automatic brightness level (see useBrightnessControl) and
+ * remembers it for the heartbeat (`displayBrightness` in collectMetrics).
+ *
+ * Apply order:
+ * 1. Pi: POST /internal/display-brightness on the deploy server, which writes
+ *    the sysfs backlight (DSI panels) or sends DDC/CI via `ddcutil` (HDMI
+ *    monitors that support it).
+ * 2. Fallback (non-Pi, or neither works): CSS — the app draws a translucent
+ *    black layer over the display. After a device failure the device is tried
+ *    again with backoff (the server may just be restarting for an update).
+ */
+
+import { isPiPlatform } from '../config/platform';
+import logger from '../utils/logger';
+
+/** How the level is applied. `css` = dimming layer, panel backlight unchanged. */
+export type BrightnessMethod = 'backlight' | 'ddcutil' | 'css';
+
+export interface BrightnessStatus {
+  /** 0–100, or null while automatic brightness is off */
+  level: number | null;
+  method: BrightnessMethod | null;
+}
+
+const DEVICE_BRIGHTNESS_TIMEOUT_MS = 15_000;
+/** First retry after a device failure; doubles per failure up to the max */
+const DEVICE_RETRY_BASE_MS = 2 * 60_000;
+const DEVICE_RETRY_MAX_MS = 60 * 60_000;
+
+class BrightnessService {
+  private status: BrightnessStatus = { level: null, method: null };
+
+  /** Consecutive device control failures; CSS is used until `deviceRetryAt`. */
+  private deviceFailures = 0;
+  private deviceRetryAt = 0;
+
+  private queue: Promise<unknown> = Promise.resolve();
+
+  public getStatus(): BrightnessStatus {
+    return this.status;
+  }
+
+  /**
+   * Apply a level (0–100), or `null` to hand control back (full brightness,
+   * no dimming layer). Never throws — falls back to CSS dimming.
+   */
+  public setLevel(level: number | null): Promise<BrightnessStatus> {
+    const run = this.queue.then(() => this.apply(level));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async apply(level: number | null): Promise<BrightnessStatus> {
+    const previous = this.status;
+    if (level === null) {
+      /* Restore full backlight if we had dimmed it on the device. */
+      if (previous.method && previous.method !== 'css') {
+        await this.setDeviceBrightness(100).catch(() => undefined);
+      }
+      this.status = { level: null, method: null };
+      return this.status;
+    }
+
+    let method: BrightnessMethod = 'css';
+    if (isPiPlatform && Date.now() >= this.deviceRetryAt) {
+      try {
+        method = await this.setDeviceBrightness(level);
+        if (this.deviceFailures > 0) logger.info('[Brightness] Device brightness control available again', { method });
+        this.deviceFailures = 0;
+        this.deviceRetryAt = 0;
+      } catch (err) {
+        this.deviceFailures += 1;
+        const retryInMs = Math.min(DEVICE_RETRY_BASE_MS * 2 ** (this.deviceFailures - 1), DEVICE_RETRY_MAX_MS);
+        this.deviceRetryAt = Date.now() + retryInMs;
+        logger.warn('[Brightness] Device brightness control failed, using CSS dimming', {
+          error: err instanceof Error ? err.message : String(err),
+          retryInMs,
+        });
+      }
+    }
+
+    this.status = { level, method };
+    if (previous.level !== level || previous.method !== method) {
+      logger.debug('[Brightness] Level applied', { level, method });
+    }
+    return this.status;
+  }
+
+  /** Ask the deploy server to set the panel brightness. */
+  private async setDeviceBrightness(level: number): Promise<BrightnessMethod> {
+    const res = await fetch('/internal/display-brightness', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ level }),
+      signal: AbortSignal.timeout(DEVICE_BRIGHTNESS_TIMEOUT_MS),
+    });
+    let body: { success?: boolean; tool?: string; error?: string } = {};
+    try {
+      body = await res.json();
+    } catch {
+      // non-JSON body
+    }
+    if (!res.ok || !body.success) throw new Error(body.error ?? `HTTP ${res.status}`);
+    return body.tool === 'ddcutil' ? 'ddcutil' : 'backlight';
+  }
+}
+
+const brightnessService = new BrightnessService();
+export default brightnessService;
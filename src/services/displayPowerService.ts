@@ -0,0 +1,97 @@
+/**
+ * Display Power Service
+ *
+ * Switches the screen on / off for the power schedule (see
+ * useDisplayPowerSchedule).
+ *
+ * Switch order:
+ * 1. Pi: POST /internal/display-power on the deploy server, which drives
+ *    `vcgencmd display_power` or `cec-client` (HDMI-CEC standby).
+ * 2. Fallback (non-Pi, or no power tool on the device): CSS only — the app
+ *    shows a full-screen black layer while the state is "off".
+ */
+
+import { isPiPlatform } from '../config/platform';
+import logger from '../utils/logger';
+import type { HeartbeatPayload } from '../types/realtime';
+
+export type DisplayPowerState = 'on' | 'off';
+
+/** How the last switch was made. `css` = blackout layer only, panel still lit. */
+export type DisplayPowerMethod = 'vcgencmd' | 'cec-client' | 'css';
+
+export interface DisplayPowerStatus {
+  state: DisplayPowerState;
+  method: DisplayPowerMethod | null;
+  /** Why the screen is in this state, e.g. "schedule 23:30–FAJR-30" */
+  reason: string | null;
+  changedAt: string | null;
+}
+
+const DEVICE_POWER_TIMEOUT_MS = 15_000;
+
+class DisplayPowerService {
+  private status: DisplayPowerStatus = { state: 'on', method: null, reason: null, changedAt: null };
+
+  /** Serialises switches so a quick off → on never lands out of order. */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  public getStatus(): DisplayPowerStatus {
+    return this.status;
+  }
+
+  /** Heartbeat fields (`powerState`, `powerMethod`) for the realtime heartbeat. */
+  public heartbeatFields(): Partial<HeartbeatPayload> {
+    return {
+      powerState: this.status.state === 'on' ? 'ON' : 'OFF',
+      ...(this.status.method ? { powerMethod: this.status.method } : {}),
+    };
+  }
+
+  /** Switch the screen. Never throws — falls back to the CSS blackout. */
+  public setPower(state: DisplayPowerState, reason: string): Promise<DisplayPowerStatus> {
+    const run = this.queue.then(() => this.apply(state, reason));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async apply(state: DisplayPowerState, reason: string): Promise<DisplayPowerStatus> {
+    let method: DisplayPowerMethod = 'css';
+    if (isPiPlatform) {
+      try {
+        method = await this.setDevicePower(state);
+      } catch (err) {
+        logger.warn('[DisplayPower] Device power control failed, using CSS blackout', {
+          state,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    const changed = state !== this.status.state;
+    this.status = { state, method, reason, changedAt: changed ? new Date().toISOString() : this.status.changedAt };
+    if (changed) logger.info(`[DisplayPower] Screen ${state}`, { method, reason });
+    return this.status;
+  }
+
+  /** Ask the deploy server to switch the physical display. */
+  private async setDevicePower(state: DisplayPowerState): Promise<DisplayPowerMethod> {
+    const res = await fetch('/internal/display-power', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ state }),
+      signal: AbortSignal.timeout(DEVICE_POWER_TIMEOUT_MS),
+    });
+    let body: { success?: boolean; tool?: string; error?: string } = {};
+    try {
+      body = await res.json();
+    } catch {
+      // non-JSON body
+    }
+    if (!res.ok || !body.success) throw new Error(body.error ?? `HTTP ${res.status}`);
+    return body.tool === 'cec-client' ? 'cec-client' : 'vcgencmd';
+  }
+}
+
+const displayPowerService = new DisplayPowerService();
+export default displayPowerService;
@@ -16,26 +16,34 @@ describe('emergencyAlertService', () => {
     vi.clearAllMocks();
   });
 
-  it('getCurrentAlert returns null initially', () => {
-    expect(emergencyAlertService.getCurrentAlert()).toBeNull();
+  it('getAlerts returns no alerts initially', () => {
+    expect(emergencyAlertService.getAlerts()).toEqual([]);
   });
 
-  it('setAlert and getCurrentAlert round-trip', () => {
+  it('setAlert and getAlerts round-trip', () => {
     emergencyAlertService.setAlert(mockEmergencyAlert);
-    expect(emergencyAlertService.getCurrentAlert()).toEqual(mockEmergencyAlert);
+    expect(emergencyAlertService.getAlerts()).toEqual([mockEmergencyAlert]);
   });
 
-  it('clearAlert clears current alert', () => {
+  it('keeps concurrent alerts and clears only the matching id', () => {
     emergencyAlertService.setAlert(mockEmergencyAlert);
+    emergencyAlertService.setAlert({ ...mockEmergencyAlert, id: 'second' });
+    emergencyAlertService.clearAlert('second');
+    expect(emergencyAlertService.getAlerts().map((a) => a.id)).toEqual([mockEmergencyAlert.id]);
+  });
+
+  it('clearAlert without an id clears every alert', () => {
+    emergencyAlertService.setAlert(mockEmergencyAlert);
+    emergencyAlertService.setAlert({ ...mockEmergencyAlert, id: 'second' });
     emergencyAlertService.clearAlert();
-    expect(emergencyAlertService.getCurrentAlert()).toBeNull();
+    expect(emergencyAlertService.getAlerts()).toEqual([]);
   });
 
   it('addListener is notified when alert is set', () => {
     const listener = vi.fn();
     const unsub = emergencyAlertService.addListener(listener);
     emergencyAlertService.setAlert(mockEmergencyAlert);
-    expect(listener).toHaveBeenCalledWith(mockEmergencyAlert);
+    expect(listener).toHaveBeenCalledWith({ type: 'set', alert: mockEmergencyAlert });
     unsub();
   });
 
@@ -43,14 +51,34 @@ describe('emergencyAlertService', () => {
     emergencyAlertService.setAlert(mockEmergencyAlert);
     const listener = vi.fn();
     const unsub = emergencyAlertService.addListener(listener);
-    emergencyAlertService.clearAlert();
-    expect(listener).toHaveBeenCalledWith(null);
+    emergencyAlertService.clearAlert(mockEmergencyAlert.id);
+    expect(listener).toHaveBeenCalledWith({ type: 'clear', alertId: mockEmergencyAlert.id, reason: 'cleared' });
     unsub();
   });
 
-  it('cleanup clears current alert', () => {
+  it('expires each alert at its own expiresAt', () => {
+    vi.useFakeTimers();
+    try {
+      const listener = vi.fn();
+      const unsub = emergencyAlertService.addListener(listener);
+      const soon = new Date(Date.now() + 1_000).toISOString();
+      const later = new Date(Date.now() + 60_000).toISOString();
+      emergencyAlertService.setAlert({ ...mockEmergencyAlert, id: 'soon', expiresAt: soon });
+      emergencyAlertService.setAlert({ ...mockEmergencyAlert, id: 'later', expiresAt: later });
+
+      vi.advanceTimersByTime(1_000);
+
+      expect(listener).toHaveBeenLastCalledWith({ type: 'clear', alertId: 'soon', reason: 'expired' });
+      expect(emergencyAlertService.getAlerts().map((a) => a.id)).toEqual(['later']);
+      unsub();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('cleanup clears all alerts', () => {
     emergencyAlertService.setAlert(mockEmergencyAlert);
     emergencyAlertService.cleanup();
-    expect(emergencyAlertService.getCurrentAlert()).toBeNull();
+    expect(emergencyAlertService.getAlerts()).toEqual([]);
   });
 });
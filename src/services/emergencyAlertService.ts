@@ -3,27 +3,40 @@
  *
  * Manages emergency alert state, persistence, and expiration.
  * Alert events are received via WebSocket through the realtimeMiddleware.
+ *
+ * Several alerts can be active at once (the store queues them by priority);
+ * each keeps its own expiry timer and is cleared by id.
  */
 
 import { EmergencyAlert } from '../api/models';
 import logger from '../utils/logger';
 
-const STORAGE_KEY = 'emergency_alert';
+const STORAGE_KEY = 'emergency_alerts';
+/** Single-alert key written by earlier versions; migrated on load */
+const LEGACY_STORAGE_KEY = 'emergency_alert';
+
+export type EmergencyAlertEvent =
+  | { type: 'set'; alert: EmergencyAlert }
+  /** alertId null = every alert */
+  | { type: 'clear'; alertId: string | null; reason: EmergencyClearReason };
+
+/** Why an alert was cleared; `cancelled` = an admin explicitly cancelled it */
+export type EmergencyClearReason = 'cleared' | 'expired' | 'cancelled';
 
 class EmergencyAlertService {
-  private listeners = new Set<(alert: EmergencyAlert | null) => void>();
-  private currentAlert: EmergencyAlert | null = null;
-  private expirationTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(event: EmergencyAlertEvent) => void>();
+  private alerts = new Map<string, EmergencyAlert>();
+  private expirationTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
   constructor() {
-    this.loadSavedAlert();
+    this.loadSavedAlerts();
   }
 
   /** Set an emergency alert (called by middleware when WebSocket event received) */
   public setAlert(alertData: EmergencyAlert): void {
-    // If action is "clear" or "hide", clear instead
+    // If action is "clear" or "hide", clear that alert instead
     if (alertData.action === 'clear' || alertData.action === 'hide') {
-      this.clearAlert();
+      this.clearAlert(alertData.id || null);
       return;
     }
 
@@ -33,6 +46,7 @@ class EmergencyAlertService {
     }
 
     if (!alertData.id) alertData.id = `alert-${Date.now()}`;
+    if (!alertData.createdAt) alertData.createdAt = new Date().toISOString();
     if (!alertData.expiresAt) {
       alertData.expiresAt = new Date(Date.now() + 30 * 60_000).toISOString();
     }
@@ -43,89 +57,111 @@ class EmergencyAlertService {
       return;
     }
 
-    this.currentAlert = alertData;
-    this.saveAlert(alertData);
+    this.alerts.set(alertData.id, alertData);
+    this.saveAlerts();
     this.startExpirationTimer(alertData);
-    this.notifyListeners(alertData);
+    this.notifyListeners({ type: 'set', alert: alertData });
 
-    logger.info('[Emergency] Alert set', { id: alertData.id, title: alertData.title });
+    logger.info('[Emergency] Alert set', { id: alertData.id, title: alertData.title, active: this.alerts.size });
   }
 
-  /** Clear the current alert */
-  public clearAlert(): void {
-    if (this.expirationTimer) {
-      clearTimeout(this.expirationTimer);
-      this.expirationTimer = null;
+  /**
+   * Clear one alert by id, or every alert when no id is given. An unknown id
+   * is still passed on: the store may hold an alert this service never saw.
+   */
+  public clearAlert(alertId?: string | null, reason: EmergencyClearReason = 'cleared'): void {
+    if (alertId) {
+      this.stopExpirationTimer(alertId);
+      this.alerts.delete(alertId);
+    } else {
+      this.expirationTimers.forEach((timer) => clearTimeout(timer));
+      this.expirationTimers.clear();
+      this.alerts.clear();
     }
-    this.currentAlert = null;
-    this.removeSavedAlert();
-    this.notifyListeners(null);
-    logger.info('[Emergency] Alert cleared');
+    this.saveAlerts();
+    this.notifyListeners({ type: 'clear', alertId: alertId ?? null, reason });
+    logger.info('[Emergency] Alert cleared', { id: alertId ?? 'all', reason });
   }
 
-  /** Get the currently active alert */
-  public getCurrentAlert(): EmergencyAlert | null {
-    return this.currentAlert;
+  /** Get the active alerts (unordered; the store applies priority) */
+  public getAlerts(): EmergencyAlert[] {
+    return Array.from(this.alerts.values());
   }
 
   /** Register a listener for alert changes */
-  public addListener(cb: (alert: EmergencyAlert | null) => void): () => void {
+  public addListener(cb: (event: EmergencyAlertEvent) => void): () => void {
     this.listeners.add(cb);
     return () => this.listeners.delete(cb);
   }
 
   /** Clean up the service */
   public cleanup(): void {
-    if (this.expirationTimer) clearTimeout(this.expirationTimer);
+    this.expirationTimers.forEach((timer) => clearTimeout(timer));
+    this.expirationTimers.clear();
     this.listeners.clear();
-    this.currentAlert = null;
+    this.alerts.clear();
   }
 
-  private notifyListeners(alert: EmergencyAlert | null): void {
+  private notifyListeners(event: EmergencyAlertEvent): void {
     this.listeners.forEach((cb) => {
-      try { cb(alert); } catch (err) { logger.error('[Emergency] Listener error', { error: String(err) }); }
+      try { cb(event); } catch (err) { logger.error('[Emergency] Listener error', { error: String(err) }); }
     });
   }
 
   private startExpirationTimer(alert: EmergencyAlert): void {
-    if (this.expirationTimer) clearTimeout(this.expirationTimer);
+    this.stopExpirationTimer(alert.id);
     if (!alert.expiresAt) return;
 
     const ms = new Date(alert.expiresAt).getTime() - Date.now();
     if (ms <= 0) {
-      this.clearAlert();
+      this.clearAlert(alert.id, 'expired');
       return;
     }
 
-    this.expirationTimer = setTimeout(() => {
-      logger.info('[Emergency] Alert expired', { id: alert.id });
-      this.clearAlert();
-    }, ms);
+    this.expirationTimers.set(
+      alert.id,
+      setTimeout(() => {
+        logger.info('[Emergency] Alert expired', { id: alert.id });
+        this.expirationTimers.delete(alert.id);
+        this.clearAlert(alert.id, 'expired');
+      }, ms),
+    );
   }
 
-  private saveAlert(alert: EmergencyAlert): void {
-    try { localStorage.setItem(STORAGE_KEY, JSON.stringify(alert)); } catch { /* noop */ }
+  private stopExpirationTimer(alertId: string): void {
+    const timer = this.expirationTimers.get(alertId);
+    if (timer) clearTimeout(timer);
+    this.expirationTimers.delete(alertId);
   }
 
-  private removeSavedAlert(): void {
-    try { localStorage.removeItem(STORAGE_KEY); } catch { /* noop */ }
+  private saveAlerts(): void {
+    try {
+      if (this.alerts.size === 0) localStorage.removeItem(STORAGE_KEY);
+      else localStorage.setItem(STORAGE_KEY, JSON.stringify(this.getAlerts()));
+    } catch { /* noop */ }
   }
 
-  private loadSavedAlert(): void {
+  private loadSavedAlerts(): void {
     try {
+      const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
       const saved = localStorage.getItem(STORAGE_KEY);
-      if (!saved) return;
-
-      const alert: EmergencyAlert = JSON.parse(saved);
-      if (alert.expiresAt && new Date(alert.expiresAt) > new Date()) {
-        this.currentAlert = alert;
-        this.startExpirationTimer(alert);
-        logger.info('[Emergency] Restored saved alert', { id: alert.id });
-      } else {
-        this.removeSavedAlert();
+      const parsed: unknown = saved ? JSON.parse(saved) : legacy ? [JSON.parse(legacy)] : [];
+      if (!Array.isArray(parsed)) throw new Error('Saved alerts are not a list');
+
+      const now = new Date();
+      for (const alert of parsed as EmergencyAlert[]) {
+        if (alert?.id && alert.expiresAt && new Date(alert.expiresAt) > now) {
+          this.alerts.set(alert.id, alert);
+          this.startExpirationTimer(alert);
+        }
+      }
+      this.saveAlerts();
+      if (this.alerts.size > 0) {
+        logger.info('[Emergency] Restored saved alerts', { count: this.alerts.size });
       }
     } catch {
-      this.removeSavedAlert();
+      try { localStorage.removeItem(STORAGE_KEY); } catch { /* noop */ }
     }
   }
 }
@@ -0,0 +1,106 @@
+/**
+ * Local alert service tests — config push to the deploy server and polling LAN alerts.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@/utils/logger', () => ({
+  default: { info: vi.fn(), debug: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+vi.mock('../config/platform', () => ({ isPiPlatform: true }));
+
+vi.mock('./credentialService', () => ({
+  default: { getMasjidId: () => 'masjid-1', getScreenId: () => 'screen-1' },
+}));
+
+const fetchMock = vi.fn();
+
+function json(body: unknown) {
+  return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve(body) });
+}
+
+/** Fresh singleton per test. */
+async function loadService() {
+  vi.resetModules();
+  return (await import('./localAlertService')).default;
+}
+
+describe('parseLocalAlertSettings', () => {
+  it('is off unless enabled with a valid PIN or a token', async () => {
+    const { parseLocalAlertSettings } = await import('./localAlertService');
+    expect(parseLocalAlertSettings({ enabled: true, pin: '12' })).toMatchObject({ enabled: false, pin: null, token: null });
+    expect(parseLocalAlertSettings({ enabled: true, pin: ' 4821 ' })).toMatchObject({ enabled: true, pin: '4821', token: null });
+    expect(parseLocalAlertSettings(null).enabled).toBe(false);
+  });
+
+  it('keeps the relay secret only when long enough and drops bad screen ids', async () => {
+    const { parseLocalAlertSettings } = await import('./localAlertService');
+    expect(parseLocalAlertSettings({ relaySecret: 'short', screenIds: 'screen-1' })).toMatchObject({
+      relaySecret: null,
+      screenIds: null,
+    });
+    expect(
+      parseLocalAlertSettings({ relaySecret: ' 0123456789abcdef0123 ', screenIds: ['screen-1', 7, '', 'screen-2'] }),
+    ).toMatchObject({ relaySecret: '0123456789abcdef0123', screenIds: ['screen-1', 'screen-2'] });
+  });
+});
+
+describe('localAlertService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('pushes the portal settings with the screen ids and forwards each new LAN alert once', async () => {
+    fetchMock.mockImplementation((url: string) =>
+      url.startsWith('/internal/local-alerts')
+        ? json({ bootId: 'a', seq: 1, events: [{ seq: 1, payload: { title: 'Fire', message: 'Leave now' } }] })
+        : json({ success: true }),
+    );
+    const service = await loadService();
+    const onPayload = vi.fn();
+    service.applyPortalSettings({ enabled: true, pin: '4821' });
+    service.start(onPayload);
+    await vi.advanceTimersByTimeAsync(2_000);
+    service.stop();
+
+    const configCall = fetchMock.mock.calls.find(([url]) => url === '/internal/local-alert-config');
+    expect(JSON.parse(configCall![1].body)).toEqual({
+      enabled: true,
+      pin: '4821',
+      token: null,
+      relaySecret: null,
+      screenIds: null,
+      masjidId: 'masjid-1',
+      screenId: 'screen-1',
+    });
+    expect(fetchMock).toHaveBeenCalledWith('/internal/local-alerts?after=1', expect.anything());
+    expect(onPayload).toHaveBeenCalledTimes(1);
+    expect(onPayload).toHaveBeenCalledWith({ title: 'Fire', message: 'Leave now' });
+  });
+
+  it('starts from the beginning again when the deploy server restarts', async () => {
+    let bootId = 'a';
+    fetchMock.mockImplementation((url: string) =>
+      url.startsWith('/internal/local-alerts')
+        ? json({ bootId, seq: 3, events: url.endsWith('after=0') ? [{ seq: 3, payload: { id: 'x' } }] : [] })
+        : json({ success: true }),
+    );
+    const service = await loadService();
+    const onPayload = vi.fn();
+    service.start(onPayload);
+    await vi.advanceTimersByTimeAsync(0);
+    bootId = 'b';
+    await vi.advanceTimersByTimeAsync(4_000);
+    service.stop();
+
+    expect(onPayload).toHaveBeenCalledTimes(2);
+  });
+});
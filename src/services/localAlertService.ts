@@ -0,0 +1,148 @@
+/**
+ * Local Alert Service
+ *
+ * On-site emergency trigger for when the masjid's internet is down. Staff
+ * send an alert from a phone on the LAN (`POST /local/alert` on the deploy
+ * server, PIN- or token-protected); the server queues it, relays it to the
+ * other screens of the same masjid it discovered on the LAN, and this service
+ * picks it up from `GET /internal/local-alerts`. Payloads go through the same
+ * normalisation as WebSocket alerts (utils/emergencyAlertPayload).
+ *
+ * `displaySettings.localAlerts` (PIN, token, on/off, relay secret and screen
+ * list) is pushed to the server together with the masjid and screen ids, which
+ * it needs for relaying. Relays are signed with the relay secret; the staff
+ * PIN / token never leaves the screen that received it.
+ * Pi only — other platforms have no deploy server.
+ */
+
+import { isPiPlatform } from '../config/platform';
+import credentialService from './credentialService';
+import logger from '../utils/logger';
+import type { LocalAlertSettings } from '../api/models';
+
+const POLL_INTERVAL_MS = 2_000;
+const REQUEST_TIMEOUT_MS = 5_000;
+const PIN_PATTERN = /^\d{4,8}$/;
+/** Shorter relay secrets are ignored (relaying stays off) */
+const MIN_RELAY_SECRET_LENGTH = 16;
+
+/** Called with each raw alert payload received on the LAN. */
+export type OnLocalAlertPayload = (payload: unknown) => void;
+
+interface LocalAlertEventsBody {
+  /** Changes when the deploy server restarts (its sequence starts again) */
+  bootId?: string;
+  seq?: number;
+  events?: Array<{ seq: number; payload: unknown }>;
+}
+
+/** Validate `displaySettings.localAlerts`; off unless enabled with a PIN or token. */
+export function parseLocalAlertSettings(raw: unknown): Required<LocalAlertSettings> {
+  const data = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const pin = typeof data.pin === 'string' && PIN_PATTERN.test(data.pin.trim()) ? data.pin.trim() : null;
+  const token = typeof data.token === 'string' && data.token.trim() ? data.token.trim() : null;
+  const relaySecret =
+    typeof data.relaySecret === 'string' && data.relaySecret.trim().length >= MIN_RELAY_SECRET_LENGTH
+      ? data.relaySecret.trim()
+      : null;
+  const screenIds = Array.isArray(data.screenIds)
+    ? data.screenIds.filter((id): id is string => typeof id === 'string' && id.length > 0)
+    : null;
+  return { enabled: data.enabled === true && !!(pin || token), pin, token, relaySecret, screenIds };
+}
+
+class LocalAlertService {
+  private settings: Required<LocalAlertSettings> = parseLocalAlertSettings(null);
+  /** Last config body the server accepted (JSON), so unchanged settings are not re-sent */
+  private pushedConfigKey: string | null = null;
+  private onPayload: OnLocalAlertPayload | null = null;
+  private pollIntervalId: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+  private bootId: string | null = null;
+  private lastSeq = 0;
+
+  /** Apply `displaySettings.localAlerts` (raw block; missing = off). */
+  public applyPortalSettings(raw: unknown): void {
+    this.settings = parseLocalAlertSettings(raw);
+    void this.pushConfig();
+  }
+
+  /** Start receiving LAN alerts (call once credentials are loaded). */
+  public start(onPayload: OnLocalAlertPayload): void {
+    if (!isPiPlatform) return;
+    this.onPayload = onPayload;
+    this.pushedConfigKey = null;
+    void this.pushConfig();
+    if (this.pollIntervalId) return;
+    this.pollIntervalId = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+    void this.poll();
+  }
+
+  public stop(): void {
+    if (this.pollIntervalId) clearInterval(this.pollIntervalId);
+    this.pollIntervalId = null;
+    this.onPayload = null;
+  }
+
+  /** Send the PIN / token, relay secret and ids to the deploy server. Never throws. */
+  private async pushConfig(): Promise<void> {
+    if (!isPiPlatform) return;
+    try {
+      const body = JSON.stringify({
+        ...this.settings,
+        masjidId: credentialService.getMasjidId(),
+        screenId: credentialService.getScreenId(),
+      });
+      if (body === this.pushedConfigKey) return;
+      const res = await fetch('/internal/local-alert-config', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      this.pushedConfigKey = body;
+      logger.info('[LocalAlert] LAN trigger configured', { enabled: this.settings.enabled });
+    } catch (err) {
+      logger.debug('[LocalAlert] Deploy server unavailable for config', { error: String(err) });
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const res = await fetch(`/internal/local-alerts?after=${this.lastSeq}`, {
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!res.ok) return;
+      const body = (await res.json()) as LocalAlertEventsBody;
+      if (body.bootId && body.bootId !== this.bootId) {
+        const restarted = this.bootId !== null;
+        this.bootId = body.bootId;
+        if (restarted) {
+          // Server restarted: its sequence starts again; re-send the config with it
+          this.lastSeq = 0;
+          this.pushedConfigKey = null;
+          void this.pushConfig();
+          return;
+        }
+      }
+      for (const event of body.events ?? []) {
+        if (event.seq <= this.lastSeq) continue;
+        this.lastSeq = event.seq;
+        logger.info('[LocalAlert] Alert received on the LAN', { seq: event.seq });
+        this.onPayload?.(event.payload);
+      }
+      // Config push failed before the server was up
+      if (this.pushedConfigKey === null) void this.pushConfig();
+    } catch (err) {
+      logger.debug('[LocalAlert] Poll failed', { error: String(err) });
+    } finally {
+      this.polling = false;
+    }
+  }
+}
+
+const localAlertService = new LocalAlertService();
+export default localAlertService;
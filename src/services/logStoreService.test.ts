@@ -0,0 +1,133 @@
+/**
+ * Log store tests — FETCH_LOGS / SET_LOG_LEVEL payloads, chunked persistence and upload.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { LogEntry } from '@/utils/logger';
+
+const mockStore = new Map<string, unknown>();
+
+vi.mock('localforage', () => ({
+  default: {
+    createInstance: () => ({
+      getItem: (key: string) => Promise.resolve(mockStore.get(key) ?? null),
+      setItem: (key: string, value: unknown) => {
+        mockStore.set(key, value);
+        return Promise.resolve(value);
+      },
+      removeItem: (key: string) => {
+        mockStore.delete(key);
+        return Promise.resolve();
+      },
+      keys: () => Promise.resolve([...mockStore.keys()]),
+    }),
+  },
+}));
+
+const uploadLogs = vi.fn();
+vi.mock('../api/apiClient', () => ({
+  default: { uploadLogs: (bundle: Blob, meta: unknown) => uploadLogs(bundle, meta) },
+}));
+
+/** Fresh singleton (and logger sink) per test. */
+async function load() {
+  vi.resetModules();
+  const service = (await import('./logStoreService')).default;
+  const logger = await import('@/utils/logger');
+  return { service, logger };
+}
+
+describe('parseLogQuery', () => {
+  it('defaults to the last 24 hours at every level', async () => {
+    const { parseLogQuery } = await import('./logStoreService');
+    const now = Date.parse('2024-01-15T10:00:00Z');
+    expect(parseLogQuery(undefined, now)).toEqual({ from: now - 24 * 3_600_000, to: now, level: 'debug' });
+  });
+
+  it('reads an ISO range or sinceMinutes and a minimum level', async () => {
+    const { parseLogQuery } = await import('./logStoreService');
+    const now = Date.parse('2024-01-15T10:00:00Z');
+    expect(parseLogQuery({ from: '2024-01-14T22:00:00Z', to: '2024-01-15T06:00:00Z', level: 'warn' }, now)).toEqual({
+      from: Date.parse('2024-01-14T22:00:00Z'),
+      to: Date.parse('2024-01-15T06:00:00Z'),
+      level: 'warn',
+    });
+    expect(parseLogQuery({ sinceMinutes: 30 }, now).from).toBe(now - 30 * 60_000);
+    expect(() => parseLogQuery({ from: '2024-01-16T00:00:00Z' }, now)).toThrow(/after/);
+  });
+});
+
+describe('parseLogLevelCommand', () => {
+  it('holds the level for 24 h unless a duration is given, and clears on default', async () => {
+    const { parseLogLevelCommand } = await import('./logStoreService');
+    expect(parseLogLevelCommand({ level: 'debug' }, 0)).toEqual({ level: 'debug', expiresAt: 24 * 3_600_000 });
+    expect(parseLogLevelCommand({ level: 'info', durationMinutes: 60 }, 0)).toEqual({
+      level: 'info',
+      expiresAt: 3_600_000,
+    });
+    expect(parseLogLevelCommand({ level: 'default' })).toEqual({ level: null, expiresAt: null });
+    expect(() => parseLogLevelCommand({ level: 'verbose' })).toThrow(/level must be/);
+  });
+});
+
+describe('logStoreService', () => {
+  beforeEach(() => {
+    mockStore.clear();
+    uploadLogs.mockReset();
+    localStorage.clear();
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('persists logged entries in chunks and returns a filtered slice', async () => {
+    const { service, logger } = await load();
+    service.start();
+    logger.info('[Test] Content loaded');
+    logger.debug('[Test] Noise');
+    logger.warn('[Test] Slow response');
+    await service.flush();
+    service.stop();
+
+    expect(mockStore.size).toBe(1);
+    const [chunk] = [...mockStore.values()] as LogEntry[][];
+    expect(chunk.map((entry) => entry.message)).toEqual(['[Test] Content loaded', '[Test] Noise', '[Test] Slow response']);
+
+    const slice = await service.query({ from: 0, to: Date.now() + 1_000, level: 'info' });
+    expect(slice.map((entry) => entry.level)).toEqual(['info', 'warn']);
+  });
+
+  it('writes an error straight away', async () => {
+    const { service, logger } = await load();
+    service.start();
+    logger.error('[Test] Render crashed', { error: 'boom' });
+    await vi.waitFor(() => expect(mockStore.size).toBe(1));
+    service.stop();
+  });
+
+  it('uploads the bundle for FETCH_LOGS and reports what was sent', async () => {
+    const { service, logger } = await load();
+    service.start();
+    logger.warn('[Test] Screen went blank');
+    uploadLogs.mockResolvedValue({ success: true, data: { success: true, url: 'https://portal.test/logs/1' } });
+
+    const result = await service.fetchAndUpload('cmd-1', { sinceMinutes: 5 });
+    service.stop();
+
+    expect(result).toMatchObject({ entries: 1, level: 'debug', url: 'https://portal.test/logs/1' });
+    const [bundle, meta] = uploadLogs.mock.calls[0] as [Blob, Record<string, unknown>];
+    expect(meta).toMatchObject({ commandId: 'cmd-1', entries: 1 });
+    expect(bundle.size).toBe(result.bytes);
+  });
+
+  it('fails FETCH_LOGS when the upload fails', async () => {
+    const { service } = await load();
+    uploadLogs.mockResolvedValue({ success: false, error: 'Network Error' });
+    await expect(service.fetchAndUpload('cmd-2', {})).rejects.toThrow('Network Error');
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Log Store Service
+ *
+ * Persistent, size-capped copy of the structured log, so there is something
+ * to look at after a screen blanks overnight. The logger hands every entry at
+ * or above its capture level to this service (`setLogSink`); entries are
+ * written to IndexedDB in chunks (every few seconds, or at once for an
+ * error) and the oldest chunks are rotated out beyond MAX_STORE_BYTES.
+ *
+ * FETCH_LOGS pulls a time range / level slice as a gzipped NDJSON bundle and
+ * uploads it with `apiClient.uploadLogs`; SET_LOG_LEVEL changes what is
+ * captured (see utils/logger `setLogLevel`).
+ */
+
+import localforage from 'localforage';
+import apiClient from '../api/apiClient';
+import logger, { isLogLevel, LOG_LEVELS, setLogLevel, setLogSink, type LogEntry, type LogLevel } from '../utils/logger';
+
+const FLUSH_INTERVAL_MS = 5_000;
+const MAX_CHUNK_ENTRIES = 200;
+const MAX_STORE_BYTES = 5 * 1024 * 1024;
+const DEFAULT_FETCH_WINDOW_MS = 24 * 60 * 60_000;
+const DEFAULT_LEVEL_OVERRIDE_MS = 24 * 60 * 60_000;
+const MAX_LEVEL_OVERRIDE_MS = 7 * 24 * 60 * 60_000;
+
+/** FETCH_LOGS payload, resolved. */
+export interface LogQuery {
+  /** ms since epoch, inclusive */
+  from: number;
+  to: number;
+  /** Lowest level included */
+  level: LogLevel;
+}
+
+/** SET_LOG_LEVEL payload, resolved; level null = back to the defaults. */
+export interface LogLevelCommand {
+  level: LogLevel | null;
+  expiresAt: number | null;
+}
+
+export interface LogBundleResult {
+  entries: number;
+  bytes: number;
+  encoding: 'gzip' | 'identity';
+  from: string;
+  to: string;
+  level: LogLevel;
+  /** URL returned by the portal after upload, when provided */
+  url?: string;
+}
+
+interface StoredChunk {
+  key: string;
+  /** Timestamp of the chunk's first entry */
+  startedAt: number;
+  bytes: number;
+}
+
+const store = localforage.createInstance({
+  name: 'MasjidConnect',
+  storeName: 'logs',
+  description: 'Persistent display log',
+});
+
+/** Key holds the start time and size so rotation needs only `keys()`. */
+function chunkKey(startedAt: number, bytes: number): string {
+  const suffix = Math.random().toString(36).slice(2, 6);
+  return `${startedAt.toString(36).padStart(9, '0')}-${bytes.toString(36)}-${suffix}`;
+}
+
+function parseChunkKey(key: string): StoredChunk | null {
+  const [start, size] = key.split('-');
+  const startedAt = parseInt(start, 36);
+  const bytes = parseInt(size, 36);
+  return Number.isFinite(startedAt) && Number.isFinite(bytes) ? { key, startedAt, bytes } : null;
+}
+
+function parseTime(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const ms = new Date(value).getTime();
+  return Number.isFinite(ms) ? ms : null;
+}
+
+/**
+ * Read a FETCH_LOGS payload: `{ from?, to?, level? }` (ISO times; default the
+ * last 24 h, every stored level) or `{ sinceMinutes }`.
+ */
+export function parseLogQuery(payload: unknown, now: number = Date.now()): LogQuery {
+  const data = payload && typeof payload === 'object' ? (payload as Record<string, unknown>) : {};
+  const to = parseTime(data.to) ?? now;
+  const sinceMinutes = typeof data.sinceMinutes === 'number' && data.sinceMinutes > 0 ? data.sinceMinutes : null;
+  const from = parseTime(data.from) ?? (sinceMinutes ? to - sinceMinutes * 60_000 : to - DEFAULT_FETCH_WINDOW_MS);
+  if (from > to) throw new Error('FETCH_LOGS: from is after to');
+  return { from, to, level: isLogLevel(data.level) ? data.level : 'debug' };
+}
+
+/**
+ * Read a SET_LOG_LEVEL payload: `{ level, durationMinutes? }`. The override
+ * lasts 24 h unless a duration is given (at most 7 days); `level: null` or
+ * `'default'` clears it.
+ */
+export function parseLogLevelCommand(payload: unknown, now: number = Date.now()): LogLevelCommand {
+  const data = payload && typeof payload === 'object' ? (payload as Record<string, unknown>) : {};
+  if (data.level === null || data.level === 'default') return { level: null, expiresAt: null };
+  if (!isLogLevel(data.level)) {
+    throw new Error(`SET_LOG_LEVEL: level must be one of ${LOG_LEVELS.join(', ')} or default`);
+  }
+  const durationMs =
+    typeof data.durationMinutes === 'number' && data.durationMinutes > 0
+      ? Math.min(data.durationMinutes * 60_000, MAX_LEVEL_OVERRIDE_MS)
+      : DEFAULT_LEVEL_OVERRIDE_MS;
+  return { level: data.level, expiresAt: now + durationMs };
+}
+
+/** gzip when the browser has CompressionStream (Chromium on the Pi does). */
+async function compress(text: string): Promise<{ blob: Blob; encoding: LogBundleResult['encoding'] }> {
+  if (typeof CompressionStream !== 'undefined') {
+    try {
+      const stream = new Response(text).body!.pipeThrough(new CompressionStream('gzip'));
+      const gzipped = await new Response(stream).arrayBuffer();
+      return { blob: new Blob([gzipped], { type: 'application/gzip' }), encoding: 'gzip' };
+    } catch {
+      // Fall through to an uncompressed bundle
+    }
+  }
+  return { blob: new Blob([text], { type: 'application/x-ndjson' }), encoding: 'identity' };
+}
+
+class LogStoreService {
+  private pending: LogEntry[] = [];
+  /** Stored chunks, oldest first; loaded on the first write or read */
+  private chunks: StoredChunk[] | null = null;
+  private flushIntervalId: ReturnType<typeof setInterval> | null = null;
+  private flushing: Promise<void> | null = null;
+  /** Set after a failed write so the failure is logged once, not on every flush */
+  private writeFailed = false;
+
+  /** Start capturing (call once, as early as possible). */
+  public start(): void {
+    if (this.flushIntervalId) return;
+    setLogSink((entry) => this.append(entry));
+    this.flushIntervalId = setInterval(() => void this.flush(), FLUSH_INTERVAL_MS);
+    window.addEventListener('pagehide', this.handlePageHide);
+  }
+
+  public stop(): void {
+    setLogSink(null);
+    if (this.flushIntervalId) clearInterval(this.flushIntervalId);
+    this.flushIntervalId = null;
+    window.removeEventListener('pagehide', this.handlePageHide);
+    void this.flush();
+  }
+
+  /** Write buffered entries now. Never throws. */
+  public flush(): Promise<void> {
+    if (this.flushing) return this.flushing.then(() => this.flush());
+    if (this.pending.length === 0) return Promise.resolve();
+    const promise = this.writeChunk().finally(() => {
+      this.flushing = null;
+    });
+    this.flushing = promise;
+    return promise;
+  }
+
+  /** Stored and buffered entries in the query window, oldest first. */
+  public async query({ from, to, level }: LogQuery): Promise<LogEntry[]> {
+    await this.flush();
+    const chunks = await this.loadChunks();
+    const minRank = LOG_LEVELS.indexOf(level);
+    const entries: LogEntry[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      // A chunk runs until the next one starts
+      const nextStart = chunks[i + 1]?.startedAt ?? Infinity;
+      if (chunks[i].startedAt > to || nextStart < from) continue;
+      const chunk = await store.getItem<LogEntry[]>(chunks[i].key);
+      for (const entry of chunk ?? []) {
+        const at = new Date(entry.timestamp).getTime();
+        if (at >= from && at <= to && LOG_LEVELS.indexOf(entry.level) >= minRank) entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  /** FETCH_LOGS: query, compress and upload. Throws when the upload fails (reported in the ack). */
+  public async fetchAndUpload(commandId: string, payload: unknown): Promise<LogBundleResult> {
+    const query = parseLogQuery(payload);
+    const entries = await this.query(query);
+    const { blob, encoding } = await compress(entries.map((entry) => JSON.stringify(entry)).join('\n'));
+    const meta = {
+      commandId,
+      from: new Date(query.from).toISOString(),
+      to: new Date(query.to).toISOString(),
+      level: query.level,
+      entries: entries.length,
+      encoding,
+    };
+    const res = await apiClient.uploadLogs(blob, meta);
+    if (!res.success) throw new Error(res.error || 'Log upload failed');
+    return { ...meta, bytes: blob.size, ...(res.data?.url ? { url: res.data.url } : {}) };
+  }
+
+  /** SET_LOG_LEVEL: apply the override; returns what is now in effect. */
+  public applyLogLevelCommand(payload: unknown): LogLevelCommand {
+    const command = parseLogLevelCommand(payload);
+    setLogLevel(command.level, command.expiresAt);
+    return command;
+  }
+
+  private append(entry: LogEntry): void {
+    this.pending.push(entry);
+    // Errors are written straight away in case the page is about to die
+    if (entry.level === 'error' || this.pending.length >= MAX_CHUNK_ENTRIES) void this.flush();
+  }
+
+  private handlePageHide = (): void => {
+    void this.flush();
+  };
+
+  private async loadChunks(): Promise<StoredChunk[]> {
+    if (!this.chunks) {
+      const keys = await store.keys();
+      this.chunks = keys
+        .map(parseChunkKey)
+        .filter((chunk): chunk is StoredChunk => chunk !== null)
+        .sort((a, b) => a.startedAt - b.startedAt);
+    }
+    return this.chunks;
+  }
+
+  private async writeChunk(): Promise<void> {
+    const entries = this.pending.splice(0, MAX_CHUNK_ENTRIES);
+    try {
+      const chunks = await this.loadChunks();
+      const startedAt = new Date(entries[0].timestamp).getTime() || Date.now();
+      const bytes = JSON.stringify(entries).length;
+      const key = chunkKey(startedAt, bytes);
+      await store.setItem(key, entries);
+      chunks.push({ key, startedAt, bytes });
+      this.writeFailed = false;
+
+      // Rotate: drop the oldest chunks beyond the size cap
+      let total = chunks.reduce((sum, chunk) => sum + chunk.bytes, 0);
+      while (total > MAX_STORE_BYTES && chunks.length > 1) {
+        const oldest = chunks.shift()!;
+        total -= oldest.bytes;
+        await store.removeItem(oldest.key);
+      }
+    } catch (err) {
+      if (!this.writeFailed) {
+        this.writeFailed = true;
+        logger.warn('[LogStore] Could not write log chunk', { error: String(err) });
+      }
+    }
+    if (this.pending.length >= MAX_CHUNK_ENTRIES) await this.writeChunk();
+  }
+}
+
+const logStoreService = new LogStoreService();
+export default logStoreService;
@@ -0,0 +1,143 @@
+/**
+ * Media cache service tests — leased blob URLs, byte counts and CORS-less hosts.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const logger = vi.hoisted(() => ({ info: vi.fn(), debug: vi.fn(), error: vi.fn(), warn: vi.fn() }));
+const storage = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('../utils/logger', () => ({ default: logger }));
+
+vi.mock('./storageService', () => ({
+  default: {
+    get: async (key: string) => storage.get(key) ?? null,
+    set: async (key: string, value: unknown) => {
+      storage.set(key, value);
+    },
+    remove: async (key: string) => {
+      storage.delete(key);
+    },
+  },
+}));
+
+const IMAGE = 'https://cdn.example.org/poster.jpg';
+const VIDEO = 'https://cdn.example.org/clip.mp4';
+
+/** In-memory Cache Storage holding response bodies as blobs. */
+function fakeCaches() {
+  const bodies = new Map<string, Blob>();
+  const cache = {
+    match: vi.fn(async (url: string) => {
+      const body = bodies.get(url);
+      return body ? { blob: async () => body } : undefined;
+    }),
+    put: vi.fn(async (url: string, response: { blob: () => Promise<Blob> }) => {
+      bodies.set(url, await response.blob());
+    }),
+    delete: vi.fn(async (url: string) => bodies.delete(url)),
+  };
+  return { bodies, cache, caches: { open: async () => cache, delete: async () => bodies.clear() } };
+}
+
+function response(bytes: number, contentLength: number | null = bytes) {
+  return {
+    ok: true,
+    status: 200,
+    type: 'cors',
+    headers: new Headers(contentLength === null ? {} : { 'Content-Length': String(contentLength) }),
+    blob: async () => new Blob([new Uint8Array(bytes)]),
+    body: { cancel: vi.fn() },
+  };
+}
+
+async function loadService() {
+  vi.resetModules();
+  return (await import('./mediaCacheService')).default;
+}
+
+describe('mediaCacheService', () => {
+  const fetchMock = vi.fn();
+  let store: ReturnType<typeof fakeCaches>;
+  let nextBlobUrl = 0;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    storage.clear();
+    store = fakeCaches();
+    nextBlobUrl = 0;
+    vi.stubGlobal('caches', store.caches);
+    vi.stubGlobal('fetch', fetchMock);
+    // jsdom has no object URLs
+    URL.createObjectURL = vi.fn(() => `blob:${++nextBlobUrl}`);
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('restores the index without reading cached assets into memory', async () => {
+    store.bodies.set(IMAGE, new Blob([new Uint8Array(10)]));
+    storage.set('media_cache_index', [{ url: IMAGE, bytes: 10, lastUsed: 1 }]);
+    const service = await loadService();
+
+    await service.init();
+
+    expect(service.getStats()).toMatchObject({ entries: 1, bytesUsed: 10 });
+    expect(URL.createObjectURL).not.toHaveBeenCalled();
+    expect(service.resolve(IMAGE)).toBeUndefined();
+  });
+
+  it('counts bytes from Content-Length or the stored copy without keeping a blob', async () => {
+    fetchMock.mockImplementation(async (url: string) => (url === IMAGE ? response(10) : response(25, null)));
+    const service = await loadService();
+
+    await service.sync([IMAGE, VIDEO]);
+
+    expect(service.getStats()).toMatchObject({ entries: 2, bytesUsed: 35 });
+    expect(URL.createObjectURL).not.toHaveBeenCalled();
+  });
+
+  it('reads leased assets into blob URLs and revokes them after release', async () => {
+    fetchMock.mockImplementation(async () => response(10));
+    const service = await loadService();
+    await service.sync([IMAGE]);
+
+    const release = service.acquire([IMAGE]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(service.resolve(IMAGE)).toBe('blob:1');
+
+    release();
+    // A lease taken again within the grace period keeps the same URL
+    const again = service.acquire([IMAGE]);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(service.resolve(IMAGE)).toBe('blob:1');
+
+    again();
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:1');
+    expect(service.resolve(IMAGE)).toBeUndefined();
+  });
+
+  it('logs hosts without CORS headers once and does not retry them', async () => {
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+      if (init.mode === 'cors') throw new TypeError('Failed to fetch');
+      return { ok: false, status: 0, type: 'opaque' };
+    });
+    const service = await loadService();
+
+    await service.sync([IMAGE]);
+    await service.sync([IMAGE]);
+
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('no CORS headers'),
+      expect.objectContaining({ origin: 'https://cdn.example.org' }),
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(service.getStats().entries).toBe(0);
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Media Cache Service
+ *
+ * Keeps the schedule's media (slide images, posters, PDFs, videos, event
+ * banners) on the device so slides still render when the Wi-Fi drops.
+ *
+ * - Bodies live in Cache Storage (`media-assets`); the LRU index (bytes, last
+ *   used) is persisted through storageService (IndexedDB).
+ * - `sync(urls)` runs after every `refreshAllContent` (mediaCacheMiddleware):
+ *   downloads what is missing, then evicts least-recently-used entries until
+ *   the cache fits the quota (512 MB, or half the browser quota if smaller).
+ * - Nothing is held in memory up front. `acquire(urls)` leases the assets a
+ *   slide is about to show: each is read from Cache Storage into a `blob:`
+ *   URL, returned by the synchronous `resolve(url)`, and revoked a few
+ *   seconds after the last lease is released. `subscribe` notifies when the
+ *   set of local URLs changes.
+ * - Lookups are counted so the heartbeat can report the hit rate.
+ *
+ * Cross-origin assets need CORS headers to be cached: an opaque response
+ * cannot be turned into a blob (and is padded to megabytes by the quota).
+ * Hosts without them are logged once and still load from the network.
+ */
+
+import storageService from './storageService';
+import logger from '../utils/logger';
+import { planMediaEviction, type MediaCacheEntry, type MediaCacheStats } from '../utils/mediaCache';
+
+export const MEDIA_CACHE_NAME = 'media-assets';
+const INDEX_STORAGE_KEY = 'media_cache_index';
+const DEFAULT_QUOTA_BYTES = 512 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 5 * 60_000;
+const PROBE_TIMEOUT_MS = 15_000;
+/** Grace after the last lease, so the next slide's lease or a crossfade keeps the URL. */
+const RELEASE_DELAY_MS = 5_000;
+
+class MediaCacheService {
+  private index = new Map<string, MediaCacheEntry>();
+  private blobUrls = new Map<string, string>();
+  /** Lease count per remote URL (acquire / release) */
+  private leases = new Map<string, number>();
+  private releaseTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private materializing = new Set<string>();
+  /** URLs whose host sends no CORS headers — not retried this session */
+  private corsBlocked = new Set<string>();
+  private subscribers = new Set<() => void>();
+  private quotaBytes = DEFAULT_QUOTA_BYTES;
+  private hits = 0;
+  private misses = 0;
+  private revision = 0;
+  private ready: Promise<void> | null = null;
+  private syncing: Promise<void> | null = null;
+  private pendingUrls: string[] | null = null;
+
+  private get available(): boolean {
+    return typeof caches !== 'undefined' && typeof URL.createObjectURL === 'function';
+  }
+
+  /**
+   * Local (blob) URL for a leased, cached asset, or undefined (not cached, not
+   * leased, or still being read). Counts the lookup against the cache.
+   */
+  public resolve(url: string): string | undefined {
+    const entry = this.index.get(url);
+    if (entry) {
+      this.hits += 1;
+      entry.lastUsed = Date.now();
+    } else {
+      this.misses += 1;
+    }
+    return this.blobUrls.get(url);
+  }
+
+  /**
+   * Keep local copies of `urls` resolvable until the returned release is
+   * called. Cached ones are read into blob URLs now; ones still downloading
+   * are read once the sync stores them.
+   */
+  public acquire(urls: string[]): () => void {
+    if (!this.available) return () => undefined;
+    for (const url of urls) {
+      this.leases.set(url, (this.leases.get(url) ?? 0) + 1);
+      const timer = this.releaseTimers.get(url);
+      if (timer) clearTimeout(timer);
+      this.releaseTimers.delete(url);
+      void this.materialize(url);
+    }
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      for (const url of urls) {
+        const count = (this.leases.get(url) ?? 1) - 1;
+        if (count > 0) {
+          this.leases.set(url, count);
+          continue;
+        }
+        this.leases.delete(url);
+        this.releaseTimers.set(
+          url,
+          setTimeout(() => this.revoke(url), RELEASE_DELAY_MS),
+        );
+      }
+    };
+  }
+
+  /** Changes whenever resolvable URLs change — for useSyncExternalStore. */
+  public getRevision(): number {
+    return this.revision;
+  }
+
+  public subscribe(cb: () => void): () => void {
+    this.subscribers.add(cb);
+    return () => {
+      this.subscribers.delete(cb);
+    };
+  }
+
+  public getStats(): MediaCacheStats {
+    let bytesUsed = 0;
+    this.index.forEach((entry) => {
+      bytesUsed += entry.bytes;
+    });
+    const lookups = this.hits + this.misses;
+    return {
+      entries: this.index.size,
+      bytesUsed,
+      quotaBytes: this.quotaBytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : null,
+    };
+  }
+
+  /**
+   * Make sure every URL is cached, then enforce the quota. Calls made while a
+   * sync is running are coalesced: only the latest URL list runs next.
+   */
+  public sync(urls: string[]): Promise<void> {
+    if (!this.available) return Promise.resolve();
+    if (this.syncing) {
+      this.pendingUrls = urls;
+      return this.syncing;
+    }
+    this.syncing = this.runSync(urls).finally(() => {
+      this.syncing = null;
+      const next = this.pendingUrls;
+      this.pendingUrls = null;
+      if (next) void this.sync(next);
+    });
+    return this.syncing;
+  }
+
+  /** Load the persisted index and expose already-cached assets. Idempotent. */
+  public init(): Promise<void> {
+    if (!this.available) return Promise.resolve();
+    if (!this.ready) this.ready = this.hydrate();
+    return this.ready;
+  }
+
+  /** Drop every cached asset (CLEAR_CACHE). The next sync downloads them again. */
+  public async clear(): Promise<void> {
+    if (!this.available) return;
+    await this.init();
+    this.blobUrls.forEach((blobUrl) => URL.revokeObjectURL(blobUrl));
+    this.blobUrls.clear();
+    this.index.clear();
+    try {
+      await caches.delete(MEDIA_CACHE_NAME);
+    } catch {
+      // ignore — nothing to delete
+    }
+    await storageService.remove(INDEX_STORAGE_KEY);
+    logger.info('[MediaCache] Cleared');
+    this.notify();
+  }
+
+  private async hydrate(): Promise<void> {
+    try {
+      const saved = await storageService.get<MediaCacheEntry[]>(INDEX_STORAGE_KEY);
+      const cache = await caches.open(MEDIA_CACHE_NAME);
+      for (const entry of Array.isArray(saved) ? saved : []) {
+        if (await cache.match(entry.url)) this.index.set(entry.url, entry);
+      }
+      await this.refreshQuota();
+      if (this.index.size > 0) {
+        logger.info('[MediaCache] Restored cached assets', { entries: this.index.size });
+      }
+    } catch (err) {
+      logger.warn('[MediaCache] Could not restore cache index', { error: String(err) });
+    }
+  }
+
+  private async refreshQuota(): Promise<void> {
+    try {
+      const estimate = await navigator.storage?.estimate?.();
+      if (estimate?.quota) {
+        this.quotaBytes = Math.min(DEFAULT_QUOTA_BYTES, Math.floor(estimate.quota / 2));
+      }
+      await navigator.storage?.persist?.();
+    } catch {
+      // StorageManager unavailable — keep the default quota
+    }
+  }
+
+  private async runSync(urls: string[]): Promise<void> {
+    await this.init();
+    const wanted = new Set(urls);
+    const now = Date.now();
+    let added = 0;
+    let failed = 0;
+
+    try {
+      const cache = await caches.open(MEDIA_CACHE_NAME);
+
+      for (const url of wanted) {
+        const existing = this.index.get(url);
+        if (existing) {
+          existing.lastUsed = now;
+          continue;
+        }
+        if (this.corsBlocked.has(url)) continue;
+        try {
+          const bytes = await this.download(cache, url);
+          if (bytes === null) continue;
+          this.index.set(url, { url, bytes, lastUsed: now });
+          if (this.leases.has(url)) void this.materialize(url);
+          added += 1;
+        } catch (err) {
+          failed += 1;
+          logger.debug('[MediaCache] Failed to cache asset', { url, error: String(err) });
+        }
+      }
+
+      const evicted = planMediaEviction([...this.index.values()], this.quotaBytes, wanted);
+      for (const entry of evicted) {
+        await cache.delete(entry.url);
+        this.index.delete(entry.url);
+        const blobUrl = this.blobUrls.get(entry.url);
+        if (blobUrl) URL.revokeObjectURL(blobUrl);
+        this.blobUrls.delete(entry.url);
+      }
+
+      await storageService.set(INDEX_STORAGE_KEY, [...this.index.values()]);
+      if (added > 0 || evicted.length > 0) {
+        const { bytesUsed, entries } = this.getStats();
+        logger.info('[MediaCache] Synced', { added, failed, evicted: evicted.length, entries, bytesUsed });
+        this.notify();
+      }
+    } catch (err) {
+      logger.warn('[MediaCache] Cache Storage unavailable', { error: String(err) });
+    }
+  }
+
+  /**
+   * Fetch and store one asset; returns its size, or null when it is not
+   * cached (too large, or its host sends no CORS headers).
+   */
+  private async download(cache: Cache, url: string): Promise<number | null> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        mode: 'cors',
+        signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+      });
+    } catch (err) {
+      if (await this.isCorsBlocked(url)) {
+        this.corsBlocked.add(url);
+        logger.warn('[MediaCache] Asset host sends no CORS headers; it will load from the network but cannot be cached offline', {
+          url,
+          origin: new URL(url).origin,
+        });
+        return null;
+      }
+      throw err;
+    }
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const maxBytes = this.quotaBytes / 2;
+    const declared = Number(response.headers.get('Content-Length'));
+    if (Number.isFinite(declared) && declared > maxBytes) {
+      await response.body?.cancel();
+      logger.warn('[MediaCache] Asset too large to cache', { url, bytes: declared });
+      return null;
+    }
+    await cache.put(url, response);
+    // No Content-Length (chunked): measure the stored copy once, without keeping it
+    const bytes = declared > 0 ? declared : ((await (await cache.match(url))?.blob())?.size ?? 0);
+    if (bytes > maxBytes) {
+      await cache.delete(url);
+      logger.warn('[MediaCache] Asset too large to cache', { url, bytes });
+      return null;
+    }
+    return bytes;
+  }
+
+  /** The CORS fetch failed: is the host reachable without CORS (an opaque response)? */
+  private async isCorsBlocked(url: string): Promise<boolean> {
+    try {
+      const probe = await fetch(url, {
+        method: 'HEAD',
+        mode: 'no-cors',
+        signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+      });
+      return probe.type === 'opaque';
+    } catch {
+      return false;
+    }
+  }
+
+  /** Read a leased, cached asset into a blob URL. */
+  private async materialize(url: string): Promise<void> {
+    await this.init();
+    if (this.blobUrls.has(url) || !this.index.has(url) || this.materializing.has(url)) return;
+    this.materializing.add(url);
+    try {
+      const cache = await caches.open(MEDIA_CACHE_NAME);
+      const response = await cache.match(url);
+      if (!response) return;
+      const blob = await response.blob();
+      // Released (or cleared) while reading
+      if (!this.leases.has(url) || !this.index.has(url)) return;
+      this.blobUrls.set(url, URL.createObjectURL(blob));
+      this.notify();
+    } catch (err) {
+      logger.debug('[MediaCache] Could not read cached asset', { url, error: String(err) });
+    } finally {
+      this.materializing.delete(url);
+    }
+  }
+
+  private revoke(url: string): void {
+    this.releaseTimers.delete(url);
+    if (this.leases.has(url)) return;
+    const blobUrl = this.blobUrls.get(url);
+    if (!blobUrl) return;
+    URL.revokeObjectURL(blobUrl);
+    this.blobUrls.delete(url);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.revision += 1;
+    this.subscribers.forEach((cb) => cb());
+  }
+}
+
+const mediaCacheService = new MediaCacheService();
+export default mediaCacheService;
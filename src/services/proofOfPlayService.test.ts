@@ -0,0 +1,104 @@
+/**
+ * Proof-of-play service tests — impressions around interruptions and batched upload.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ContentViewAnalyticsRequest } from '@/api/models';
+
+const mockStore = new Map<string, unknown>();
+
+vi.mock('localforage', () => ({
+  default: {
+    createInstance: () => ({
+      getItem: (key: string) => Promise.resolve(mockStore.get(key) ?? null),
+      setItem: (key: string, value: unknown) => {
+        mockStore.set(key, value);
+        return Promise.resolve(value);
+      },
+      removeItem: (key: string) => {
+        mockStore.delete(key);
+        return Promise.resolve();
+      },
+      keys: () => Promise.resolve([...mockStore.keys()]),
+    }),
+  },
+}));
+
+vi.mock('@/utils/logger', () => ({
+  default: { info: vi.fn(), debug: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+vi.mock('./credentialService', () => ({
+  default: { hasCredentials: () => true },
+}));
+
+const sendContentViews = vi.fn();
+vi.mock('../api/apiClient', () => ({
+  default: { sendContentViews: (events: unknown) => sendContentViews(events) },
+}));
+
+/** Fresh singleton per test. */
+async function loadService() {
+  vi.resetModules();
+  return (await import('./proofOfPlayService')).default;
+}
+
+const stored = () => [...mockStore.values()] as ContentViewAnalyticsRequest[];
+const slide = { contentId: 'sponsor-1', contentType: 'announcement', expectedMs: 30_000 };
+
+describe('proofOfPlayService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockStore.clear();
+    sendContentViews.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records a complete view when the next slide comes up on time', async () => {
+    const service = await loadService();
+    service.slideShown(slide);
+    vi.advanceTimersByTime(30_000);
+    service.slideShown({ ...slide, contentId: 'dua-1' });
+
+    expect(stored()).toHaveLength(1);
+    expect(stored()[0]).toMatchObject({
+      type: 'content_view',
+      data: { contentId: 'sponsor-1', duration: 30_000, viewComplete: true, interruptedBy: null },
+    });
+  });
+
+  it('cuts the view short on an alert and records the rest of the slot once it clears', async () => {
+    const service = await loadService();
+    service.slideShown(slide);
+    vi.advanceTimersByTime(10_000);
+    service.setInterruption('alert');
+    vi.advanceTimersByTime(5_000);
+    service.setInterruption(null);
+    vi.advanceTimersByTime(15_000);
+    service.slideShown(null);
+
+    const [cut, resumed] = stored().sort((a, b) => a.data.startTime.localeCompare(b.data.startTime));
+    expect(cut.data).toMatchObject({ duration: 10_000, viewComplete: false, interruptedBy: 'alert' });
+    expect(resumed.data).toMatchObject({ duration: 15_000, expectedDuration: 15_000, viewComplete: true });
+  });
+
+  it('uploads in batches, keeps impressions when the upload fails and drops them once sent', async () => {
+    const service = await loadService();
+    service.slideShown(slide);
+    vi.advanceTimersByTime(30_000);
+    service.setInterruption('prayer');
+    await vi.advanceTimersByTimeAsync(0);
+
+    sendContentViews.mockResolvedValueOnce({ success: false, error: 'Network Error' });
+    await service.upload();
+    expect(mockStore.size).toBe(1);
+
+    sendContentViews.mockResolvedValueOnce({ success: true, data: { success: true } });
+    await service.upload();
+    expect(sendContentViews).toHaveBeenLastCalledWith([expect.objectContaining({ type: 'content_view' })]);
+    expect(mockStore.size).toBe(0);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Proof of Play Service
+ *
+ * Records when each carousel slide was actually on screen, so sponsors and
+ * donation campaigns can be shown that their slides aired. The carousel
+ * reports each slide as it comes up (`slideShown`, via useProofOfPlay); a
+ * prayer phase, an emergency alert or the screen switching off ends the
+ * impression early (`setInterruption`), and a slide still showing when the
+ * screen comes back starts a new one for the rest of its slot.
+ *
+ * Impressions are `content_view` analytics records, kept in their own
+ * IndexedDB store (not cleared by CLEAR_CACHE) so they survive reboots and
+ * days offline, and uploaded in batches with `apiClient.sendContentViews`.
+ * A failed upload backs off up to an hour; the oldest impressions are
+ * dropped beyond MAX_STORED_IMPRESSIONS.
+ */
+
+import localforage from 'localforage';
+import apiClient from '../api/apiClient';
+import credentialService from './credentialService';
+import logger from '../utils/logger';
+import type { ContentViewAnalyticsRequest, ContentViewInterruption } from '../api/models';
+
+const UPLOAD_INTERVAL_MS = 5 * 60_000;
+const MAX_UPLOAD_BACKOFF_MS = 60 * 60_000;
+const UPLOAD_BATCH_SIZE = 100;
+/** About a week of 30 s slides */
+const MAX_STORED_IMPRESSIONS = 20_000;
+/** Shorter views are remounts and skipped slides, not impressions */
+const MIN_IMPRESSION_MS = 1_000;
+/** A view this close to its scheduled length counts as complete */
+const COMPLETE_TOLERANCE_MS = 1_500;
+
+/** The slide on screen, as reported by the carousel. */
+export interface ShownSlide {
+  contentId: string;
+  contentType: string;
+  /** Scheduled on-screen time; null when the slide ends on its own (video) */
+  expectedMs: number | null;
+}
+
+const store = localforage.createInstance({
+  name: 'MasjidConnect',
+  storeName: 'proof_of_play',
+  description: 'Proof-of-play impressions awaiting upload',
+});
+
+/** Time-ordered key (base-36 start time), also used as the impression id. */
+function impressionKey(startedAt: number): string {
+  return `${startedAt.toString(36).padStart(9, '0')}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+class ProofOfPlayService {
+  /** Slide the carousel is showing, even while covered */
+  private slide: { info: ShownSlide; shownAt: number } | null = null;
+  /** Start of the impression in progress; null while nothing is visible */
+  private openedAt: number | null = null;
+  private interruption: ContentViewInterruption | null = null;
+  private uploadTimerId: ReturnType<typeof setTimeout> | null = null;
+  private uploadBackoffMs = UPLOAD_INTERVAL_MS;
+  private uploading = false;
+
+  /** Start the periodic upload (call once the display is showing content). */
+  public start(): void {
+    if (this.uploadTimerId) return;
+    window.addEventListener('online', this.handleOnline);
+    this.scheduleUpload(UPLOAD_INTERVAL_MS);
+  }
+
+  public stop(): void {
+    this.slideShown(null);
+    window.removeEventListener('online', this.handleOnline);
+    if (this.uploadTimerId) clearTimeout(this.uploadTimerId);
+    this.uploadTimerId = null;
+  }
+
+  /** The carousel moved to a new slide (null: the carousel is gone). */
+  public slideShown(info: ShownSlide | null): void {
+    this.closeImpression(null);
+    const now = Date.now();
+    this.slide = info ? { info, shownAt: now } : null;
+    if (info && !this.interruption) this.openedAt = now;
+  }
+
+  /** Something took the slide off screen (null: the carousel is visible again). */
+  public setInterruption(reason: ContentViewInterruption | null): void {
+    if (reason === this.interruption) return;
+    this.interruption = reason;
+    if (reason) {
+      this.closeImpression(reason);
+    } else if (this.slide && this.openedAt === null) {
+      this.openedAt = Date.now();
+    }
+  }
+
+  /** Upload everything buffered now. Never throws. */
+  public async upload(): Promise<void> {
+    if (this.uploading) return;
+    this.uploading = true;
+    try {
+      await this.prune();
+      if (!credentialService.hasCredentials() || !navigator.onLine) return;
+
+      const keys = (await store.keys()).sort();
+      for (let i = 0; i < keys.length; i += UPLOAD_BATCH_SIZE) {
+        const batchKeys = keys.slice(i, i + UPLOAD_BATCH_SIZE);
+        const events = (
+          await Promise.all(batchKeys.map((key) => store.getItem<ContentViewAnalyticsRequest>(key)))
+        ).filter((event): event is ContentViewAnalyticsRequest => event !== null);
+
+        const res = await apiClient.sendContentViews(events);
+        if (!res.success) {
+          // A malformed batch would block the queue forever; anything else is retried later
+          if (res.statusCode !== 400 && res.statusCode !== 422) {
+            this.uploadBackoffMs = Math.min(this.uploadBackoffMs * 2, MAX_UPLOAD_BACKOFF_MS);
+            logger.warn('[ProofOfPlay] Upload failed, will retry', {
+              error: res.error,
+              retryInMs: this.uploadBackoffMs,
+            });
+            return;
+          }
+          logger.error('[ProofOfPlay] Server rejected impressions, dropping batch', {
+            statusCode: res.statusCode,
+            count: batchKeys.length,
+          });
+        }
+        await Promise.all(batchKeys.map((key) => store.removeItem(key)));
+        this.uploadBackoffMs = UPLOAD_INTERVAL_MS;
+        if (res.success) logger.info('[ProofOfPlay] Impressions uploaded', { count: events.length });
+      }
+    } catch (err) {
+      logger.error('[ProofOfPlay] Upload error', { error: String(err) });
+    } finally {
+      this.uploading = false;
+    }
+  }
+
+  private handleOnline = (): void => {
+    this.uploadBackoffMs = UPLOAD_INTERVAL_MS;
+    void this.upload();
+  };
+
+  private scheduleUpload(delayMs: number): void {
+    this.uploadTimerId = setTimeout(() => {
+      void this.upload().finally(() => {
+        if (this.uploadTimerId) this.scheduleUpload(this.uploadBackoffMs);
+      });
+    }, delayMs);
+  }
+
+  /** End the impression in progress and buffer it. */
+  private closeImpression(interruptedBy: ContentViewInterruption | null): void {
+    const openedAt = this.openedAt;
+    this.openedAt = null;
+    if (openedAt === null || !this.slide) return;
+
+    const endedAt = Date.now();
+    const duration = endedAt - openedAt;
+    if (duration < MIN_IMPRESSION_MS) return;
+
+    const { info, shownAt } = this.slide;
+    // A slide resumed after an alert was only due for the rest of its slot
+    const expectedDuration =
+      info.expectedMs === null ? null : Math.max(0, info.expectedMs - (openedAt - shownAt));
+    const key = impressionKey(openedAt);
+    const event: ContentViewAnalyticsRequest = {
+      type: 'content_view',
+      timestamp: new Date(endedAt).toISOString(),
+      data: {
+        contentId: info.contentId,
+        contentType: info.contentType,
+        startTime: new Date(openedAt).toISOString(),
+        endTime: new Date(endedAt).toISOString(),
+        duration,
+        viewComplete:
+          interruptedBy === null &&
+          (expectedDuration === null || duration >= expectedDuration - COMPLETE_TOLERANCE_MS),
+        impressionId: key,
+        expectedDuration,
+        interruptedBy,
+      },
+    };
+    store.setItem(key, event).catch((err: unknown) => {
+      logger.error('[ProofOfPlay] Could not store impression', { error: String(err) });
+    });
+  }
+
+  /** Drop the oldest impressions beyond the storage cap. */
+  private async prune(): Promise<void> {
+    const keys = await store.keys();
+    if (keys.length <= MAX_STORED_IMPRESSIONS) return;
+    const excess = keys.sort().slice(0, keys.length - MAX_STORED_IMPRESSIONS);
+    await Promise.all(excess.map((key) => store.removeItem(key)));
+    logger.warn('[ProofOfPlay] Impression buffer full, dropped oldest', { count: excess.length });
+  }
+}
+
+const proofOfPlayService = new ProofOfPlayService();
+export default proofOfPlayService;
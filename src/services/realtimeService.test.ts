@@ -0,0 +1,82 @@
+/**
+ * Realtime service tests — pairing heartbeat acks with the heartbeats they acknowledge.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../utils/logger', () => ({
+  default: { info: vi.fn(), debug: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+vi.mock('../config/environment', () => ({
+  realtimeUrl: 'http://realtime.test',
+  heartbeatInterval: 30_000,
+  heartbeatFastInterval: 5_000,
+}));
+
+vi.mock('./credentialService', () => ({
+  default: {
+    getCredentials: () => ({ screenId: 'screen-1', apiKey: 'key', masjidId: 'masjid-1' }),
+    getMasjidId: () => 'masjid-1',
+  },
+}));
+
+const socketHandlers = new Map<string, (data: unknown) => void>();
+const socketEmit = vi.fn();
+
+vi.mock('socket.io-client', () => ({
+  io: () => ({
+    on: (event: string, handler: (data: unknown) => void) => socketHandlers.set(event, handler),
+    emit: (...args: unknown[]) => socketEmit(...args),
+    disconnect: vi.fn(),
+  }),
+}));
+
+/** Fresh singleton per test, connected to the fake socket. */
+async function loadService() {
+  vi.resetModules();
+  const service = (await import('./realtimeService')).default;
+  service.connect();
+  return service;
+}
+
+describe('realtimeService heartbeat acks', () => {
+  beforeEach(() => {
+    socketHandlers.clear();
+    socketEmit.mockReset();
+  });
+
+  it('pairs an ack with the heartbeat whose timestamp it echoes', async () => {
+    const service = await loadService();
+    const onAck = vi.fn();
+    service.on('heartbeat:ack', onAck);
+    service.sendHeartbeat({}, Date.parse('2026-01-01T00:00:00.000Z'));
+    service.sendHeartbeat({}, Date.parse('2026-01-01T00:00:30.000Z'));
+
+    socketHandlers.get('display:heartbeat:ack')!({
+      timestamp: '2026-01-01T00:00:00.000Z',
+      serverTime: '2026-01-01T00:00:00.100Z',
+    });
+    expect(onAck).toHaveBeenCalledWith(expect.objectContaining({ heartbeatTimestamp: '2026-01-01T00:00:00.000Z' }));
+  });
+
+  it('pairs an ack that does not echo the timestamp with the latest heartbeat', async () => {
+    const service = await loadService();
+    const onAck = vi.fn();
+    service.on('heartbeat:ack', onAck);
+    service.sendHeartbeat({}, Date.parse('2026-01-01T00:00:00.000Z'));
+    service.sendHeartbeat({}, Date.parse('2026-01-01T00:00:30.000Z'));
+
+    // Documented ack shape: the server's own timestamp and a numeric serverTime
+    const ack = socketHandlers.get('display:heartbeat:ack')!;
+    ack({ timestamp: '2026-01-01T00:00:31.000Z', serverTime: 1767225631000 });
+    ack({ timestamp: '2026-01-01T00:00:32.000Z', serverTime: 1767225632000 });
+    ack({ timestamp: '2026-01-01T00:00:33.000Z', serverTime: 1767225633000 });
+
+    expect(onAck.mock.calls.map(([data]) => data.heartbeatTimestamp)).toEqual([
+      '2026-01-01T00:00:30.000Z',
+      '2026-01-01T00:00:00.000Z',
+      null,
+    ]);
+  });
+});
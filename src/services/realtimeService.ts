@@ -2,8 +2,8 @@
  * Realtime Service (Consolidated)
  *
  * Single WebSocket service using Socket.io for real-time communication.
- * Handles: emergency alerts, orientation changes, remote commands,
- * content update notifications, and heartbeat.
+ * Handles: emergency alerts (and their shown / cleared receipts), orientation
+ * changes, remote commands, content update notifications, and heartbeat.
  *
  * Uses server contract: screen:command / screen:command:${type}, display:command:ack.
  * Single-socket guard and manual reconnection to avoid multiple connections.
@@ -20,10 +20,29 @@ import credentialService from './credentialService';
 import { realtimeUrl, heartbeatInterval, heartbeatFastInterval } from '../config/environment';
 import logger from '../utils/logger';
 import { collectMetrics } from '../utils/metricsCollector';
-import type { HeartbeatPayload, HeartbeatAck } from '../types/realtime';
+import { clockSampleFromAck, estimateClockOffset, type ClockSample } from '../utils/serverClock';
+import type {
+  HeartbeatPayload,
+  HeartbeatAck,
+  MatchedHeartbeatAck,
+  AlertShownReceipt,
+  AlertClearedReceipt,
+} from '../types/realtime';
 
 type EventCallback<T = unknown> = (data: T) => void;
 
+/**
+ * Supplies extra heartbeat fields (e.g. effective buzzer settings) on each tick.
+ * Gets the heartbeat's `timestamp`; the `heartbeat:ack` event carries it back
+ * as `heartbeatTimestamp`.
+ */
+export type HeartbeatProvider = (heartbeat: { timestamp: string }) => Partial<HeartbeatPayload>;
+
+/** Heartbeats remembered while waiting for their ack */
+const MAX_PENDING_HEARTBEATS = 4;
+/** Clock offset samples the estimate is taken from */
+const MAX_CLOCK_SAMPLES = 8;
+
 /** Command types the server may send (screen:command:${type}) */
 const COMMAND_TYPES = [
   'RESTART_APP',
@@ -34,6 +53,8 @@ const COMMAND_TYPES = [
   'DISPLAY_MESSAGE',
   'REBOOT_DEVICE',
   'CAPTURE_SCREENSHOT',
+  'FETCH_LOGS',
+  'SET_LOG_LEVEL',
   'UPDATE_SETTINGS',
   'FORCE_UPDATE',
   'FACTORY_RESET',
@@ -85,6 +106,18 @@ class RealtimeService {
    */
   private currentContentProvider: (() => string | undefined) | null = null;
 
+  /** Extra heartbeat fields by name. Set via registerHeartbeatProvider(). */
+  private heartbeatProviders = new Map<string, HeartbeatProvider>();
+
+  /** Device time each unacknowledged heartbeat was sent, by its `timestamp` */
+  private heartbeatSentAt = new Map<string, number>();
+
+  /** Recent clock offset samples from heartbeat acks (newest last) */
+  private clockSamples: ClockSample[] = [];
+
+  /** Server clock minus device clock (ms); kept across disconnects */
+  private clockOffsetMs = 0;
+
   /** Connect to the realtime server. No-op if a socket already exists (connecting or connected). */
   connect(): void {
     if (this.socket !== null) {
@@ -158,9 +191,34 @@ class RealtimeService {
     this.currentContentProvider = provider;
   }
 
+  /**
+   * Register a named provider whose fields are merged into every heartbeat.
+   * Re-registering a name replaces it. Returns an unregister function.
+   */
+  registerHeartbeatProvider(name: string, provider: HeartbeatProvider): () => void {
+    this.heartbeatProviders.set(name, provider);
+    return () => {
+      if (this.heartbeatProviders.get(name) === provider) this.heartbeatProviders.delete(name);
+    };
+  }
+
+  /** Merge all provider fields; a throwing provider is skipped, not fatal. */
+  private collectProviderFields(timestamp: string): Partial<HeartbeatPayload> {
+    const fields: Partial<HeartbeatPayload> = {};
+    this.heartbeatProviders.forEach((provider, name) => {
+      try {
+        Object.assign(fields, provider({ timestamp }));
+      } catch (err) {
+        logger.warn('[Realtime] Heartbeat provider failed', { name, error: String(err) });
+      }
+    });
+    return fields;
+  }
+
   /**
    * Acknowledge a command to the server.
-   * Emits display:command:ack with { commandId, commandType, success, error } per server contract.
+   * Emits display:command:ack with { commandId, commandType, success, error } per server contract,
+   * plus an optional `result` object for commands that produce output (e.g. CAPTURE_SCREENSHOT).
    * Decrements pendingAcks and reverts heartbeat to normal interval if no acks remain.
    */
   acknowledgeCommand(
@@ -168,12 +226,14 @@ class RealtimeService {
     success: boolean,
     error?: string,
     commandType?: string,
+    result?: Record<string, unknown>,
   ): void {
     this.socket?.emit('display:command:ack', {
       commandId,
       commandType: commandType ?? undefined,
       success,
       error: error ?? null,
+      ...(result ? { result } : {}),
     });
 
     this.pendingAcks = Math.max(0, this.pendingAcks - 1);
@@ -196,13 +256,66 @@ class RealtimeService {
   }
 
   /** Send a heartbeat with optional extra metrics merged in. */
-  sendHeartbeat(extra: Partial<HeartbeatPayload> = {}): void {
-    this.socket?.emit('display:heartbeat', {
-      timestamp: new Date().toISOString(),
+  sendHeartbeat(extra: Partial<HeartbeatPayload> = {}, sentAt: number = Date.now()): void {
+    if (!this.socket) return;
+    const timestamp = new Date(sentAt).toISOString();
+    this.heartbeatSentAt.set(timestamp, sentAt);
+    while (this.heartbeatSentAt.size > MAX_PENDING_HEARTBEATS) {
+      this.heartbeatSentAt.delete(this.heartbeatSentAt.keys().next().value as string);
+    }
+    this.socket.emit('display:heartbeat', {
+      timestamp,
       ...extra,
     });
   }
 
+  /** Server clock minus device clock (ms), from heartbeat round trips; 0 until the first ack. */
+  getServerClockOffset(): number {
+    return this.clockOffsetMs;
+  }
+
+  /** Current server time (ms since epoch), estimated from the device clock. */
+  serverNow(): number {
+    return Date.now() + this.clockOffsetMs;
+  }
+
+  /**
+   * Pair a heartbeat ack with the heartbeat it acknowledges and take a clock
+   * offset sample from it. An ack that echoes the heartbeat's `timestamp` is
+   * paired with that heartbeat; one that does not, with the latest heartbeat.
+   * Returns the paired heartbeat's `timestamp`, or null when none was pending.
+   */
+  private matchHeartbeatAck(ack: HeartbeatAck | undefined): string | null {
+    const receivedAt = Date.now();
+    const key =
+      ack?.timestamp && this.heartbeatSentAt.has(ack.timestamp)
+        ? ack.timestamp
+        : Array.from(this.heartbeatSentAt.keys()).pop();
+    if (!key) return null;
+    const sentAt = this.heartbeatSentAt.get(key)!;
+    this.heartbeatSentAt.delete(key);
+
+    const sample = clockSampleFromAck(sentAt, receivedAt, ack?.serverTime);
+    if (sample) {
+      this.clockSamples = [...this.clockSamples, sample].slice(-MAX_CLOCK_SAMPLES);
+      this.clockOffsetMs = estimateClockOffset(this.clockSamples);
+    }
+    return key;
+  }
+
+  /**
+   * Report that an emergency alert was rendered (display:alert:shown).
+   * Socket.io buffers the emit while reconnecting.
+   */
+  sendAlertShown(receipt: AlertShownReceipt): void {
+    this.socket?.emit('display:alert:shown', receipt);
+  }
+
+  /** Report that an emergency alert left the screen (display:alert:cleared). */
+  sendAlertCleared(receipt: AlertClearedReceipt): void {
+    this.socket?.emit('display:alert:cleared', receipt);
+  }
+
   /** Check connection status */
   get connected(): boolean {
     return this.isConnected;
@@ -242,7 +355,8 @@ class RealtimeService {
     try {
       const currentContentId = this.currentContentProvider?.();
       const metrics = await collectMetrics(currentContentId);
-      this.sendHeartbeat(metrics);
+      const sentAt = Date.now();
+      this.sendHeartbeat({ ...metrics, ...this.collectProviderFields(new Date(sentAt).toISOString()) }, sentAt);
     } catch (err) {
       // Always send at minimum a timestamp-only heartbeat even if metrics fail
       logger.warn('[Realtime] Metrics collection failed, sending minimal heartbeat', {
@@ -327,10 +441,15 @@ class RealtimeService {
       this.scheduleReconnect();
     });
 
-    // Server acknowledges the heartbeat — forward for RTT logging / debugging
+    // Server acknowledges the heartbeat — estimate the clock offset, forward for RTT logging / debugging
     this.socket.on('display:heartbeat:ack', (data: HeartbeatAck) => {
-      logger.debug('[Realtime] Heartbeat ack received', { serverTime: data?.serverTime });
-      this.emit('heartbeat:ack', data);
+      const heartbeatTimestamp = this.matchHeartbeatAck(data);
+      logger.debug('[Realtime] Heartbeat ack received', {
+        serverTime: data?.serverTime,
+        clockOffsetMs: this.clockOffsetMs,
+      });
+      const ack: MatchedHeartbeatAck = { ...data, heartbeatTimestamp };
+      this.emit('heartbeat:ack', ack);
     });
 
     // Emergency alerts
@@ -0,0 +1,83 @@
+/**
+ * Remote control service tests — boot confirmation after a self-update.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const platform = vi.hoisted(() => ({ isPi: true }));
+
+vi.mock('@/config/platform', () => ({
+  get isPiPlatform() {
+    return platform.isPi;
+  },
+}));
+
+vi.mock('@/utils/logger', () => ({
+  default: { info: vi.fn(), debug: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+const jsonResponse = (status: number, body: unknown) => ({ status, ok: status < 400, json: async () => body });
+
+/** Fresh singleton per test (boot is confirmed at most once per page load). */
+async function loadService() {
+  vi.resetModules();
+  return (await import('./remoteControlService')).default;
+}
+
+describe('remoteControlService.confirmBoot', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    platform.isPi = true;
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts boot-ok once with the app version', async () => {
+    const service = await loadService();
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { success: true, confirmed: true }));
+    fetchMock.mockResolvedValueOnce(jsonResponse(204, null));
+
+    await service.confirmBoot();
+    await service.confirmBoot();
+
+    const bootCalls = fetchMock.mock.calls.filter(([url]) => String(url).endsWith('/internal/boot-ok'));
+    expect(bootCalls).toHaveLength(1);
+    expect(bootCalls[0][1]).toMatchObject({ method: 'POST' });
+  });
+
+  it('surfaces a rollback from before this boot with its reason', async () => {
+    const service = await loadService();
+    const onStatus = vi.fn();
+    service.setOnUpdateStatus(onStatus);
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { success: true, confirmed: false }));
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse(200, {
+        phase: 'rolled_back',
+        message: 'Rolled back to v1.4.0',
+        reason: 'v1.5.0 did not confirm boot within 5 min',
+      }),
+    );
+
+    await service.confirmBoot();
+
+    expect(onStatus).toHaveBeenCalledWith(
+      'rolled_back',
+      'Rolled back to v1.4.0: v1.5.0 did not confirm boot within 5 min',
+      null,
+    );
+  });
+
+  it('does nothing off the Pi', async () => {
+    platform.isPi = false;
+    const service = await loadService();
+
+    await service.confirmBoot();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -4,6 +4,8 @@
  * Handles remote commands for device management.
  * Commands are received via heartbeat polling or WebSocket.
  * Supports delayed restart/reload via payload.countdown (seconds); notifies UI via onScheduledRestart.
+ * DISPLAY_MESSAGE payloads are parsed here and handed to Redux via onDisplayMessage.
+ * FETCH_LOGS / SET_LOG_LEVEL go to logStoreService (persistent log).
  */
 
 import logger from '../utils/logger';
@@ -12,7 +14,12 @@ import apiClient from '../api/apiClient';
 import { purgeApiServiceWorkerCaches } from '../utils/purgeApiServiceWorkerCaches';
 import storageService from './storageService';
 import credentialService from './credentialService';
+import screenshotService from './screenshotService';
+import logStoreService from './logStoreService';
+import mediaCacheService from './mediaCacheService';
+import updateChannelService from './updateChannelService';
 import { isPiPlatform } from '../config/platform';
+import { parseDisplayMessageCommand, type DisplayMessageCommand } from '../utils/displayMessage';
 import type { RemoteCommand as ApiRemoteCommand } from '../api/models';
 
 export interface RemoteCommand {
@@ -25,14 +32,27 @@ export interface RemoteCommand {
 /** Callback when a delayed restart/reload is scheduled (so UI can show countdown). */
 export type OnScheduledRestart = (delaySeconds: number, label: string) => void;
 
-/** Phase from /internal/update-status. */
+/** Callback to apply a parsed DISPLAY_MESSAGE command (show / dismiss / clear) to Redux. */
+export type OnDisplayMessage = (command: DisplayMessageCommand) => void;
+
+/**
+ * Phase from /internal/update-status. `failed` = release rejected (checksum /
+ * signature) before install; `rolled_back` = new release never confirmed boot
+ * and the previous one was restored. Both come with a reason.
+ */
 export type DeviceUpdatePhase =
   | 'checking'
   | 'no_update'
   | 'downloading'
+  | 'verifying'
   | 'installing'
   | 'countdown'
-  | 'done';
+  | 'done'
+  | 'failed'
+  | 'rolled_back';
+
+/** Update flow phases after which polling stops. */
+const FINAL_UPDATE_PHASES: ReadonlySet<DeviceUpdatePhase> = new Set(['no_update', 'done', 'failed', 'rolled_back']);
 
 /** Callback to push device update status to Redux (phase, message, restartAt ms). */
 export type OnUpdateStatus = (
@@ -46,12 +66,36 @@ export interface RemoteCommandResponse {
   success: boolean;
   message?: string;
   error?: string;
+  /** Command output sent back in the ack (e.g. screenshot upload details) */
+  result?: Record<string, unknown>;
   timestamp: string;
 }
 
 const INTERNAL_BASE = 'http://localhost:3001';
 const UPDATE_STATUS_POLL_MS = 1_500;
 
+/** Injected at build time by Vite (from package.json). */
+const APP_VERSION = import.meta.env.VITE_APP_VERSION;
+
+interface UpdateStatusBody {
+  phase?: string;
+  message?: string;
+  reason?: string;
+  restartAt?: number;
+  /** Release the update channel resolved to */
+  targetVersion?: string;
+  /** Version a failed / rolled back update was for */
+  version?: string;
+}
+
+/** Status message with the rejection / rollback reason appended, for the footer banner. */
+function updateStatusMessage(data: UpdateStatusBody): string {
+  const message = typeof data.message === 'string' ? data.message : '';
+  const reason = typeof data.reason === 'string' && data.reason ? data.reason : '';
+  if (!reason) return message;
+  return message ? `${message}: ${reason}` : reason;
+}
+
 class RemoteControlService {
   private commandListeners = new Set<(cmd: RemoteCommand) => void>();
   private processedIds = new Set<string>();
@@ -60,8 +104,10 @@ class RemoteControlService {
   private onScheduledRestart: OnScheduledRestart | null = null;
   private scheduledRestartTimeoutId: ReturnType<typeof setTimeout> | null = null;
   private onUpdateStatus: OnUpdateStatus | null = null;
+  private onDisplayMessage: OnDisplayMessage | null = null;
   private updatePollIntervalId: ReturnType<typeof setInterval> | null = null;
   private isUpdateInProgress = false;
+  private bootConfirmed = false;
 
   /** Register callback to show on-screen countdown when a delayed restart/reload is scheduled. */
   public setOnScheduledRestart(cb: OnScheduledRestart | null): void {
@@ -73,6 +119,45 @@ class RemoteControlService {
     this.onUpdateStatus = cb;
   }
 
+  /** Register callback that queues / dismisses on-screen DISPLAY_MESSAGE text. */
+  public setOnDisplayMessage(cb: OnDisplayMessage | null): void {
+    this.onDisplayMessage = cb;
+  }
+
+  /**
+   * Tell the deploy server this build rendered a screen (Pi only, once per load).
+   * After a self-update the server rolls back unless this arrives in time. Also
+   * surfaces a rollback / rejected update from before this boot in the footer.
+   */
+  public async confirmBoot(): Promise<void> {
+    if (!isPiPlatform || this.bootConfirmed) return;
+    this.bootConfirmed = true;
+    try {
+      const res = await fetch(`${INTERNAL_BASE}/internal/boot-ok`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version: APP_VERSION }),
+      });
+      const body = (await res.json()) as { confirmed?: boolean };
+      if (body.confirmed) logger.info('[RemoteControl] Confirmed boot after update', { version: APP_VERSION });
+    } catch (err) {
+      logger.debug('[RemoteControl] Boot confirmation unavailable', { error: String(err) });
+      return;
+    }
+    if (this.isUpdateInProgress) return;
+    try {
+      const res = await fetch(`${INTERNAL_BASE}/internal/update-status`);
+      if (res.status !== 200) return;
+      const data = (await res.json()) as UpdateStatusBody;
+      if (data.phase === 'rolled_back' || data.phase === 'failed') {
+        logger.warn('[RemoteControl] Last update did not complete', { phase: data.phase, reason: data.reason });
+        this.notifyUpdateStatus(data.phase, updateStatusMessage(data), null);
+      }
+    } catch {
+      // ignore
+    }
+  }
+
   /** Stop polling /internal/update-status (e.g. on logout). */
   public clearDeviceUpdatePolling(): void {
     this.stopUpdatePolling();
@@ -80,7 +165,7 @@ class RemoteControlService {
 
   /**
    * Trigger an update check. Used by daily scheduler and FORCE_UPDATE command.
-   * Pi: POSTs to /internal/trigger-update (runs update-from-github.sh).
+   * Pi: POSTs to /internal/trigger-update with the update channel (runs update-from-github.sh).
    * Non-Pi (laptop, hosted): Performs a cache-busting hard reload to fetch fresh content,
    * equivalent to Cmd+Shift+R / Ctrl+Shift+R.
    * Re-entry guard: returns immediately if an update flow is already running.
@@ -132,7 +217,11 @@ class RemoteControlService {
   private async triggerDeviceUpdateAndPoll(): Promise<void> {
     this.notifyUpdateStatus('checking', 'Checking for update…', null);
     try {
-      const res = await fetch(`${INTERNAL_BASE}/internal/trigger-update`, { method: 'POST' });
+      const res = await fetch(`${INTERNAL_BASE}/internal/trigger-update`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updateChannelService.triggerBody()),
+      });
       if (res.status !== 202) {
         this.notifyUpdateStatus('no_update', 'Up to date', null);
         this.isUpdateInProgress = false;
@@ -148,12 +237,13 @@ class RemoteControlService {
       try {
         const res = await fetch(`${INTERNAL_BASE}/internal/update-status`);
         if (res.status === 204 || res.status === 404) return;
-        const data = (await res.json()) as { phase?: string; message?: string; restartAt?: number };
+        const data = (await res.json()) as UpdateStatusBody;
         const phase = (data.phase ?? '') as DeviceUpdatePhase;
-        const message = typeof data.message === 'string' ? data.message : '';
         const restartAt = typeof data.restartAt === 'number' ? data.restartAt : null;
-        this.notifyUpdateStatus(phase, message, restartAt);
-        if (phase === 'no_update' || phase === 'done') {
+        updateChannelService.setResolvedVersion(data.targetVersion);
+        updateChannelService.setUpdateOutcome(phase, data.version ?? data.targetVersion, updateStatusMessage(data));
+        this.notifyUpdateStatus(phase, updateStatusMessage(data), restartAt);
+        if (FINAL_UPDATE_PHASES.has(phase)) {
           this.stopUpdatePolling();
         }
       } catch {
@@ -174,7 +264,11 @@ class RemoteControlService {
     }
   }
 
-  /** Handle a command from heartbeat or WebSocket */
+  /**
+   * Handle a command from heartbeat or WebSocket.
+   * Every outcome (including duplicate / cooldown / failure) is acknowledged here so the
+   * portal sees failure details and realtimeService's pending-ack count always drains.
+   */
   public async handleCommand(cmd: RemoteCommand | ApiRemoteCommand): Promise<RemoteCommandResponse> {
     const commandId = ('commandId' in cmd ? cmd.commandId : undefined) || `cmd-${Date.now()}`;
     const raw = cmd as { type?: string; command?: string };
@@ -184,18 +278,21 @@ class RemoteControlService {
 
     if (!type) {
       logger.warn('[RemoteControl] Command missing type/command', { commandId });
-      return { commandId, success: false, error: 'Missing command type', timestamp };
+      return this.acknowledge({ commandId, success: false, error: 'Missing command type', timestamp });
     }
 
     // Deduplicate
     if (this.processedIds.has(commandId)) {
-      return { commandId, success: true, message: 'Already processed', timestamp };
+      return this.acknowledge({ commandId, success: true, message: 'Already processed', timestamp }, type);
     }
 
     // Cooldown check
     const now = Date.now();
     if (this.lastCommandTimestamp[type] && now - this.lastCommandTimestamp[type] < this.cooldownMs) {
-      return { commandId, success: false, message: 'Cooldown active', timestamp };
+      return this.acknowledge(
+        { commandId, success: false, message: 'Cooldown active', error: 'Cooldown active', timestamp },
+        type,
+      );
     }
 
     this.processedIds.add(commandId);
@@ -207,22 +304,36 @@ class RemoteControlService {
     logger.info('[RemoteControl] Executing command', { type, commandId });
 
     try {
-      await this.executeCommand(type, payload);
+      const result = await this.executeCommand(type, payload, commandId);
       this.notifyListeners({ type, payload, timestamp, commandId });
-
-      // Acknowledge to backend
-      try {
-        realtimeService.acknowledgeCommand(commandId, true);
-      } catch { /* best effort */ }
-
-      return { commandId, success: true, timestamp: new Date().toISOString() };
+      return this.acknowledge(
+        { commandId, success: true, result: result ?? undefined, timestamp: new Date().toISOString() },
+        type,
+      );
     } catch (err) {
       const errMsg = err instanceof Error ? err.message : String(err);
       logger.error('[RemoteControl] Command failed', { type, error: errMsg });
-      return { commandId, success: false, error: errMsg, timestamp: new Date().toISOString() };
+      return this.acknowledge(
+        { commandId, success: false, error: errMsg, timestamp: new Date().toISOString() },
+        type,
+      );
     }
   }
 
+  /** Send display:command:ack for a response (best effort) and return it. */
+  private acknowledge(response: RemoteCommandResponse, type?: string): RemoteCommandResponse {
+    try {
+      realtimeService.acknowledgeCommand(
+        response.commandId,
+        response.success,
+        response.error,
+        type,
+        response.result,
+      );
+    } catch { /* best effort */ }
+    return response;
+  }
+
   /** Subscribe to incoming commands */
   public onCommand(cb: (cmd: RemoteCommand) => void): () => void {
     this.commandListeners.add(cb);
@@ -332,7 +443,14 @@ class RemoteControlService {
     }
   }
 
-  private async executeCommand(type: string, payload?: unknown): Promise<void> {
+  /**
+   * Run a command. Resolves with optional output for the ack `result`; throws to report failure.
+   */
+  private async executeCommand(
+    type: string,
+    payload: unknown,
+    commandId: string,
+  ): Promise<Record<string, unknown> | void> {
     const delaySeconds = this.getDelaySeconds(payload);
 
     switch (type) {
@@ -351,6 +469,7 @@ class RemoteControlService {
       case 'CLEAR_CACHE':
         await purgeApiServiceWorkerCaches();
         await apiClient.clearCache();
+        await mediaCacheService.clear();
         logger.info('[RemoteControl] Display content cache cleared; refetch is triggered by middleware');
         break;
       case 'UPDATE_ORIENTATION':
@@ -364,17 +483,39 @@ class RemoteControlService {
         // Full content/settings refetch is dispatched by realtimeMiddleware (WebSocket + heartbeat).
         logger.info('[RemoteControl] UPDATE_SETTINGS: refetch triggered by middleware');
         break;
-      case 'DISPLAY_MESSAGE':
-        // No UI for remote display message in kiosk; acknowledge only.
-        logger.info('[RemoteControl] DISPLAY_MESSAGE received (no-op)', { payload });
-        break;
+      case 'DISPLAY_MESSAGE': {
+        const command = parseDisplayMessageCommand(payload);
+        if (!this.onDisplayMessage) throw new Error('Display message handler not registered');
+        this.onDisplayMessage(command);
+        logger.info('[RemoteControl] DISPLAY_MESSAGE applied', { action: command.action });
+        if (command.action === 'show') {
+          const { id, position, expiresAt } = command.message;
+          return { action: command.action, id, position, expiresAt };
+        }
+        return command.action === 'dismiss' ? { ...command } : { action: command.action };
+      }
       case 'REBOOT_DEVICE':
         logger.warn('[RemoteControl] REBOOT_DEVICE not supported in browser');
         break;
-      case 'CAPTURE_SCREENSHOT':
-        logger.info('[RemoteControl] CAPTURE_SCREENSHOT not implemented');
-        break;
+      case 'CAPTURE_SCREENSHOT': {
+        const shot = await screenshotService.captureAndUpload(commandId);
+        logger.info('[RemoteControl] CAPTURE_SCREENSHOT uploaded', { source: shot.source, bytes: shot.bytes });
+        return { ...shot };
+      }
+      case 'FETCH_LOGS': {
+        const bundle = await logStoreService.fetchAndUpload(commandId, payload);
+        logger.info('[RemoteControl] FETCH_LOGS uploaded', { entries: bundle.entries, bytes: bundle.bytes });
+        return { ...bundle };
+      }
+      case 'SET_LOG_LEVEL': {
+        const { level, expiresAt } = logStoreService.applyLogLevelCommand(payload);
+        logger.info('[RemoteControl] SET_LOG_LEVEL applied', { level: level ?? 'default', expiresAt });
+        return { level: level ?? 'default', expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null };
+      }
       case 'FORCE_UPDATE':
+        if (updateChannelService.applyCommandPayload(payload)) {
+          logger.info('[RemoteControl] FORCE_UPDATE: update channel set', { ...updateChannelService.getSettings() });
+        }
         logger.info('[RemoteControl] FORCE_UPDATE: triggering update check');
         this.triggerUpdateCheck();
         break;
@@ -0,0 +1,124 @@
+/**
+ * Screenshot service tests.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import screenshotService from './screenshotService';
+
+const platform = vi.hoisted(() => ({ isPi: true }));
+const mockUploadScreenshot = vi.fn();
+const mockRasterise = vi.fn();
+
+vi.mock('@/config/platform', () => ({
+  get isPiPlatform() {
+    return platform.isPi;
+  },
+}));
+
+vi.mock('@/api/apiClient', () => ({
+  default: {
+    uploadScreenshot: (...args: unknown[]) => mockUploadScreenshot(...args),
+  },
+}));
+
+vi.mock('@/utils/domRasterise', () => ({
+  rasteriseDocument: () => mockRasterise(),
+}));
+
+vi.mock('@/utils/logger', () => ({
+  default: { info: vi.fn(), debug: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+const pngBlob = new Blob([new Uint8Array([137, 80, 78, 71])], { type: 'image/png' });
+const jpegBlob = new Blob([new Uint8Array([255, 216, 255])], { type: 'image/jpeg' });
+
+describe('screenshotService', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    platform.isPi = true;
+    vi.stubGlobal('fetch', fetchMock);
+    mockUploadScreenshot.mockResolvedValue({ success: true, data: { success: true, url: 'https://cdn/x.png' } });
+    mockRasterise.mockResolvedValue({ blob: jpegBlob, width: 1280, height: 720 });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('uses the device capture on Pi and uploads it tagged with the commandId', async () => {
+    fetchMock.mockResolvedValue({ ok: true, status: 200, blob: async () => pngBlob });
+
+    const result = await screenshotService.captureAndUpload('cmd-1');
+
+    expect(fetchMock).toHaveBeenCalledWith('/internal/screenshot', expect.any(Object));
+    expect(mockRasterise).not.toHaveBeenCalled();
+    expect(mockUploadScreenshot).toHaveBeenCalledWith(
+      pngBlob,
+      expect.objectContaining({ commandId: 'cmd-1', source: 'device' }),
+    );
+    expect(result).toMatchObject({ source: 'device', bytes: pngBlob.size, url: 'https://cdn/x.png' });
+  });
+
+  it('falls back to DOM rasterise when the device capture fails', async () => {
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 503,
+      json: async () => ({ error: 'No screen capture tool available' }),
+    });
+
+    const result = await screenshotService.captureAndUpload('cmd-2');
+
+    expect(mockRasterise).toHaveBeenCalled();
+    expect(result).toMatchObject({
+      source: 'dom',
+      width: 1280,
+      height: 720,
+      deviceError: 'No screen capture tool available',
+    });
+  });
+
+  it('skips the device route off-Pi', async () => {
+    platform.isPi = false;
+
+    const result = await screenshotService.captureAndUpload('cmd-3');
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.source).toBe('dom');
+  });
+
+  it('throws with both causes when every capture path fails', async () => {
+    fetchMock.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    mockRasterise.mockRejectedValue(new Error('Canvas 2D context unavailable'));
+
+    await expect(screenshotService.captureAndUpload('cmd-4')).rejects.toThrow(
+      'Capture failed (device: connect ECONNREFUSED; dom: Canvas 2D context unavailable)',
+    );
+    expect(mockUploadScreenshot).not.toHaveBeenCalled();
+  });
+
+  it('shares one capture between concurrent commands but uploads it once per commandId', async () => {
+    fetchMock.mockResolvedValue({ ok: true, status: 200, blob: async () => pngBlob });
+
+    const [first, second] = await Promise.all([
+      screenshotService.captureAndUpload('cmd-6'),
+      screenshotService.captureAndUpload('cmd-7'),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(mockUploadScreenshot).toHaveBeenCalledTimes(2);
+    expect(mockUploadScreenshot.mock.calls.map(([, meta]) => meta.commandId)).toEqual(['cmd-6', 'cmd-7']);
+    expect(first.source).toBe('device');
+    expect(second.source).toBe('device');
+  });
+
+  it('throws when the upload is rejected', async () => {
+    platform.isPi = false;
+    mockUploadScreenshot.mockResolvedValue({ success: false, error: 'Request failed with status code 413' });
+
+    await expect(screenshotService.captureAndUpload('cmd-5')).rejects.toThrow(
+      'Upload failed: Request failed with status code 413',
+    );
+  });
+});
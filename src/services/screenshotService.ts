@@ -0,0 +1,141 @@
+/**
+ * Screenshot Service
+ *
+ * Captures what the screen is showing for the CAPTURE_SCREENSHOT remote command and
+ * uploads it tagged with the commandId.
+ *
+ * Capture order:
+ * 1. Pi: GET /internal/screenshot on the deploy server (real framebuffer / X display grab —
+ *    shows exactly what the TV shows, including video and anything outside the page).
+ * 2. Fallback (non-Pi, or no capture tool on the device): in-browser DOM rasterise.
+ */
+
+import apiClient from '../api/apiClient';
+import { isPiPlatform } from '../config/platform';
+import logger from '../utils/logger';
+import { rasteriseDocument } from '../utils/domRasterise';
+
+export interface ScreenshotResult {
+  source: 'device' | 'dom';
+  bytes: number;
+  width?: number;
+  height?: number;
+  /** URL returned by the portal after upload, when provided */
+  url?: string;
+  /** Why the device capture was skipped (only set when falling back to DOM on Pi) */
+  deviceError?: string;
+}
+
+interface CapturedImage {
+  source: ScreenshotResult['source'];
+  blob: Blob;
+  width?: number;
+  height?: number;
+}
+
+interface Capture {
+  image: CapturedImage;
+  deviceError?: string;
+  capturedAt: string;
+}
+
+const DEVICE_CAPTURE_TIMEOUT_MS = 15_000;
+
+class ScreenshotService {
+  private inFlight: Promise<Capture> | null = null;
+
+  /**
+   * Capture and upload a screenshot. Concurrent calls share a single capture so a burst of
+   * commands does not grab the framebuffer repeatedly, but each command uploads it tagged
+   * with its own commandId. Throws when capture or upload fails — the message is sent back
+   * to the portal in the command ack.
+   */
+  public async captureAndUpload(commandId: string): Promise<ScreenshotResult> {
+    const { image, deviceError, capturedAt } = await this.capture(commandId);
+
+    const upload = await apiClient.uploadScreenshot(image.blob, {
+      commandId,
+      source: image.source,
+      width: image.width,
+      height: image.height,
+      capturedAt,
+    });
+    if (!upload.success) {
+      throw new Error(`Upload failed: ${upload.error ?? 'unknown error'}`);
+    }
+
+    logger.info('[Screenshot] Uploaded', { commandId, source: image.source, bytes: image.blob.size });
+    return {
+      source: image.source,
+      bytes: image.blob.size,
+      width: image.width,
+      height: image.height,
+      url: upload.data?.url,
+      deviceError,
+    };
+  }
+
+  private capture(commandId: string): Promise<Capture> {
+    if (this.inFlight) {
+      logger.debug('[Screenshot] Capture already in progress, sharing image', { commandId });
+      return this.inFlight;
+    }
+    const promise = this.grab();
+    this.inFlight = promise;
+    void promise
+      .catch(() => undefined)
+      .finally(() => {
+        if (this.inFlight === promise) this.inFlight = null;
+      });
+    return promise;
+  }
+
+  private async grab(): Promise<Capture> {
+    let deviceError: string | undefined;
+    let image: CapturedImage | null = null;
+
+    if (isPiPlatform) {
+      try {
+        image = await this.captureFromDevice();
+      } catch (err) {
+        deviceError = err instanceof Error ? err.message : String(err);
+        logger.warn('[Screenshot] Device capture failed, falling back to DOM', { error: deviceError });
+      }
+    }
+
+    if (!image) {
+      try {
+        const raster = await rasteriseDocument();
+        image = { source: 'dom', ...raster };
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        throw new Error(deviceError ? `Capture failed (device: ${deviceError}; dom: ${msg})` : `Capture failed: ${msg}`);
+      }
+    }
+
+    return { image, deviceError, capturedAt: new Date().toISOString() };
+  }
+
+  /** Ask the deploy server to grab the physical display. */
+  private async captureFromDevice(): Promise<CapturedImage> {
+    const res = await fetch('/internal/screenshot', {
+      signal: AbortSignal.timeout(DEVICE_CAPTURE_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      let detail = `HTTP ${res.status}`;
+      try {
+        const body = (await res.json()) as { error?: string };
+        if (body?.error) detail = body.error;
+      } catch {
+        // non-JSON error body
+      }
+      throw new Error(detail);
+    }
+    const blob = await res.blob();
+    if (blob.size === 0) throw new Error('Empty image from device');
+    return { source: 'device', blob };
+  }
+}
+
+const screenshotService = new ScreenshotService();
+export default screenshotService;
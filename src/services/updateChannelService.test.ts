@@ -0,0 +1,79 @@
+/**
+ * Update channel service tests — portal vs FORCE_UPDATE precedence and persistence.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/utils/logger', () => ({
+  default: { info: vi.fn(), debug: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+/** Fresh singleton per test (state is read from localStorage on load). */
+async function loadService() {
+  vi.resetModules();
+  return (await import('./updateChannelService')).default;
+}
+
+describe('updateChannelService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('defaults to stable and reports the resolved target version', async () => {
+    const service = await loadService();
+    expect(service.heartbeatFields()).toEqual({ updateChannel: 'stable', updateTargetVersion: null });
+
+    service.setResolvedVersion('1.4.1');
+    expect(service.heartbeatFields()).toEqual({ updateChannel: 'stable', updateTargetVersion: '1.4.1' });
+    expect(service.triggerBody()).toEqual({ channel: 'stable' });
+  });
+
+  it('lets a FORCE_UPDATE pin outlive an unchanged portal block, and persists it', async () => {
+    const service = await loadService();
+    service.applyPortalSettings({ channel: 'beta' });
+    expect(service.applyCommandPayload({ channel: 'pinned', version: 'v1.4.0' })).toBe(true);
+
+    service.applyPortalSettings({ channel: 'beta' });
+    expect(service.triggerBody()).toEqual({ channel: 'pinned', version: '1.4.0' });
+
+    const reloaded = await loadService();
+    expect(reloaded.getSettings()).toEqual({ channel: 'pinned', pinnedVersion: '1.4.0', source: 'command' });
+    expect(reloaded.heartbeatFields().updateTargetVersion).toBe('1.4.0');
+  });
+
+  it('applies a changed portal block and falls back to stable when the portal drops it', async () => {
+    const service = await loadService();
+    service.applyCommandPayload({ channel: 'pinned', version: '1.4.0' });
+
+    service.applyPortalSettings({ channel: 'beta' });
+    expect(service.getSettings()).toMatchObject({ channel: 'beta', source: 'portal' });
+
+    service.applyPortalSettings(undefined);
+    expect(service.getSettings()).toMatchObject({ channel: 'stable', source: 'default' });
+  });
+
+  it('reports a refused pin as an error instead of a target until the pin changes', async () => {
+    const service = await loadService();
+    service.applyCommandPayload({ version: '1.0.1' });
+
+    service.setUpdateOutcome('failed', '1.0.1', 'Update rejected: pinned v1.0.1 predates checksummed releases');
+    expect(service.heartbeatFields()).toEqual({
+      updateChannel: 'pinned',
+      updateTargetVersion: null,
+      updatePinError: 'Update rejected: pinned v1.0.1 predates checksummed releases',
+    });
+    expect(service.triggerBody()).toEqual({ channel: 'pinned', version: '1.0.1' });
+
+    service.applyCommandPayload({ version: '1.4.0' });
+    expect(service.heartbeatFields()).toEqual({ updateChannel: 'pinned', updateTargetVersion: '1.4.0' });
+    // A failure for another version does not touch the new pin
+    service.setUpdateOutcome('failed', '1.0.1', 'Update not found');
+    expect(service.heartbeatFields().updatePinError).toBeUndefined();
+  });
+
+  it('ignores FORCE_UPDATE payloads without a channel', async () => {
+    const service = await loadService();
+    expect(service.applyCommandPayload({ countdown: 10 })).toBe(false);
+    expect(service.getSettings().channel).toBe('stable');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Update Channel Service
+ *
+ * Holds the device's self-update channel (stable / beta / pinned version) and
+ * persists it in localStorage so it survives reloads and updates. The latest
+ * instruction wins:
+ * - `displaySettings.updateChannel` from the portal (applied when the block
+ *   changes, so a settings refetch does not undo a command), or
+ * - a FORCE_UPDATE payload (`{ channel, version }`).
+ *
+ * The channel is sent with every update check (POST /internal/trigger-update)
+ * and reported in the heartbeat together with the target version. A pin the
+ * updater refused (not found, unverifiable, rolled back) is reported as an
+ * error instead of a target, until the pin changes or installs.
+ */
+
+import type { UpdateChannel, UpdateChannelSettings } from '../api/models';
+import type { HeartbeatPayload } from '../types/realtime';
+import logger from '../utils/logger';
+import { DEFAULT_UPDATE_CHANNEL, normaliseReleaseVersion, parseUpdateChannelSettings } from '../utils/updateChannel';
+
+const STORAGE_KEY = 'mc.update.channel';
+
+/** Where the current channel came from. */
+export type UpdateChannelSource = 'default' | 'portal' | 'command';
+
+interface StoredUpdateChannel extends UpdateChannelSettings {
+  source: UpdateChannelSource;
+  /** Last portal block applied (JSON), so an unchanged block is not re-applied */
+  portalKey: string | null;
+  /** Release the channel resolved to on the last check (stable / beta) */
+  resolvedVersion: string | null;
+  /** Why the last check could not install the pinned version */
+  pinError: string | null;
+}
+
+const INITIAL: StoredUpdateChannel = {
+  ...DEFAULT_UPDATE_CHANNEL,
+  source: 'default',
+  portalKey: null,
+  resolvedVersion: null,
+  pinError: null,
+};
+
+function readStored(): StoredUpdateChannel {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return INITIAL;
+    const parsed = JSON.parse(raw) as Partial<StoredUpdateChannel>;
+    const settings = parseUpdateChannelSettings(parsed) ?? DEFAULT_UPDATE_CHANNEL;
+    return {
+      ...settings,
+      source: parsed.source === 'portal' || parsed.source === 'command' ? parsed.source : 'default',
+      portalKey: typeof parsed.portalKey === 'string' ? parsed.portalKey : null,
+      resolvedVersion: normaliseReleaseVersion(parsed.resolvedVersion),
+      pinError: typeof parsed.pinError === 'string' ? parsed.pinError : null,
+    };
+  } catch {
+    return INITIAL;
+  }
+}
+
+class UpdateChannelService {
+  private state: StoredUpdateChannel = readStored();
+
+  public getSettings(): UpdateChannelSettings & { source: UpdateChannelSource } {
+    const { channel, pinnedVersion, source } = this.state;
+    return { channel, pinnedVersion, source };
+  }
+
+  /** Version the device is heading for: the pin (unless refused), or the last release the channel resolved to. */
+  public getTargetVersion(): string | null {
+    if (this.state.channel !== 'pinned') return this.state.resolvedVersion;
+    return this.state.pinError ? null : (this.state.pinnedVersion ?? null);
+  }
+
+  /** Apply `displaySettings.updateChannel` (raw block; missing = back to stable if the portal had set it). */
+  public applyPortalSettings(raw: unknown): void {
+    const settings = parseUpdateChannelSettings(raw);
+    const portalKey = JSON.stringify(settings);
+    if (portalKey === this.state.portalKey) return;
+
+    if (settings) {
+      this.set(settings, 'portal', portalKey);
+    } else if (this.state.source === 'portal') {
+      this.set(DEFAULT_UPDATE_CHANNEL, 'default', portalKey);
+    } else {
+      this.state = { ...this.state, portalKey };
+      this.persist();
+    }
+  }
+
+  /** Apply a channel / pinned version from a FORCE_UPDATE payload. False when the payload has none. */
+  public applyCommandPayload(payload: unknown): boolean {
+    const settings = parseUpdateChannelSettings(payload);
+    if (!settings) return false;
+    this.set(settings, 'command', this.state.portalKey);
+    return true;
+  }
+
+  /** Record the release the last update check resolved to (from /internal/update-status). */
+  public setResolvedVersion(version: unknown): void {
+    const resolved = normaliseReleaseVersion(version);
+    if (!resolved || resolved === this.state.resolvedVersion) return;
+    this.state = { ...this.state, resolvedVersion: resolved };
+    this.persist();
+  }
+
+  /**
+   * Record how an update check for the pinned version ended (from
+   * /internal/update-status): `failed` keeps the reason; installing it, or
+   * finding it already running, clears it.
+   */
+  public setUpdateOutcome(phase: string, version: unknown, reason: string): void {
+    const { channel, pinnedVersion, pinError } = this.state;
+    if (channel !== 'pinned' || !pinnedVersion || normaliseReleaseVersion(version) !== pinnedVersion) return;
+    let next = pinError;
+    if (phase === 'failed') next = reason || 'Update failed';
+    else if (phase === 'countdown' || phase === 'done' || phase === 'no_update') next = null;
+    if (next === pinError) return;
+    this.state = { ...this.state, pinError: next };
+    this.persist();
+    if (next) logger.warn('[UpdateChannel] Pinned version refused', { pinnedVersion, reason: next });
+  }
+
+  /** Body for POST /internal/trigger-update. */
+  public triggerBody(): { channel: UpdateChannel; version?: string } {
+    const { channel, pinnedVersion } = this.state;
+    return channel === 'pinned' && pinnedVersion ? { channel, version: pinnedVersion } : { channel };
+  }
+
+  public heartbeatFields(): Pick<HeartbeatPayload, 'updateChannel' | 'updateTargetVersion' | 'updatePinError'> {
+    const fields = { updateChannel: this.state.channel, updateTargetVersion: this.getTargetVersion() };
+    return this.state.channel === 'pinned' && this.state.pinError
+      ? { ...fields, updatePinError: this.state.pinError }
+      : fields;
+  }
+
+  private set(settings: UpdateChannelSettings, source: UpdateChannelSource, portalKey: string | null): void {
+    const changed =
+      settings.channel !== this.state.channel || (settings.pinnedVersion ?? null) !== (this.state.pinnedVersion ?? null);
+    this.state = {
+      channel: settings.channel,
+      pinnedVersion: settings.pinnedVersion ?? null,
+      source,
+      portalKey,
+      resolvedVersion: changed ? null : this.state.resolvedVersion,
+      pinError: changed ? null : this.state.pinError,
+    };
+    this.persist();
+    if (changed) {
+      logger.info('[UpdateChannel] Channel changed', {
+        channel: settings.channel,
+        pinnedVersion: settings.pinnedVersion ?? null,
+        source,
+      });
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    } catch {
+      // storage full / unavailable — keep in memory
+    }
+  }
+}
+
+const updateChannelService = new UpdateChannelService();
+export default updateChannelService;
@@ -0,0 +1,133 @@
+/**
+ * Watchdog service tests — liveness pings to the deploy server and incident reporting in the heartbeat.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../utils/logger', () => ({
+  default: { info: vi.fn(), debug: vi.fn(), error: vi.fn(), warn: vi.fn() },
+  getLogHistory: () => [
+    { timestamp: '2026-01-01T00:00:00.000Z', level: 'info', message: '[App] Transition complete' },
+    { timestamp: '2026-01-01T00:00:01.000Z', level: 'error', message: '[App] Unhandled error' },
+  ],
+}));
+
+vi.mock('../config/platform', () => ({ isPiPlatform: true }));
+
+vi.mock('../utils/purgeApiServiceWorkerCaches', () => ({ purgeApiServiceWorkerCaches: vi.fn() }));
+
+const fetchMock = vi.fn();
+
+function json(body: unknown) {
+  return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve(body) });
+}
+
+function pingBodies() {
+  return fetchMock.mock.calls
+    .filter(([url]) => url === '/internal/liveness')
+    .map(([, init]) => JSON.parse(init.body));
+}
+
+const incident = {
+  id: 'lx1-abc',
+  at: '2026-01-01T00:00:05.000Z',
+  reason: 'No frames painted for 61 s (phase display)',
+  action: 'reload',
+  phase: 'display',
+  logTail: [],
+};
+
+/** Fresh singleton per test. */
+async function loadService() {
+  vi.resetModules();
+  return (await import('./watchdogService')).default;
+}
+
+describe('watchdogService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => {
+      cb(0);
+      return 0;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('pings with a frame tick, the phase and the last log lines', async () => {
+    fetchMock.mockImplementation(() => json({ action: null, incidents: [] }));
+    const service = await loadService();
+    service.setPhase('display');
+    service.start();
+    await vi.advanceTimersByTimeAsync(10_000);
+    service.stop();
+
+    const [first, second] = pingBodies();
+    expect(first).toMatchObject({ phase: 'display', error: null });
+    expect(first.logTail).toEqual([
+      '2026-01-01T00:00:00.000Z [info] [App] Transition complete',
+      '2026-01-01T00:00:01.000Z [error] [App] Unhandled error',
+    ]);
+    expect(second.tick).toBeGreaterThan(first.tick);
+  });
+
+  it('adds the status page fields and the last errors', async () => {
+    fetchMock.mockImplementation(() => json({ action: null, incidents: [] }));
+    const service = await loadService();
+    service.setStatusProvider(() => ({
+      connected: true,
+      lastSyncAt: '2026-01-01T00:00:00.000Z',
+      playlist: [{ id: 'c1', title: 'Ramadan appeal', type: 'IMAGE' }],
+    }));
+    service.start();
+    await vi.advanceTimersByTimeAsync(0);
+    service.stop();
+
+    expect(pingBodies()[0].status).toMatchObject({
+      connected: true,
+      lastSyncAt: '2026-01-01T00:00:00.000Z',
+      playlist: [{ id: 'c1', title: 'Ramadan appeal', type: 'IMAGE' }],
+      lastErrors: ['2026-01-01T00:00:01.000Z [error] [App] Unhandled error'],
+    });
+  });
+
+  it('reports a crash as the error phase', async () => {
+    fetchMock.mockImplementation(() => json({ action: null, incidents: [] }));
+    const service = await loadService();
+    service.setPhase('display');
+    service.reportCrash('Cannot read properties of undefined');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(pingBodies()[0]).toMatchObject({ phase: 'error', error: 'Cannot read properties of undefined' });
+  });
+
+  it('sends an incident until its heartbeat is acked, then acknowledges it', async () => {
+    fetchMock.mockImplementation((url: string) =>
+      url === '/internal/liveness' ? json({ action: null, incidents: [incident] }) : json({ success: true }),
+    );
+    const service = await loadService();
+    expect(service.heartbeatFields('t0')).toEqual({ contentErrors: 0 });
+
+    service.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(service.heartbeatFields('t1')).toEqual({ contentErrors: 1, incidents: [incident] });
+    // Heartbeat t1 lost: no ack, so nothing is acknowledged and t2 carries it again
+    expect(fetchMock.mock.calls.some(([url]) => url === '/internal/watchdog/ack')).toBe(false);
+    expect(service.heartbeatFields('t2')).toEqual({ contentErrors: 1, incidents: [incident] });
+
+    service.confirmHeartbeat('t2');
+    await vi.advanceTimersByTimeAsync(0);
+    const ack = fetchMock.mock.calls.find(([url]) => url === '/internal/watchdog/ack');
+    expect(JSON.parse(ack![1].body)).toEqual({ ids: ['lx1-abc'] });
+
+    // The server still lists it until the ack lands; it is not sent again
+    await vi.advanceTimersByTimeAsync(10_000);
+    service.stop();
+    expect(service.heartbeatFields('t3')).toEqual({ contentErrors: 0 });
+  });
+});
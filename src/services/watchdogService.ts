@@ -0,0 +1,197 @@
+/**
+ * Watchdog Service
+ *
+ * Liveness pings for the deploy server's crash / blank-screen watchdog
+ * (`POST /internal/liveness`, see deploy/server.mjs). Each ping carries a
+ * frame tick — bumped from requestAnimationFrame, so it stops when Chromium
+ * stops painting — the app's current phase (useWatchdogPhase, or "error" once
+ * the error boundary caught a crash) and the last log lines.
+ *
+ * The server heals a bad screen in steps. Soft reload and cache purge come
+ * back in the ping reply and are carried out here; a kiosk restart is the
+ * server's own. Each step is an incident: the server returns unreported ones
+ * with every ping and they go out in every heartbeat (`contentErrors`,
+ * `incidents`) until the realtime server acks one that carried them. Only
+ * then are they acknowledged to the deploy server, so a heartbeat lost to a
+ * dropped socket does not lose them.
+ *
+ * Pings also carry what the server's installer page (`GET /status`) shows
+ * about the app: version, WebSocket state, last sync, playlist, last errors.
+ * Pi only — other platforms have no deploy server.
+ */
+
+import { isPiPlatform } from '../config/platform';
+import logger, { getLogHistory } from '../utils/logger';
+import { purgeApiServiceWorkerCaches } from '../utils/purgeApiServiceWorkerCaches';
+import type { HeartbeatPayload, WatchdogIncident } from '../types/realtime';
+
+const PING_INTERVAL_MS = 10_000;
+const REQUEST_TIMEOUT_MS = 5_000;
+const LOG_TAIL_LINES = 30;
+const LAST_ERRORS = 10;
+/** Heartbeats remembered while waiting for their ack (as in realtimeService) */
+const MAX_PENDING_HEARTBEATS = 4;
+const APP_VERSION = import.meta.env.VITE_APP_VERSION;
+
+/** Phase reported while the error boundary shows its fallback. */
+export const CRASHED_PHASE = 'error';
+
+/** App state for the deploy server's status page (set by realtimeMiddleware). */
+export interface AppStatusReport {
+  connected: boolean;
+  /** ISO 8601, last content sync */
+  lastSyncAt: string | null;
+  playlist: Array<{ id: string; title: string; type: string }>;
+}
+
+function formatLogLine(entry: { timestamp: string; level: string; message: string }): string {
+  return `${entry.timestamp} [${entry.level}] ${entry.message}`;
+}
+
+interface LivenessReply {
+  action?: 'reload' | 'purge' | null;
+  incidents?: WatchdogIncident[];
+}
+
+class WatchdogService {
+  private tick = 0;
+  private phase = 'loading';
+  private crash: string | null = null;
+  private pingIntervalId: ReturnType<typeof setInterval> | null = null;
+  private pinging = false;
+  private healing = false;
+  /** Unreported incidents from the last ping reply */
+  private incidents: WatchdogIncident[] = [];
+  /** Incident ids carried by each heartbeat (by its timestamp) until the heartbeat is acked */
+  private heartbeatIncidents = new Map<string, string[]>();
+  /** Delivered incidents, in case a ping returns them before the deploy server ack lands */
+  private deliveredIds = new Set<string>();
+  private statusProvider: (() => AppStatusReport) | null = null;
+
+  /** Start pinging (call once, as early as possible). */
+  public start(): void {
+    if (!isPiPlatform || this.pingIntervalId) return;
+    this.pingIntervalId = setInterval(() => void this.ping(), PING_INTERVAL_MS);
+    void this.ping();
+  }
+
+  public stop(): void {
+    if (this.pingIntervalId) clearInterval(this.pingIntervalId);
+    this.pingIntervalId = null;
+  }
+
+  /** The screen the app is on (loading | pairing | display). */
+  public setPhase(phase: string): void {
+    this.phase = phase;
+  }
+
+  /** Source of the status page fields; null to stop sending them. */
+  public setStatusProvider(provider: (() => AppStatusReport) | null): void {
+    this.statusProvider = provider;
+  }
+
+  /** The error boundary caught a crash; reported until the page reloads. */
+  public reportCrash(message: string): void {
+    this.crash = message || 'Unknown error';
+    void this.ping();
+  }
+
+  /** Heartbeat fields: incidents not yet delivered, for the heartbeat sent at `timestamp`. */
+  public heartbeatFields(timestamp: string): Partial<HeartbeatPayload> {
+    const incidents = this.incidents;
+    if (incidents.length === 0) return { contentErrors: 0 };
+    this.heartbeatIncidents.set(
+      timestamp,
+      incidents.map((incident) => incident.id),
+    );
+    while (this.heartbeatIncidents.size > MAX_PENDING_HEARTBEATS) {
+      this.heartbeatIncidents.delete(this.heartbeatIncidents.keys().next().value as string);
+    }
+    return { contentErrors: incidents.length, incidents };
+  }
+
+  /** The realtime server acked the heartbeat sent at `timestamp`: its incidents are delivered. */
+  public confirmHeartbeat(timestamp: string): void {
+    const ids = this.heartbeatIncidents.get(timestamp);
+    if (!ids) return;
+    this.heartbeatIncidents.delete(timestamp);
+    ids.forEach((id) => this.deliveredIds.add(id));
+    this.incidents = this.incidents.filter((incident) => !this.deliveredIds.has(incident.id));
+    void this.acknowledge(ids);
+  }
+
+  private async ping(): Promise<void> {
+    if (this.pinging || this.healing) return;
+    this.pinging = true;
+    // Bumped on the next painted frame; a frozen renderer never runs the callback
+    requestAnimationFrame(() => {
+      this.tick += 1;
+    });
+    try {
+      const history = getLogHistory();
+      const lastErrors = history
+        .filter((entry) => entry.level === 'error')
+        .slice(-LAST_ERRORS)
+        .map(formatLogLine);
+      const res = await fetch('/internal/liveness', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          tick: this.tick,
+          phase: this.crash ? CRASHED_PHASE : this.phase,
+          error: this.crash,
+          logTail: history.slice(-LOG_TAIL_LINES).map(formatLogLine),
+          status: { version: APP_VERSION ?? null, ...this.appStatus(), lastErrors },
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!res.ok) return;
+      const reply = (await res.json()) as LivenessReply;
+      const listed = reply.incidents ?? [];
+      // Delivered ids are only needed while the deploy server still lists them
+      this.deliveredIds = new Set(listed.map((incident) => incident.id).filter((id) => this.deliveredIds.has(id)));
+      this.incidents = listed.filter((incident) => !this.deliveredIds.has(incident.id));
+      if (reply.action === 'reload' || reply.action === 'purge') await this.heal(reply.action);
+    } catch (err) {
+      logger.debug('[Watchdog] Liveness ping failed', { error: String(err) });
+    } finally {
+      this.pinging = false;
+    }
+  }
+
+  /** Status page fields; a throwing provider only loses them for this ping. */
+  private appStatus(): Partial<AppStatusReport> {
+    try {
+      return this.statusProvider?.() ?? {};
+    } catch (err) {
+      logger.debug('[Watchdog] Status provider failed', { error: String(err) });
+      return {};
+    }
+  }
+
+  /** Carry out a step the deploy server asked for; the page does not come back from it. */
+  private async heal(action: 'reload' | 'purge'): Promise<void> {
+    this.healing = true;
+    logger.warn('[Watchdog] Deploy server asked to recover the display', { action, phase: this.phase });
+    if (action === 'purge') await purgeApiServiceWorkerCaches();
+    window.location.reload();
+  }
+
+  private async acknowledge(ids: string[]): Promise<void> {
+    try {
+      const res = await fetch('/internal/watchdog/ack', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    } catch (err) {
+      // Still marked as delivered here; the server returns them again after a reload
+      logger.debug('[Watchdog] Incident acknowledgement failed', { error: String(err) });
+    }
+  }
+}
+
+const watchdogService = new WatchdogService();
+export default watchdogService;
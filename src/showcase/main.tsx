@@ -116,6 +116,7 @@ const preloadedState = {
   },
   emergency: {
     ...initial.emergency,
+    alertQueue: emergencyAlert ? [emergencyAlert] : [],
     currentAlert: emergencyAlert,
   },
 } as LocalRootState;
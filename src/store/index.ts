@@ -23,16 +23,20 @@ import logger from '../utils/logger';
 import authSlice from './slices/authSlice';
 import contentSlice from './slices/contentSlice';
 import uiSlice from './slices/uiSlice';
-import emergencySlice from './slices/emergencySlice';
+import emergencySlice, { type EmergencyState } from './slices/emergencySlice';
+import displayMessageSlice from './slices/displayMessageSlice';
 
 import { emergencyMiddleware } from './middleware/emergencyMiddleware';
 import { realtimeMiddleware } from './middleware/realtimeMiddleware';
+import { displayMessageMiddleware } from './middleware/displayMessageMiddleware';
+import { mediaCacheMiddleware } from './middleware/mediaCacheMiddleware';
 
 const rootReducer = combineReducers({
   auth: authSlice,
   content: contentSlice,
   ui: uiSlice,
   emergency: emergencySlice,
+  displayMessages: displayMessageSlice,
 });
 
 /** Validate persisted state on rehydration */
@@ -47,13 +51,42 @@ const stateValidationTransform = createTransform(
   { whitelist: ['auth', 'content', 'emergency'] },
 );
 
+/**
+ * Alert history and counters are persisted by emergencyMiddleware
+ * (storageService); keep them out of the localStorage snapshot. Snapshots from
+ * older builds still carry them and are merged on first hydrate. Resolved
+ * janazah salah times are recomputed on every start.
+ */
+const emergencyHistoryTransform = createTransform(
+  (inbound: EmergencyState) => {
+    const snapshot: Partial<EmergencyState> = { ...inbound };
+    delete snapshot.alertHistory;
+    delete snapshot.totalAlertsReceived;
+    delete snapshot.lastAlertTime;
+    delete snapshot.janazahSalahTimes;
+    return snapshot;
+  },
+  (outbound: Partial<EmergencyState>) =>
+    ({
+      alertHistory: [],
+      totalAlertsReceived: 0,
+      lastAlertTime: null,
+      janazahSalahTimes: {},
+      ...outbound,
+      // Snapshots from before the alert queue only carry currentAlert
+      alertQueue: outbound.alertQueue ?? (outbound.currentAlert ? [outbound.currentAlert] : []),
+    }) as EmergencyState,
+  { whitelist: ['emergency'] },
+);
+
 const persistConfig = {
   key: 'masjidconnect-root',
   version: 1,
   storage,
-  blacklist: ['ui'],
+  // displayMessages is persisted by displayMessageMiddleware (storageService)
+  blacklist: ['ui', 'displayMessages'],
   whitelist: ['auth', 'content', 'emergency'],
-  transforms: [stateValidationTransform],
+  transforms: [stateValidationTransform, emergencyHistoryTransform],
 };
 
 const persistedReducer = persistReducer(
@@ -77,7 +110,9 @@ export const store = configureStore({
       immutableCheck: import.meta.env.DEV,
     })
       .concat(emergencyMiddleware)
-      .concat(realtimeMiddleware),
+      .concat(realtimeMiddleware)
+      .concat(displayMessageMiddleware)
+      .concat(mediaCacheMiddleware),
   devTools: import.meta.env.DEV,
 });
 
@@ -0,0 +1,82 @@
+/**
+ * Display message middleware tests.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  resetDisplayMessageMiddleware,
+  DISPLAY_MESSAGES_STORAGE_KEY,
+} from './displayMessageMiddleware';
+import { showMessage, clearMessages } from '../slices/displayMessageSlice';
+import { createTestStore } from '@/test-utils/mock-store';
+import type { DisplayMessage } from '@/utils/displayMessage';
+
+const mockGet = vi.fn();
+const mockSet = vi.fn();
+const mockRemove = vi.fn();
+
+vi.mock('@/services/storageService', () => ({
+  default: {
+    get: (...args: unknown[]) => mockGet(...args),
+    set: (...args: unknown[]) => mockSet(...args),
+    remove: (...args: unknown[]) => mockRemove(...args),
+  },
+}));
+
+vi.mock('@/utils/logger', () => ({
+  default: { info: vi.fn(), debug: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+function message(id: string): DisplayMessage {
+  return {
+    id,
+    text: `Message ${id}`,
+    style: 'info',
+    position: 'banner',
+    priority: 'normal',
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+  };
+}
+
+/** The test store installs displayMessageMiddleware like production. */
+const createStore = () => createTestStore();
+
+describe('displayMessageMiddleware', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetDisplayMessageMiddleware();
+    mockSet.mockResolvedValue(undefined);
+    mockRemove.mockResolvedValue(undefined);
+  });
+
+  it('restores saved messages from storage on startup', async () => {
+    mockGet.mockResolvedValue([message('saved')]);
+    const store = createStore();
+    await vi.waitFor(() => expect(store.getState().displayMessages.hydrated).toBe(true));
+
+    expect(mockGet).toHaveBeenCalledWith(DISPLAY_MESSAGES_STORAGE_KEY);
+    expect(store.getState().displayMessages.messages.map((m) => m.id)).toEqual(['saved']);
+  });
+
+  it('persists queue changes after hydration and removes the key when empty', async () => {
+    mockGet.mockResolvedValue(null);
+    const store = createStore();
+    await vi.waitFor(() => expect(store.getState().displayMessages.hydrated).toBe(true));
+    mockSet.mockClear();
+
+    store.dispatch(showMessage(message('a')));
+    expect(mockSet).toHaveBeenCalledWith(DISPLAY_MESSAGES_STORAGE_KEY, [expect.objectContaining({ id: 'a' })]);
+
+    store.dispatch(clearMessages());
+    expect(mockRemove).toHaveBeenCalledWith(DISPLAY_MESSAGES_STORAGE_KEY);
+  });
+
+  it('does not write before the saved queue has been read', () => {
+    mockGet.mockReturnValue(new Promise(() => {}));
+    const store = createStore();
+
+    store.dispatch(showMessage(message('early')));
+    expect(mockSet).not.toHaveBeenCalled();
+  });
+});
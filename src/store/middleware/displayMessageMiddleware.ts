@@ -0,0 +1,63 @@
+/**
+ * Display Message Middleware
+ *
+ * Persists the DISPLAY_MESSAGE queue through storageService so a reload (or a
+ * kiosk restart) mid-message keeps it on screen until it expires. The slice is
+ * deliberately outside redux-persist: messages are short-lived and restored
+ * entries are re-validated against the clock on hydrate.
+ */
+
+import { Middleware } from '@reduxjs/toolkit';
+import type { RootState } from '../index';
+import storageService from '../../services/storageService';
+import { hydrateMessages } from '../slices/displayMessageSlice';
+import type { DisplayMessage } from '../../utils/displayMessage';
+import logger from '../../utils/logger';
+
+export const DISPLAY_MESSAGES_STORAGE_KEY = 'display_messages';
+
+let hydrationStarted = false;
+
+export const displayMessageMiddleware: Middleware<object, RootState> = (api) => {
+  const hydrate = () => {
+    if (hydrationStarted) return;
+    hydrationStarted = true;
+
+    void storageService
+      .get<unknown[]>(DISPLAY_MESSAGES_STORAGE_KEY)
+      .then((saved) => {
+        const restored = Array.isArray(saved) ? saved : [];
+        api.dispatch(hydrateMessages(restored));
+        if (restored.length > 0) {
+          logger.info('[DisplayMessageMW] Restored saved messages', { count: restored.length });
+        }
+      });
+  };
+
+  const persist = (messages: DisplayMessage[]) => {
+    void (messages.length > 0
+      ? storageService.set(DISPLAY_MESSAGES_STORAGE_KEY, messages)
+      : storageService.remove(DISPLAY_MESSAGES_STORAGE_KEY));
+  };
+
+  hydrate();
+
+  return (next) => (action) => {
+    const before = api.getState().displayMessages?.messages;
+    const result = next(action);
+    const after = api.getState().displayMessages?.messages;
+
+    // Skip writes until the saved queue has been merged, otherwise an early message
+    // would overwrite what is on disk before it is read back.
+    if (after && after !== before && api.getState().displayMessages.hydrated) {
+      persist(after);
+    }
+
+    return result;
+  };
+};
+
+/** Reset module state (tests). */
+export const resetDisplayMessageMiddleware = () => {
+  hydrationStarted = false;
+};
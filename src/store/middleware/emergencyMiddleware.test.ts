@@ -3,7 +3,14 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { emergencyMiddleware, cleanupEmergencyMiddleware } from './emergencyMiddleware';
+import { REHYDRATE } from 'redux-persist';
+import {
+  emergencyMiddleware,
+  cleanupEmergencyMiddleware,
+  ALERT_HISTORY_STORAGE_KEY,
+} from './emergencyMiddleware';
+import { setCurrentAlert, clearCurrentAlert, markAlertShown, removeAlert } from '../slices/emergencySlice';
+import realtimeService from '@/services/realtimeService';
 import { createTestStore } from '@/test-utils/mock-store';
 import { mockEmergencyAlert } from '@/test-utils/mocks';
 
@@ -21,6 +28,17 @@ vi.mock('@/services/emergencyAlertService', () => ({
   },
 }));
 
+const mockGet = vi.fn();
+const mockSet = vi.fn();
+
+vi.mock('@/services/storageService', () => ({
+  default: {
+    get: (...args: unknown[]) => mockGet(...args),
+    set: (...args: unknown[]) => mockSet(...args),
+    remove: vi.fn(),
+  },
+}));
+
 vi.mock('@/utils/logger', () => ({
   default: { info: vi.fn(), debug: vi.fn(), error: vi.fn(), warn: vi.fn() },
 }));
@@ -29,6 +47,7 @@ describe('emergencyMiddleware', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     cleanupEmergencyMiddleware();
+    mockGet.mockResolvedValue(null);
   });
 
   it('sets up alert listener on first action', () => {
@@ -44,9 +63,9 @@ describe('emergencyMiddleware', () => {
     expect(next).toHaveBeenCalledWith({ type: 'some/action' });
   });
 
-  it('dispatches setCurrentAlert when service listener fires', () => {
-    let listenerCb: ((alert: unknown) => void) | null = null;
-    mockAddListener.mockImplementation((cb: (alert: unknown) => void) => {
+  it('queues and removes alerts as the service listener fires', () => {
+    let listenerCb: ((event: unknown) => void) | null = null;
+    mockAddListener.mockImplementation((cb: (event: unknown) => void) => {
       listenerCb = cb;
       return () => {};
     });
@@ -59,8 +78,17 @@ describe('emergencyMiddleware', () => {
     const dispatch = middleware(next);
     dispatch({ type: 'init' });
     expect(listenerCb).toBeTruthy();
-    listenerCb!(mockEmergencyAlert);
+    listenerCb!({ type: 'set', alert: mockEmergencyAlert });
+    const later = new Date(new Date(mockEmergencyAlert.createdAt).getTime() + 1_000).toISOString();
+    listenerCb!({ type: 'set', alert: { ...mockEmergencyAlert, id: 'second', createdAt: later } });
     expect(store.getState().emergency.currentAlert).toEqual(mockEmergencyAlert);
+    expect(store.getState().emergency.alertQueue).toHaveLength(2);
+
+    listenerCb!({ type: 'clear', alertId: 'second', reason: 'cleared' });
+    expect(store.getState().emergency.alertQueue.map((a) => a.id)).toEqual([mockEmergencyAlert.id]);
+
+    listenerCb!({ type: 'clear', alertId: null, reason: 'cleared' });
+    expect(store.getState().emergency.alertQueue).toEqual([]);
   });
 
   it('on emergency/initializeEmergencyService/fulfilled when authenticated dispatches connect', async () => {
@@ -139,3 +167,86 @@ describe('emergencyMiddleware', () => {
     expect(mockCleanup).toHaveBeenCalled();
   });
 });
+
+describe('emergencyMiddleware alert history and receipts', () => {
+  const savedEntry = {
+    alert: { ...mockEmergencyAlert, id: 'earlier' },
+    timestamp: '2020-01-01T10:00:00.000Z',
+    action: 'received',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+    cleanupEmergencyMiddleware();
+    mockGet.mockImplementation(async (key: string) =>
+      key === ALERT_HISTORY_STORAGE_KEY
+        ? { alertHistory: [savedEntry, { bogus: true }], totalAlertsReceived: 3, lastAlertTime: savedEntry.timestamp }
+        : null,
+    );
+    mockSet.mockResolvedValue(undefined);
+  });
+
+  it('restores saved history after rehydration and persists later changes', async () => {
+    const store = createTestStore();
+    store.dispatch(setCurrentAlert(mockEmergencyAlert));
+    expect(mockSet).not.toHaveBeenCalledWith(ALERT_HISTORY_STORAGE_KEY, expect.anything());
+
+    store.dispatch({ type: REHYDRATE, key: 'masjidconnect-root' });
+    await vi.waitFor(() => expect(store.getState().emergency.totalAlertsReceived).toBe(3));
+
+    const ids = store.getState().emergency.alertHistory.map((e) => e.alert.id);
+    expect(ids).toEqual(['earlier', mockEmergencyAlert.id]);
+    expect(mockSet).toHaveBeenLastCalledWith(
+      ALERT_HISTORY_STORAGE_KEY,
+      expect.objectContaining({ totalAlertsReceived: 3 }),
+    );
+
+    store.dispatch(clearCurrentAlert());
+    expect(mockSet).toHaveBeenLastCalledWith(
+      ALERT_HISTORY_STORAGE_KEY,
+      expect.objectContaining({ alertHistory: expect.arrayContaining([expect.objectContaining({ action: 'cleared' })]) }),
+    );
+  });
+
+  it('emits shown and cleared receipts with latency and display time', () => {
+    const shown = vi.spyOn(realtimeService, 'sendAlertShown');
+    const cleared = vi.spyOn(realtimeService, 'sendAlertCleared');
+    const store = createTestStore();
+
+    store.dispatch(setCurrentAlert(mockEmergencyAlert));
+    const receivedAt = store.getState().emergency.alertHistory[0].timestamp;
+    const shownAt = new Date(new Date(receivedAt).getTime() + 80).toISOString();
+    store.dispatch(markAlertShown({ alertId: mockEmergencyAlert.id, shownAt }));
+    store.dispatch(markAlertShown({ alertId: mockEmergencyAlert.id, shownAt: new Date().toISOString() }));
+
+    expect(shown).toHaveBeenCalledTimes(1);
+    expect(shown).toHaveBeenCalledWith({
+      alertId: mockEmergencyAlert.id,
+      receivedAt,
+      shownAt,
+      renderLatencyMs: 80,
+    });
+
+    store.dispatch(clearCurrentAlert());
+    expect(cleared).toHaveBeenCalledWith(
+      expect.objectContaining({ alertId: mockEmergencyAlert.id, reason: 'cleared', displayedMs: expect.any(Number) }),
+    );
+  });
+
+  it('reports each alert as it leaves the queue, not when another takes the screen', () => {
+    const cleared = vi.spyOn(realtimeService, 'sendAlertCleared');
+    const store = createTestStore();
+
+    store.dispatch(setCurrentAlert({ ...mockEmergencyAlert, urgency: 'medium', category: 'janazah' }));
+    store.dispatch(setCurrentAlert({ ...mockEmergencyAlert, id: 'fire', urgency: 'critical' }));
+    expect(cleared).not.toHaveBeenCalled();
+
+    store.dispatch(removeAlert({ alertId: mockEmergencyAlert.id, reason: 'expired' }));
+
+    expect(cleared).toHaveBeenCalledTimes(1);
+    expect(cleared).toHaveBeenCalledWith(
+      expect.objectContaining({ alertId: mockEmergencyAlert.id, reason: 'expired', displayedMs: null }),
+    );
+  });
+});
@@ -2,14 +2,33 @@
  * Emergency Middleware
  *
  * Integrates emergencyAlertService with Redux store.
- * Handles alert state synchronisation between the service and Redux.
+ * Handles alert state synchronisation between the service and Redux: alerts
+ * set by the service join the priority queue, and a clear removes only the
+ * alert it names (or every alert when it names none).
+ *
+ * Also:
+ * - persists alert history and counters through storageService (loaded once
+ *   redux-persist has rehydrated, so the snapshot cannot overwrite it);
+ * - emits display:alert:shown when the overlay reports its first frame
+ *   (markAlertShown) and display:alert:cleared when an alert leaves the queue.
  */
 
 import { Middleware, UnknownAction, PayloadAction } from '@reduxjs/toolkit';
+import { REHYDRATE } from 'redux-persist';
 import type { AppDispatch, RootState } from '../index';
+import type { EmergencyAlert } from '../../api/models';
 import emergencyAlertService from '../../services/emergencyAlertService';
+import realtimeService from '../../services/realtimeService';
+import storageService from '../../services/storageService';
 import {
-  setCurrentAlert,
+  addAlert,
+  removeAlert,
+  clearAllAlerts,
+  markAlertShown,
+  hydrateAlertHistory,
+  type AlertHistoryEntry,
+  type EmergencyState,
+  type PersistedAlertHistory,
   setConnectionStatus,
   resetReconnectAttempts,
   clearError,
@@ -21,7 +40,57 @@ import { selectIsAuthenticated } from '../slices/authSlice';
 import { apiUrl } from '../../config/environment';
 import logger from '../../utils/logger';
 
+export const ALERT_HISTORY_STORAGE_KEY = 'emergency_alert_history';
+
 let listenersSetup = false;
+let historyHydrationStarted = false;
+let historyHydrated = false;
+
+function isHistoryEntry(value: unknown): value is AlertHistoryEntry {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Partial<AlertHistoryEntry>;
+  return typeof entry.alert?.id === 'string' && typeof entry.timestamp === 'string' && typeof entry.action === 'string';
+}
+
+/** Latest "received" entry for an alert. */
+function findReceived(history: AlertHistoryEntry[], alertId: string): AlertHistoryEntry | undefined {
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].alert.id === alertId && history[i].action === 'received') return history[i];
+  }
+  return undefined;
+}
+
+function sendClearedReceipt(alert: EmergencyAlert, after: EmergencyState): void {
+  let reason: 'cleared' | 'expired' = 'cleared';
+  for (let i = after.alertHistory.length - 1; i >= 0; i--) {
+    const entry = after.alertHistory[i];
+    if (entry.alert.id !== alert.id) continue;
+    if (entry.action === 'expired') reason = 'expired';
+    break;
+  }
+  const clearedAt = new Date();
+  const shownAt = findReceived(after.alertHistory, alert.id)?.shownAt;
+  realtimeService.sendAlertCleared({
+    alertId: alert.id,
+    clearedAt: clearedAt.toISOString(),
+    reason,
+    displayedMs: shownAt ? Math.max(0, clearedAt.getTime() - new Date(shownAt).getTime()) : null,
+  });
+  logger.debug('[EmergencyMW] Alert cleared receipt sent', { alertId: alert.id, reason });
+}
+
+function sendShownReceipt(after: EmergencyState, alertId: string, shownAt: string): void {
+  const entry = findReceived(after.alertHistory, alertId);
+  // Only the first frame counts; a repeated report leaves shownAt unchanged
+  if (!entry || entry.shownAt !== shownAt || entry.renderLatencyMs === undefined) return;
+  realtimeService.sendAlertShown({
+    alertId,
+    receivedAt: entry.timestamp,
+    shownAt,
+    renderLatencyMs: entry.renderLatencyMs,
+  });
+  logger.info('[EmergencyMW] Alert shown', { alertId, renderLatencyMs: entry.renderLatencyMs });
+}
 
 export const emergencyMiddleware: Middleware<object, RootState> = (api) => {
   const setupListeners = () => {
@@ -29,14 +98,45 @@ export const emergencyMiddleware: Middleware<object, RootState> = (api) => {
     listenersSetup = true;
 
     logger.debug('[EmergencyMW] Setting up alert listeners');
-    emergencyAlertService.addListener((alert) => {
-      api.dispatch(setCurrentAlert(alert));
+    emergencyAlertService.addListener((event) => {
+      if (event.type === 'set') {
+        api.dispatch(addAlert(event.alert));
+      } else if (event.alertId) {
+        api.dispatch(removeAlert({ alertId: event.alertId, reason: event.reason }));
+      } else {
+        api.dispatch(clearAllAlerts({ cancelled: event.reason === 'cancelled' }));
+      }
     });
   };
 
+  const hydrateHistory = () => {
+    if (historyHydrationStarted) return;
+    historyHydrationStarted = true;
+
+    void storageService
+      .get<Partial<PersistedAlertHistory>>(ALERT_HISTORY_STORAGE_KEY)
+      .then((saved) => {
+        const alertHistory = Array.isArray(saved?.alertHistory) ? saved.alertHistory.filter(isHistoryEntry) : [];
+        // Set first so the merged history (which may include entries received
+        // before the load finished) is written back by the persist step below.
+        historyHydrated = true;
+        api.dispatch(
+          hydrateAlertHistory({
+            alertHistory,
+            totalAlertsReceived: typeof saved?.totalAlertsReceived === 'number' ? saved.totalAlertsReceived : 0,
+            lastAlertTime: typeof saved?.lastAlertTime === 'string' ? saved.lastAlertTime : null,
+          }),
+        );
+        if (alertHistory.length > 0) {
+          logger.debug('[EmergencyMW] Restored alert history', { count: alertHistory.length });
+        }
+      });
+  };
+
   setupListeners();
 
   return (next) => (action) => {
+    const before = api.getState().emergency;
     const result = next(action);
 
     if (!action || typeof action !== 'object' || !('type' in action)) {
@@ -45,6 +145,24 @@ export const emergencyMiddleware: Middleware<object, RootState> = (api) => {
 
     const typedAction = action as UnknownAction;
     const state = api.getState();
+    const after = state.emergency;
+
+    if (typedAction.type === REHYDRATE) {
+      hydrateHistory();
+    } else if (before && after) {
+      if (historyHydrated && after.alertHistory !== before.alertHistory) {
+        const { alertHistory, totalAlertsReceived, lastAlertTime } = after;
+        void storageService.set(ALERT_HISTORY_STORAGE_KEY, { alertHistory, totalAlertsReceived, lastAlertTime });
+      }
+      if (after.alertQueue !== before.alertQueue) {
+        for (const alert of before.alertQueue ?? []) {
+          if (!after.alertQueue?.some((queued) => queued.id === alert.id)) sendClearedReceipt(alert, after);
+        }
+      }
+      if (markAlertShown.match(typedAction)) {
+        sendShownReceipt(after, typedAction.payload.alertId, typedAction.payload.shownAt);
+      }
+    }
 
     switch (typedAction.type) {
       case 'emergency/initializeEmergencyService/fulfilled': {
@@ -96,5 +214,7 @@ export const emergencyMiddleware: Middleware<object, RootState> = (api) => {
 
 export const cleanupEmergencyMiddleware = () => {
   listenersSetup = false;
+  historyHydrationStarted = false;
+  historyHydrated = false;
   emergencyAlertService.cleanup();
 };
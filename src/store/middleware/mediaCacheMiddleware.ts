@@ -0,0 +1,29 @@
+/**
+ * Media Cache Middleware
+ *
+ * After every `refreshAllContent` walks the active schedule, every
+ * `ScheduledPlaylistAssignment` and the events list for remote media, and
+ * hands the URLs to mediaCacheService to download / evict. Restores the
+ * persisted cache index once at startup so cached slides render offline
+ * straight after a reboot.
+ */
+
+import { Middleware, UnknownAction } from '@reduxjs/toolkit';
+import type { RootState } from '../index';
+import mediaCacheService from '../../services/mediaCacheService';
+import { collectMediaUrls } from '../../utils/mediaCache';
+
+export const mediaCacheMiddleware: Middleware<object, RootState> = (api) => {
+  void mediaCacheService.init();
+
+  return (next) => (action) => {
+    const result = next(action);
+
+    if ((action as UnknownAction)?.type === 'content/refreshAllContent/fulfilled') {
+      const { schedule, scheduledPlaylists, events } = api.getState().content;
+      void mediaCacheService.sync(collectMediaUrls(schedule, scheduledPlaylists, events));
+    }
+
+    return result;
+  };
+};
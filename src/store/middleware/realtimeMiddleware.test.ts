@@ -28,6 +28,7 @@ vi.mock('@/services/realtimeService', () => ({
       (mockOn as (e: string, h: () => void) => (() => void))(event, handler),
     connect: () => mockConnect(),
     disconnect: () => mockDisconnect(),
+    registerHeartbeatProvider: () => () => {},
   },
 }));
 
@@ -52,6 +53,7 @@ vi.mock('@/services/remoteControlService', () => ({
   default: {
     setOnScheduledRestart: (...args: unknown[]) => mockSetOnScheduledRestart(...args),
     setOnUpdateStatus: (...args: unknown[]) => mockSetOnUpdateStatus(...args),
+    setOnDisplayMessage: vi.fn(),
     clearScheduledRestart: () => mockClearScheduledRestart(),
     clearDeviceUpdatePolling: () => mockClearDeviceUpdatePolling(),
     handleCommand: vi.fn(),
@@ -62,11 +64,15 @@ vi.mock('@/services/remoteControlService', () => ({
 vi.mock('@/services/emergencyAlertService', () => ({
   default: {
     setAlert: (...args: unknown[]) => mockSetAlert(...args),
-    clearAlert: () => mockClearAlert(),
+    clearAlert: (...args: unknown[]) => mockClearAlert(...args),
     addListener: vi.fn(() => () => {}),
   },
 }));
 
+vi.mock('@/services/localAlertService', () => ({
+  default: { start: vi.fn(), stop: vi.fn(), applyPortalSettings: vi.fn() },
+}));
+
 vi.mock('@/utils/logger', () => ({
   default: { info: vi.fn(), debug: vi.fn(), error: vi.fn(), warn: vi.fn() },
 }));
@@ -238,6 +244,7 @@ describe('realtimeMiddleware', () => {
     expect(alertHandler).toBeDefined();
     alertHandler?.({ action: 'clear' });
     expect(mockClearAlert).toHaveBeenCalledTimes(1);
+    expect(mockClearAlert).toHaveBeenCalledWith(null, 'cleared');
     expect(mockSetAlert).not.toHaveBeenCalled();
   });
 
@@ -275,8 +282,57 @@ describe('realtimeMiddleware', () => {
     mockClearAlert.mockClear();
     alertHandler?.({ data: { action: 'CLEAR' } });
     expect(mockClearAlert).toHaveBeenCalledTimes(1);
-    alertHandler?.(JSON.stringify({ action: 'hide' }));
+    alertHandler?.(JSON.stringify({ action: 'hide', id: 'a1' }));
     expect(mockClearAlert).toHaveBeenCalledTimes(2);
+    expect(mockClearAlert).toHaveBeenLastCalledWith('a1', 'cleared');
+    alertHandler?.({ action: 'Cancel', id: 'a2' });
+    expect(mockClearAlert).toHaveBeenLastCalledWith('a2', 'cancelled');
+  });
+
+  it('emergency:clear removes only the alert it names', () => {
+    const handlers = new Map<string, (data?: unknown) => void>();
+    mockOn.mockImplementation(
+      ((event: string, handler: (data?: unknown) => void) => {
+        handlers.set(event, handler);
+        return () => {
+          handlers.delete(event);
+        };
+      }) as never,
+    );
+    const store = createTestStore({
+      auth: {
+        isAuthenticated: true,
+        isPaired: true,
+        screenId: 's',
+        apiKey: 'k',
+        masjidId: 'm',
+      } as never,
+    });
+    const middleware = realtimeMiddleware({
+      getState: store.getState,
+      dispatch: store.dispatch,
+    } as never);
+    const next = vi.fn((a: unknown) => a);
+    const dispatch = middleware(next);
+    dispatch({
+      type: 'auth/checkPairingStatus/fulfilled',
+      payload: { isPaired: true, credentials: { screenId: 's', apiKey: 'k', masjidId: 'm' } },
+    });
+    vi.advanceTimersByTime(100);
+    const clearHandler = handlers.get('emergency:clear');
+    mockClearAlert.mockClear();
+    clearHandler?.({ id: 'a1' });
+    clearHandler?.({ data: { alertId: 'a2' } });
+    clearHandler?.('a3');
+    clearHandler?.();
+    clearHandler?.({ id: 'a4', reason: 'cancelled' });
+    expect(mockClearAlert.mock.calls).toEqual([
+      ['a1', 'cleared'],
+      ['a2', 'cleared'],
+      ['a3', 'cleared'],
+      [null, 'cleared'],
+      ['a4', 'cancelled'],
+    ]);
   });
 
   it('emergency:alert show path calls setAlert with payload fields', () => {
@@ -12,6 +12,11 @@ import syncService from '../../services/syncService';
 import credentialService from '../../services/credentialService';
 import remoteControlService from '../../services/remoteControlService';
 import emergencyAlertService from '../../services/emergencyAlertService';
+import displayPowerService from '../../services/displayPowerService';
+import mediaCacheService from '../../services/mediaCacheService';
+import updateChannelService from '../../services/updateChannelService';
+import localAlertService from '../../services/localAlertService';
+import watchdogService from '../../services/watchdogService';
 import {
   setConnectionStatus,
   incrementReconnectAttempts,
@@ -25,56 +30,66 @@ import {
   setUpdateStatus,
   clearUpdateStatus,
 } from '../slices/uiSlice';
+import { showMessage, dismissMessage, clearMessages } from '../slices/displayMessageSlice';
 import logger from '../../utils/logger';
 import {
   parseScreenOrientation,
   parseRotationDegrees,
   orientationToRotationDegrees,
 } from '../../utils/orientation';
-import type { EmergencyAlert } from '../../api/models';
-import type { ContentInvalidationPayload } from '../../types/realtime';
+import type { DisplaySettings, Schedule } from '../../api/models';
+import type { ContentInvalidationPayload, MatchedHeartbeatAck } from '../../types/realtime';
 import {
   clearInvalidationCoalesceMap,
   invalidationCoalesceKey,
   scheduleInvalidationRefetch,
   type InvalidationCoalesceState,
 } from '../../utils/contentInvalidationSchedule';
-
-/**
- * Normalise raw Socket.io `emergency:alert` payloads (object, JSON string, or `{ data: { ... } }`).
- */
-function normaliseEmergencyAlertWsPayload(raw: unknown): Record<string, unknown> | null {
-  let parsed: unknown = raw;
-  if (typeof parsed === 'string') {
-    try {
-      parsed = JSON.parse(parsed) as unknown;
-    } catch {
-      return null;
-    }
+import { readLocalBuzzerOverrides } from '../../hooks/useBuzzerSettings';
+import {
+  emergencyClearTargetId,
+  isEmergencyCancel,
+  parseEmergencyAlertPayload,
+} from '../../utils/emergencyAlertPayload';
+import {
+  buzzerHeartbeatReport,
+  resolveEffectiveBuzzerSettings,
+} from '../../utils/jamaatBuzzerSettings';
+
+/** Show or clear an alert from a WebSocket or LAN payload (same normalisation for both). */
+function applyEmergencyAlertPayload(raw: unknown, source: string): void {
+  const instruction = parseEmergencyAlertPayload(raw, credentialService.getMasjidId() || '');
+  if (!instruction) {
+    logger.debug(`[RealtimeMW] ${source} ignored (invalid payload)`);
+    return;
   }
-  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
-  const outer = parsed as Record<string, unknown>;
-  const inner = outer.data;
-  if (inner && typeof inner === 'object' && !Array.isArray(inner)) {
-    return { ...outer, ...(inner as Record<string, unknown>) };
+  if (instruction.type === 'clear') {
+    logger.info(`[RealtimeMW] ${source} remote clear`, {
+      alertId: instruction.alertId ?? 'all',
+      cancelled: instruction.cancelled,
+    });
+    emergencyAlertService.clearAlert(instruction.alertId, instruction.cancelled ? 'cancelled' : 'cleared');
+    return;
   }
-  return outer;
-}
-
-/** True when the server intends to dismiss the full-screen alert without waiting for expiry. */
-function isEmergencyRemoteClearAction(payload: Record<string, unknown>): boolean {
-  const a = payload.action;
-  if (typeof a !== 'string') return false;
-  const n = a.trim().toLowerCase();
-  return n === 'clear' || n === 'hide' || n === 'cancel';
+  emergencyAlertService.setAlert(instruction.alert);
 }
 
 interface AuthShape {
   auth: { isAuthenticated: boolean };
 }
 
+interface DisplaySettingsShape {
+  content: { displaySettings: DisplaySettings | null };
+}
+
+interface StatusPageShape {
+  content: { schedule: Schedule | null; lastUpdated: string | null };
+}
+
 let initialised = false;
 const unsubs: Array<() => void> = [];
+/** Display settings last checked for a portal update channel */
+let lastDisplaySettings: DisplaySettings | null = null;
 
 /** Pending leading/trailing invalidation timers per type. Cleared on cleanup. */
 const invalidationCoalesceMap = new Map<string, InvalidationCoalesceState>();
@@ -131,6 +146,66 @@ export const realtimeMiddleware: Middleware = (api: any) => {
       api.dispatch(setUpdateStatus({ phase, message, restartAt }));
     });
 
+    // DISPLAY_MESSAGE (WebSocket + heartbeat) — queue or dismiss on-screen text
+    remoteControlService.setOnDisplayMessage((command) => {
+      if (command.action === 'show') api.dispatch(showMessage(command.message));
+      else if (command.action === 'dismiss') api.dispatch(dismissMessage(command.id));
+      else api.dispatch(clearMessages());
+    });
+
+    // Effective jamaat buzzer settings (portal + device precedence) in every heartbeat
+    unsubs.push(
+      realtimeService.registerHeartbeatProvider('buzzer', () => {
+        const { displaySettings } = (api.getState() as DisplaySettingsShape).content;
+        return {
+          buzzer: buzzerHeartbeatReport(
+            resolveEffectiveBuzzerSettings(displaySettings, readLocalBuzzerOverrides()),
+          ),
+        };
+      }),
+    );
+
+    // Scheduled screen power state (useDisplayPowerSchedule)
+    unsubs.push(
+      realtimeService.registerHeartbeatProvider('displayPower', () =>
+        displayPowerService.heartbeatFields(),
+      ),
+    );
+
+    // Self-update channel and the version it targets
+    unsubs.push(
+      realtimeService.registerHeartbeatProvider('updateChannel', () =>
+        updateChannelService.heartbeatFields(),
+      ),
+    );
+
+    // Offline media cache size and hit rate
+    unsubs.push(
+      realtimeService.registerHeartbeatProvider('mediaCache', () => ({
+        mediaCache: mediaCacheService.getStats(),
+      })),
+    );
+
+    // Crash / blank-screen recoveries by the deploy server's watchdog
+    unsubs.push(
+      realtimeService.registerHeartbeatProvider('watchdog', (heartbeat) =>
+        watchdogService.heartbeatFields(heartbeat.timestamp),
+      ),
+    );
+
+    // What the deploy server's installer page (GET /status) shows about the app
+    watchdogService.setStatusProvider(() => {
+      const { schedule, lastUpdated } = (api.getState() as StatusPageShape).content;
+      return {
+        connected: realtimeService.connected,
+        lastSyncAt: lastUpdated,
+        playlist: [...(schedule?.items ?? [])]
+          .sort((a, b) => a.order - b.order)
+          .map(({ contentItem }) => ({ id: contentItem.id, title: contentItem.title, type: contentItem.type })),
+      };
+    });
+    unsubs.push(() => watchdogService.setStatusProvider(null));
+
     // WebSocket event listeners
     unsubs.push(
       realtimeService.on('connect', () => {
@@ -166,43 +241,25 @@ export const realtimeMiddleware: Middleware = (api: any) => {
 
     // Log heartbeat acks for RTT visibility (no Redux action needed)
     unsubs.push(
-      realtimeService.on<{ serverTime?: string }>('heartbeat:ack', (ack) => {
+      realtimeService.on<MatchedHeartbeatAck>('heartbeat:ack', (ack) => {
         logger.debug('[RealtimeMW] Heartbeat ack', { serverTime: ack?.serverTime });
+        if (ack?.heartbeatTimestamp) watchdogService.confirmHeartbeat(ack.heartbeatTimestamp);
       }),
     );
 
-    // Emergency alerts — `action: clear` (or hide/cancel) dismisses overlay immediately
+    // Emergency alerts — `action: clear` (or hide/cancel) dismisses the matching alert immediately
     unsubs.push(
-      realtimeService.on<unknown>('emergency:alert', (raw) => {
-        const payload = normaliseEmergencyAlertWsPayload(raw);
-        if (!payload) {
-          logger.debug('[RealtimeMW] emergency:alert ignored (invalid payload)');
-          return;
-        }
-        if (isEmergencyRemoteClearAction(payload)) {
-          logger.info('[RealtimeMW] emergency:alert remote clear');
-          emergencyAlertService.clearAlert();
-          return;
-        }
-        emergencyAlertService.setAlert({
-          id: (typeof payload.id === 'string' && payload.id) || `alert-${Date.now()}`,
-          title: payload.title as string,
-          message: payload.message as string,
-          category: (payload.category as EmergencyAlert['category']) ?? 'community',
-          urgency: (payload.urgency as EmergencyAlert['urgency']) ?? 'high',
-          color: (payload.color as string | null | undefined) ?? null,
-          createdAt: payload.createdAt as string,
-          expiresAt: payload.expiresAt as string,
-          masjidId: credentialService.getMasjidId() || '',
-          timing: payload.timing as EmergencyAlert['timing'],
-          action: payload.action as EmergencyAlert['action'],
-        });
-      }),
+      realtimeService.on<unknown>('emergency:alert', (raw) => applyEmergencyAlertPayload(raw, 'emergency:alert')),
     );
 
+    // Alerts raised on the masjid LAN (deploy server POST /local/alert) — works without internet
+    localAlertService.start((raw) => applyEmergencyAlertPayload(raw, 'LAN alert'));
+    unsubs.push(() => localAlertService.stop());
+
     unsubs.push(
-      realtimeService.on('emergency:clear', () => {
-        emergencyAlertService.clearAlert();
+      realtimeService.on<unknown>('emergency:clear', (raw) => {
+        const reason = isEmergencyCancel(raw) ? 'cancelled' : 'cleared';
+        emergencyAlertService.clearAlert(emergencyClearTargetId(raw), reason);
       }),
     );
 
@@ -223,6 +280,7 @@ export const realtimeMiddleware: Middleware = (api: any) => {
     );
 
     // Remote commands (command object includes type from screen:command / screen:command:${type})
+    // remoteControlService.handleCommand sends display:command:ack (success or failure details).
     unsubs.push(
       realtimeService.on<any>('command', async (cmd) => {
         const commandId = cmd.commandId || cmd.id || `cmd-${Date.now()}`;
@@ -234,7 +292,6 @@ export const realtimeMiddleware: Middleware = (api: any) => {
             payload: cmd.payload,
             timestamp: cmd.timestamp || new Date().toISOString(),
           });
-          realtimeService.acknowledgeCommand(commandId, true, undefined, commandType);
           if (commandType === 'CLEAR_CACHE' || commandType === 'RELOAD_CONTENT') {
             import('../slices/contentSlice').then(({ refreshAllContent }) => {
               (api.dispatch as AppDispatch)(refreshAllContent({ forceRefresh: true }));
@@ -473,6 +530,15 @@ export const realtimeMiddleware: Middleware = (api: any) => {
       cleanup();
     }
 
+    // Portal update channel → device (persisted; the latest of portal / FORCE_UPDATE wins),
+    // LAN alert PIN / token → deploy server
+    const { displaySettings } = (api.getState() as DisplaySettingsShape).content;
+    if (displaySettings && displaySettings !== lastDisplaySettings) {
+      lastDisplaySettings = displaySettings;
+      updateChannelService.applyPortalSettings(displaySettings.updateChannel);
+      localAlertService.applyPortalSettings(displaySettings.localAlerts);
+    }
+
     return result;
   };
 };
@@ -399,6 +399,74 @@ describe('contentSlice', () => {
     });
   });
 
+  describe('extractDisplaySettings pass-through blocks', () => {
+    const extract = (displaySettings: Record<string, unknown>) =>
+      extractDisplaySettings({ displaySettings } as unknown as Parameters<typeof extractDisplaySettings>[0]);
+
+    it('keeps the offline prayerCalculation settings', () => {
+      const prayerCalculation = { method: 'ISNA', asrMadhab: 'hanafi' };
+      expect(extract({ prayerCalculation }).prayerCalculation).toEqual(prayerCalculation);
+      expect(extract({ prayerCalculation: 'MWL' })).not.toHaveProperty('prayerCalculation');
+    });
+
+    it('keeps moon-sighting hijriMonthOverrides', () => {
+      const hijriMonthOverrides = [{ year: 1447, month: 10, startDate: '2026-03-21' }];
+      expect(extract({ hijriMonthOverrides }).hijriMonthOverrides).toEqual(hijriMonthOverrides);
+      expect(extract({ hijriMonthOverrides: {} })).not.toHaveProperty('hijriMonthOverrides');
+    });
+
+    it('keeps Eid mode and Eid jamaats, defaulting the mode to auto', () => {
+      const eidJamaats = [{ time: '08:00' }, { time: '09:30', label: 'Park' }];
+      const result = extract({ eidMode: 'on', eidJamaats });
+      expect(result.eidMode).toBe('on');
+      expect(result.eidJamaats).toEqual(eidJamaats);
+      expect(extract({ eidMode: 'sometimes' }).eidMode).toBe('auto');
+    });
+
+    it('keeps the adhanAudio block', () => {
+      const adhanAudio = { enabled: true, defaultUrl: '/media/adhan.mp3' };
+      expect(extract({ adhanAudio }).adhanAudio).toEqual(adhanAudio);
+    });
+
+    it('keeps the jamaatBuzzer block', () => {
+      const jamaatBuzzer = { enabled: true, volume: 0.5, offsetSeconds: -30 };
+      expect(extract({ jamaatBuzzer }).jamaatBuzzer).toEqual(jamaatBuzzer);
+    });
+
+    it('keeps the powerSchedule block', () => {
+      const powerSchedule = {
+        enabled: true,
+        windows: [{ start: { time: '23:30' }, end: { prayer: 'FAJR', offsetMinutes: -30 } }],
+      };
+      expect(extract({ powerSchedule }).powerSchedule).toEqual(powerSchedule);
+    });
+
+    it('keeps the brightness block', () => {
+      const brightness = { enabled: true, curve: [{ at: { prayer: 'ISHA' }, level: 30 }] };
+      expect(extract({ brightness }).brightness).toEqual(brightness);
+    });
+
+    it('keeps the updateChannel block', () => {
+      const updateChannel = { channel: 'pinned', pinnedVersion: '1.4.2' };
+      expect(extract({ updateChannel }).updateChannel).toEqual(updateChannel);
+    });
+
+    it('keeps the emergencyAudio block', () => {
+      const emergencyAudio = { includeHigh: true, repeatIntervalSeconds: 30 };
+      expect(extract({ emergencyAudio }).emergencyAudio).toEqual(emergencyAudio);
+    });
+
+    it('keeps the localAlerts block', () => {
+      const localAlerts = { enabled: true, pin: '4821' };
+      expect(extract({ localAlerts }).localAlerts).toEqual(localAlerts);
+    });
+
+    it('keeps the carouselSync block', () => {
+      const carouselSync = { enabled: true };
+      expect(extract({ carouselSync }).carouselSync).toEqual(carouselSync);
+    });
+  });
+
   describe('reducers', () => {
     it('setCarouselTime clamps between 5 and 300', () => {
       let state = contentReducer(undefined, setCarouselTime(10));
@@ -131,6 +131,10 @@ function normalisePostJamaatSupplication(
   };
 }
 
+function isPlainObject(value: unknown): value is object {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
 /** Safe defaults when displaySettings is missing from API (backward compatibility). */
 export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
   ramadanMode: "auto",
@@ -441,6 +445,18 @@ export const extractDisplaySettings = (content: ScreenContent | null): DisplaySe
     terminology: normaliseTerminology(
       (raw as unknown as { terminology?: unknown; terminologyPreferences?: unknown }).terminology,
     ),
+    ...(isPlainObject(raw.prayerCalculation) ? { prayerCalculation: raw.prayerCalculation } : {}),
+    ...(Array.isArray(raw.hijriMonthOverrides) ? { hijriMonthOverrides: raw.hijriMonthOverrides } : {}),
+    eidMode: raw.eidMode === "on" || raw.eidMode === "off" ? raw.eidMode : "auto",
+    ...(Array.isArray(raw.eidJamaats) ? { eidJamaats: raw.eidJamaats } : {}),
+    ...(isPlainObject(raw.adhanAudio) ? { adhanAudio: raw.adhanAudio } : {}),
+    ...(isPlainObject(raw.jamaatBuzzer) ? { jamaatBuzzer: raw.jamaatBuzzer } : {}),
+    ...(isPlainObject(raw.powerSchedule) ? { powerSchedule: raw.powerSchedule } : {}),
+    ...(isPlainObject(raw.brightness) ? { brightness: raw.brightness } : {}),
+    ...(isPlainObject(raw.updateChannel) ? { updateChannel: raw.updateChannel } : {}),
+    ...(isPlainObject(raw.emergencyAudio) ? { emergencyAudio: raw.emergencyAudio } : {}),
+    ...(isPlainObject(raw.localAlerts) ? { localAlerts: raw.localAlerts } : {}),
+    ...(isPlainObject(raw.carouselSync) ? { carouselSync: raw.carouselSync } : {}),
   };
 };
 
@@ -1371,6 +1387,12 @@ export const selectTimeFormat = (state: { content: ContentState }) =>
   state.content.timeFormat;
 export const selectDisplaySettings = (state: { content: ContentState }) =>
   state.content.displaySettings;
+/** Masjid latitude/longitude from screen content (used by the offline prayer-time calculator). */
+export const selectMasjidCoordinates = (state: { content: ContentState }) =>
+  state.content.screenContent?.data?.masjid?.coordinates ?? null;
+/** Masjid country (ISO 3166 alpha-2) from screen content; null when the portal does not send it. */
+export const selectMasjidCountry = (state: { content: ContentState }) =>
+  state.content.screenContent?.data?.masjid?.country ?? state.content.screenContent?.masjid?.country ?? null;
 /**
  * Memoised layout config extraction: reads the layout block delivered in
  * screen content (top-level or nested under data), sanitises it, and falls
@@ -0,0 +1,97 @@
+/**
+ * Redux displayMessages slice tests — reducers only.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import displayMessageReducer, {
+  showMessage,
+  dismissMessage,
+  clearMessages,
+  pruneExpiredMessages,
+  hydrateMessages,
+  selectDisplayMessages,
+  MAX_QUEUED_MESSAGES,
+} from './displayMessageSlice';
+import type { DisplayMessage } from '@/utils/displayMessage';
+
+const NOW = Date.parse('2026-03-06T12:00:00Z');
+
+function msg(id: string, overrides: Partial<DisplayMessage> = {}): DisplayMessage {
+  return {
+    id,
+    text: `Message ${id}`,
+    style: 'info',
+    position: 'banner',
+    priority: 'normal',
+    createdAt: new Date(NOW).toISOString(),
+    expiresAt: new Date(NOW + 60_000).toISOString(),
+    ...overrides,
+  };
+}
+
+describe('displayMessageSlice', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts empty and not hydrated', () => {
+    const state = displayMessageReducer(undefined, { type: 'init' });
+    expect(state).toEqual({ messages: [], hydrated: false });
+  });
+
+  it('showMessage keeps the queue sorted by priority and replaces by id', () => {
+    let state = displayMessageReducer(undefined, showMessage(msg('a')));
+    state = displayMessageReducer(state, showMessage(msg('b', { priority: 'high' })));
+    expect(state.messages.map((m) => m.id)).toEqual(['b', 'a']);
+
+    state = displayMessageReducer(state, showMessage(msg('a', { text: 'Updated', priority: 'high' })));
+    expect(state.messages).toHaveLength(2);
+    expect(state.messages.find((m) => m.id === 'a')?.text).toBe('Updated');
+  });
+
+  it('showMessage caps the queue, dropping the lowest priority', () => {
+    let state = displayMessageReducer(undefined, showMessage(msg('low', { priority: 'low' })));
+    for (let i = 0; i < MAX_QUEUED_MESSAGES; i += 1) {
+      state = displayMessageReducer(state, showMessage(msg(`n${i}`)));
+    }
+    expect(state.messages).toHaveLength(MAX_QUEUED_MESSAGES);
+    expect(state.messages.some((m) => m.id === 'low')).toBe(false);
+  });
+
+  it('dismissMessage and clearMessages remove messages', () => {
+    let state = displayMessageReducer(undefined, showMessage(msg('a')));
+    state = displayMessageReducer(state, showMessage(msg('b')));
+    state = displayMessageReducer(state, dismissMessage('a'));
+    expect(state.messages.map((m) => m.id)).toEqual(['b']);
+    state = displayMessageReducer(state, clearMessages());
+    expect(state.messages).toEqual([]);
+  });
+
+  it('pruneExpiredMessages removes messages at or past expiry', () => {
+    let state = displayMessageReducer(undefined, showMessage(msg('short', { expiresAt: new Date(NOW + 1_000).toISOString() })));
+    state = displayMessageReducer(state, showMessage(msg('long')));
+    state = displayMessageReducer(state, pruneExpiredMessages(NOW + 1_000));
+    expect(state.messages.map((m) => m.id)).toEqual(['long']);
+  });
+
+  it('hydrateMessages merges live restored messages without overriding newer ones', () => {
+    let state = displayMessageReducer(undefined, showMessage(msg('a', { text: 'Fresh' })));
+    state = displayMessageReducer(
+      state,
+      hydrateMessages([
+        msg('a', { text: 'Stale' }),
+        msg('b', { position: 'ticker' }),
+        msg('expired', { expiresAt: new Date(NOW - 1).toISOString() }),
+        { id: 'junk' },
+      ]),
+    );
+    expect(state.hydrated).toBe(true);
+    expect(selectDisplayMessages({ displayMessages: state }).map((m) => m.id).sort()).toEqual(['a', 'b']);
+    expect(state.messages.find((m) => m.id === 'a')?.text).toBe('Fresh');
+  });
+});
@@ -0,0 +1,81 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import {
+  compareDisplayMessages,
+  isLiveDisplayMessage,
+  type DisplayMessage,
+} from "@/utils/displayMessage";
+
+/** Oldest / lowest-priority messages are dropped beyond this. */
+export const MAX_QUEUED_MESSAGES = 20;
+
+// State interface
+export interface DisplayMessageState {
+  // Queue sorted by priority then newest (see compareDisplayMessages)
+  messages: DisplayMessage[];
+  // True once the storageService copy has been merged in
+  hydrated: boolean;
+}
+
+const initialState: DisplayMessageState = {
+  messages: [],
+  hydrated: false,
+};
+
+/** Drop expired entries, sort and cap the queue. */
+function normaliseQueue(messages: DisplayMessage[], now: number): DisplayMessage[] {
+  return messages
+    .filter((m) => Date.parse(m.expiresAt) > now)
+    .sort(compareDisplayMessages)
+    .slice(0, MAX_QUEUED_MESSAGES);
+}
+
+const displayMessageSlice = createSlice({
+  name: "displayMessages",
+  initialState,
+  reducers: {
+    /** Add a message, replacing any queued message with the same id. */
+    showMessage: (state, action: PayloadAction<DisplayMessage>) => {
+      const others = state.messages.filter((m) => m.id !== action.payload.id);
+      state.messages = normaliseQueue([...others, action.payload], Date.now());
+    },
+
+    dismissMessage: (state, action: PayloadAction<string>) => {
+      state.messages = state.messages.filter((m) => m.id !== action.payload);
+    },
+
+    clearMessages: (state) => {
+      state.messages = [];
+    },
+
+    /** Remove messages whose expiresAt is at or before `now` (ms). */
+    pruneExpiredMessages: (state, action: PayloadAction<number>) => {
+      const live = state.messages.filter((m) => Date.parse(m.expiresAt) > action.payload);
+      if (live.length !== state.messages.length) state.messages = live;
+    },
+
+    /** Merge messages restored from storage; messages received since startup win on id clash. */
+    hydrateMessages: (state, action: PayloadAction<unknown[]>) => {
+      const now = Date.now();
+      const ids = new Set(state.messages.map((m) => m.id));
+      const restored = action.payload.filter(
+        (m): m is DisplayMessage => isLiveDisplayMessage(m, now) && !ids.has(m.id),
+      );
+      state.messages = normaliseQueue([...state.messages, ...restored], now);
+      state.hydrated = true;
+    },
+  },
+});
+
+export const {
+  showMessage,
+  dismissMessage,
+  clearMessages,
+  pruneExpiredMessages,
+  hydrateMessages,
+} = displayMessageSlice.actions;
+
+// Selectors
+export const selectDisplayMessages = (state: { displayMessages: DisplayMessageState }) =>
+  state.displayMessages.messages;
+
+export default displayMessageSlice.reducer;
@@ -7,10 +7,16 @@ import emergencyReducer from './emergencySlice';
 import {
   setCurrentAlert,
   clearCurrentAlert,
+  addAlert,
+  removeAlert,
+  clearAllAlerts,
   setConnectionStatus,
   initializeEmergencyService,
   connectToEmergencyService,
   clearExpiredAlert,
+  markAlertShown,
+  hydrateAlertHistory,
+  MAX_ALERT_HISTORY,
 } from './emergencySlice';
 import { mockEmergencyAlert } from '@/test-utils/mocks';
 
@@ -147,4 +153,141 @@ describe('emergencySlice', () => {
       expect(state.currentAlert).toBeNull();
     });
   });
+
+  describe('alert queue', () => {
+    const at = (minutes: number) => new Date(Date.UTC(2026, 0, 1, 12, minutes)).toISOString();
+    const fire = { ...mockEmergencyAlert, id: 'fire', category: 'safety' as const, urgency: 'critical' as const, createdAt: at(5) };
+    const janazah = { ...mockEmergencyAlert, id: 'janazah', category: 'janazah' as const, urgency: 'medium' as const, createdAt: at(10) };
+    const parking = { ...mockEmergencyAlert, id: 'parking', category: 'vehicle' as const, urgency: 'high' as const, createdAt: at(1) };
+    const notice = { ...mockEmergencyAlert, id: 'notice', category: 'community' as const, urgency: 'high' as const, createdAt: at(8) };
+
+    it('orders by urgency then createdAt, keeping the top alert current', () => {
+      let state = emergencyReducer(undefined, addAlert(fire));
+      state = emergencyReducer(state, addAlert(janazah));
+      state = emergencyReducer(state, addAlert(notice));
+      state = emergencyReducer(state, addAlert(parking));
+
+      expect(state.alertQueue.map((a) => a.id)).toEqual(['fire', 'parking', 'notice', 'janazah']);
+      expect(state.currentAlert?.id).toBe('fire');
+      expect(state.totalAlertsReceived).toBe(4);
+    });
+
+    it('updates an alert with the same id in place', () => {
+      let state = emergencyReducer(undefined, addAlert(janazah));
+      state = emergencyReducer(state, addAlert({ ...janazah, title: 'Updated' }));
+
+      expect(state.alertQueue).toHaveLength(1);
+      expect(state.currentAlert?.title).toBe('Updated');
+      expect(state.totalAlertsReceived).toBe(1);
+    });
+
+    it('keeps the first shown time when a shown alert is updated in place', () => {
+      let state = emergencyReducer(undefined, addAlert(janazah));
+      state = emergencyReducer(state, markAlertShown({ alertId: 'janazah', shownAt: '2030-01-01T00:00:01.000Z' }));
+      state = emergencyReducer(state, addAlert({ ...janazah, title: 'Updated' }));
+
+      expect(state.alertHistory[state.alertHistory.length - 1]).toMatchObject({
+        action: 'received',
+        alert: { title: 'Updated' },
+        shownAt: '2030-01-01T00:00:01.000Z',
+      });
+    });
+
+    it('removeAlert takes out only the matching id', () => {
+      let state = emergencyReducer(undefined, addAlert(fire));
+      state = emergencyReducer(state, addAlert(janazah));
+      state = emergencyReducer(state, removeAlert({ alertId: 'fire' }));
+
+      expect(state.currentAlert?.id).toBe('janazah');
+      expect(state.alertHistory[state.alertHistory.length - 1]).toMatchObject({
+        action: 'cleared',
+        alert: { id: 'fire' },
+      });
+    });
+
+    it('records a cancel on the cleared entry', () => {
+      let state = emergencyReducer(undefined, addAlert(janazah));
+      state = emergencyReducer(state, removeAlert({ alertId: 'janazah', reason: 'cancelled' }));
+
+      expect(state.alertHistory[state.alertHistory.length - 1]).toMatchObject({
+        action: 'cleared',
+        cancelled: true,
+      });
+    });
+
+    it('clearCurrentAlert promotes the next queued alert', () => {
+      let state = emergencyReducer(undefined, addAlert(fire));
+      state = emergencyReducer(state, addAlert(parking));
+      state = emergencyReducer(state, clearCurrentAlert());
+
+      expect(state.alertQueue.map((a) => a.id)).toEqual(['parking']);
+    });
+
+    it('clearExpiredAlert expires a queued alert behind the current one', () => {
+      let state = emergencyReducer(undefined, addAlert(fire));
+      state = emergencyReducer(state, addAlert(janazah));
+      state = emergencyReducer(
+        state,
+        clearExpiredAlert.fulfilled({ alertId: 'janazah', timestamp: at(20) }, '', 'janazah'),
+      );
+
+      expect(state.alertQueue.map((a) => a.id)).toEqual(['fire']);
+      expect(state.alertHistory[state.alertHistory.length - 1].action).toBe('expired');
+    });
+
+    it('clearAllAlerts records each alert as cleared', () => {
+      let state = emergencyReducer(undefined, addAlert(fire));
+      state = emergencyReducer(state, addAlert(janazah));
+      state = emergencyReducer(state, clearAllAlerts());
+
+      expect(state.alertQueue).toEqual([]);
+      expect(state.currentAlert).toBeNull();
+      expect(state.alertHistory.filter((e) => e.action === 'cleared')).toHaveLength(2);
+    });
+  });
+
+  describe('markAlertShown', () => {
+    it('stamps the received entry once with the render latency', () => {
+      let state = emergencyReducer(undefined, setCurrentAlert(mockEmergencyAlert));
+      const receivedAt = new Date(state.alertHistory[0].timestamp).getTime();
+      const shownAt = new Date(receivedAt + 120).toISOString();
+      state = emergencyReducer(state, markAlertShown({ alertId: mockEmergencyAlert.id, shownAt }));
+      state = emergencyReducer(
+        state,
+        markAlertShown({ alertId: mockEmergencyAlert.id, shownAt: new Date(receivedAt + 900).toISOString() }),
+      );
+      expect(state.alertHistory[0].shownAt).toBe(shownAt);
+      expect(state.alertHistory[0].renderLatencyMs).toBe(120);
+    });
+  });
+
+  describe('hydrateAlertHistory', () => {
+    it('puts saved entries before ones received since startup and keeps the larger count', () => {
+      const saved = {
+        alert: { ...mockEmergencyAlert, id: 'saved' },
+        timestamp: '2020-01-01T10:00:00.000Z',
+        action: 'received' as const,
+      };
+      let state = emergencyReducer(undefined, setCurrentAlert(mockEmergencyAlert));
+      state = emergencyReducer(
+        state,
+        hydrateAlertHistory({ alertHistory: [saved], totalAlertsReceived: 7, lastAlertTime: saved.timestamp }),
+      );
+      expect(state.alertHistory.map((e) => e.alert.id)).toEqual(['saved', mockEmergencyAlert.id]);
+      expect(state.totalAlertsReceived).toBe(7);
+      expect(state.lastAlertTime).not.toBe(saved.timestamp);
+    });
+
+    it('caps the merged history', () => {
+      const saved = Array.from({ length: MAX_ALERT_HISTORY }, (_, i) => ({
+        alert: { ...mockEmergencyAlert, id: `a${i}` },
+        timestamp: new Date(Date.UTC(2020, 0, 1, 0, i)).toISOString(),
+        action: 'received' as const,
+      }));
+      let state = emergencyReducer(undefined, setCurrentAlert(mockEmergencyAlert));
+      state = emergencyReducer(state, hydrateAlertHistory({ alertHistory: saved, totalAlertsReceived: 50, lastAlertTime: null }));
+      expect(state.alertHistory).toHaveLength(MAX_ALERT_HISTORY);
+      expect(state.alertHistory[MAX_ALERT_HISTORY - 1].alert.id).toBe(mockEmergencyAlert.id);
+    });
+  });
 });
@@ -1,15 +1,40 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
-import { EmergencyAlert, AlertCategory, AlertUrgency } from "../../api/models";
+import { EmergencyAlert, AlertCategory, AlertUrgency, JanazahAlertDetails } from "../../api/models";
 import emergencyAlertService from "../../services/emergencyAlertService";
 import logger from "../../utils/logger";
+import type { JanazahSalah } from "../../utils/janazahAlert";
 
 function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : String(error);
 }
 
+/** History entries kept (persisted by emergencyMiddleware through storageService). */
+export const MAX_ALERT_HISTORY = 50;
+
+export interface AlertHistoryEntry {
+  alert: EmergencyAlert;
+  timestamp: string;
+  action: "received" | "cleared" | "expired";
+  /** "cleared" entries: an admin cancelled the alert, rather than just taking it down */
+  cancelled?: boolean;
+  /** "received" entries: first frame on screen (display:alert:shown) */
+  shownAt?: string;
+  /** "received" entries: shownAt − timestamp */
+  renderLatencyMs?: number;
+}
+
+/** Alert history, counters and last alert time as saved to storage. */
+export interface PersistedAlertHistory {
+  alertHistory: AlertHistoryEntry[];
+  totalAlertsReceived: number;
+  lastAlertTime: string | null;
+}
+
 // State interface
 export interface EmergencyState {
-  // Current alert
+  // Active alerts, highest priority first (see compareAlertPriority)
+  alertQueue: EmergencyAlert[];
+  // Head of the queue: the alert shown full-screen
   currentAlert: EmergencyAlert | null;
 
   // Connection status
@@ -22,12 +47,11 @@ export interface EmergencyState {
   reconnectAttempts: number;
   lastReconnectTime: string | null;
 
-  // Alert history (keep last few for debugging)
-  alertHistory: Array<{
-    alert: EmergencyAlert;
-    timestamp: string;
-    action: "received" | "cleared" | "expired";
-  }>;
+  // Alert history (receipts, admin replay view)
+  alertHistory: AlertHistoryEntry[];
+
+  // Janazah salah times resolved against prayer times (by alert id), set by useJanazahNotices
+  janazahSalahTimes: Record<string, JanazahSalah>;
 
   // Settings
   isEnabled: boolean;
@@ -46,6 +70,7 @@ export interface EmergencyState {
 
 // Initial state
 const initialState: EmergencyState = {
+  alertQueue: [],
   currentAlert: null,
   isConnected: false,
   isConnecting: false,
@@ -54,6 +79,7 @@ const initialState: EmergencyState = {
   reconnectAttempts: 0,
   lastReconnectTime: null,
   alertHistory: [],
+  janazahSalahTimes: {},
   isEnabled: true,
   autoReconnect: true,
   maxReconnectAttempts: 10,
@@ -64,6 +90,85 @@ const initialState: EmergencyState = {
   errorCount: 0,
 };
 
+const URGENCY_RANK: Record<AlertUrgency, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+};
+
+/**
+ * Queue order: urgency first, then createdAt (oldest first, so a newer
+ * notice of the same urgency waits in the ticker instead of taking over).
+ */
+export function compareAlertPriority(a: EmergencyAlert, b: EmergencyAlert): number {
+  const byUrgency = (URGENCY_RANK[a.urgency] ?? URGENCY_RANK.medium) - (URGENCY_RANK[b.urgency] ?? URGENCY_RANK.medium);
+  if (byUrgency !== 0) return byUrgency;
+  const byCreated = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+  if (byCreated !== 0 && !Number.isNaN(byCreated)) return byCreated;
+  return a.id.localeCompare(b.id);
+}
+
+function pushHistory(state: EmergencyState, entry: AlertHistoryEntry): void {
+  state.alertHistory.push(entry);
+  if (state.alertHistory.length > MAX_ALERT_HISTORY) {
+    state.alertHistory = state.alertHistory.slice(-MAX_ALERT_HISTORY);
+  }
+}
+
+/** Re-sort the queue and point currentAlert at its head. */
+function syncQueue(state: EmergencyState): void {
+  state.alertQueue.sort(compareAlertPriority);
+  state.currentAlert = state.alertQueue[0] ?? null;
+}
+
+/**
+ * Add an alert, or update the queued alert with the same id. An update keeps
+ * the time the alert was first shown, so its receipts time the whole display.
+ */
+function enqueueAlert(state: EmergencyState, alert: EmergencyAlert, timestamp: string): void {
+  const index = state.alertQueue.findIndex((queued) => queued.id === alert.id);
+  let shown: Pick<AlertHistoryEntry, "shownAt" | "renderLatencyMs"> = {};
+  if (index >= 0) {
+    state.alertQueue[index] = alert;
+    for (let i = state.alertHistory.length - 1; i >= 0; i--) {
+      const entry = state.alertHistory[i];
+      if (entry.alert.id !== alert.id || entry.action !== "received") continue;
+      if (entry.shownAt) shown = { shownAt: entry.shownAt, renderLatencyMs: entry.renderLatencyMs };
+      break;
+    }
+  } else {
+    state.alertQueue.push(alert);
+    state.totalAlertsReceived += 1;
+  }
+  state.lastAlertTime = timestamp;
+  pushHistory(state, { alert, timestamp, action: "received", ...shown });
+  syncQueue(state);
+}
+
+/** Take an alert out of the queue, recording how it ended. */
+function dequeueAlert(
+  state: EmergencyState,
+  alertId: string,
+  action: "cleared" | "expired",
+  timestamp: string,
+  cancelled = false,
+): EmergencyAlert | null {
+  const index = state.alertQueue.findIndex((queued) => queued.id === alertId);
+  if (index < 0) return null;
+  const [alert] = state.alertQueue.splice(index, 1);
+  pushHistory(state, { alert, timestamp, action, ...(cancelled ? { cancelled } : {}) });
+  syncQueue(state);
+  return alert;
+}
+
+function clearQueue(state: EmergencyState, timestamp: string, cancelled = false): void {
+  for (const alert of state.alertQueue) {
+    pushHistory(state, { alert, timestamp, action: "cleared", ...(cancelled ? { cancelled } : {}) });
+  }
+  state.alertQueue = [];
+  state.currentAlert = null;
+}
+
 // Async thunks
 export const initializeEmergencyService = createAsyncThunk(
   "emergency/initialize",
@@ -148,9 +253,8 @@ export const clearExpiredAlert = createAsyncThunk(
   async (alertId: string, { getState }) => {
     try {
       const state = getState() as { emergency: EmergencyState };
-      const currentAlert = state.emergency.currentAlert;
 
-      if (currentAlert && currentAlert.id === alertId) {
+      if (state.emergency.alertQueue.some((alert) => alert.id === alertId)) {
         logger.debug("[Emergency] Clearing expired alert", { alertId });
 
         return {
@@ -173,45 +277,52 @@ const emergencySlice = createSlice({
   initialState,
   reducers: {
     // Alert management
-    setCurrentAlert: (state, action: PayloadAction<EmergencyAlert | null>) => {
-      const previousAlert = state.currentAlert;
-      state.currentAlert = action.payload;
+    /** Queue an alert (an alert with the same id is updated in place). */
+    addAlert: (state, action: PayloadAction<EmergencyAlert>) => {
+      enqueueAlert(state, action.payload, new Date().toISOString());
+
+      logger.info("[Emergency] Alert received", {
+        alertId: action.payload.id,
+        title: action.payload.title,
+        queued: state.alertQueue.length,
+      });
+    },
 
-      if (action.payload) {
-        // New alert received
-        state.totalAlertsReceived += 1;
-        state.lastAlertTime = new Date().toISOString();
+    /**
+     * Remove one alert by id; the others keep their place and countdowns.
+     * "cancelled" is a clear an admin marked as a cancellation.
+     */
+    removeAlert: (
+      state,
+      action: PayloadAction<{ alertId: string; reason?: "cleared" | "expired" | "cancelled" }>,
+    ) => {
+      const { alertId, reason = "cleared" } = action.payload;
+      const cancelled = reason === "cancelled";
+      if (dequeueAlert(state, alertId, cancelled ? "cleared" : reason, new Date().toISOString(), cancelled)) {
+        logger.info("[Emergency] Alert removed", { alertId, reason, queued: state.alertQueue.length });
+      }
+    },
 
-        // Add to history
-        state.alertHistory.push({
-          alert: action.payload,
-          timestamp: new Date().toISOString(),
-          action: "received",
-        });
+    clearAllAlerts: (state, action: PayloadAction<{ cancelled?: boolean } | undefined>) => {
+      if (state.alertQueue.length === 0) return;
+      const count = state.alertQueue.length;
+      clearQueue(state, new Date().toISOString(), action.payload?.cancelled === true);
+      logger.info("[Emergency] All alerts cleared", { count });
+    },
 
-        // Keep only last 10 alerts in history
-        if (state.alertHistory.length > 10) {
-          state.alertHistory = state.alertHistory.slice(-10);
-        }
+    /** Queue an alert; `null` clears every alert. */
+    setCurrentAlert: (state, action: PayloadAction<EmergencyAlert | null>) => {
+      const now = new Date().toISOString();
+      if (action.payload) {
+        enqueueAlert(state, action.payload, now);
 
         logger.info("[Emergency] Alert received", {
           alertId: action.payload.id,
           title: action.payload.title,
         });
-      } else if (previousAlert) {
-        // Alert cleared
-        state.alertHistory.push({
-          alert: previousAlert,
-          timestamp: new Date().toISOString(),
-          action: "cleared",
-        });
-
-        // Keep only last 10 alerts in history (prevent memory growth)
-        if (state.alertHistory.length > 10) {
-          state.alertHistory = state.alertHistory.slice(-10);
-        }
-
-        logger.info("[Emergency] Alert cleared", { alertId: previousAlert.id });
+      } else if (state.alertQueue.length > 0) {
+        clearQueue(state, now);
+        logger.info("[Emergency] Alert cleared");
       }
     },
 
@@ -228,6 +339,7 @@ const emergencySlice = createSlice({
         category: AlertCategory;
         urgency: AlertUrgency;
         color: string | null;
+        janazah?: JanazahAlertDetails;
       }
 
       // Keyed by dev shortcut number (1–8)
@@ -255,6 +367,12 @@ const emergencySlice = createSlice({
           category: "janazah",
           urgency: "medium",
           color: null,
+          janazah: {
+            deceasedName: "Brother Abdullah Rahman",
+            salahAfterPrayer: "Asr",
+            location: "Main prayer hall",
+            burial: "Burial to follow at the Muslim section of Eastern Cemetery",
+          },
         },
         "4": {
           title: "Prayer Time Change",
@@ -311,24 +429,10 @@ const emergencySlice = createSlice({
         expiresAt: expiresAt.toISOString(),
         createdAt: now.toISOString(),
         masjidId: "test-masjid",
+        janazah: alertTemplate.janazah ?? null,
       };
 
-      // Set the alert
-      state.currentAlert = testAlert;
-      state.totalAlertsReceived += 1;
-      state.lastAlertTime = now.toISOString();
-
-      // Add to history
-      state.alertHistory.push({
-        alert: testAlert,
-        timestamp: now.toISOString(),
-        action: "received",
-      });
-
-      // Keep only last 10 alerts in history
-      if (state.alertHistory.length > 10) {
-        state.alertHistory = state.alertHistory.slice(-10);
-      }
+      enqueueAlert(state, testAlert, now.toISOString());
 
       logger.info("[Emergency] Test alert created", {
         alertId: testAlert.id,
@@ -339,28 +443,55 @@ const emergencySlice = createSlice({
       });
     },
 
+    /** Clear the alert on screen; the next queued alert takes its place. */
     clearCurrentAlert: (state) => {
       if (state.currentAlert) {
         const alertId = state.currentAlert.id;
+        dequeueAlert(state, alertId, "cleared", new Date().toISOString());
 
-        // Add to history
-        state.alertHistory.push({
-          alert: state.currentAlert,
-          timestamp: new Date().toISOString(),
-          action: "cleared",
-        });
+        logger.info("[Emergency] Alert manually cleared", { alertId });
+      }
+    },
 
-        // Keep only last 10 alerts in history (prevent memory growth)
-        if (state.alertHistory.length > 10) {
-          state.alertHistory = state.alertHistory.slice(-10);
+    /** The overlay painted the alert: stamp its "received" entry (once). */
+    markAlertShown: (
+      state,
+      action: PayloadAction<{ alertId: string; shownAt: string }>,
+    ) => {
+      const { alertId, shownAt } = action.payload;
+      for (let i = state.alertHistory.length - 1; i >= 0; i--) {
+        const entry = state.alertHistory[i];
+        if (entry.alert.id !== alertId || entry.action !== "received") continue;
+        if (!entry.shownAt) {
+          entry.shownAt = shownAt;
+          entry.renderLatencyMs = Math.max(
+            0,
+            new Date(shownAt).getTime() - new Date(entry.timestamp).getTime(),
+          );
         }
+        return;
+      }
+    },
 
-        state.currentAlert = null;
-
-        logger.info("[Emergency] Alert manually cleared", { alertId });
+    /**
+     * Merge history saved by a previous run. Entries recorded since startup
+     * (newer than the last saved one) are kept after the saved ones.
+     */
+    hydrateAlertHistory: (state, action: PayloadAction<PersistedAlertHistory>) => {
+      const saved = action.payload;
+      const lastSaved = saved.alertHistory[saved.alertHistory.length - 1]?.timestamp ?? "";
+      const recent = state.alertHistory.filter((entry) => entry.timestamp > lastSaved);
+      state.alertHistory = [...saved.alertHistory, ...recent].slice(-MAX_ALERT_HISTORY);
+      state.totalAlertsReceived = Math.max(state.totalAlertsReceived, saved.totalAlertsReceived);
+      if (saved.lastAlertTime && (!state.lastAlertTime || saved.lastAlertTime > state.lastAlertTime)) {
+        state.lastAlertTime = saved.lastAlertTime;
       }
     },
 
+    setJanazahSalahTimes: (state, action: PayloadAction<Record<string, JanazahSalah>>) => {
+      state.janazahSalahTimes = action.payload;
+    },
+
     // Connection status
     setConnectionStatus: (
       state,
@@ -414,6 +545,7 @@ const emergencySlice = createSlice({
         state.isConnected = false;
         state.isConnecting = false;
         state.connectionError = null;
+        state.alertQueue = [];
         state.currentAlert = null;
       }
     },
@@ -440,6 +572,7 @@ const emergencySlice = createSlice({
 
     // Reset state
     resetEmergencyState: (state) => {
+      state.alertQueue = [];
       state.currentAlert = null;
       state.isConnected = false;
       state.isConnecting = false;
@@ -510,6 +643,7 @@ const emergencySlice = createSlice({
         state.isConnected = false;
         state.isConnecting = false;
         state.connectionError = null;
+        state.alertQueue = [];
         state.currentAlert = null;
         state.connectionStartTime = null;
       })
@@ -521,20 +655,8 @@ const emergencySlice = createSlice({
 
     // Clear expired alert
     builder.addCase(clearExpiredAlert.fulfilled, (state, action) => {
-      if (action.payload && state.currentAlert?.id === action.payload.alertId) {
-        // Add to history
-        state.alertHistory.push({
-          alert: state.currentAlert,
-          timestamp: action.payload.timestamp,
-          action: "expired",
-        });
-
-        // Keep only last 10 alerts in history (prevent memory growth)
-        if (state.alertHistory.length > 10) {
-          state.alertHistory = state.alertHistory.slice(-10);
-        }
-
-        state.currentAlert = null;
+      if (action.payload) {
+        dequeueAlert(state, action.payload.alertId, "expired", action.payload.timestamp);
       }
     });
   },
@@ -542,6 +664,9 @@ const emergencySlice = createSlice({
 
 // Export actions
 export const {
+  addAlert,
+  removeAlert,
+  clearAllAlerts,
   setCurrentAlert,
   clearCurrentAlert,
   setConnectionStatus,
@@ -556,11 +681,16 @@ export const {
   resetEmergencyState,
   resetStatistics,
   createTestAlert,
+  markAlertShown,
+  hydrateAlertHistory,
+  setJanazahSalahTimes,
 } = emergencySlice.actions;
 
 // Selectors
 export const selectCurrentAlert = (state: { emergency: EmergencyState }) =>
   state.emergency.currentAlert;
+export const selectAlertQueue = (state: { emergency: EmergencyState }) =>
+  state.emergency.alertQueue;
 export const selectHasActiveAlert = (state: { emergency: EmergencyState }) =>
   !!state.emergency.currentAlert;
 export const selectIsConnected = (state: { emergency: EmergencyState }) =>
@@ -577,6 +707,8 @@ export const selectLastReconnectTime = (state: { emergency: EmergencyState }) =>
   state.emergency.lastReconnectTime;
 export const selectAlertHistory = (state: { emergency: EmergencyState }) =>
   state.emergency.alertHistory;
+export const selectJanazahSalahTimes = (state: { emergency: EmergencyState }) =>
+  state.emergency.janazahSalahTimes;
 export const selectIsEnabled = (state: { emergency: EmergencyState }) =>
   state.emergency.isEnabled;
 export const selectAutoReconnect = (state: { emergency: EmergencyState }) =>
@@ -1,6 +1,8 @@
 import { createSlice, PayloadAction } from "@reduxjs/toolkit";
 import type { RotationDegrees, ScreenOrientation } from "@/types/realtime";
 import { ORIENTATION_TO_DEGREES } from "@/utils/orientation";
+import type { DisplayPowerStatus } from "@/services/displayPowerService";
+import type { BrightnessStatus } from "@/services/brightnessService";
 
 /** Display orientation (four values). For layout, use isPortrait = PORTRAIT | PORTRAIT_INVERTED. */
 export type Orientation = ScreenOrientation;
@@ -68,6 +70,8 @@ export interface UIState {
     ethernetIp: string;
   } | null;
   showWifiSettings: boolean;
+  // Hidden admin view replaying recent emergency alerts (opened from WiFi settings)
+  showRecentAlerts: boolean;
 
   // Self-update status (from FORCE_UPDATE + /internal/update-status). Not persisted.
   updatePhase:
@@ -75,11 +79,20 @@ export interface UIState {
     | "checking"
     | "no_update"
     | "downloading"
+    | "verifying"
     | "installing"
     | "countdown"
-    | "done";
+    | "done"
+    | "failed"
+    | "rolled_back";
   updateMessage: string;
   updateRestartAt: number | null;
+
+  // Scheduled screen power (power schedule + /internal/display-power). Not persisted.
+  displayPower: DisplayPowerStatus;
+
+  // Automatic brightness (useBrightnessControl). Not persisted.
+  brightness: BrightnessStatus;
 }
 
 // Initial state
@@ -110,9 +123,12 @@ const initialState: UIState = {
   pendingRestart: null,
   wifiStatus: null,
   showWifiSettings: false,
+  showRecentAlerts: false,
   updatePhase: "idle",
   updateMessage: "",
   updateRestartAt: null,
+  displayPower: { state: "on", method: null, reason: null, changedAt: null },
+  brightness: { level: null, method: null },
 };
 
 // Slice
@@ -292,6 +308,10 @@ const uiSlice = createSlice({
       state.showWifiSettings = action.payload;
     },
 
+    setShowRecentAlerts: (state, action: PayloadAction<boolean>) => {
+      state.showRecentAlerts = action.payload;
+    },
+
     // Self-update status (FORCE_UPDATE flow)
     setUpdateStatus: (
       state,
@@ -312,6 +332,14 @@ const uiSlice = createSlice({
       state.updateRestartAt = null;
     },
 
+    setDisplayPower: (state, action: PayloadAction<DisplayPowerStatus>) => {
+      state.displayPower = action.payload;
+    },
+
+    setBrightness: (state, action: PayloadAction<BrightnessStatus>) => {
+      state.brightness = action.payload;
+    },
+
     // Reset UI state (useful for logout)
     resetUIState: (state) => {
       // Reset most UI state but keep kiosk settings
@@ -338,6 +366,7 @@ const uiSlice = createSlice({
       state.pendingRestart = null;
       state.wifiStatus = null;
       state.showWifiSettings = false;
+      state.showRecentAlerts = false;
       state.updatePhase = "idle";
       state.updateMessage = "";
       state.updateRestartAt = null;
@@ -374,8 +403,11 @@ export const {
   clearPendingRestart,
   setWifiStatus,
   setShowWifiSettings,
+  setShowRecentAlerts,
   setUpdateStatus,
   clearUpdateStatus,
+  setDisplayPower,
+  setBrightness,
   resetUIState,
 } = uiSlice.actions;
 
@@ -432,6 +464,12 @@ export const selectWifiStatus = (state: { ui: UIState }) =>
   state.ui.wifiStatus;
 export const selectShowWifiSettings = (state: { ui: UIState }) =>
   state.ui.showWifiSettings;
+export const selectShowRecentAlerts = (state: { ui: UIState }) =>
+  state.ui.showRecentAlerts;
+export const selectDisplayPower = (state: { ui: UIState }) =>
+  state.ui.displayPower;
+export const selectBrightness = (state: { ui: UIState }) =>
+  state.ui.brightness;
 
 // Computed selectors
 export const selectOfflineDuration = (state: { ui: UIState }) => {
@@ -9,15 +9,18 @@ import authSlice from '@/store/slices/authSlice';
 import contentSlice from '@/store/slices/contentSlice';
 import uiSlice from '@/store/slices/uiSlice';
 import emergencySlice from '@/store/slices/emergencySlice';
+import displayMessageSlice from '@/store/slices/displayMessageSlice';
 
 import { emergencyMiddleware } from '@/store/middleware/emergencyMiddleware';
 import { realtimeMiddleware } from '@/store/middleware/realtimeMiddleware';
+import { displayMessageMiddleware } from '@/store/middleware/displayMessageMiddleware';
 
 const rootReducer = combineReducers({
   auth: authSlice,
   content: contentSlice,
   ui: uiSlice,
   emergency: emergencySlice,
+  displayMessages: displayMessageSlice,
 });
 
 export type TestRootState = RootState;
@@ -41,7 +44,8 @@ export function createTestStore(preloadedState?: Partial<TestRootState>) {
         },
       })
         .concat(emergencyMiddleware)
-        .concat(realtimeMiddleware),
+        .concat(realtimeMiddleware)
+        .concat(displayMessageMiddleware),
   });
 }
 
@@ -0,0 +1,54 @@
+/**
+ * Layout config parser — clock, ticker, QR and image zones.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { inferZoneRegion, sanitiseLayoutConfig } from './displayLayout';
+
+function config(landscapeZones: unknown[], portraitZones: unknown[] = landscapeZones) {
+  return sanitiseLayoutConfig({
+    version: 1,
+    landscape: { zones: [...landscapeZones, { component: 'footer' }] },
+    portrait: { zones: [...portraitZones, { component: 'footer' }] },
+  });
+}
+
+describe('sanitiseLayoutConfig — option zones', () => {
+  it('gives new zones orientation defaults when size and style are left out', () => {
+    const parsed = config([{ component: 'clock' }, { component: 'ticker' }])!;
+    expect(parsed.landscape.zones[0]).toMatchObject({ component: 'clock', size: 3, options: { clockStyle: 'digital' } });
+    expect(parsed.portrait.zones[0]).toMatchObject({ component: 'clock', size: 2, options: { clockStyle: 'analogue' } });
+    expect(parsed.landscape.zones[1]).toMatchObject({ component: 'ticker', size: 0, options: { speed: 'normal' } });
+  });
+
+  it('keeps valid options and replaces invalid ones', () => {
+    const parsed = config([
+      { component: 'clock', size: 5, options: { clockStyle: 'analogue', showSeconds: true } },
+      { component: 'ticker', options: { speed: 'warp' } },
+      { component: 'image', options: { src: 'https://cdn.example.org/logo.png', fit: 'stretch', alt: ' Logo ' } },
+    ])!;
+    const [clock, ticker, image] = parsed.landscape.zones;
+    expect(clock).toMatchObject({ size: 5, options: { clockStyle: 'analogue', showSeconds: true } });
+    expect(ticker.options).toEqual({ speed: 'normal' });
+    expect(image.options).toEqual({ src: 'https://cdn.example.org/logo.png', fit: 'contain', alt: 'Logo' });
+  });
+
+  it('drops QR and image zones without an http(s) URL', () => {
+    const parsed = config([
+      { component: 'content' },
+      { component: 'qr', options: { url: 'javascript:alert(1)' } },
+      { component: 'image', options: {} },
+    ])!;
+    expect(parsed.landscape.zones.map((zone) => zone.component)).toEqual(['content', 'footer']);
+
+    const withQr = config([{ component: 'qr', options: { url: 'https://example.org/donate', caption: 'Donate' } }])!;
+    expect(withQr.portrait.zones[0]).toMatchObject({
+      size: 1,
+      options: { url: 'https://example.org/donate', caption: 'Donate' },
+    });
+  });
+
+  it('places the clock in the top band of a split-top layout', () => {
+    expect(inferZoneRegion('split-top', 'clock')).toBe('top-band');
+  });
+});
@@ -6,6 +6,10 @@
 
 export const DISPLAY_LAYOUT_CONFIG_VERSION = 1 as const;
 
+/**
+ * Components a zone can place. There is no `weather` zone: the backend sends
+ * no weather data, so it waits until the shared contract gains a source.
+ */
 export const LAYOUT_ZONE_COMPONENTS = [
   'header',
   'prayer-panel',
@@ -14,6 +18,10 @@ export const LAYOUT_ZONE_COMPONENTS = [
   'countdown',
   'content',
   'footer',
+  'clock',
+  'ticker',
+  'qr',
+  'image',
 ] as const;
 
 export type PrayerTimesLayout = 'strip' | 'sidebar';
@@ -46,6 +54,43 @@ export interface LayoutZoneHeaderOptions {
   showCountdown?: boolean;
 }
 
+export type ClockZoneStyle = 'digital' | 'analogue';
+
+export type TickerZoneSpeed = 'slow' | 'normal' | 'fast';
+
+export type ImageZoneFit = 'contain' | 'cover';
+
+/** Large clock zone — digital or analogue face. */
+export interface LayoutZoneClockOptions {
+  clockStyle?: ClockZoneStyle;
+  showSeconds?: boolean;
+}
+
+/** Scrolling ticker of the playlist's announcements. */
+export interface LayoutZoneTickerOptions {
+  speed?: TickerZoneSpeed;
+}
+
+/** Static QR code (donation page, website). */
+export interface LayoutZoneQrOptions {
+  url?: string;
+  caption?: string;
+}
+
+/** Image or logo zone. */
+export interface LayoutZoneImageOptions {
+  src?: string;
+  fit?: ImageZoneFit;
+  alt?: string;
+}
+
+/** Options per zone component; only the fields of the zone's own component apply. */
+export type LayoutZoneOptions = LayoutZoneHeaderOptions &
+  LayoutZoneClockOptions &
+  LayoutZoneTickerOptions &
+  LayoutZoneQrOptions &
+  LayoutZoneImageOptions;
+
 export interface LayoutZone {
   id: string;
   component: LayoutZoneComponent;
@@ -53,7 +98,7 @@ export interface LayoutZone {
   size: number;
   fontScale: number;
   region?: LayoutRegion;
-  options?: LayoutZoneHeaderOptions;
+  options?: LayoutZoneOptions;
 }
 
 export interface OrientationLayoutConfig {
@@ -98,6 +143,14 @@ export interface LayoutBehaviourOverrides {
     enabled?: boolean;
     durationMinutes?: number;
   };
+  jamaatBuzzer?: {
+    enabled?: boolean;
+    volume?: number;
+    sound?: string | null;
+    prayers?: Partial<Record<'fajr' | 'zuhr' | 'asr' | 'maghrib' | 'isha', boolean>>;
+    offsetSeconds?: number;
+    allowLocalOverride?: boolean;
+  };
 }
 
 export interface DisplayLayoutConfig {
@@ -155,6 +208,27 @@ const SIDEBAR_WIDTH_MAX = 0.4;
 
 const HEX_COLOUR_RE = /^#(?:[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
 
+const ZONE_URL_MAX_LENGTH = 2048;
+const ZONE_TEXT_MAX_LENGTH = 120;
+
+type LayoutOrientation = 'landscape' | 'portrait';
+
+/**
+ * Defaults for zones added after the built-in set, per orientation: flex size
+ * when the config leaves it out (ticker keeps its natural height), and the
+ * clock face — digital across a wide landscape band, analogue in the taller
+ * portrait space.
+ */
+const ZONE_DEFAULT_SIZE: Record<LayoutOrientation, Partial<Record<LayoutZoneComponent, number>>> = {
+  landscape: { clock: 3, qr: 2, image: 2 },
+  portrait: { clock: 2, qr: 1, image: 1 },
+};
+
+const CLOCK_DEFAULT_STYLE: Record<LayoutOrientation, ClockZoneStyle> = {
+  landscape: 'digital',
+  portrait: 'analogue',
+};
+
 const clamp = (value: number, min: number, max: number): number =>
   Math.min(max, Math.max(min, value));
 
@@ -175,7 +249,8 @@ export function inferZoneRegion(
       component === 'prayer-panel' ||
       component === 'jumuah-bar' ||
       component === 'header' ||
-      component === 'countdown'
+      component === 'countdown' ||
+      component === 'clock'
     ) {
       return 'top-band';
     }
@@ -263,7 +338,72 @@ function sanitiseStructureOptions(raw: unknown): LayoutStructureOptions | undefi
   return Object.keys(result).length > 0 ? result : undefined;
 }
 
-function sanitiseZone(raw: unknown): LayoutZone | null {
+/** http(s) URL, trimmed; anything else (javascript:, data:, relative) is dropped. */
+function sanitiseZoneUrl(raw: unknown): string | undefined {
+  if (typeof raw !== 'string') return undefined;
+  const value = raw.trim();
+  if (value === '' || value.length > ZONE_URL_MAX_LENGTH) return undefined;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function sanitiseZoneText(raw: unknown): string | undefined {
+  if (typeof raw !== 'string') return undefined;
+  const value = raw.trim().slice(0, ZONE_TEXT_MAX_LENGTH);
+  return value === '' ? undefined : value;
+}
+
+/** Options of the zone's own component; header flags apply to every zone, as before. */
+function sanitiseZoneOptions(
+  component: LayoutZoneComponent,
+  raw: unknown,
+  orientation: LayoutOrientation,
+): LayoutZoneOptions | undefined {
+  const opts = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const parsed: LayoutZoneOptions = {};
+  if (typeof opts.showDate === 'boolean') parsed.showDate = opts.showDate;
+  if (typeof opts.showHijriDate === 'boolean') parsed.showHijriDate = opts.showHijriDate;
+  if (typeof opts.showMasjidName === 'boolean') parsed.showMasjidName = opts.showMasjidName;
+  if (typeof opts.showCountdown === 'boolean') parsed.showCountdown = opts.showCountdown;
+
+  switch (component) {
+    case 'clock':
+      parsed.clockStyle =
+        opts.clockStyle === 'digital' || opts.clockStyle === 'analogue'
+          ? opts.clockStyle
+          : CLOCK_DEFAULT_STYLE[orientation];
+      if (typeof opts.showSeconds === 'boolean') parsed.showSeconds = opts.showSeconds;
+      break;
+    case 'ticker':
+      parsed.speed =
+        opts.speed === 'slow' || opts.speed === 'fast' ? opts.speed : 'normal';
+      break;
+    case 'qr': {
+      const url = sanitiseZoneUrl(opts.url);
+      const caption = sanitiseZoneText(opts.caption);
+      if (url) parsed.url = url;
+      if (caption) parsed.caption = caption;
+      break;
+    }
+    case 'image': {
+      const src = sanitiseZoneUrl(opts.src);
+      const alt = sanitiseZoneText(opts.alt);
+      if (src) parsed.src = src;
+      parsed.fit = opts.fit === 'cover' ? 'cover' : 'contain';
+      if (alt) parsed.alt = alt;
+      break;
+    }
+    default:
+      break;
+  }
+  return Object.keys(parsed).length > 0 ? parsed : undefined;
+}
+
+function sanitiseZone(raw: unknown, orientation: LayoutOrientation): LayoutZone | null {
   if (!raw || typeof raw !== 'object') return null;
   const zone = raw as Record<string, unknown>;
   const rawComponent = zone.component;
@@ -282,19 +422,11 @@ function sanitiseZone(raw: unknown): LayoutZone | null {
       ? (regionRaw as LayoutRegion)
       : undefined;
 
-  const optionsRaw = zone.options;
-  let options: LayoutZoneHeaderOptions | undefined;
-  if (optionsRaw && typeof optionsRaw === 'object') {
-    const opts = optionsRaw as Record<string, unknown>;
-    const parsed: LayoutZoneHeaderOptions = {};
-    if (typeof opts.showDate === 'boolean') parsed.showDate = opts.showDate;
-    if (typeof opts.showHijriDate === 'boolean') parsed.showHijriDate = opts.showHijriDate;
-    if (typeof opts.showMasjidName === 'boolean') parsed.showMasjidName = opts.showMasjidName;
-    if (typeof opts.showCountdown === 'boolean') parsed.showCountdown = opts.showCountdown;
-    if (Object.keys(parsed).length > 0) options = parsed;
-  }
-
   const typedComponent = component as LayoutZoneComponent;
+  const options = sanitiseZoneOptions(typedComponent, zone.options, orientation);
+  // Nothing to show without a target / picture
+  if (typedComponent === 'qr' && !options?.url) return null;
+  if (typedComponent === 'image' && !options?.src) return null;
   const forceVisible = typedComponent === 'footer';
 
   return {
@@ -304,7 +436,7 @@ function sanitiseZone(raw: unknown): LayoutZone | null {
     size:
       typeof zone.size === 'number' && Number.isFinite(zone.size)
         ? clamp(zone.size, 0, ZONE_SIZE_MAX)
-        : 0,
+        : (ZONE_DEFAULT_SIZE[orientation][typedComponent] ?? 0),
     fontScale:
       typeof zone.fontScale === 'number' && Number.isFinite(zone.fontScale)
         ? clamp(zone.fontScale, FONT_SCALE_MIN, FONT_SCALE_MAX)
@@ -314,7 +446,10 @@ function sanitiseZone(raw: unknown): LayoutZone | null {
   };
 }
 
-function sanitiseOrientation(raw: unknown): OrientationLayoutConfig | null {
+function sanitiseOrientation(
+  raw: unknown,
+  orientationName: LayoutOrientation,
+): OrientationLayoutConfig | null {
   if (!raw || typeof raw !== 'object') return null;
   const orientation = raw as Record<string, unknown>;
   if (!Array.isArray(orientation.zones)) return null;
@@ -322,7 +457,7 @@ function sanitiseOrientation(raw: unknown): OrientationLayoutConfig | null {
   const zones: LayoutZone[] = [];
   const seenComponents = new Set<string>();
   for (const rawZone of orientation.zones) {
-    const zone = sanitiseZone(rawZone);
+    const zone = sanitiseZone(rawZone, orientationName);
     if (!zone) continue;
     if (seenComponents.has(zone.component)) continue;
     seenComponents.add(zone.component);
@@ -390,8 +525,8 @@ export function sanitiseLayoutConfig(raw: unknown): DisplayLayoutConfig | null {
   const config = raw as Record<string, unknown>;
   if (config.version !== DISPLAY_LAYOUT_CONFIG_VERSION) return null;
 
-  const landscape = sanitiseOrientation(config.landscape);
-  const portrait = sanitiseOrientation(config.portrait);
+  const landscape = sanitiseOrientation(config.landscape, 'landscape');
+  const portrait = sanitiseOrientation(config.portrait, 'portrait');
   if (!landscape || !portrait) return null;
 
   return {
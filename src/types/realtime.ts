@@ -5,7 +5,9 @@
  * These types define the structure of events sent and received via Socket.io.
  */
 
-import type { EmergencyAlert } from '@/api/models';
+import type { EmergencyAlert, UpdateChannel } from '@/api/models';
+import type { BuzzerHeartbeatReport } from '@/utils/jamaatBuzzerSettings';
+import type { MediaCacheStats } from '@/utils/mediaCache';
 
 /**
  * Emergency alert payload received from WebSocket (v2 contract).
@@ -71,6 +73,22 @@ interface HeartbeatMetrics {
   updateProgress?: number;
 }
 
+/** Step the deploy server's liveness watchdog took to heal the screen */
+export type WatchdogAction = 'reload' | 'purge' | 'restart-kiosk';
+
+/** A crash or blank screen the watchdog recovered from (deploy/server.mjs) */
+export interface WatchdogIncident {
+  id: string;
+  /** ISO 8601 */
+  at: string;
+  reason: string;
+  action: WatchdogAction;
+  /** App phase at the last liveness ping (loading | pairing | display | error) */
+  phase: string | null;
+  /** Last log lines the app sent before the incident */
+  logTail: string[];
+}
+
 /**
  * Full heartbeat payload sent over WebSocket via display:heartbeat.
  * All fields except timestamp are optional — send only what the device can collect.
@@ -96,12 +114,29 @@ export interface HeartbeatPayload {
   /** ID of content currently being displayed */
   currentContent?: string;
   contentLoadTime?: number;
+  /** Watchdog incidents since the last heartbeat */
   contentErrors?: number;
+  /** The incidents counted in contentErrors (crash / blank-screen recoveries) */
+  incidents?: WatchdogIncident[];
   signalStrength?: number;
   /** e.g. "WIFI" | "ETHERNET" | "CELLULAR" */
   connectionType?: string;
   powerConsumption?: number;
   ambientLight?: number;
+  /** Effective jamaat buzzer settings after portal / device precedence */
+  buzzer?: BuzzerHeartbeatReport;
+  /** Screen power from the power schedule ("OFF" also while only blacked out) */
+  powerState?: 'ON' | 'OFF';
+  /** How the screen was last switched: HDMI tool or CSS blackout */
+  powerMethod?: 'vcgencmd' | 'cec-client' | 'css';
+  /** Offline media cache: entries, bytes used / quota and lookup hit rate (0–1) */
+  mediaCache?: MediaCacheStats;
+  /** Self-update channel in effect on the device */
+  updateChannel?: UpdateChannel;
+  /** Pinned version, or the release the channel last resolved to (null until the first check, or while the pin is refused) */
+  updateTargetVersion?: string | null;
+  /** Why the pinned version could not be installed (last update check) */
+  updatePinError?: string;
 }
 
 /**
@@ -112,6 +147,37 @@ export interface HeartbeatAck {
   serverTime: string;
 }
 
+/**
+ * `heartbeat:ack` as realtimeService emits it: the ack plus the `timestamp` of
+ * the sent heartbeat it was paired with (null when none was pending). The
+ * server's `timestamp` is not guaranteed to echo the heartbeat's.
+ */
+export interface MatchedHeartbeatAck extends HeartbeatAck {
+  heartbeatTimestamp: string | null;
+}
+
+/**
+ * Receipt emitted as display:alert:shown once an emergency alert has been painted
+ */
+export interface AlertShownReceipt {
+  alertId: string;
+  receivedAt: string; // ISO 8601 — when the device received the alert
+  shownAt: string; // ISO 8601 — first frame after the overlay mounted
+  /** shownAt − receivedAt */
+  renderLatencyMs: number;
+}
+
+/**
+ * Receipt emitted as display:alert:cleared when an emergency alert is cleared or expires
+ */
+export interface AlertClearedReceipt {
+  alertId: string;
+  clearedAt: string; // ISO 8601
+  reason: "cleared" | "expired";
+  /** How long the alert was on screen; null when it was never shown */
+  displayedMs: number | null;
+}
+
 /**
  * Connection configuration for WebSocket
  */
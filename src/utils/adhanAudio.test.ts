@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import type { AdhanAudioSettings } from "@/api/models";
+import { adhanAudioUrls, isWithinQuietHours, resolveAdhanPlayback } from "./adhanAudio";
+
+const settings = (adhanAudio: AdhanAudioSettings | null) => ({ adhanAudio });
+
+const base: AdhanAudioSettings = {
+  enabled: true,
+  volume: 0.5,
+  defaultUrl: "/media/adhan.mp3",
+  prayers: {
+    fajr: { url: "/media/adhan-fajr.mp3", volume: 0.4 },
+    isha: { enabled: false },
+  },
+};
+
+describe("resolveAdhanPlayback", () => {
+  it("uses the per-prayer recording and multiplies the volumes", () => {
+    expect(resolveAdhanPlayback(settings(base), "Fajr")).toEqual({
+      url: "/media/adhan-fajr.mp3",
+      volume: 0.2,
+      maxDurationSeconds: null,
+      fadeOutSeconds: 3,
+    });
+    expect(resolveAdhanPlayback(settings(base), "Zuhr")?.url).toBe("/media/adhan.mp3");
+  });
+
+  it("returns null when off, disabled for the prayer, or not a fard prayer", () => {
+    expect(resolveAdhanPlayback(settings({ ...base, enabled: false }), "Zuhr")).toBeNull();
+    expect(resolveAdhanPlayback(settings(null), "Zuhr")).toBeNull();
+    expect(resolveAdhanPlayback(settings(base), "Isha")).toBeNull();
+    expect(resolveAdhanPlayback(settings(base), "Sunrise")).toBeNull();
+    expect(resolveAdhanPlayback(settings(base), "Eid")).toBeNull();
+  });
+
+  it("returns null when no recording is configured", () => {
+    expect(resolveAdhanPlayback(settings({ ...base, defaultUrl: null }), "Asr")).toBeNull();
+  });
+
+  it("applies the duration cap and clamps the fade", () => {
+    const playback = resolveAdhanPlayback(
+      settings({ ...base, maxDurationSeconds: 90, fadeOutSeconds: 120 }),
+      "Maghrib",
+    );
+    expect(playback).toMatchObject({ maxDurationSeconds: 90, fadeOutSeconds: 30 });
+  });
+});
+
+describe("isWithinQuietHours", () => {
+  it("handles same-day and overnight windows", () => {
+    expect(isWithinQuietHours(13 * 60, { start: "12:00", end: "14:00" })).toBe(true);
+    expect(isWithinQuietHours(14 * 60, { start: "12:00", end: "14:00" })).toBe(false);
+    expect(isWithinQuietHours(4 * 60, { start: "22:00", end: "05:00" })).toBe(true);
+    expect(isWithinQuietHours(23 * 60, { start: "22:00", end: "05:00" })).toBe(true);
+    expect(isWithinQuietHours(6 * 60, { start: "22:00", end: "05:00" })).toBe(false);
+  });
+
+  it("never silences with a missing or malformed window", () => {
+    expect(isWithinQuietHours(60, null)).toBe(false);
+    expect(isWithinQuietHours(60, { start: "soon", end: "05:00" })).toBe(false);
+  });
+});
+
+describe("adhanAudioUrls", () => {
+  it("lists each distinct recording that can play", () => {
+    expect(adhanAudioUrls(settings(base))).toEqual(["/media/adhan-fajr.mp3", "/media/adhan.mp3"]);
+    expect(adhanAudioUrls(settings({ ...base, enabled: false }))).toEqual([]);
+  });
+});
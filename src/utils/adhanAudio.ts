@@ -0,0 +1,100 @@
+/**
+ * Resolves adhan audio playback from portal displaySettings.adhanAudio.
+ *
+ * Pure functions only — `useAdhanAudio` decides *when* to play (phase edges),
+ * this module decides *what* to play and whether it is allowed right now.
+ */
+
+import type { AdhanAudioSettings, DisplaySettings } from "@/api/models";
+import { toMinutesFromMidnight } from "@/utils/dateUtils";
+import { prayerNameToSalahKey } from "@/utils/displaySettingsJamaat";
+
+const DEFAULT_VOLUME = 0.8;
+const DEFAULT_FADE_OUT_SECONDS = 3;
+
+export interface AdhanPlayback {
+  url: string;
+  /** Effective 0–1 level (master × per-prayer) */
+  volume: number;
+  /** Seconds before playback is cut (with fade); null = play to the end */
+  maxDurationSeconds: number | null;
+  fadeOutSeconds: number;
+}
+
+function clamp01(value: unknown, fallback: number): number {
+  if (typeof value !== "number" || Number.isNaN(value)) return fallback;
+  return Math.max(0, Math.min(1, value));
+}
+
+function nonEmpty(value: unknown): string | null {
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+}
+
+function enabledSettings(
+  settings: Pick<DisplaySettings, "adhanAudio"> | null | undefined,
+): AdhanAudioSettings | null {
+  const audio = settings?.adhanAudio;
+  return audio && audio.enabled === true ? audio : null;
+}
+
+/**
+ * What to play for a prayer's adhan, or null when adhan audio is off, the
+ * prayer is disabled or has no recording. Sunrise / Eid never have an adhan.
+ */
+export function resolveAdhanPlayback(
+  settings: Pick<DisplaySettings, "adhanAudio"> | null | undefined,
+  prayerName: string,
+): AdhanPlayback | null {
+  const audio = enabledSettings(settings);
+  const key = prayerNameToSalahKey(prayerName);
+  if (!audio || !key) return null;
+
+  const prayer = audio.prayers?.[key];
+  if (prayer?.enabled === false) return null;
+  const url = nonEmpty(prayer?.url) ?? nonEmpty(audio.defaultUrl);
+  if (!url) return null;
+
+  const maxDuration = audio.maxDurationSeconds;
+  return {
+    url,
+    volume: clamp01(audio.volume, DEFAULT_VOLUME) * clamp01(prayer?.volume, 1),
+    maxDurationSeconds:
+      typeof maxDuration === "number" && maxDuration > 0 ? maxDuration : null,
+    fadeOutSeconds:
+      typeof audio.fadeOutSeconds === "number" && audio.fadeOutSeconds >= 0
+        ? Math.min(audio.fadeOutSeconds, 30)
+        : DEFAULT_FADE_OUT_SECONDS,
+  };
+}
+
+/**
+ * True when `nowMin` (masjid-local minutes from midnight) falls inside the
+ * quiet hours. A window whose end is before its start wraps midnight
+ * (e.g. 22:00–05:00). Malformed windows never silence anything.
+ */
+export function isWithinQuietHours(
+  nowMin: number,
+  quietHours: AdhanAudioSettings["quietHours"],
+): boolean {
+  if (!quietHours) return false;
+  const start = toMinutesFromMidnight(quietHours.start);
+  const end = toMinutesFromMidnight(quietHours.end);
+  if (start < 0 || end < 0 || start === end) return false;
+  return start < end
+    ? nowMin >= start && nowMin < end
+    : nowMin >= start || nowMin < end;
+}
+
+/** Every distinct recording the settings can play — the pre-cache list. */
+export function adhanAudioUrls(
+  settings: Pick<DisplaySettings, "adhanAudio"> | null | undefined,
+): string[] {
+  const audio = enabledSettings(settings);
+  if (!audio) return [];
+  const urls = new Set<string>();
+  for (const prayer of ["Fajr", "Zuhr", "Asr", "Maghrib", "Isha"]) {
+    const playback = resolveAdhanPlayback(settings, prayer);
+    if (playback) urls.add(playback.url);
+  }
+  return [...urls];
+}
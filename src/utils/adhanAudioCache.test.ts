@@ -0,0 +1,83 @@
+/**
+ * Adhan audio cache tests — pre-caching recordings for offline playback.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const logger = vi.hoisted(() => ({ info: vi.fn(), debug: vi.fn(), error: vi.fn(), warn: vi.fn() }));
+
+vi.mock('@/utils/logger', () => ({ default: logger }));
+
+const ADHAN = 'https://audio.example.org/adhan-makkah.mp3';
+
+/** In-memory Cache Storage keyed by URL. */
+function fakeCaches() {
+  const entries = new Map<string, { type: string; blob: () => Promise<Blob> }>();
+  const cache = {
+    keys: vi.fn(async () => [...entries.keys()].map((url) => ({ url }))),
+    match: vi.fn(async (url: string) => entries.get(url)),
+    put: vi.fn(async (url: string, response: { type: string; blob: () => Promise<Blob> }) => {
+      entries.set(url, response);
+    }),
+    delete: vi.fn(async (request: string | { url: string }) =>
+      entries.delete(typeof request === 'string' ? request : request.url),
+    ),
+  };
+  return { entries, cache, caches: { open: async () => cache } };
+}
+
+async function loadModule() {
+  vi.resetModules();
+  return import('./adhanAudioCache');
+}
+
+describe('adhanAudioCache', () => {
+  const fetchMock = vi.fn();
+  let store: ReturnType<typeof fakeCaches>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = fakeCaches();
+    vi.stubGlobal('caches', store.caches);
+    vi.stubGlobal('fetch', fetchMock);
+    // jsdom has no object URLs
+    URL.createObjectURL = vi.fn(() => 'blob:adhan');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  it('caches a CORS recording and plays it from a blob URL', async () => {
+    fetchMock.mockResolvedValue({ ok: true, status: 200, type: 'cors', blob: async () => new Blob(['mp3']) });
+    const { precacheAdhanAudio, resolveCachedAdhanSource } = await loadModule();
+
+    expect(await precacheAdhanAudio([ADHAN])).toBe(1);
+    expect((await resolveCachedAdhanSource(ADHAN)).src).toBe('blob:adhan');
+  });
+
+  it('does not store opaque responses and reports the host without CORS once', async () => {
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+      if (init.mode === 'cors') throw new TypeError('Failed to fetch');
+      return { ok: false, status: 0, type: 'opaque' };
+    });
+    const { precacheAdhanAudio, resolveCachedAdhanSource } = await loadModule();
+
+    expect(await precacheAdhanAudio([ADHAN])).toBe(0);
+    expect(await precacheAdhanAudio([ADHAN])).toBe(0);
+
+    expect(store.cache.put).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('no CORS headers'),
+      expect.objectContaining({ origin: 'https://audio.example.org' }),
+    );
+    expect((await resolveCachedAdhanSource(ADHAN)).src).toBe(ADHAN);
+  });
+
+  it('replaces an opaque copy left by an earlier version', async () => {
+    store.entries.set(ADHAN, { type: 'opaque', blob: async () => new Blob() });
+    fetchMock.mockResolvedValue({ ok: true, status: 200, type: 'cors', blob: async () => new Blob(['mp3']) });
+    const { precacheAdhanAudio } = await loadModule();
+
+    expect(await precacheAdhanAudio([ADHAN])).toBe(1);
+    expect(store.entries.get(ADHAN)?.type).toBe('cors');
+  });
+});
@@ -0,0 +1,108 @@
+import logger from '@/utils/logger';
+
+/**
+ * Cache Storage bucket holding the adhan recordings, so adhan playback keeps
+ * working when the screen is offline at adhan time.
+ */
+export const ADHAN_AUDIO_CACHE = 'adhan-audio';
+
+const PROBE_TIMEOUT_MS = 15_000;
+
+/** Recordings whose host sends no CORS headers; not retried this session */
+const corsBlocked = new Set<string>();
+
+/**
+ * Fetch every recording not yet cached and drop entries no longer listed.
+ * Only CORS responses are stored: an opaque body cannot be read back into a
+ * blob for offline playback, so a host without CORS headers is reported and
+ * its recording plays from the network. Returns the number newly cached.
+ */
+export async function precacheAdhanAudio(urls: string[]): Promise<number> {
+  if (typeof caches === 'undefined') return 0;
+
+  let added = 0;
+  try {
+    const cache = await caches.open(ADHAN_AUDIO_CACHE);
+    const wanted = new Set(urls.map((url) => new URL(url, window.location.href).href));
+
+    for (const request of await cache.keys()) {
+      if (!wanted.has(request.url)) await cache.delete(request);
+    }
+
+    for (const url of wanted) {
+      const cached = await cache.match(url);
+      if (cached && cached.type !== 'opaque') continue;
+      // Opaque copies stored by earlier versions are unplayable offline
+      if (cached) await cache.delete(url);
+      if (corsBlocked.has(url)) continue;
+      try {
+        let response: Response;
+        try {
+          response = await fetch(url, { mode: 'cors' });
+        } catch (error) {
+          if (await isCorsBlocked(url)) {
+            corsBlocked.add(url);
+            logger.warn('[AdhanAudio] Recording host sends no CORS headers; it will play from the network but cannot be cached offline', {
+              url,
+              origin: new URL(url).origin,
+            });
+            continue;
+          }
+          throw error;
+        }
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        await cache.put(url, response);
+        added += 1;
+      } catch (error) {
+        logger.warn('[AdhanAudio] Failed to pre-cache recording', {
+          url,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  } catch (error) {
+    logger.warn('[AdhanAudio] Cache Storage unavailable', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  if (added > 0) logger.info('[AdhanAudio] Pre-cached recordings', { added });
+  return added;
+}
+
+/** The CORS fetch failed: true when the host answers but without CORS headers. */
+async function isCorsBlocked(url: string): Promise<boolean> {
+  try {
+    const probe = await fetch(url, {
+      method: 'HEAD',
+      mode: 'no-cors',
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    return probe.type === 'opaque';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A playable source for `url`: a `blob:` URL from the cache when available
+ * (caller must revoke it), otherwise the network URL itself.
+ */
+export async function resolveCachedAdhanSource(
+  url: string,
+): Promise<{ src: string; revoke: () => void }> {
+  const passthrough = { src: url, revoke: () => {} };
+  if (typeof caches === 'undefined' || typeof URL.createObjectURL !== 'function') {
+    return passthrough;
+  }
+  try {
+    const cache = await caches.open(ADHAN_AUDIO_CACHE);
+    const response = await cache.match(url);
+    // Opaque entries (from earlier versions) cannot be read; use the network
+    if (!response || response.type === 'opaque') return passthrough;
+    const src = URL.createObjectURL(await response.blob());
+    return { src, revoke: () => URL.revokeObjectURL(src) };
+  } catch {
+    return passthrough;
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { buildAnnouncementTickerLines } from './announcementTicker';
+
+describe('buildAnnouncementTickerLines', () => {
+  it('joins title and plain body for announcements only, in order', () => {
+    expect(
+      buildAnnouncementTickerLines([
+        { id: '1', type: 'ANNOUNCEMENT', title: 'Car park', body: 'Please do not block the gate' },
+        { id: '2', type: 'DUA', title: 'Morning dua', body: 'Text' },
+        { id: '3', type: 'announcement', title: 'Class', body: '<p>Tafsir&nbsp;tonight <b>after Isha</b></p>', bodyIsHTML: true },
+      ]),
+    ).toEqual(['Car park — Please do not block the gate', 'Class — Tafsir tonight after Isha']);
+  });
+
+  it('uses whichever of title or body is present and skips empty or repeated items', () => {
+    expect(
+      buildAnnouncementTickerLines([
+        { id: '1', type: 'ANNOUNCEMENT', title: 'Eid salah at 8am' },
+        { id: '2', type: 'ANNOUNCEMENT', body: '  ' },
+        { id: '3', type: 'ANNOUNCEMENT', title: 'Eid salah at 8am' },
+      ]),
+    ).toEqual(['Eid salah at 8am']);
+  });
+
+  it('shortens long announcements', () => {
+    const [line] = buildAnnouncementTickerLines([{ id: '1', type: 'ANNOUNCEMENT', body: 'word '.repeat(100) }]);
+    expect(line).toHaveLength(200);
+    expect(line.endsWith('…')).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Announcement ticker feed
+ *
+ * Lines for the `ticker` layout zone: the playlist's ANNOUNCEMENT slides as
+ * "Title — body" plain text, in playlist order. HTML bodies lose their
+ * markup; the zone only scrolls text.
+ */
+
+import type { CarouselItem } from '@/components/display/ContentCarousel';
+
+/** Longest line taken from one announcement; the rest is on the slide itself. */
+const MAX_LINE_LENGTH = 200;
+
+function toPlainText(value: string | undefined, isHtml: boolean | undefined): string {
+  if (!value) return '';
+  const text = isHtml
+    ? value
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&nbsp;/gi, ' ')
+        .replace(/&amp;/gi, '&')
+        .replace(/&lt;/gi, '<')
+        .replace(/&gt;/gi, '>')
+        .replace(/&quot;/gi, '"')
+        .replace(/&#39;/gi, "'")
+    : value;
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export function buildAnnouncementTickerLines(items: CarouselItem[]): string[] {
+  const lines: string[] = [];
+  for (const item of items) {
+    if (item.type.toUpperCase() !== 'ANNOUNCEMENT') continue;
+    const title = toPlainText(item.title, false);
+    const body = toPlainText(item.body, item.bodyIsHTML);
+    let line = title && body ? `${title} — ${body}` : title || body;
+    if (!line) continue;
+    if (line.length > MAX_LINE_LENGTH) line = `${line.slice(0, MAX_LINE_LENGTH - 1).trimEnd()}…`;
+    if (!lines.includes(line)) lines.push(line);
+  }
+  return lines;
+}
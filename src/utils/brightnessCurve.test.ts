@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import type { BrightnessSettings, PrayerTimes } from '@/api/models';
+import { resolveBrightnessLevel, resolveCurveLevel } from './brightnessCurve';
+
+const times: PrayerTimes = {
+  fajr: '05:30',
+  sunrise: '06:45',
+  zuhr: '12:15',
+  asr: '15:30',
+  maghrib: '18:20',
+  isha: '19:45',
+  fajrJamaat: '05:45',
+  zuhrJamaat: '12:30',
+  asrJamaat: '16:00',
+  maghribJamaat: '18:25',
+  ishaJamaat: '20:00',
+};
+
+const at = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+/* 100 % from sunrise, down to 60 % at Maghrib, 20 % from Isha + 60 until Fajr. */
+const settings: BrightnessSettings = {
+  enabled: true,
+  curve: [
+    { at: { prayer: 'SUNRISE' }, level: 100 },
+    { at: { prayer: 'MAGHRIB' }, level: 60 },
+    { at: { prayer: 'ISHA', offsetMinutes: 60 }, level: 20 },
+    { at: { prayer: 'FAJR' }, level: 20 },
+  ],
+};
+
+describe('resolveCurveLevel', () => {
+  it('returns point levels and interpolates between them', () => {
+    expect(resolveCurveLevel(settings.curve, times, at('06:45'))).toBe(100);
+    expect(resolveCurveLevel(settings.curve, times, at('12:00'))).toBeCloseTo(100 - (40 * 315) / 695);
+    expect(resolveCurveLevel(settings.curve, times, at('18:20'))).toBe(60);
+  });
+
+  it('wraps midnight and ramps from Fajr to sunrise', () => {
+    expect(resolveCurveLevel(settings.curve, times, at('02:00'))).toBe(20);
+    expect(resolveCurveLevel(settings.curve, times, at('06:07'))).toBeCloseTo(20 + (80 * 37) / 75);
+  });
+
+  it('returns null until a point resolves', () => {
+    expect(resolveCurveLevel(settings.curve, null, at('12:00'))).toBeNull();
+    expect(resolveCurveLevel([{ at: { time: '22:00' }, level: 40 }], null, at('12:00'))).toBe(40);
+  });
+});
+
+describe('resolveBrightnessLevel', () => {
+  it('is null while automatic brightness is off', () => {
+    expect(resolveBrightnessLevel(null, times, at('12:00'))).toBeNull();
+    expect(resolveBrightnessLevel({ brightness: { ...settings, enabled: false } }, times, 0)).toBeNull();
+  });
+
+  it('blends ambient light and clamps to the min / max levels', () => {
+    const ambient = { ...settings, ambientLight: { enabled: true, weight: 0.5 } };
+    expect(resolveBrightnessLevel({ brightness: ambient }, times, at('02:00'), 80)).toBe(50);
+    expect(resolveBrightnessLevel({ brightness: ambient }, times, at('02:00'), null)).toBe(20);
+    expect(
+      resolveBrightnessLevel({ brightness: { ...settings, minLevel: 30 } }, times, at('02:00')),
+    ).toBe(30);
+  });
+});
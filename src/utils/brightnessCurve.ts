@@ -0,0 +1,79 @@
+/**
+ * Automatic screen brightness (`displaySettings.brightness`).
+ *
+ * The level follows a time-of-day curve whose points may be anchored to
+ * prayer times (e.g. 30 % from Isha + 60, 100 % from sunrise), interpolated
+ * linearly between neighbouring points and wrapping midnight. When enabled,
+ * the companion service's ambient light reading (0–100) is blended in so a
+ * bright hall at Maghrib is not dimmed too early.
+ */
+
+import type { DisplaySettings, PrayerTimes } from '@/api/models';
+import { MINUTES_PER_DAY, resolveTimeOfDayAnchorMinutes } from '@/utils/timeOfDayAnchor';
+
+const DEFAULT_MIN_LEVEL = 10;
+const DEFAULT_MAX_LEVEL = 100;
+const DEFAULT_AMBIENT_WEIGHT = 0.5;
+
+function clampLevel(value: number, min = 0, max = 100): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Curve level at `nowMin`, or null when no point resolves (e.g. every point
+ * is prayer-anchored and the timetable is still loading).
+ */
+export function resolveCurveLevel(
+  curve: NonNullable<DisplaySettings['brightness']>['curve'] | null | undefined,
+  times: PrayerTimes | null | undefined,
+  nowMin: number,
+): number | null {
+  if (!Array.isArray(curve)) return null;
+  const points = curve
+    .map((point) => ({
+      min: resolveTimeOfDayAnchorMinutes(point?.at, times),
+      level: typeof point?.level === 'number' && !Number.isNaN(point.level) ? clampLevel(point.level) : null,
+    }))
+    .filter((p): p is { min: number; level: number } => p.min !== null && p.level !== null)
+    .sort((a, b) => a.min - b.min);
+
+  if (points.length === 0) return null;
+  if (points.length === 1) return points[0].level;
+
+  /* Last point at or before now (wrapping to yesterday's last point), and the next one. */
+  let prevIdx = points.length - 1;
+  for (let i = 0; i < points.length; i += 1) {
+    if (points[i].min <= nowMin) prevIdx = i;
+  }
+  const prev = points[prevIdx];
+  const next = points[(prevIdx + 1) % points.length];
+
+  const span = (next.min - prev.min + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+  const elapsed = (nowMin - prev.min + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return prev.level + (next.level - prev.level) * (elapsed / span);
+}
+
+/**
+ * Final brightness (whole percent) for the settings, or null when automatic
+ * brightness is off. `ambientLight` is the latest companion reading, if any.
+ */
+export function resolveBrightnessLevel(
+  settings: Pick<DisplaySettings, 'brightness'> | null | undefined,
+  times: PrayerTimes | null | undefined,
+  nowMin: number,
+  ambientLight?: number | null,
+): number | null {
+  const brightness = settings?.brightness;
+  if (!brightness?.enabled) return null;
+
+  let level = resolveCurveLevel(brightness.curve, times, nowMin) ?? DEFAULT_MAX_LEVEL;
+
+  if (brightness.ambientLight?.enabled && typeof ambientLight === 'number' && !Number.isNaN(ambientLight)) {
+    const weight = clampLevel(brightness.ambientLight.weight ?? DEFAULT_AMBIENT_WEIGHT, 0, 1);
+    level = level * (1 - weight) + clampLevel(ambientLight) * weight;
+  }
+
+  const min = clampLevel(brightness.minLevel ?? DEFAULT_MIN_LEVEL);
+  const max = clampLevel(brightness.maxLevel ?? DEFAULT_MAX_LEVEL);
+  return Math.round(clampLevel(level, Math.min(min, max), max));
+}
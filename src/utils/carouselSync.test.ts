@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { DisplaySettings } from '@/api/models';
+import {
+  CAROUSEL_SYNC_EPOCH_MS,
+  isCarouselSyncEnabled,
+  playlistHash,
+  slideDurationSeconds,
+  syncedSlidePosition,
+} from '@/utils/carouselSync';
+
+describe('slideDurationSeconds', () => {
+  it('uses the slide duration clamped to 5–300 s, else the interval', () => {
+    expect(slideDurationSeconds({ duration: 20 }, 30)).toBe(20);
+    expect(slideDurationSeconds({ duration: 2 }, 30)).toBe(5);
+    expect(slideDurationSeconds({ duration: 900 }, 30)).toBe(300);
+    expect(slideDurationSeconds({}, 30)).toBe(30);
+  });
+});
+
+describe('playlistHash', () => {
+  it('is stable for the same order and durations', () => {
+    const items = [
+      { id: 'a', type: 'VERSE', duration: 20 },
+      { id: 'b', type: 'HADITH' },
+    ];
+    expect(playlistHash(items, 30)).toBe(playlistHash(items.map((item) => ({ ...item })), 30));
+    expect(playlistHash(items, 30)).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it('changes when the order, a duration or the interval changes', () => {
+    const items = [
+      { id: 'a', type: 'VERSE' },
+      { id: 'b', type: 'HADITH' },
+    ];
+    const hash = playlistHash(items, 30);
+    expect(playlistHash([...items].reverse(), 30)).not.toBe(hash);
+    expect(playlistHash([items[0], { ...items[1], duration: 45 }], 30)).not.toBe(hash);
+    expect(playlistHash(items, 20)).not.toBe(hash);
+  });
+});
+
+describe('syncedSlidePosition', () => {
+  const durations = [10_000, 20_000, 30_000];
+
+  it('finds the slide and its slot within the cycle', () => {
+    const cycleStart = CAROUSEL_SYNC_EPOCH_MS + 100 * 60_000;
+    expect(syncedSlidePosition(durations, cycleStart + 15_000)).toEqual({
+      index: 1,
+      cycle: 100,
+      startedAt: cycleStart + 10_000,
+      endsAt: cycleStart + 30_000,
+    });
+    expect(syncedSlidePosition(durations, cycleStart)?.index).toBe(0);
+    expect(syncedSlidePosition(durations, cycleStart + 59_999)?.index).toBe(2);
+  });
+
+  it('moves to the next slide exactly at the end of a slot', () => {
+    const first = syncedSlidePosition(durations, CAROUSEL_SYNC_EPOCH_MS)!;
+    const next = syncedSlidePosition(durations, first.endsAt)!;
+    expect(next.index).toBe(1);
+    expect(next.startedAt).toBe(first.endsAt);
+  });
+
+  it('handles times before the epoch and empty playlists', () => {
+    expect(syncedSlidePosition(durations, CAROUSEL_SYNC_EPOCH_MS - 5_000)).toMatchObject({ index: 2, cycle: -1 });
+    expect(syncedSlidePosition([], Date.now())).toBeNull();
+  });
+});
+
+describe('isCarouselSyncEnabled', () => {
+  it('is on only when the portal enables it', () => {
+    expect(isCarouselSyncEnabled({ carouselSync: { enabled: true } } as DisplaySettings)).toBe(true);
+    expect(isCarouselSyncEnabled({ carouselSync: {} } as DisplaySettings)).toBe(false);
+    expect(isCarouselSyncEnabled(null)).toBe(false);
+  });
+});
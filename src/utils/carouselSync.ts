@@ -0,0 +1,87 @@
+/**
+ * Synchronised carousel across the screens of a masjid.
+ *
+ * With `displaySettings.carouselSync.enabled`, a screen no longer advances on
+ * its own timers: the playlist's slide durations are laid end to end and
+ * repeated from a fixed epoch, and the slide on show is read off the
+ * server-corrected clock (see utils/serverClock). Screens of the same masjid
+ * with the same playlist therefore change slide together, and a screen that
+ * restarts or returns from a prayer phase rejoins mid-cycle instead of at the
+ * first slide. The playlist hash tells the carousel when its playlist changed.
+ */
+
+import type { DisplaySettings } from '../api/models';
+
+/** Cycles count from 2024-01-01T00:00:00Z; any instant works as long as every screen uses the same one. */
+export const CAROUSEL_SYNC_EPOCH_MS = Date.UTC(2024, 0, 1);
+
+const MIN_SLIDE_SECONDS = 5;
+const MAX_SLIDE_SECONDS = 300;
+
+/** The parts of a carousel item the schedule depends on. */
+export interface SyncSlide {
+  id: string;
+  type?: string;
+  duration?: number;
+}
+
+export interface SyncedSlidePosition {
+  index: number;
+  /** Number of whole cycles since the epoch */
+  cycle: number;
+  /** Server time (ms) the slide started and ends */
+  startedAt: number;
+  endsAt: number;
+}
+
+export function isCarouselSyncEnabled(settings: DisplaySettings | null | undefined): boolean {
+  return settings?.carouselSync?.enabled === true;
+}
+
+/**
+ * Seconds a slide stays up: its own duration (5–300 s) or the interval.
+ * Videos included — in sync mode a clip loops until its slot ends rather
+ * than advancing on `ended`, since other screens cannot wait for it.
+ */
+export function slideDurationSeconds(item: Pick<SyncSlide, 'duration'> | undefined, interval: number): number {
+  return item?.duration != null && item.duration > 0
+    ? Math.max(MIN_SLIDE_SECONDS, Math.min(MAX_SLIDE_SECONDS, Number(item.duration)))
+    : interval;
+}
+
+/** Stable hash (FNV-1a, hex) of the slide order and durations. */
+export function playlistHash(items: readonly SyncSlide[], interval: number): string {
+  const source = items
+    .map((item) => `${item.id}|${(item.type ?? '').toLowerCase()}|${slideDurationSeconds(item, interval)}`)
+    .join('\n');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Slide on show at `nowMs` (server time) for slides of the given durations,
+ * repeated from the epoch. null for an empty playlist.
+ */
+export function syncedSlidePosition(
+  durationsMs: readonly number[],
+  nowMs: number,
+  epochMs: number = CAROUSEL_SYNC_EPOCH_MS,
+): SyncedSlidePosition | null {
+  const cycleMs = durationsMs.reduce((sum, ms) => sum + Math.max(0, ms), 0);
+  if (cycleMs <= 0) return null;
+
+  const elapsed = nowMs - epochMs;
+  const cycle = Math.floor(elapsed / cycleMs);
+  let startedAt = epochMs + cycle * cycleMs;
+  for (let index = 0; index < durationsMs.length; index++) {
+    const endsAt = startedAt + Math.max(0, durationsMs[index]);
+    if (nowMs < endsAt) return { index, cycle, startedAt, endsAt };
+    startedAt = endsAt;
+  }
+  // Unreachable unless floating point rounding lands exactly on the cycle end
+  return { index: 0, cycle: cycle + 1, startedAt, endsAt: startedAt + durationsMs[0] };
+}
@@ -29,7 +29,6 @@ import {
   getNextPrayerTime,
   getTimeUntilNextPrayer,
   toMinutesFromMidnight,
-  calculateApproximateHijriDate,
   fetchHijriDate,
 } from './dateUtils';
 
@@ -576,44 +575,6 @@ describe('getTimeUntilNextPrayer', () => {
   });
 });
 
-// ---------------------------------------------------------------------------
-// calculateApproximateHijriDate
-// ---------------------------------------------------------------------------
-
-describe('calculateApproximateHijriDate', () => {
-  it('returns a string in format "D Month YYYY AH"', () => {
-    const result = calculateApproximateHijriDate(new Date(2024, 0, 15));
-    expect(result).toMatch(/^\d{1,2} \w+ \d+ AH$/);
-  });
-
-  it('uses current date when no argument', () => {
-    const result = calculateApproximateHijriDate();
-    expect(result).toMatch(/ AH$/);
-  });
-
-  it('applies positive adjustmentDays', () => {
-    const base = new Date(2024, 0, 15);
-    const adjusted = calculateApproximateHijriDate(base, 1);
-    const unadjusted = calculateApproximateHijriDate(base);
-    // They might produce different strings (the Hijri day increments).
-    // At minimum the function runs without throwing.
-    expect(adjusted).toMatch(/ AH$/);
-    expect(unadjusted).toMatch(/ AH$/);
-  });
-
-  it('applies negative adjustmentDays', () => {
-    const base = new Date(2024, 0, 15);
-    const result = calculateApproximateHijriDate(base, -1);
-    expect(result).toMatch(/ AH$/);
-  });
-
-  it('returns a known Hijri date for a known Gregorian date', () => {
-    // 2024-01-15 Gregorian ≈ 4 Rajab 1445 AH (approximate).
-    const result = calculateApproximateHijriDate(new Date(2024, 0, 15));
-    expect(result).toMatch(/1445 AH$/);
-  });
-});
-
 // ---------------------------------------------------------------------------
 // fetchHijriDate
 // ---------------------------------------------------------------------------
@@ -621,7 +582,12 @@ describe('calculateApproximateHijriDate', () => {
 describe('fetchHijriDate', () => {
   it('resolves to Hijri date string', async () => {
     const result = await fetchHijriDate('2024-01-15');
-    expect(result).toMatch(/ AH$/);
+    expect(result).toBe('3 Rajab 1445 AH');
+  });
+
+  it('applies the day adjustment', async () => {
+    const result = await fetchHijriDate('2024-01-15', { adjustmentDays: 1 });
+    expect(result).toBe('4 Rajab 1445 AH');
   });
 
   it('uses current date when no argument', async () => {
@@ -7,6 +7,7 @@ import utc from "dayjs/plugin/utc"; // UTC parsing
 import timezone from "dayjs/plugin/timezone"; // IANA timezone formatting
 import { TimeFormat } from "../api/models";
 import logger from "./logger";
+import { getHijriDateString, type HijriCalendarOptions } from "./hijriCalendar";
 
 dayjs.extend(customParseFormat);
 dayjs.extend(duration);
@@ -412,130 +413,13 @@ export const getTimeUntilNextPrayer = (
 };
 
 /**
- * Calculate accurate Hijri date using proper Islamic calendar algorithm
- * Based on the astronomical calculations and Julian Day Numbers
+ * Resolve the Hijri date string for a day (Umm al-Qura table, arithmetic
+ * fallback, portal moon-sighting overrides — see hijriCalendar.ts).
  *
- * @param date - Gregorian date to convert (defaults to today)
- * @param adjustmentDays - Days to add to the date before conversion (e.g. +1 if local calc is 1 day behind)
- */
-export const calculateApproximateHijriDate = (date?: Date, adjustmentDays?: number): string => {
-  let targetDate = date || new Date();
-  if (typeof adjustmentDays === 'number' && adjustmentDays !== 0) {
-    targetDate = new Date(targetDate.getTime() + adjustmentDays * 24 * 60 * 60 * 1000);
-  }
-
-  // Convert Gregorian date to Julian Day Number
-  const year = targetDate.getFullYear();
-  const month = targetDate.getMonth() + 1; // JavaScript months are 0-based
-  const day = targetDate.getDate();
-
-  // Calculate Julian Day Number (JDN)
-  const a = Math.floor((14 - month) / 12);
-  const y = year - a;
-  const m = month + 12 * a - 3;
-
-  const jdn =
-    day +
-    Math.floor((153 * m + 2) / 5) +
-    365 * y +
-    Math.floor(y / 4) -
-    Math.floor(y / 100) +
-    Math.floor(y / 400) +
-    1721119;
-
-  // Convert Julian Day Number to Islamic Hijri date
-  // The Islamic calendar epoch (1 Muharram 1 AH) corresponds to JDN 1948439.5
-  // But we use 1948440 for integer calculations (July 16, 622 CE)
-  const islamicEpoch = 1948440;
-
-  // Calculate days since Islamic epoch
-  const daysSinceEpoch = jdn - islamicEpoch;
-
-  // Average length of Islamic year in days (354.36667 days)
-  const averageIslamicYear = 354.36667;
-
-  // Approximate Islamic year
-  let islamicYear = Math.floor(daysSinceEpoch / averageIslamicYear) + 1;
-
-  // Calculate the start of the Islamic year
-  let yearStart =
-    Math.floor((islamicYear - 1) * averageIslamicYear) + islamicEpoch;
-
-  // Adjust if we're actually in the previous year
-  if (jdn < yearStart) {
-    islamicYear--;
-    yearStart =
-      Math.floor((islamicYear - 1) * averageIslamicYear) + islamicEpoch;
-  }
-
-  // Calculate day within the Islamic year
-  const dayInYear = jdn - yearStart + 1;
-
-  // Islamic months with their approximate lengths
-  const islamicMonths = [
-    { name: "Muharram", days: 30 },
-    { name: "Safar", days: 29 },
-    { name: "Rabi Al-Awwal", days: 30 },
-    { name: "Rabi Al-Thani", days: 29 },
-    { name: "Jumada Al-Awwal", days: 30 },
-    { name: "Jumada Al-Thani", days: 29 },
-    { name: "Rajab", days: 30 },
-    { name: "Sha'ban", days: 29 },
-    { name: "Ramadan", days: 30 },
-    { name: "Shawwal", days: 29 },
-    { name: "Dhu Al-Qi'dah", days: 30 },
-    { name: "Dhu Al-Hijjah", days: 29 }, // 30 in leap years
-  ];
-
-  // Adjust Dhu Al-Hijjah for leap years (11 leap years in every 30-year cycle)
-  const is30YearCycle = islamicYear % 30;
-  const leapYears = [2, 5, 7, 10, 13, 16, 18, 21, 24, 26, 29];
-  if (leapYears.includes(is30YearCycle)) {
-    islamicMonths[11].days = 30; // Dhu Al-Hijjah has 30 days in leap years
-  }
-
-  // Find the correct month and day
-  let dayCount = 0;
-  let islamicMonth = "Muharram";
-  let islamicDay = 1;
-
-  for (let i = 0; i < islamicMonths.length; i++) {
-    const monthLength = islamicMonths[i].days;
-
-    if (dayInYear <= dayCount + monthLength) {
-      islamicMonth = islamicMonths[i].name;
-      islamicDay = dayInYear - dayCount;
-      break;
-    }
-
-    dayCount += monthLength;
-  }
-
-  // Handle edge cases where calculation might be off
-  if (islamicDay <= 0) {
-    islamicDay = 1;
-  } else if (islamicDay > 30) {
-    islamicDay = 30;
-  }
-
-  return `${islamicDay} ${islamicMonth} ${islamicYear} AH`;
-};
-
-/**
- * Fetch the Hijri date string, falling back to local calculation on error.
- *
- * @param dateString - Optional date string (YYYY-MM-DD) to convert
- * @param adjustmentDays - Days to add before conversion (from displaySettings.hijriDateAdjustment)
+ * @param dateString - Optional date string (YYYY-MM-DD) to convert; defaults to today
+ * @param options - Day adjustment and month overrides (from display settings)
  */
 export const fetchHijriDate = async (
   dateString?: string,
-  adjustmentDays?: number,
-): Promise<string> => {
-  const targetDate = dateString ? new Date(dateString) : new Date();
-
-  try {
-    return calculateApproximateHijriDate(targetDate, adjustmentDays);
-  } catch {
-    return calculateApproximateHijriDate(targetDate, adjustmentDays);
-  }
-};
+  options?: HijriCalendarOptions,
+): Promise<string> => getHijriDateString(dateString ?? new Date(), options);
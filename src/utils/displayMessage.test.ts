@@ -0,0 +1,105 @@
+/**
+ * DISPLAY_MESSAGE payload parsing tests.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseDisplayMessageCommand,
+  compareDisplayMessages,
+  isLiveDisplayMessage,
+  DEFAULT_MESSAGE_DURATION_SECONDS,
+  MAX_MESSAGE_DURATION_SECONDS,
+  type DisplayMessage,
+} from './displayMessage';
+
+const NOW = Date.parse('2026-03-06T12:00:00Z');
+
+describe('parseDisplayMessageCommand', () => {
+  it('applies defaults for a bare text payload', () => {
+    const cmd = parseDisplayMessageCommand({ text: '  Car park B closed  ' }, NOW);
+    expect(cmd).toEqual({
+      action: 'show',
+      message: {
+        id: `msg-${NOW}`,
+        text: 'Car park B closed',
+        style: 'info',
+        position: 'banner',
+        priority: 'normal',
+        createdAt: new Date(NOW).toISOString(),
+        expiresAt: new Date(NOW + DEFAULT_MESSAGE_DURATION_SECONDS * 1_000).toISOString(),
+      },
+    });
+  });
+
+  it('accepts message as an alias and normalises enum casing', () => {
+    const cmd = parseDisplayMessageCommand(
+      { id: 'm1', message: 'Khutbah in Urdu today', position: 'TICKER', style: 'Notice', priority: 'high', duration: 60 },
+      NOW,
+    );
+    expect(cmd.action).toBe('show');
+    if (cmd.action !== 'show') return;
+    expect(cmd.message).toMatchObject({ id: 'm1', position: 'ticker', style: 'notice', priority: 'high' });
+    expect(cmd.message.expiresAt).toBe(new Date(NOW + 60_000).toISOString());
+  });
+
+  it('falls back for unknown enum values', () => {
+    const cmd = parseDisplayMessageCommand({ text: 'x', position: 'sidebar', style: 'neon', priority: 9 }, NOW);
+    if (cmd.action !== 'show') throw new Error('expected show');
+    expect(cmd.message).toMatchObject({ position: 'banner', style: 'info', priority: 'normal' });
+  });
+
+  it('prefers expiresAt over duration and caps it at 24 hours', () => {
+    const soon = parseDisplayMessageCommand(
+      { text: 'x', duration: 10, expiresAt: new Date(NOW + 120_000).toISOString() },
+      NOW,
+    );
+    if (soon.action !== 'show') throw new Error('expected show');
+    expect(soon.message.expiresAt).toBe(new Date(NOW + 120_000).toISOString());
+
+    const far = parseDisplayMessageCommand({ text: 'x', duration: 7 * 86_400 }, NOW);
+    if (far.action !== 'show') throw new Error('expected show');
+    expect(far.message.expiresAt).toBe(new Date(NOW + MAX_MESSAGE_DURATION_SECONDS * 1_000).toISOString());
+  });
+
+  it('parses dismiss and clear', () => {
+    expect(parseDisplayMessageCommand({ action: 'dismiss', id: 'm1' }, NOW)).toEqual({ action: 'dismiss', id: 'm1' });
+    expect(parseDisplayMessageCommand({ action: 'clear' }, NOW)).toEqual({ action: 'clear' });
+  });
+
+  it('throws for invalid payloads', () => {
+    expect(() => parseDisplayMessageCommand(undefined, NOW)).toThrow('payload missing');
+    expect(() => parseDisplayMessageCommand({ text: '   ' }, NOW)).toThrow('text missing');
+    expect(() => parseDisplayMessageCommand({ action: 'dismiss' }, NOW)).toThrow('requires an id');
+    expect(() =>
+      parseDisplayMessageCommand({ text: 'x', expiresAt: new Date(NOW - 1).toISOString() }, NOW),
+    ).toThrow('already expired');
+  });
+});
+
+describe('compareDisplayMessages', () => {
+  const base: DisplayMessage = {
+    id: 'a',
+    text: 'a',
+    style: 'info',
+    position: 'banner',
+    priority: 'normal',
+    createdAt: '2026-03-06T12:00:00Z',
+    expiresAt: '2026-03-06T13:00:00Z',
+  };
+
+  it('orders by priority, then newest first', () => {
+    const low = { ...base, id: 'low', priority: 'low' as const };
+    const older = { ...base, id: 'older' };
+    const newer = { ...base, id: 'newer', createdAt: '2026-03-06T12:05:00Z' };
+    const high = { ...base, id: 'high', priority: 'high' as const };
+    const sorted = [low, older, newer, high].sort(compareDisplayMessages).map((m) => m.id);
+    expect(sorted).toEqual(['high', 'newer', 'older', 'low']);
+  });
+
+  it('isLiveDisplayMessage rejects malformed or expired entries', () => {
+    expect(isLiveDisplayMessage(base, NOW)).toBe(true);
+    expect(isLiveDisplayMessage({ ...base, position: 'nowhere' }, NOW)).toBe(false);
+    expect(isLiveDisplayMessage(base, Date.parse(base.expiresAt))).toBe(false);
+    expect(isLiveDisplayMessage(null, NOW)).toBe(false);
+  });
+});
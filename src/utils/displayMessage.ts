@@ -0,0 +1,131 @@
+/**
+ * DISPLAY_MESSAGE payload parsing.
+ *
+ * Turns the loosely-typed remote command payload into a show / dismiss / clear
+ * instruction for displayMessageSlice. Invalid payloads throw so the command ack
+ * reports the reason back to the portal.
+ */
+
+import type {
+  DisplayMessagePayload,
+  DisplayMessagePosition,
+  DisplayMessagePriority,
+  DisplayMessageStyle,
+} from '@/api/models';
+
+/** A queued on-screen message (stored in Redux and persisted via storageService). */
+export interface DisplayMessage {
+  id: string;
+  text: string;
+  style: DisplayMessageStyle;
+  position: DisplayMessagePosition;
+  priority: DisplayMessagePriority;
+  /** ISO timestamp */
+  createdAt: string;
+  /** ISO timestamp — the message is removed once this passes */
+  expiresAt: string;
+}
+
+export type DisplayMessageCommand =
+  | { action: 'show'; message: DisplayMessage }
+  | { action: 'dismiss'; id: string }
+  | { action: 'clear' };
+
+/** Used when the payload has neither duration nor expiresAt. */
+export const DEFAULT_MESSAGE_DURATION_SECONDS = 5 * 60;
+/** Upper bound so a forgotten message cannot sit on screen for days. */
+export const MAX_MESSAGE_DURATION_SECONDS = 24 * 60 * 60;
+export const MAX_MESSAGE_LENGTH = 500;
+
+const POSITIONS: DisplayMessagePosition[] = ['ticker', 'banner', 'fullscreen'];
+const STYLES: DisplayMessageStyle[] = ['info', 'notice', 'warning', 'success'];
+const PRIORITIES: DisplayMessagePriority[] = ['low', 'normal', 'high'];
+
+/** Higher rank is shown first. */
+export const PRIORITY_RANK: Record<DisplayMessagePriority, number> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+};
+
+function pickEnum<T extends string>(value: unknown, allowed: T[], fallback: T): T {
+  const s = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return allowed.includes(s as T) ? (s as T) : fallback;
+}
+
+function resolveExpiry(payload: DisplayMessagePayload, now: number): number {
+  const maxExpiry = now + MAX_MESSAGE_DURATION_SECONDS * 1_000;
+  if (typeof payload.expiresAt === 'string') {
+    const at = Date.parse(payload.expiresAt);
+    if (!Number.isNaN(at)) {
+      if (at <= now) throw new Error('DISPLAY_MESSAGE already expired');
+      return Math.min(at, maxExpiry);
+    }
+  }
+  const duration = Number(payload.duration);
+  const seconds =
+    Number.isFinite(duration) && duration > 0 ? duration : DEFAULT_MESSAGE_DURATION_SECONDS;
+  return Math.min(now + seconds * 1_000, maxExpiry);
+}
+
+/**
+ * Parse a DISPLAY_MESSAGE payload. Accepts `text` or `message`; unknown style /
+ * position / priority values fall back to info / banner / normal.
+ */
+export function parseDisplayMessageCommand(
+  raw: unknown,
+  now: number = Date.now(),
+): DisplayMessageCommand {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('DISPLAY_MESSAGE payload missing');
+  }
+  const payload = raw as DisplayMessagePayload;
+  const action = pickEnum(payload.action, ['show', 'dismiss', 'clear'], 'show');
+  const id = typeof payload.id === 'string' ? payload.id.trim() : '';
+
+  if (action === 'clear') return { action };
+  if (action === 'dismiss') {
+    if (!id) throw new Error('DISPLAY_MESSAGE dismiss requires an id');
+    return { action, id };
+  }
+
+  const rawText = typeof payload.text === 'string' ? payload.text : payload.message;
+  const text = typeof rawText === 'string' ? rawText.trim().slice(0, MAX_MESSAGE_LENGTH) : '';
+  if (!text) throw new Error('DISPLAY_MESSAGE text missing');
+
+  return {
+    action,
+    message: {
+      id: id || `msg-${now}`,
+      text,
+      style: pickEnum(payload.style, STYLES, 'info'),
+      position: pickEnum(payload.position, POSITIONS, 'banner'),
+      priority: pickEnum(payload.priority, PRIORITIES, 'normal'),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(resolveExpiry(payload, now)).toISOString(),
+    },
+  };
+}
+
+/** Queue order: priority first, then newest. */
+export function compareDisplayMessages(a: DisplayMessage, b: DisplayMessage): number {
+  const byPriority = PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority];
+  if (byPriority !== 0) return byPriority;
+  return Date.parse(b.createdAt) - Date.parse(a.createdAt);
+}
+
+/** True when the message is well-formed and not yet expired (guards restored data). */
+export function isLiveDisplayMessage(value: unknown, now: number = Date.now()): value is DisplayMessage {
+  if (!value || typeof value !== 'object') return false;
+  const m = value as Partial<DisplayMessage>;
+  return (
+    typeof m.id === 'string' &&
+    typeof m.text === 'string' &&
+    POSITIONS.includes(m.position as DisplayMessagePosition) &&
+    STYLES.includes(m.style as DisplayMessageStyle) &&
+    PRIORITIES.includes(m.priority as DisplayMessagePriority) &&
+    typeof m.createdAt === 'string' &&
+    typeof m.expiresAt === 'string' &&
+    Date.parse(m.expiresAt) > now
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * DOM Rasteriser
+ *
+ * Dependency-free "what is the page showing" capture for hosts without the Pi deploy
+ * server (laptop, hosted, Android TV). The live DOM is cloned, same-origin stylesheet
+ * text is inlined, and the result is drawn through an SVG <foreignObject> onto a canvas.
+ *
+ * Limitations (acceptable for a diagnostic capture): cross-origin images and fonts do not
+ * load inside an SVG image, and video frames are not copied. <canvas> elements (PDF pages)
+ * are replaced with their bitmap so they still appear.
+ */
+
+export interface RasterisedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+/** Longest edge of the output image — keeps uploads small on Pi-class hardware. */
+const MAX_OUTPUT_EDGE = 1920;
+const JPEG_QUALITY = 0.8;
+
+/** Concatenate all readable stylesheet rules (cross-origin sheets throw and are skipped). */
+function collectCssText(doc: Document): string {
+  const parts: string[] = [];
+  for (const sheet of Array.from(doc.styleSheets)) {
+    try {
+      for (const rule of Array.from(sheet.cssRules)) parts.push(rule.cssText);
+    } catch {
+      // Cross-origin stylesheet — rules are not readable
+    }
+  }
+  return parts.join('\n');
+}
+
+/** Swap live <canvas> elements in the clone for <img> snapshots of their current bitmap. */
+function inlineCanvases(source: Element, clone: Element): void {
+  const live = source.querySelectorAll('canvas');
+  const cloned = clone.querySelectorAll('canvas');
+  live.forEach((canvas, i) => {
+    const target = cloned[i];
+    if (!target) return;
+    try {
+      const img = clone.ownerDocument.createElement('img');
+      img.src = canvas.toDataURL('image/png');
+      img.setAttribute('style', canvas.getAttribute('style') ?? '');
+      img.className = canvas.className;
+      img.width = canvas.width;
+      img.height = canvas.height;
+      target.replaceWith(img);
+    } catch {
+      // Tainted canvas — leave the empty clone in place
+    }
+  });
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('DOM snapshot image failed to load'));
+    img.src = src;
+  });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Canvas export returned no data'))),
+      'image/jpeg',
+      JPEG_QUALITY,
+    );
+  });
+}
+
+/**
+ * Rasterise the current document to a JPEG blob at viewport size (scaled down so the
+ * longest edge is at most MAX_OUTPUT_EDGE).
+ */
+export async function rasteriseDocument(doc: Document = document): Promise<RasterisedImage> {
+  const view = doc.defaultView ?? window;
+  const width = Math.max(1, Math.round(view.innerWidth));
+  const height = Math.max(1, Math.round(view.innerHeight));
+
+  const root = doc.documentElement;
+  const clone = root.cloneNode(true) as HTMLElement;
+  clone.querySelectorAll('script, link[rel="stylesheet"], style').forEach((el) => el.remove());
+  inlineCanvases(root, clone);
+  clone.setAttribute('xmlns', 'http://www.w3.org/1999/xhtml');
+
+  const head = clone.querySelector('head') ?? clone;
+  const style = doc.createElement('style');
+  style.textContent = collectCssText(doc);
+  head.appendChild(style);
+
+  const markup = new XMLSerializer().serializeToString(clone);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<foreignObject x="0" y="0" width="100%" height="100%">${markup}</foreignObject></svg>`;
+  const img = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+
+  const scale = Math.min(1, MAX_OUTPUT_EDGE / Math.max(width, height));
+  const canvas = doc.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.fillStyle = getComputedStyle(doc.body).backgroundColor || '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const blob = await canvasToBlob(canvas);
+  return { blob, width: canvas.width, height: canvas.height };
+}
@@ -0,0 +1,73 @@
+/**
+ * Eid mode resolution — Hijri detection, portal override and jamaat slots.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectEid, eidJamaatsForDay, resolveEidMode } from './eidMode';
+
+const base = { hijriDateAdjustment: 0, hijriMonthOverrides: null };
+
+describe('resolveEidMode', () => {
+  it('detects Eid al-Fitr and Eid al-Adha from the Umm al-Qura calendar', () => {
+    expect(resolveEidMode('2026-03-20', base)).toMatchObject({ isEid: true, eidType: 'fitr' });
+    expect(resolveEidMode('2026-05-27', base)).toMatchObject({ isEid: true, eidType: 'adha' });
+    expect(resolveEidMode('2026-03-21', base).isEid).toBe(false);
+  });
+
+  it('follows moon-sighting overrides for Shawwal', () => {
+    const settings = { ...base, hijriMonthOverrides: [{ year: 1447, month: 10, startDate: '2026-03-21' }] };
+    expect(resolveEidMode('2026-03-20', settings).isEid).toBe(false);
+    expect(resolveEidMode('2026-03-21', settings)).toMatchObject({ isEid: true, eidType: 'fitr' });
+  });
+
+  it('honours the portal override', () => {
+    expect(resolveEidMode('2026-03-20', { ...base, eidMode: 'off' }).isEid).toBe(false);
+    expect(resolveEidMode('2026-03-22', { ...base, eidMode: 'on' })).toMatchObject({ isEid: true, eidType: 'fitr' });
+    expect(resolveEidMode('2026-06-15', { ...base, eidMode: 'on' })).toMatchObject({ isEid: true, eidType: 'adha' });
+  });
+
+  it('only returns jamaats while Eid mode is active', () => {
+    const settings = { ...base, eidJamaats: [{ time: '08:00' }] };
+    expect(resolveEidMode('2026-03-20', settings).jamaats).toEqual([{ time: '08:00', label: null }]);
+    expect(resolveEidMode('2026-03-21', settings).jamaats).toEqual([]);
+  });
+});
+
+describe('eidJamaatsForDay', () => {
+  it('sorts, normalises and de-duplicates slots', () => {
+    const slots = eidJamaatsForDay(
+      [
+        { time: '9:30', label: ' Overflow hall ' },
+        { time: '07:45:00' },
+        { time: '09:30', label: 'Duplicate' },
+        { time: 'soon' },
+      ],
+      '2026-03-20',
+    );
+    expect(slots).toEqual([
+      { time: '07:45', label: null },
+      { time: '09:30', label: 'Overflow hall' },
+    ]);
+  });
+
+  it('keeps undated slots and slots dated for the day only', () => {
+    const slots = eidJamaatsForDay(
+      [
+        { time: '08:00', date: '2026-03-20' },
+        { time: '08:30', date: '2026-03-21' },
+        { time: '10:00' },
+      ],
+      '2026-03-20',
+    );
+    expect(slots.map((s) => s.time)).toEqual(['08:00', '10:00']);
+  });
+});
+
+describe('detectEid', () => {
+  it('matches only the first day of each Eid', () => {
+    expect(detectEid({ month: 10, day: 1 })).toBe('fitr');
+    expect(detectEid({ month: 12, day: 10 })).toBe('adha');
+    expect(detectEid({ month: 10, day: 2 })).toBeNull();
+    expect(detectEid({ month: 9, day: 30 })).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Eid mode resolution.
+ *
+ * Eid al-Fitr (1 Shawwal) and Eid al-Adha (10 Dhu al-Hijjah) are detected
+ * from the Hijri calendar module, so moon-sighting overrides and
+ * `hijriDateAdjustment` apply exactly as they do for Ramadan. The portal's
+ * `eidMode` ("auto" | "on" | "off") overrides detection.
+ *
+ * Pure functions only — `useEidMode` (theme, display) and `usePrayerPhase`
+ * (jamaat-soon / in-prayer for the Eid congregations) both build on
+ * `resolveEidMode` so the two never disagree about which slots are live.
+ */
+
+import type { DisplaySettings, EidJamaat } from "../api/models";
+import { getHijriCalendarOptions, toHijriDate, type HijriDate } from "./hijriCalendar";
+
+export type EidType = "fitr" | "adha";
+
+export const EID_NAMES: Record<EidType, string> = {
+  fitr: "Eid al-Fitr",
+  adha: "Eid al-Adha",
+};
+
+/** Prayer name used by the phase machine for Eid salah slots. */
+export const EID_PRAYER_NAME = "Eid";
+
+const SHAWWAL = 10;
+const DHU_AL_HIJJAH = 12;
+const EID_AL_ADHA_DAY = 10;
+
+export interface EidJamaatSlot {
+  /** Normalised HH:mm */
+  time: string;
+  label: string | null;
+}
+
+export interface EidModeState {
+  isEid: boolean;
+  eidType: EidType | null;
+  /** Today's Eid salah congregations, earliest first. Empty outside Eid mode. */
+  jamaats: EidJamaatSlot[];
+}
+
+const INACTIVE: EidModeState = { isEid: false, eidType: null, jamaats: [] };
+
+/** Which Eid falls on this Hijri date, if any. */
+export function detectEid(hijri: Pick<HijriDate, "month" | "day">): EidType | null {
+  if (hijri.month === SHAWWAL && hijri.day === 1) return "fitr";
+  if (hijri.month === DHU_AL_HIJJAH && hijri.day === EID_AL_ADHA_DAY) return "adha";
+  return null;
+}
+
+function normaliseTime(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  const h = Number(match[1]);
+  const m = Number(match[2]);
+  if (h > 23 || m > 59) return null;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+/**
+ * Slots that apply on `day`: undated entries plus entries dated `day`.
+ * Malformed times are dropped; duplicates collapse to the first label.
+ */
+export function eidJamaatsForDay(
+  jamaats: EidJamaat[] | null | undefined,
+  day: string,
+): EidJamaatSlot[] {
+  if (!Array.isArray(jamaats)) return [];
+  const byTime = new Map<string, EidJamaatSlot>();
+  for (const entry of jamaats) {
+    if (!entry || (entry.date && entry.date.slice(0, 10) !== day)) continue;
+    const time = normaliseTime(entry.time);
+    if (!time || byTime.has(time)) continue;
+    const label = typeof entry.label === "string" && entry.label.trim() ? entry.label.trim() : null;
+    byTime.set(time, { time, label });
+  }
+  return [...byTime.values()].sort((a, b) => a.time.localeCompare(b.time));
+}
+
+/**
+ * Resolve Eid mode for a masjid-local day (YYYY-MM-DD).
+ * When forced "on" outside an Eid date, the Eid is inferred from the nearest
+ * season (Ramadan/Shawwal → al-Fitr, otherwise al-Adha).
+ */
+export function resolveEidMode(
+  day: string,
+  settings:
+    | Pick<DisplaySettings, "hijriDateAdjustment" | "hijriMonthOverrides" | "eidMode" | "eidJamaats">
+    | null
+    | undefined,
+): EidModeState {
+  const mode = settings?.eidMode ?? "auto";
+  if (mode === "off") return INACTIVE;
+
+  const hijri = toHijriDate(day, getHijriCalendarOptions(settings));
+  const detected = detectEid(hijri);
+  if (mode === "auto" && !detected) return INACTIVE;
+
+  const eidType: EidType =
+    detected ?? (hijri.month === SHAWWAL - 1 || hijri.month === SHAWWAL ? "fitr" : "adha");
+  return { isEid: true, eidType, jamaats: eidJamaatsForDay(settings?.eidJamaats, day) };
+}
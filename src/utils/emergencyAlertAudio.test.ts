@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import type { EmergencyAlert } from "@/api/models";
+import {
+  ALERT_TONES,
+  alertSpeechText,
+  isAudibleAlert,
+  isSilencedForJamaat,
+  resolveEmergencyAudio,
+  toneDurationMs,
+} from "./emergencyAlertAudio";
+
+const alert = (overrides: Partial<EmergencyAlert> = {}): EmergencyAlert => ({
+  id: "a1",
+  title: "Fire Evacuation Alert",
+  message: "Please leave <b>now</b> via the nearest exit.",
+  category: "safety",
+  urgency: "critical",
+  color: null,
+  createdAt: "2026-01-01T12:00:00.000Z",
+  expiresAt: "2026-01-01T12:05:00.000Z",
+  masjidId: "m1",
+  ...overrides,
+});
+
+describe("resolveEmergencyAudio", () => {
+  it("defaults to critical alerts with speech, repeating every minute", () => {
+    expect(resolveEmergencyAudio(null)).toEqual({
+      enabled: true,
+      includeHigh: false,
+      volume: 1,
+      speak: true,
+      voiceLang: null,
+      repeatIntervalMs: 60_000,
+    });
+  });
+
+  it("clamps the repeat interval and volume; 0 plays once", () => {
+    expect(resolveEmergencyAudio({ repeatIntervalSeconds: 5 }).repeatIntervalMs).toBe(15_000);
+    expect(resolveEmergencyAudio({ repeatIntervalSeconds: 0 }).repeatIntervalMs).toBe(0);
+    expect(resolveEmergencyAudio({ volume: 3 }).volume).toBe(1);
+  });
+});
+
+describe("isAudibleAlert / isSilencedForJamaat", () => {
+  it("sounds critical alerts, and high ones only when included", () => {
+    const config = resolveEmergencyAudio(null);
+    expect(isAudibleAlert(alert(), config)).toBe(true);
+    expect(isAudibleAlert(alert({ urgency: "high" }), config)).toBe(false);
+    expect(isAudibleAlert(alert({ urgency: "high" }), resolveEmergencyAudio({ includeHigh: true }))).toBe(true);
+    expect(isAudibleAlert(alert(), resolveEmergencyAudio({ enabled: false }))).toBe(false);
+  });
+
+  it("keeps only safety alerts audible during jamaat", () => {
+    expect(isSilencedForJamaat(alert(), true)).toBe(false);
+    expect(isSilencedForJamaat(alert({ category: "janazah" }), true)).toBe(true);
+    expect(isSilencedForJamaat(alert({ category: "janazah" }), false)).toBe(false);
+  });
+});
+
+describe("alertSpeechText", () => {
+  it("reads the title then the message without markup", () => {
+    expect(alertSpeechText(alert())).toBe("Fire Evacuation Alert. Please leave now via the nearest exit.");
+  });
+
+  it("spells out vehicle registrations", () => {
+    expect(alertSpeechText(alert({ category: "vehicle", title: "Please move your vehicle", message: "ab12 cde" }))).toBe(
+      "Please move your vehicle. A B 1 2 C D E",
+    );
+  });
+});
+
+describe("ALERT_TONES", () => {
+  it("has a short tone for every category", () => {
+    for (const notes of Object.values(ALERT_TONES)) {
+      expect(notes.length).toBeGreaterThan(0);
+      expect(toneDurationMs(notes)).toBeLessThanOrEqual(2_000);
+    }
+  });
+});
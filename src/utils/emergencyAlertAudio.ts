@@ -0,0 +1,127 @@
+/**
+ * Resolves the audible side of emergency alerts from portal
+ * displaySettings.emergencyAudio: which alerts sound, the tone per category
+ * and the text read aloud.
+ *
+ * Pure functions only — `useEmergencyAlertAudio` does the playback.
+ */
+
+import type { AlertCategory, EmergencyAlert, EmergencyAlertAudioSettings } from "@/api/models";
+
+const DEFAULT_REPEAT_SECONDS = 60;
+const MIN_REPEAT_SECONDS = 15;
+
+export interface EmergencyAudioConfig {
+  enabled: boolean;
+  includeHigh: boolean;
+  /** 0–1 */
+  volume: number;
+  speak: boolean;
+  voiceLang: string | null;
+  /** 0 = play once */
+  repeatIntervalMs: number;
+}
+
+/** One note of an alert tone. */
+export interface ToneNote {
+  frequency: number;
+  /** Offset from the start of the tone */
+  startMs: number;
+  durationMs: number;
+}
+
+const CHIME: ToneNote[] = [
+  { frequency: 523, startMs: 0, durationMs: 300 },
+  { frequency: 659, startMs: 320, durationMs: 300 },
+  { frequency: 784, startMs: 640, durationMs: 500 },
+];
+
+/**
+ * Tone per category: urgent patterns for safety / vehicle, a gentle falling
+ * pair for janazah, chimes for the rest.
+ */
+export const ALERT_TONES: Record<AlertCategory, ToneNote[]> = {
+  safety: [0, 1, 2, 3, 4, 5].map((i) => ({
+    frequency: i % 2 === 0 ? 960 : 770,
+    startMs: i * 250,
+    durationMs: 240,
+  })),
+  facility: [
+    { frequency: 880, startMs: 0, durationMs: 200 },
+    { frequency: 880, startMs: 350, durationMs: 200 },
+  ],
+  janazah: [
+    { frequency: 523, startMs: 0, durationMs: 600 },
+    { frequency: 392, startMs: 650, durationMs: 900 },
+  ],
+  schedule: [
+    { frequency: 659, startMs: 0, durationMs: 400 },
+    { frequency: 523, startMs: 450, durationMs: 600 },
+  ],
+  community: CHIME,
+  vehicle: [0, 1, 2].map((i) => ({ frequency: 1000, startMs: i * 250, durationMs: 150 })),
+  custom: CHIME,
+};
+
+/** Total length of a tone in ms. */
+export function toneDurationMs(notes: ToneNote[]): number {
+  return notes.reduce((end, note) => Math.max(end, note.startMs + note.durationMs), 0);
+}
+
+function clamp01(value: unknown, fallback: number): number {
+  if (typeof value !== "number" || Number.isNaN(value)) return fallback;
+  return Math.max(0, Math.min(1, value));
+}
+
+/** Effective settings; missing block = on for critical alerts, repeating every minute. */
+export function resolveEmergencyAudio(
+  settings: EmergencyAlertAudioSettings | null | undefined,
+): EmergencyAudioConfig {
+  const repeat = settings?.repeatIntervalSeconds;
+  const repeatSeconds =
+    typeof repeat === "number" && Number.isFinite(repeat)
+      ? repeat <= 0
+        ? 0
+        : Math.max(MIN_REPEAT_SECONDS, repeat)
+      : DEFAULT_REPEAT_SECONDS;
+  const voiceLang = typeof settings?.voiceLang === "string" ? settings.voiceLang.trim() : "";
+  return {
+    enabled: settings?.enabled !== false,
+    includeHigh: settings?.includeHigh === true,
+    volume: clamp01(settings?.volume, 1),
+    speak: settings?.speak !== false,
+    voiceLang: voiceLang || null,
+    repeatIntervalMs: repeatSeconds * 1000,
+  };
+}
+
+/** Whether an alert is loud enough to be sounded at all. */
+export function isAudibleAlert(alert: EmergencyAlert, config: EmergencyAudioConfig): boolean {
+  if (!config.enabled) return false;
+  return alert.urgency === "critical" || (alert.urgency === "high" && config.includeHigh);
+}
+
+/** During jamaat only safety alerts may interrupt the congregation. */
+export function isSilencedForJamaat(alert: EmergencyAlert, jamaatInProgress: boolean): boolean {
+  return jamaatInProgress && alert.category !== "safety";
+}
+
+/**
+ * Text read aloud: title, then the message without markup. Vehicle
+ * registrations are spelled out so the voice does not read them as words.
+ */
+export function alertSpeechText(alert: EmergencyAlert): string {
+  const message = (alert.message ?? "")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+  const spoken =
+    alert.category === "vehicle"
+      ? message.replace(/[A-Za-z0-9]+/g, (word) => word.toUpperCase().split("").join(" "))
+      : message;
+  const title = alert.title.trim();
+  if (!spoken) return title;
+  return /[.!?]$/.test(title) ? `${title} ${spoken}` : `${title}. ${spoken}`;
+}
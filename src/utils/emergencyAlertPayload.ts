@@ -0,0 +1,102 @@
+/**
+ * Emergency alert payloads → `EmergencyAlert`. Shared by the cloud WebSocket
+ * (`emergency:alert` / `emergency:clear`) and the on-site LAN trigger
+ * (deploy server `POST /local/alert`, see localAlertService), so an alert
+ * raised in the hall is normalised exactly like one from the portal.
+ */
+
+import type { EmergencyAlert } from '../api/models';
+import { parseJanazahDetails } from './janazahAlert';
+import { parseVehicleDetails } from './numberPlate';
+
+/**
+ * What an alert payload asks for: show / update an alert, or clear one (null
+ * id = all). `cancelled`: the clear is an explicit cancellation.
+ */
+export type EmergencyAlertInstruction =
+  | { type: 'set'; alert: EmergencyAlert }
+  | { type: 'clear'; alertId: string | null; cancelled: boolean };
+
+/**
+ * Normalise raw Socket.io `emergency:alert` payloads (object, JSON string, or `{ data: { ... } }`).
+ */
+export function normaliseEmergencyAlertPayload(raw: unknown): Record<string, unknown> | null {
+  let parsed: unknown = raw;
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed) as unknown;
+    } catch {
+      return null;
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+  const outer = parsed as Record<string, unknown>;
+  const inner = outer.data;
+  if (inner && typeof inner === 'object' && !Array.isArray(inner)) {
+    return { ...outer, ...(inner as Record<string, unknown>) };
+  }
+  return outer;
+}
+
+/** True when the server intends to dismiss the full-screen alert without waiting for expiry. */
+function isRemoteClearAction(payload: Record<string, unknown>): boolean {
+  const a = payload.action;
+  if (typeof a !== 'string') return false;
+  const n = a.trim().toLowerCase();
+  return n === 'clear' || n === 'hide' || n === 'cancel';
+}
+
+/**
+ * Alert id a clear refers to (`id` or `alertId`, also as a bare string).
+ * null = no id given, which clears every alert.
+ */
+export function emergencyClearTargetId(raw: unknown): string | null {
+  if (typeof raw === 'string' && raw.trim() && !raw.trim().startsWith('{')) return raw.trim();
+  const payload = normaliseEmergencyAlertPayload(raw);
+  const id = payload?.id ?? payload?.alertId;
+  return typeof id === 'string' && id ? id : null;
+}
+
+/**
+ * True when a clear payload cancels the alert (`action: cancel`, or `reason`
+ * cancel / cancelled), as opposed to taking it down, e.g. at its expiry.
+ */
+export function isEmergencyCancel(raw: unknown): boolean {
+  const payload = normaliseEmergencyAlertPayload(raw);
+  if (!payload) return false;
+  const action = typeof payload.action === 'string' ? payload.action.trim().toLowerCase() : '';
+  const reason = typeof payload.reason === 'string' ? payload.reason.trim().toLowerCase() : '';
+  return action === 'cancel' || reason === 'cancel' || reason === 'cancelled' || reason === 'canceled';
+}
+
+/**
+ * Read an `emergency:alert` payload. `action: clear` (or hide / cancel)
+ * dismisses the matching alert immediately; null when the payload is not an
+ * object. Title / message / expiry checks are left to emergencyAlertService.
+ */
+export function parseEmergencyAlertPayload(raw: unknown, masjidId: string): EmergencyAlertInstruction | null {
+  const payload = normaliseEmergencyAlertPayload(raw);
+  if (!payload) return null;
+  if (isRemoteClearAction(payload)) {
+    return { type: 'clear', alertId: emergencyClearTargetId(payload), cancelled: isEmergencyCancel(payload) };
+  }
+
+  return {
+    type: 'set',
+    alert: {
+      id: (typeof payload.id === 'string' && payload.id) || `alert-${Date.now()}`,
+      title: payload.title as string,
+      message: payload.message as string,
+      category: (payload.category as EmergencyAlert['category']) ?? 'community',
+      urgency: (payload.urgency as EmergencyAlert['urgency']) ?? 'high',
+      color: (payload.color as string | null | undefined) ?? null,
+      createdAt: payload.createdAt as string,
+      expiresAt: payload.expiresAt as string,
+      masjidId,
+      timing: payload.timing as EmergencyAlert['timing'],
+      action: payload.action as EmergencyAlert['action'],
+      janazah: payload.category === 'janazah' ? parseJanazahDetails(payload.janazah) : null,
+      vehicle: payload.category === 'vehicle' ? parseVehicleDetails(payload) : null,
+    },
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Hijri calendar tests — Umm al-Qura table, arithmetic fallback and overrides.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  toHijriDate,
+  formatHijriDate,
+  getHijriDateString,
+  hijriMonthStartDate,
+  getHijriCalendarOptions,
+} from './hijriCalendar';
+
+describe('toHijriDate', () => {
+  it('uses the Umm al-Qura table around month starts', () => {
+    expect(toHijriDate('2024-03-10')).toMatchObject({ year: 1445, month: 8, day: 29, source: 'umm-al-qura' });
+    expect(toHijriDate('2024-03-11')).toMatchObject({ year: 1445, month: 9, day: 1, monthName: 'Ramadan' });
+    expect(toHijriDate('2025-03-30')).toMatchObject({ year: 1446, month: 10, day: 1, monthName: 'Shawwal' });
+  });
+
+  it('accepts Date objects by their local calendar fields', () => {
+    expect(toHijriDate(new Date(2026, 1, 18))).toMatchObject({ year: 1447, month: 9, day: 1 });
+  });
+
+  it('falls back to the arithmetic calendar outside the table range', () => {
+    const h = toHijriDate('2000-01-01');
+    expect(h.source).toBe('arithmetic');
+    expect(h).toMatchObject({ year: 1420, month: 9 });
+  });
+
+  it('shifts table dates by adjustmentDays', () => {
+    expect(toHijriDate('2024-03-10', { adjustmentDays: 1 })).toMatchObject({ month: 9, day: 1 });
+    expect(toHijriDate('2024-03-11', { adjustmentDays: -1 })).toMatchObject({ month: 8, day: 29 });
+  });
+
+  it('throws for malformed date strings', () => {
+    expect(() => toHijriDate('not-a-date')).toThrow('Invalid date');
+  });
+});
+
+describe('month overrides', () => {
+  const lateRamadan = [{ year: 1447, month: 9, startDate: '2026-02-19' }];
+
+  it('starts the month on the declared date', () => {
+    expect(toHijriDate('2026-02-18', { overrides: lateRamadan })).toMatchObject({ month: 8, day: 30 });
+    expect(toHijriDate('2026-02-19', { overrides: lateRamadan })).toMatchObject({
+      month: 9,
+      day: 1,
+      source: 'override',
+    });
+    expect(hijriMonthStartDate(1447, 9, { overrides: lateRamadan })).toBe('2026-02-19');
+  });
+
+  it('are not shifted by adjustmentDays', () => {
+    expect(toHijriDate('2026-02-19', { overrides: lateRamadan, adjustmentDays: 1 })).toMatchObject({ month: 9, day: 1 });
+  });
+
+  it('ripple forward so the overridden month stays at most 30 days', () => {
+    const earlyRamadan = [{ year: 1447, month: 9, startDate: '2026-02-17' }];
+    expect(hijriMonthStartDate(1447, 10)).toBe('2026-03-20');
+    expect(hijriMonthStartDate(1447, 10, { overrides: earlyRamadan })).toBe('2026-03-19');
+    expect(toHijriDate('2026-03-19', { overrides: earlyRamadan })).toMatchObject({ month: 10, day: 1, source: 'override' });
+  });
+
+  it('ignores malformed or implausible overrides', () => {
+    const junk = [
+      { year: 1447, month: 9, startDate: '2026-03-18' },
+      { year: 1447, month: 13, startDate: '2026-02-19' },
+      { year: 1447, month: 9, startDate: 'soon' },
+    ];
+    expect(toHijriDate('2026-02-18', { overrides: junk })).toMatchObject({ month: 9, day: 1, source: 'umm-al-qura' });
+  });
+});
+
+describe('formatting and settings', () => {
+  it('formats as "D Month YYYY AH"', () => {
+    expect(formatHijriDate(toHijriDate('2024-03-11'))).toBe('1 Ramadan 1445 AH');
+    expect(getHijriDateString('2024-01-15')).toBe('3 Rajab 1445 AH');
+  });
+
+  it('builds options from display settings', () => {
+    const overrides = [{ year: 1447, month: 10, startDate: '2026-03-21' }];
+    expect(getHijriCalendarOptions({ hijriDateAdjustment: -1, hijriMonthOverrides: overrides })).toEqual({
+      adjustmentDays: -1,
+      overrides,
+    });
+    expect(getHijriCalendarOptions(null)).toEqual({ adjustmentDays: 0, overrides: null });
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Hijri calendar.
+ *
+ * Resolution order for a Gregorian day:
+ *   1. Month-start overrides from the portal (local moon-sighting announcements)
+ *   2. Umm al-Qura table (1440–1480 AH, embedded below)
+ *   3. Tabular (arithmetic) Islamic calendar outside the table range
+ *
+ * `hijriDateAdjustment` from display settings shifts the table/arithmetic
+ * calendar by whole days; overrides are absolute and are not shifted.
+ */
+
+import type { DisplaySettings, HijriMonthOverride } from "../api/models";
+
+export const HIJRI_MONTH_NAMES = [
+  "Muharram",
+  "Safar",
+  "Rabi Al-Awwal",
+  "Rabi Al-Thani",
+  "Jumada Al-Awwal",
+  "Jumada Al-Thani",
+  "Rajab",
+  "Sha'ban",
+  "Ramadan",
+  "Shawwal",
+  "Dhu Al-Qi'dah",
+  "Dhu Al-Hijjah",
+] as const;
+
+export type HijriSource = "override" | "umm-al-qura" | "arithmetic";
+
+export interface HijriDate {
+  year: number;
+  /** 1–12 (9 = Ramadan) */
+  month: number;
+  day: number;
+  monthName: string;
+  /** Which calendar produced the month start for this date. */
+  source: HijriSource;
+}
+
+export interface HijriCalendarOptions {
+  /** Whole days added to the table/arithmetic calendar (displaySettings.hijriDateAdjustment). */
+  adjustmentDays?: number;
+  /** Portal-declared month starts; take precedence over the table. */
+  overrides?: HijriMonthOverride[] | null;
+}
+
+/* ---- Julian Day Number helpers (integer days, no time of day) ---- */
+
+function gregorianToJdn(year: number, month: number, day: number): number {
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  return (
+    day +
+    Math.floor((153 * m + 2) / 5) +
+    365 * y +
+    Math.floor(y / 4) -
+    Math.floor(y / 100) +
+    Math.floor(y / 400) -
+    32045
+  );
+}
+
+function jdnToIsoDate(jdn: number): string {
+  const a = jdn + 32044;
+  const b = Math.floor((4 * a + 3) / 146097);
+  const c = a - Math.floor((146097 * b) / 4);
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor((1461 * d) / 4);
+  const m = Math.floor((5 * e + 2) / 153);
+  const day = e - Math.floor((153 * m + 2) / 5) + 1;
+  const month = m + 3 - 12 * Math.floor(m / 10);
+  const year = 100 * b + d - 4800 + Math.floor(m / 10);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+const ISO_DATE_RE = /^(\d{4})-(\d{2})-(\d{2})/;
+
+function parseIsoDateToJdn(value: string): number | null {
+  const match = ISO_DATE_RE.exec(value);
+  if (!match) return null;
+  const [, y, m, d] = match.map(Number);
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  return gregorianToJdn(y, m, d);
+}
+
+/** Date objects use their local calendar fields (callers pass the masjid calendar day). */
+function toJdn(date: Date | string): number {
+  if (typeof date === "string") {
+    const jdn = parseIsoDateToJdn(date);
+    if (jdn == null) throw new Error(`Invalid date: ${date}`);
+    return jdn;
+  }
+  return gregorianToJdn(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
+
+/* ---- Month index: absolute months since 1 Muharram 1 AH (0-based) ---- */
+
+const toMonthIndex = (year: number, month: number) => (year - 1) * 12 + (month - 1);
+const fromMonthIndex = (index: number) => ({
+  year: Math.floor(index / 12) + 1,
+  month: (index % 12) + 1,
+});
+
+/* ---- Tabular Islamic calendar (civil epoch, 16 July 622) ---- */
+
+const ISLAMIC_EPOCH_JDN = 1948440;
+
+function arithmeticMonthStart(index: number): number {
+  const { year, month } = fromMonthIndex(index);
+  return (
+    Math.ceil(29.5 * (month - 1)) +
+    (year - 1) * 354 +
+    Math.floor((3 + 11 * year) / 30) +
+    ISLAMIC_EPOCH_JDN
+  );
+}
+
+function arithmeticMonthIndex(jdn: number): number {
+  const year = Math.floor((30 * (jdn - ISLAMIC_EPOCH_JDN) + 10646) / 10631);
+  const month = Math.min(12, Math.ceil((jdn - 29 - arithmeticMonthStart(toMonthIndex(year, 1))) / 29.5) + 1);
+  return toMonthIndex(year, Math.max(1, month));
+}
+
+/* ---- Umm al-Qura table ---- */
+
+const UMM_AL_QURA_FIRST_YEAR = 1440;
+/** 1 Muharram 1440 AH = 11 September 2018. */
+const UMM_AL_QURA_EPOCH_JDN = gregorianToJdn(2018, 9, 11);
+/**
+ * Month lengths per year from 1440 AH: bit n set = month n+1 has 30 days,
+ * clear = 29 days. Source: official Umm al-Qura calendar (as shipped in ICU).
+ */
+const UMM_AL_QURA_MONTH_BITS = [
+  0x2ba, 0x5b5, 0x5aa, 0xd55, 0xa9a, 0x92e, 0x26e, 0x55d, 0xada, 0x6d4, 0x6a5,
+  0xb27, 0xa4d, 0x4ad, 0x56d, 0xb5a, 0x754, 0xf49, 0xe92, 0xd26, 0xa56, 0x356,
+  0x6b5, 0xbaa, 0xb92, 0xb25, 0x68b, 0xa9b, 0x55a, 0xada, 0x5b4, 0xda9, 0xb52,
+  0xa9a, 0x536, 0x276, 0x575, 0xaf2, 0x6d4, 0x6a9, 0x555,
+];
+
+const UMM_AL_QURA_FIRST_INDEX = toMonthIndex(UMM_AL_QURA_FIRST_YEAR, 1);
+/** JDN of the first day of every table month, plus one sentinel for the end of the range. */
+const UMM_AL_QURA_MONTH_STARTS: number[] = (() => {
+  const starts = [UMM_AL_QURA_EPOCH_JDN];
+  for (const bits of UMM_AL_QURA_MONTH_BITS) {
+    for (let m = 0; m < 12; m += 1) {
+      starts.push(starts[starts.length - 1] + ((bits >> m) & 1 ? 30 : 29));
+    }
+  }
+  return starts;
+})();
+const UMM_AL_QURA_MONTH_COUNT = UMM_AL_QURA_MONTH_STARTS.length - 1;
+
+function inTable(index: number): boolean {
+  const offset = index - UMM_AL_QURA_FIRST_INDEX;
+  return offset >= 0 && offset < UMM_AL_QURA_MONTH_COUNT;
+}
+
+/**
+ * Day offsets that line the arithmetic calendar up with the first and last
+ * table months, so crossing either edge never yields a 28- or 31-day month.
+ */
+const ARITHMETIC_SHIFT_BEFORE =
+  UMM_AL_QURA_MONTH_STARTS[0] - arithmeticMonthStart(UMM_AL_QURA_FIRST_INDEX);
+const ARITHMETIC_SHIFT_AFTER =
+  UMM_AL_QURA_MONTH_STARTS[UMM_AL_QURA_MONTH_COUNT] -
+  arithmeticMonthStart(UMM_AL_QURA_FIRST_INDEX + UMM_AL_QURA_MONTH_COUNT);
+
+function baseMonthStart(index: number): number {
+  const offset = index - UMM_AL_QURA_FIRST_INDEX;
+  if (offset < 0) return arithmeticMonthStart(index) + ARITHMETIC_SHIFT_BEFORE;
+  if (offset > UMM_AL_QURA_MONTH_COUNT) return arithmeticMonthStart(index) + ARITHMETIC_SHIFT_AFTER;
+  return UMM_AL_QURA_MONTH_STARTS[offset];
+}
+
+function baseMonthIndex(jdn: number): number {
+  const starts = UMM_AL_QURA_MONTH_STARTS;
+  if (jdn < starts[0]) return arithmeticMonthIndex(jdn - ARITHMETIC_SHIFT_BEFORE);
+  if (jdn >= starts[UMM_AL_QURA_MONTH_COUNT]) return arithmeticMonthIndex(jdn - ARITHMETIC_SHIFT_AFTER);
+  let lo = 0;
+  let hi = UMM_AL_QURA_MONTH_COUNT - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (starts[mid] <= jdn) lo = mid;
+    else hi = mid - 1;
+  }
+  return UMM_AL_QURA_FIRST_INDEX + lo;
+}
+
+/* ---- Overrides ---- */
+
+/** Overrides further than this from the calculated start are treated as data-entry errors. */
+const MAX_OVERRIDE_SHIFT_DAYS = 3;
+/** How many months an override can ripple forward while month lengths are clamped to 29–30 days. */
+const OVERRIDE_RIPPLE_MONTHS = 3;
+
+interface Calendar {
+  adjustment: number;
+  overrides: Map<number, number>;
+}
+
+function buildCalendar(options: HijriCalendarOptions = {}): Calendar {
+  const adjustment = Number.isFinite(options.adjustmentDays) ? Math.trunc(options.adjustmentDays!) : 0;
+  const overrides = new Map<number, number>();
+  for (const o of options.overrides ?? []) {
+    if (!o || !Number.isInteger(o.year) || !Number.isInteger(o.month) || o.month < 1 || o.month > 12) continue;
+    if (typeof o.startDate !== "string") continue;
+    const jdn = parseIsoDateToJdn(o.startDate);
+    if (jdn == null) continue;
+    const index = toMonthIndex(o.year, o.month);
+    if (Math.abs(jdn - (baseMonthStart(index) - adjustment)) > MAX_OVERRIDE_SHIFT_DAYS) continue;
+    overrides.set(index, jdn);
+  }
+  return { adjustment, overrides };
+}
+
+/**
+ * Effective first day of a month: the override if declared, else the table/
+ * arithmetic start — clamped so the previous month stays 29–30 days long when
+ * an earlier override moved it.
+ */
+function monthStart(cal: Calendar, index: number, depth = 0): number {
+  const declared = cal.overrides.get(index);
+  if (declared != null) return declared;
+  const base = baseMonthStart(index) - cal.adjustment;
+  if (cal.overrides.size === 0 || depth >= OVERRIDE_RIPPLE_MONTHS) return base;
+  const prev = monthStart(cal, index - 1, depth + 1);
+  return Math.min(Math.max(base, prev + 29), prev + 30);
+}
+
+function resolve(cal: Calendar, jdn: number): HijriDate {
+  let index = baseMonthIndex(jdn + cal.adjustment);
+  while (jdn < monthStart(cal, index)) index -= 1;
+  while (jdn >= monthStart(cal, index + 1)) index += 1;
+
+  const start = monthStart(cal, index);
+  const { year, month } = fromMonthIndex(index);
+  const source: HijriSource =
+    cal.overrides.has(index) || start !== baseMonthStart(index) - cal.adjustment
+      ? "override"
+      : inTable(index)
+        ? "umm-al-qura"
+        : "arithmetic";
+  return {
+    year,
+    month,
+    day: jdn - start + 1,
+    monthName: HIJRI_MONTH_NAMES[month - 1],
+    source,
+  };
+}
+
+/* ---- Public API ---- */
+
+/** Hijri calendar options from display settings (adjustment + moon-sighting overrides). */
+export function getHijriCalendarOptions(
+  displaySettings: Pick<DisplaySettings, "hijriDateAdjustment" | "hijriMonthOverrides"> | null | undefined,
+): HijriCalendarOptions {
+  return {
+    adjustmentDays: displaySettings?.hijriDateAdjustment ?? 0,
+    overrides: displaySettings?.hijriMonthOverrides ?? null,
+  };
+}
+
+/**
+ * Convert a Gregorian day to Hijri.
+ *
+ * @param date - YYYY-MM-DD, or a Date whose local calendar fields are the masjid's day
+ */
+export function toHijriDate(date: Date | string, options?: HijriCalendarOptions): HijriDate {
+  return resolve(buildCalendar(options), toJdn(date));
+}
+
+/** Gregorian date (YYYY-MM-DD) of the 1st of a Hijri month. */
+export function hijriMonthStartDate(year: number, month: number, options?: HijriCalendarOptions): string {
+  return jdnToIsoDate(monthStart(buildCalendar(options), toMonthIndex(year, month)));
+}
+
+/** "15 Ramadan 1447 AH" */
+export function formatHijriDate(hijri: HijriDate): string {
+  return `${hijri.day} ${hijri.monthName} ${hijri.year} AH`;
+}
+
+/** Convenience: formatted Hijri string for a Gregorian day. */
+export function getHijriDateString(date: Date | string, options?: HijriCalendarOptions): string {
+  return formatHijriDate(toHijriDate(date, options));
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import type { JamaatBuzzerSettings } from "@/api/models";
+import {
+  BUZZER_SOUNDS,
+  buzzerHeartbeatReport,
+  resolveEffectiveBuzzerSettings,
+} from "./jamaatBuzzerSettings";
+
+const settings = (jamaatBuzzer: JamaatBuzzerSettings | null) => ({ jamaatBuzzer });
+
+describe("resolveEffectiveBuzzerSettings", () => {
+  it("falls back to the built-in defaults without portal or device values", () => {
+    const effective = resolveEffectiveBuzzerSettings(null, {});
+    expect(effective.enabled).toBe(true);
+    expect(effective.volume).toBe(0.8);
+    expect(effective.soundUrl).toBe(BUZZER_SOUNDS.classic);
+    expect(effective.offsetSeconds).toBe(0);
+    expect(effective.localOverrideAllowed).toBe(true);
+    expect(effective.source).toEqual({ enabled: "default", volume: "default" });
+  });
+
+  it("lets device values win over the portal by default", () => {
+    const effective = resolveEffectiveBuzzerSettings(settings({ enabled: true, volume: 0.3 }), {
+      enabled: false,
+      volume: 0.6,
+    });
+    expect(effective.enabled).toBe(false);
+    expect(effective.volume).toBe(0.6);
+    expect(effective.source).toEqual({ enabled: "local", volume: "local" });
+  });
+
+  it("treats portal enabled:false as a hard off", () => {
+    const effective = resolveEffectiveBuzzerSettings(settings({ enabled: false }), { enabled: true });
+    expect(effective.enabled).toBe(false);
+    expect(effective.source.enabled).toBe("portal");
+  });
+
+  it("ignores device values when the portal disallows local override", () => {
+    const effective = resolveEffectiveBuzzerSettings(
+      settings({ volume: 0.4, allowLocalOverride: false }),
+      { enabled: false, volume: 1 },
+    );
+    expect(effective.enabled).toBe(true);
+    expect(effective.volume).toBe(0.4);
+    expect(effective.localOverrideAllowed).toBe(false);
+  });
+
+  it("resolves sound ids and URLs, clamps the offset and filters prayers", () => {
+    const effective = resolveEffectiveBuzzerSettings(
+      settings({ sound: "/media/chime.mp3", offsetSeconds: -500, prayers: { fajr: false } }),
+      {},
+    );
+    expect(effective.sound).toBe("custom");
+    expect(effective.soundUrl).toBe("/media/chime.mp3");
+    expect(effective.offsetSeconds).toBe(-120);
+    expect(effective.prayers.fajr).toBe(false);
+    expect(effective.prayers.isha).toBe(true);
+  });
+});
+
+describe("buzzerHeartbeatReport", () => {
+  it("lists only the prayers that buzz", () => {
+    const report = buzzerHeartbeatReport(
+      resolveEffectiveBuzzerSettings(settings({ prayers: { fajr: false, isha: false } }), {}),
+    );
+    expect(report.prayers).toEqual(["zuhr", "asr", "maghrib"]);
+    expect(report.sound).toBe("classic");
+  });
+});
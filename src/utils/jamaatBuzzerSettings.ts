@@ -0,0 +1,130 @@
+/**
+ * Effective jamaat buzzer settings: portal `displaySettings.jamaatBuzzer`
+ * (layout behaviour overrides are merged into it server-side) combined with
+ * the values set on the device itself in the settings overlay.
+ *
+ * Precedence, per field:
+ *   1. Portal `enabled: false` is a hard off — the device cannot re-enable.
+ *   2. On / off and volume set on the device win, unless the portal sets
+ *      `allowLocalOverride: false`.
+ *   3. Otherwise the portal value, else the built-in default.
+ *   Sound, prayers and offset are portal-only.
+ */
+
+import type { DisplaySettings, JamaatBuzzerSettings, SalahKey } from "@/api/models";
+
+/** Built-in buzzer sounds, by portal `sound` id. */
+export const BUZZER_SOUNDS: Record<string, string> = {
+  classic: "/sounds/jamaat-buzzer.mp3",
+};
+
+export const DEFAULT_BUZZER_SOUND = "classic";
+
+const DEFAULT_ENABLED = true;
+const DEFAULT_VOLUME = 0.8;
+const MAX_OFFSET_SECONDS = 120;
+const SALAH_KEYS: SalahKey[] = ["fajr", "zuhr", "asr", "maghrib", "isha"];
+
+/** Values set on this device (only the fields the user has actually changed). */
+export interface LocalBuzzerOverrides {
+  enabled?: boolean;
+  volume?: number;
+}
+
+export type BuzzerValueSource = "portal" | "local" | "default";
+
+export interface EffectiveBuzzerSettings {
+  enabled: boolean;
+  volume: number;
+  /** Portal sound id, or "custom" for a URL */
+  sound: string;
+  soundUrl: string;
+  prayers: Record<SalahKey, boolean>;
+  /** Seconds relative to jamaat (negative = before) */
+  offsetSeconds: number;
+  /** Whether the settings overlay may change on / off and volume */
+  localOverrideAllowed: boolean;
+  source: { enabled: BuzzerValueSource; volume: BuzzerValueSource };
+}
+
+/** Shape reported in the heartbeat (`HeartbeatPayload.buzzer`). */
+export interface BuzzerHeartbeatReport {
+  enabled: boolean;
+  volume: number;
+  sound: string;
+  prayers: SalahKey[];
+  offsetSeconds: number;
+  source: EffectiveBuzzerSettings["source"];
+}
+
+export function clampBuzzerVolume(value: unknown, fallback = DEFAULT_VOLUME): number {
+  if (typeof value !== "number" || Number.isNaN(value)) return fallback;
+  return Math.max(0, Math.min(1, value));
+}
+
+function resolveSound(sound: JamaatBuzzerSettings["sound"]): { sound: string; soundUrl: string } {
+  const value = typeof sound === "string" ? sound.trim() : "";
+  if (value && BUZZER_SOUNDS[value]) return { sound: value, soundUrl: BUZZER_SOUNDS[value] };
+  if (/^(https?:\/\/|\/)/.test(value)) return { sound: "custom", soundUrl: value };
+  return { sound: DEFAULT_BUZZER_SOUND, soundUrl: BUZZER_SOUNDS[DEFAULT_BUZZER_SOUND] };
+}
+
+export function resolveEffectiveBuzzerSettings(
+  settings: Pick<DisplaySettings, "jamaatBuzzer"> | null | undefined,
+  local: LocalBuzzerOverrides,
+): EffectiveBuzzerSettings {
+  const portal = settings?.jamaatBuzzer ?? {};
+  const localOverrideAllowed = portal.allowLocalOverride !== false;
+
+  let enabled = DEFAULT_ENABLED;
+  let enabledSource: BuzzerValueSource = "default";
+  if (portal.enabled === false) {
+    enabled = false;
+    enabledSource = "portal";
+  } else if (localOverrideAllowed && typeof local.enabled === "boolean") {
+    enabled = local.enabled;
+    enabledSource = "local";
+  } else if (portal.enabled === true) {
+    enabledSource = "portal";
+  }
+
+  let volume = DEFAULT_VOLUME;
+  let volumeSource: BuzzerValueSource = "default";
+  if (localOverrideAllowed && typeof local.volume === "number") {
+    volume = clampBuzzerVolume(local.volume);
+    volumeSource = "local";
+  } else if (typeof portal.volume === "number" && !Number.isNaN(portal.volume)) {
+    volume = clampBuzzerVolume(portal.volume);
+    volumeSource = "portal";
+  }
+
+  const prayers = {} as Record<SalahKey, boolean>;
+  for (const key of SALAH_KEYS) prayers[key] = portal.prayers?.[key] !== false;
+
+  const offset = portal.offsetSeconds;
+  const offsetSeconds =
+    typeof offset === "number" && !Number.isNaN(offset)
+      ? Math.max(-MAX_OFFSET_SECONDS, Math.min(MAX_OFFSET_SECONDS, Math.round(offset)))
+      : 0;
+
+  return {
+    enabled,
+    volume,
+    ...resolveSound(portal.sound),
+    prayers,
+    offsetSeconds,
+    localOverrideAllowed,
+    source: { enabled: enabledSource, volume: volumeSource },
+  };
+}
+
+export function buzzerHeartbeatReport(effective: EffectiveBuzzerSettings): BuzzerHeartbeatReport {
+  return {
+    enabled: effective.enabled,
+    volume: effective.volume,
+    sound: effective.sound,
+    prayers: SALAH_KEYS.filter((key) => effective.prayers[key]),
+    offsetSeconds: effective.offsetSeconds,
+    source: effective.source,
+  };
+}
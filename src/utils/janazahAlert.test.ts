@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import type { EmergencyAlert, JanazahAlertDetails } from "@/api/models";
+import {
+  collectJanazahAlerts,
+  describeJanazahSalah,
+  parseJanazahDetails,
+  resolveJanazahSalah,
+  type JanazahPrayerRow,
+} from "./janazahAlert";
+
+const TZ = "Europe/London";
+
+const prayers: JanazahPrayerRow[] = [
+  { name: "Fajr", time: "05:10", jamaat: "05:30" },
+  { name: "Zuhr", time: "13:05", jamaat: "13:30" },
+  { name: "Asr", time: "16:40", jamaat: "17:00" },
+  { name: "Maghrib", time: "20:45" },
+  { name: "Isha", time: "22:10", jamaat: "22:30" },
+];
+
+const details = (overrides: Partial<JanazahAlertDetails> = {}): JanazahAlertDetails => ({
+  deceasedName: "Abdullah Rahman",
+  ...overrides,
+});
+
+describe("parseJanazahDetails", () => {
+  it("reads the structured fields and normalises the prayer name", () => {
+    expect(
+      parseJanazahDetails({
+        name: " Abdullah Rahman ",
+        salahTime: "after Dhuhr salah",
+        location: "Main hall",
+        burial: "Eastern Cemetery",
+      }),
+    ).toEqual({
+      deceasedName: "Abdullah Rahman",
+      salahTime: null,
+      salahAfterPrayer: "Zuhr",
+      location: "Main hall",
+      burial: "Eastern Cemetery",
+    });
+  });
+
+  it("rejects a payload without the name of the deceased", () => {
+    expect(parseJanazahDetails({ salahTime: "14:00" })).toBeNull();
+    expect(parseJanazahDetails("Abdullah")).toBeNull();
+  });
+});
+
+describe("resolveJanazahSalah", () => {
+  // 10:00 BST
+  const morning = "2026-06-19T09:00:00.000Z";
+
+  it("resolves 'after X' to that prayer's jamaat on the masjid clock", () => {
+    expect(resolveJanazahSalah(details({ salahAfterPrayer: "Zuhr" }), prayers, morning, TZ)).toEqual({
+      salahAt: "2026-06-19T12:30:00.000Z",
+      afterPrayer: "Zuhr",
+    });
+  });
+
+  it("rolls over to tomorrow when the prayer has already passed", () => {
+    const night = "2026-06-19T21:45:00.000Z"; // 22:45 BST
+    expect(resolveJanazahSalah(details({ salahAfterPrayer: "Fajr" }), prayers, night, TZ).salahAt).toBe(
+      "2026-06-20T04:30:00.000Z",
+    );
+  });
+
+  it("labels the Friday Zuhr slot as Jumuah", () => {
+    const friday = prayers.map((p) => (p.name === "Zuhr" ? { ...p, jamaat: "13:45", isJumuah: true } : p));
+    expect(resolveJanazahSalah(details({ salahAfterPrayer: "Zuhr" }), friday, morning, TZ)).toEqual({
+      salahAt: "2026-06-19T12:45:00.000Z",
+      afterPrayer: "Jumuah",
+    });
+  });
+
+  it("keeps the label when prayer times are not available yet", () => {
+    expect(resolveJanazahSalah(details({ salahAfterPrayer: "Asr" }), [], morning, TZ)).toEqual({
+      salahAt: null,
+      afterPrayer: "Asr",
+    });
+  });
+
+  it("accepts absolute times as HH:mm or ISO", () => {
+    expect(resolveJanazahSalah(details({ salahTime: "11:15" }), prayers, morning, TZ).salahAt).toBe(
+      "2026-06-19T10:15:00.000Z",
+    );
+    expect(
+      resolveJanazahSalah(details({ salahTime: "2026-06-20T11:00:00.000Z" }), prayers, morning, TZ).salahAt,
+    ).toBe("2026-06-20T11:00:00.000Z");
+  });
+});
+
+describe("describeJanazahSalah", () => {
+  const now = new Date("2026-06-19T09:00:00.000Z");
+
+  it("combines the prayer and its resolved time", () => {
+    expect(
+      describeJanazahSalah({ salahAt: "2026-06-19T12:30:00.000Z", afterPrayer: "Zuhr" }, TZ, "12h", now),
+    ).toBe("After Zuhr · 1:30 PM");
+  });
+
+  it("marks a salah tomorrow", () => {
+    expect(describeJanazahSalah({ salahAt: "2026-06-20T10:15:00.000Z", afterPrayer: null }, TZ, "24h", now)).toBe(
+      "Tomorrow, 11:15",
+    );
+  });
+
+  it("returns null when nothing is known", () => {
+    expect(describeJanazahSalah({ salahAt: null, afterPrayer: null }, TZ, "12h", now)).toBeNull();
+  });
+});
+
+describe("collectJanazahAlerts", () => {
+  const alert = {
+    id: "j1",
+    title: "Janazah",
+    message: "After Asr",
+    category: "janazah",
+    urgency: "high",
+    createdAt: "2026-03-02T09:00:00.000Z",
+    expiresAt: "2026-03-02T10:00:00.000Z",
+    masjidId: "m1",
+    janazah: details({ salahAfterPrayer: "Asr" }),
+  } as EmergencyAlert;
+
+  it("keeps an alert the server took down at its expiry", () => {
+    const alerts = collectJanazahAlerts(
+      [
+        { alert, action: "received" },
+        { alert, action: "cleared" },
+      ],
+      [],
+    );
+    expect(alerts.get("j1")?.cancelled).toBe(false);
+  });
+
+  it("marks an alert an admin cancelled", () => {
+    const alerts = collectJanazahAlerts(
+      [
+        { alert, action: "received" },
+        { alert, action: "cleared", cancelled: true },
+      ],
+      [],
+    );
+    expect(alerts.get("j1")?.cancelled).toBe(true);
+  });
+
+  it("ignores free-text janazah alerts", () => {
+    const plain = { ...alert, id: "j2", janazah: null };
+    expect(collectJanazahAlerts([{ alert: plain, action: "received" }], [plain]).size).toBe(0);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Structured janazah alerts: parses the `janazah` block of an
+ * `emergency:alert` payload and resolves when the salah takes place, either
+ * from an absolute time or "after <prayer>" against today's prayer times.
+ *
+ * Pure functions only — `useJanazahNotices` feeds in the alert history and
+ * prayer times and decides which notices stay pinned in the carousel.
+ */
+
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import type { EmergencyAlert, JanazahAlertDetails, TimeFormat } from "@/api/models";
+import { formatTimeToDisplay } from "@/utils/dateUtils";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/** The rows of usePrayerTimes().todaysPrayerTimes this module reads. */
+export interface JanazahPrayerRow {
+  name: string;
+  time: string;
+  jamaat?: string;
+  isJumuah?: boolean;
+}
+
+/** When a janazah salah takes place. */
+export interface JanazahSalah {
+  /** ISO; null when the time cannot be worked out (e.g. no prayer times yet) */
+  salahAt: string | null;
+  /** Prayer the salah follows ("Zuhr", "Jumuah"), for the "after X" label */
+  afterPrayer: string | null;
+}
+
+/** A janazah alert with its salah time resolved (pinned carousel slide). */
+export interface JanazahNotice extends JanazahSalah {
+  alertId: string;
+  title: string;
+  details: JanazahAlertDetails;
+}
+
+const HH_MM = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/** Spellings accepted for "after X", keyed to the prayer row they resolve to. */
+const PRAYER_ALIASES: Record<string, { row: string; label: string }> = {
+  fajr: { row: "Fajr", label: "Fajr" },
+  zuhr: { row: "Zuhr", label: "Zuhr" },
+  dhuhr: { row: "Zuhr", label: "Zuhr" },
+  duhr: { row: "Zuhr", label: "Zuhr" },
+  zohr: { row: "Zuhr", label: "Zuhr" },
+  asr: { row: "Asr", label: "Asr" },
+  maghrib: { row: "Maghrib", label: "Maghrib" },
+  isha: { row: "Isha", label: "Isha" },
+  jumuah: { row: "Zuhr", label: "Jumuah" },
+  jummah: { row: "Zuhr", label: "Jumuah" },
+  juma: { row: "Zuhr", label: "Jumuah" },
+  jumma: { row: "Zuhr", label: "Jumuah" },
+};
+
+function optionalText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/** "after Zuhr", "Dhuhr", "Jumu'ah" → alias entry; null when not a prayer. */
+function parsePrayerReference(value: string): { row: string; label: string } | null {
+  const key = value
+    .trim()
+    .toLowerCase()
+    .replace(/^after\s+/, "")
+    .replace(/\s+(salah|salat|prayer|jamaa?t)$/, "")
+    .replace(/['’\s-]/g, "");
+  return PRAYER_ALIASES[key] ?? null;
+}
+
+/**
+ * Validate the payload's `janazah` block. Accepts `deceasedName` (or `name`)
+ * and `salahTime` given as a clock time or as "after <prayer>".
+ */
+export function parseJanazahDetails(raw: unknown): JanazahAlertDetails | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const data = raw as Record<string, unknown>;
+  const deceasedName = optionalText(data.deceasedName) ?? optionalText(data.name);
+  if (!deceasedName) return null;
+
+  let salahTime = optionalText(data.salahTime);
+  let salahAfterPrayer = optionalText(data.salahAfterPrayer) ?? optionalText(data.salahAfter);
+  if (salahTime && /^after\s/i.test(salahTime)) {
+    salahAfterPrayer = salahAfterPrayer ?? salahTime;
+    salahTime = null;
+  }
+  const prayer = salahAfterPrayer ? parsePrayerReference(salahAfterPrayer) : null;
+
+  return {
+    deceasedName,
+    salahTime,
+    salahAfterPrayer: prayer?.label ?? null,
+    location: optionalText(data.location),
+    burial: optionalText(data.burial),
+  };
+}
+
+/** First moment at `hhmm` (wall clock in `tz`) not before `from`. */
+function nextOccurrence(hhmm: string, from: Date, tz: string): Date | null {
+  const match = HH_MM.exec(hhmm.trim());
+  if (!match) return null;
+  const day = dayjs(from).tz(tz).format("YYYY-MM-DD");
+  const at = dayjs.tz(`${day} ${match[1].padStart(2, "0")}:${match[2]}:00`, tz);
+  return (at.isBefore(from) ? at.add(1, "day") : at).toDate();
+}
+
+/**
+ * When the salah takes place. "After X" uses X's jamaat time (its adhan time
+ * when no jamaat is published) from today's prayer times, taking the first
+ * one after the alert was created. Clock times are in the masjid timezone.
+ */
+export function resolveJanazahSalah(
+  details: JanazahAlertDetails,
+  prayerTimes: JanazahPrayerRow[],
+  createdAt: string,
+  tz: string,
+): JanazahSalah {
+  const created = new Date(createdAt);
+  const from = Number.isNaN(created.getTime()) ? new Date() : created;
+
+  const prayer = details.salahAfterPrayer ? parsePrayerReference(details.salahAfterPrayer) : null;
+  if (prayer) {
+    const row = prayerTimes.find((p) => p.name === prayer.row);
+    const label = prayer.label === "Zuhr" && row?.isJumuah ? "Jumuah" : prayer.label;
+    const at = row ? nextOccurrence(row.jamaat || row.time, from, tz) : null;
+    return { salahAt: at?.toISOString() ?? null, afterPrayer: label };
+  }
+
+  if (details.salahTime) {
+    const at = HH_MM.test(details.salahTime) ? nextOccurrence(details.salahTime, from, tz) : new Date(details.salahTime);
+    return { salahAt: at && !Number.isNaN(at.getTime()) ? at.toISOString() : null, afterPrayer: null };
+  }
+
+  return { salahAt: null, afterPrayer: null };
+}
+
+/**
+ * Salah line for display: "After Zuhr · 1:45 PM", "Tomorrow, 10:30 AM",
+ * "After Asr" (time not known yet). Null when there is nothing to show.
+ */
+export function describeJanazahSalah(
+  salah: JanazahSalah,
+  tz: string,
+  timeFormat: TimeFormat,
+  now: Date = new Date(),
+): string | null {
+  let clock: string | null = null;
+  if (salah.salahAt) {
+    const at = dayjs(salah.salahAt).tz(tz);
+    const today = dayjs(now).tz(tz);
+    clock = formatTimeToDisplay(at.format("HH:mm"), timeFormat);
+    if (!at.isSame(today, "day")) {
+      clock = at.isSame(today.add(1, "day"), "day") ? `Tomorrow, ${clock}` : `${at.format("ddd D MMM")}, ${clock}`;
+    }
+  }
+  if (salah.afterPrayer) return clock ? `After ${salah.afterPrayer} · ${clock}` : `After ${salah.afterPrayer}`;
+  return clock;
+}
+
+/** Janazah alert with structured details, or null for a free-text one. */
+export function getJanazahDetails(alert: EmergencyAlert): JanazahAlertDetails | null {
+  return alert.category === "janazah" && alert.janazah?.deceasedName ? alert.janazah : null;
+}
+
+/**
+ * Latest version of each structured janazah alert in the history and queue,
+ * and whether an admin cancelled it. Only an explicit cancel counts: a clear
+ * that merely takes the alert down (e.g. at its expiry) keeps it pinnable.
+ */
+export function collectJanazahAlerts(
+  history: ReadonlyArray<{ alert: EmergencyAlert; action: string; cancelled?: boolean }>,
+  queue: readonly EmergencyAlert[],
+): Map<string, { alert: EmergencyAlert; cancelled: boolean }> {
+  const alerts = new Map<string, { alert: EmergencyAlert; cancelled: boolean }>();
+  for (const entry of history) {
+    if (!getJanazahDetails(entry.alert)) continue;
+    const known = alerts.get(entry.alert.id);
+    if (entry.action === "received") alerts.set(entry.alert.id, { alert: entry.alert, cancelled: false });
+    else if (known) known.cancelled = entry.action === "cleared" && entry.cancelled === true;
+  }
+  for (const alert of queue) {
+    if (getJanazahDetails(alert)) alerts.set(alert.id, { alert, cancelled: false });
+  }
+  return alerts;
+}
@@ -0,0 +1,90 @@
+/**
+ * Jumu'ah session helpers — payload normalisation and active-session choice.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DisplaySettings } from '@/api/models';
+import {
+  getEffectiveJamaat,
+  getJumuahSessions,
+  jumuahSessionLabel,
+  resolveJumuahSessionIndex,
+} from './jumuahJamaat';
+
+const toMin = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+describe('getEffectiveJamaat', () => {
+  it('swaps the Friday Zuhr jamaat for the Jumuah time only', () => {
+    const zuhr = { name: 'Zuhr', jamaat: '13:30' };
+    expect(getEffectiveJamaat(zuhr, true, '13:45')).toBe('13:45');
+    expect(getEffectiveJamaat(zuhr, false, '13:45')).toBe('13:30');
+    expect(getEffectiveJamaat(zuhr, true, null)).toBe('13:30');
+    expect(getEffectiveJamaat({ name: 'Asr', jamaat: '17:00' }, true, '13:45')).toBe('17:00');
+  });
+});
+
+describe('getJumuahSessions', () => {
+  it('falls back to the legacy khutbah / jamaat pair', () => {
+    expect(getJumuahSessions({ jummahKhutbah: '13:00', jummahJamaat: '13:30' })).toEqual([
+      { khutbah: '13:00', jamaat: '13:30', label: null },
+    ]);
+    expect(getJumuahSessions({ jummahKhutbah: '13:00' })).toEqual([]);
+    expect(getJumuahSessions(null)).toEqual([]);
+  });
+
+  it('prefers jummahSessions, sorted and de-duplicated, dropping malformed entries', () => {
+    const sessions = getJumuahSessions({
+      jummahJamaat: '13:30',
+      jummahSessions: [
+        { khutbah: '14:00', jamaat: '14:30', label: 'Second' },
+        { khutbah: '13:00', jamaat: '13:30' },
+        { jamaat: '14:30' },
+        { khutbah: '15:00' },
+        null,
+      ],
+    });
+    expect(sessions).toEqual([
+      { khutbah: '13:00', jamaat: '13:30', label: null },
+      { khutbah: '14:00', jamaat: '14:30', label: 'Second' },
+    ]);
+  });
+});
+
+describe('resolveJumuahSessionIndex', () => {
+  const sessions = [
+    { khutbah: '12:45', jamaat: '13:00' },
+    { khutbah: '13:45', jamaat: '14:00' },
+  ];
+  // 10 min in progress + 10 min post-jamaat (no post-jamaat supplication).
+  const settings = {
+    defaultJamaatInProgressMinutes: 10,
+    minutesAfterJamaatUntilNextPrayer: 10,
+  } as DisplaySettings;
+
+  it('targets the next session before and between sessions', () => {
+    expect(resolveJumuahSessionIndex(sessions, toMin('12:00'), settings)).toBe(0);
+    expect(resolveJumuahSessionIndex(sessions, toMin('13:40'), settings)).toBe(1);
+  });
+
+  it('stays on a session through its in-prayer window', () => {
+    expect(resolveJumuahSessionIndex(sessions, toMin('13:05'), settings)).toBe(0);
+    expect(resolveJumuahSessionIndex(sessions, toMin('13:18'), settings)).toBe(0);
+    expect(resolveJumuahSessionIndex(sessions, toMin('13:56'), settings)).toBe(1);
+  });
+
+  it('returns the last session once all have finished, and -1 with none', () => {
+    expect(resolveJumuahSessionIndex(sessions, toMin('15:00'), settings)).toBe(1);
+    expect(resolveJumuahSessionIndex([], toMin('13:00'), settings)).toBe(-1);
+  });
+});
+
+describe('jumuahSessionLabel', () => {
+  it('uses the portal label, otherwise an ordinal', () => {
+    expect(jumuahSessionLabel({ jamaat: '13:30', label: 'Arabic' }, 0, 'Jumuah')).toBe('Arabic');
+    expect(jumuahSessionLabel({ jamaat: '14:30' }, 1, 'Jumuah')).toBe('2nd Jumuah');
+    expect(jumuahSessionLabel({ jamaat: '14:30' }, 1)).toBe('2nd');
+  });
+});
@@ -10,7 +10,20 @@
  *
  * This module is the single source of truth for that substitution so the
  * countdown component, phase hook, and any future consumer stay in lockstep.
+ *
+ * Masjids running several Jumu'ah sessions publish `jummahSessions`. The live
+ * UI targets one session at a time — see `resolveJumuahSessionIndex` — so
+ * each session gets its own countdown, silent-phones lead, in-prayer window
+ * and buzzer.
  */
+import type { DisplaySettings, JummahSession } from '@/api/models';
+import { toMinutesFromMidnight } from '@/utils/dateUtils';
+import { JAMAAT_LEAD_MIN } from '@/hooks/usePrayerPhase';
+import {
+  jamaatPhaseMinutesForDisplayPrayer,
+  totalJamaatPhaseWindowForDisplayPrayer,
+} from '@/utils/displaySettingsJamaat';
+
 interface PrayerWithJamaat {
   name: string;
   jamaat?: string;
@@ -38,3 +51,89 @@ export function getEffectiveJamaat(
   }
   return prayer.jamaat;
 }
+
+/**
+ * Normalised Jumu'ah sessions for one day's payload, earliest jamaat first.
+ * Prefers `jummahSessions`; falls back to the single `jummahKhutbah` /
+ * `jummahJamaat` pair. Entries without a jamaat time are dropped.
+ */
+export function getJumuahSessions(dayData: unknown): JummahSession[] {
+  if (!dayData || typeof dayData !== 'object') return [];
+  const rec = dayData as Record<string, unknown>;
+  const str = (v: unknown): string | null =>
+    typeof v === 'string' && v.trim() !== '' ? v.trim() : null;
+
+  if (Array.isArray(rec.jummahSessions) && rec.jummahSessions.length > 0) {
+    const seen = new Set<string>();
+    const sessions: JummahSession[] = [];
+    for (const raw of rec.jummahSessions as Array<Record<string, unknown> | null>) {
+      const jamaat = str(raw?.jamaat);
+      if (!jamaat || toMinutesFromMidnight(jamaat) < 0 || seen.has(jamaat)) continue;
+      seen.add(jamaat);
+      sessions.push({ khutbah: str(raw?.khutbah), jamaat, label: str(raw?.label) });
+    }
+    if (sessions.length > 0) {
+      return sessions.sort(
+        (a, b) => toMinutesFromMidnight(a.jamaat) - toMinutesFromMidnight(b.jamaat),
+      );
+    }
+  }
+
+  const jamaat = str(rec.jummahJamaat);
+  return jamaat ? [{ khutbah: str(rec.jummahKhutbah), jamaat, label: null }] : [];
+}
+
+/**
+ * Index of the session the live UI should target at `nowMin` (masjid-local
+ * minutes), or -1 when there are no sessions:
+ *   1. a session whose jamaat is in progress (keeps the blackout up);
+ *   2. else the latest session inside its lead → post-jamaat window;
+ *   3. else the next session still to come;
+ *   4. else the last session (all finished — callers revert to Zuhr).
+ */
+export function resolveJumuahSessionIndex(
+  sessions: JummahSession[],
+  nowMin: number,
+  settings: DisplaySettings | null | undefined,
+): number {
+  if (sessions.length === 0) return -1;
+  const progress = jamaatPhaseMinutesForDisplayPrayer(settings, 'Zuhr');
+  const windowMin = totalJamaatPhaseWindowForDisplayPrayer(settings, 'Zuhr');
+  const jamaatMins = sessions.map((s) => toMinutesFromMidnight(s.jamaat));
+
+  for (let i = jamaatMins.length - 1; i >= 0; i--) {
+    if (nowMin >= jamaatMins[i] && nowMin <= jamaatMins[i] + progress) return i;
+  }
+  for (let i = jamaatMins.length - 1; i >= 0; i--) {
+    if (nowMin >= jamaatMins[i] - JAMAAT_LEAD_MIN && nowMin <= jamaatMins[i] + windowMin) return i;
+  }
+  const upcoming = jamaatMins.findIndex((j) => j > nowMin);
+  return upcoming >= 0 ? upcoming : sessions.length - 1;
+}
+
+/** The session `resolveJumuahSessionIndex` picks, or null. */
+export function resolveJumuahSession(
+  sessions: JummahSession[],
+  nowMin: number,
+  settings: DisplaySettings | null | undefined,
+): JummahSession | null {
+  const idx = resolveJumuahSessionIndex(sessions, nowMin, settings);
+  return idx >= 0 ? sessions[idx] : null;
+}
+
+const ORDINALS = ['1st', '2nd', '3rd', '4th', '5th', '6th'];
+
+/**
+ * Display name for one of several sessions: the portal label when set,
+ * otherwise "2nd Jumuah" style using the masjid's terminology for `term`
+ * (just "2nd" when `term` is omitted).
+ */
+export function jumuahSessionLabel(
+  session: JummahSession,
+  index: number,
+  term?: string,
+): string {
+  if (session.label) return session.label;
+  const ordinal = ORDINALS[index] ?? `${index + 1}th`;
+  return term ? `${ordinal} ${term}` : ordinal;
+}
@@ -13,6 +13,9 @@ import {
   clearLogHistory,
   setLastError,
   getLastError,
+  setLogLevel,
+  getLogLevel,
+  setLogSink,
 } from './logger';
 
 describe('logger', () => {
@@ -147,4 +150,37 @@ describe('logger', () => {
       expect(setItemSpy).toHaveBeenCalled();
     });
   });
+
+  describe('setLogLevel / setLogSink', () => {
+    afterEach(() => {
+      setLogLevel(null);
+      setLogSink(null);
+    });
+
+    it('passes entries at or above the level to the sink and the console', () => {
+      const sink = vi.fn();
+      setLogSink(sink);
+      setLogLevel('warn');
+      info('Quiet');
+      warn('Loud');
+      expect(sink).toHaveBeenCalledTimes(1);
+      expect(sink.mock.calls[0][0]).toMatchObject({ level: 'warn', message: 'Loud' });
+      expect(consoleSpy.info).not.toHaveBeenCalled();
+      expect(consoleSpy.warn).toHaveBeenCalled();
+    });
+
+    it('keeps the override in localStorage and drops it once expired', () => {
+      vi.useFakeTimers();
+      try {
+        setLogLevel('error', Date.now() + 60_000);
+        expect(localStorage.getItem('masjid_log_level')).toContain('error');
+        expect(getLogLevel()).toBe('error');
+        vi.advanceTimersByTime(60_000);
+        expect(getLogLevel()).toBe('debug');
+        expect(localStorage.getItem('masjid_log_level')).toBeNull();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
 });
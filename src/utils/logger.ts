@@ -4,11 +4,17 @@
  * Lightweight logging utility with in-memory history and level filtering.
  * Production: only errors and warnings are output to console.
  * Development: all levels are output.
+ *
+ * Entries at or above the capture level (info in production) also go to the
+ * log sink — the persistent store in logStoreService. A SET_LOG_LEVEL
+ * command overrides both thresholds for a while (kept across reloads).
  */
 
-type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
 
-interface LogEntry {
+export interface LogEntry {
   timestamp: string;
   level: LogLevel;
   message: string;
@@ -18,6 +24,20 @@ interface LogEntry {
 
 const logHistory: LogEntry[] = [];
 const MAX_LOG_HISTORY = 100;
+const LOG_LEVEL_KEY = 'masjid_log_level';
+
+/** Receives entries at or above the capture level. Set via setLogSink(). */
+export type LogSink = (entry: LogEntry) => void;
+
+interface LogLevelOverride {
+  level: LogLevel;
+  /** ms since epoch; null = until cleared */
+  expiresAt: number | null;
+}
+
+let logSink: LogSink | null = null;
+/** undefined until read from localStorage */
+let levelOverride: LogLevelOverride | null | undefined;
 
 const isProd = (): boolean => {
   try {
@@ -27,7 +47,61 @@ const isProd = (): boolean => {
   }
 };
 
+const levelRank = (level: LogLevel): number => LOG_LEVELS.indexOf(level);
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+function activeOverride(): LogLevelOverride | null {
+  if (levelOverride === undefined) {
+    levelOverride = null;
+    try {
+      const stored = JSON.parse(localStorage.getItem(LOG_LEVEL_KEY) ?? 'null') as Partial<LogLevelOverride> | null;
+      if (stored && isLogLevel(stored.level)) {
+        levelOverride = { level: stored.level, expiresAt: typeof stored.expiresAt === 'number' ? stored.expiresAt : null };
+      }
+    } catch {
+      // localStorage may not be available
+    }
+  }
+  if (levelOverride && levelOverride.expiresAt !== null && Date.now() >= levelOverride.expiresAt) {
+    setLogLevel(null);
+  }
+  return levelOverride;
+}
+
+/**
+ * Override the log level (console and capture) until `expiresAt` (ms since
+ * epoch, null = until cleared); `null` returns to the defaults.
+ */
+export function setLogLevel(level: LogLevel | null, expiresAt: number | null = null): void {
+  levelOverride = level ? { level, expiresAt } : null;
+  try {
+    if (levelOverride) localStorage.setItem(LOG_LEVEL_KEY, JSON.stringify(levelOverride));
+    else localStorage.removeItem(LOG_LEVEL_KEY);
+  } catch {
+    // localStorage may not be available
+  }
+}
+
+/** Lowest level passed to the log sink. */
+export function getLogLevel(): LogLevel {
+  return activeOverride()?.level ?? (isProd() ? 'info' : 'debug');
+}
+
+/** Expiry of the SET_LOG_LEVEL override (ms since epoch), null when none or open-ended. */
+export function getLogLevelExpiry(): number | null {
+  return activeOverride()?.expiresAt ?? null;
+}
+
+export function setLogSink(sink: LogSink | null): void {
+  logSink = sink;
+}
+
 const shouldLog = (level: LogLevel): boolean => {
+  const override = activeOverride();
+  if (override) return levelRank(level) >= levelRank(override.level);
   if (!isProd()) return true;
   return level === 'error' || level === 'warn';
 };
@@ -55,6 +129,14 @@ export function log(
   logHistory.push(entry);
   if (logHistory.length > max) logHistory.shift();
 
+  if (logSink && levelRank(level) >= levelRank(getLogLevel())) {
+    try {
+      logSink(entry);
+    } catch {
+      // A failing sink must never break logging
+    }
+  }
+
   if (!shouldLog(level)) return;
 
   const str = JSON.stringify(entry);
@@ -90,4 +172,16 @@ export const info  = (msg: string, data: Record<string, unknown> = {}): void =>
 export const warn  = (msg: string, data: Record<string, unknown> = {}): void => log('warn', msg, data);
 export const error = (msg: string, data: Record<string, unknown> = {}): void => log('error', msg, data);
 
-export default { log, debug, info, warn, error, getLogHistory, clearLogHistory, getLastError, setLastError };
+export default {
+  log,
+  debug,
+  info,
+  warn,
+  error,
+  getLogHistory,
+  clearLogHistory,
+  getLastError,
+  setLastError,
+  getLogLevel,
+  setLogLevel,
+};
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import type { CarouselItem } from '@/components/display/ContentCarousel';
+import { collectMediaUrls, planMediaEviction, rewriteCarouselItemMedia } from './mediaCache';
+
+describe('collectMediaUrls', () => {
+  it('walks the schedule and playlist assignments for remote media, de-duplicated', () => {
+    const schedule = {
+      items: [
+        { contentItem: { content: { imageUrl: 'https://cdn.test/a.jpg' } } },
+        { contentItem: { content: { mediaUrl: 'https://cdn.test/b.pdf', title: 'https://not-media' } } },
+      ],
+    };
+    const playlists = [{ schedule: { items: [{ contentItem: { content: { videoUrl: 'https://cdn.test/c.mp4' } } }] } }];
+    const events = [{ bannerImageUrl: 'https://cdn.test/a.jpg', displayThumbnail: '/local/logo.png' }];
+
+    expect(collectMediaUrls(schedule, playlists, events)).toEqual([
+      'https://cdn.test/a.jpg',
+      'https://cdn.test/b.pdf',
+      'https://cdn.test/c.mp4',
+    ]);
+  });
+
+  it('ignores missing sources', () => {
+    expect(collectMediaUrls(null, undefined, 'x')).toEqual([]);
+  });
+});
+
+describe('planMediaEviction', () => {
+  const entry = (url: string, bytes: number, lastUsed: number) => ({ url, bytes, lastUsed });
+
+  it('evicts nothing while under quota', () => {
+    expect(planMediaEviction([entry('a', 10, 1)], 100)).toEqual([]);
+  });
+
+  it('evicts least recently used entries not needed by the schedule first', () => {
+    const entries = [entry('old-needed', 40, 1), entry('old', 40, 2), entry('recent', 40, 3)];
+    const evicted = planMediaEviction(entries, 80, new Set(['old-needed']));
+    expect(evicted.map((e) => e.url)).toEqual(['old']);
+  });
+
+  it('evicts needed entries only when they alone exceed the quota', () => {
+    const entries = [entry('a', 60, 1), entry('b', 60, 2)];
+    const evicted = planMediaEviction(entries, 80, new Set(['a', 'b']));
+    expect(evicted.map((e) => e.url)).toEqual(['a']);
+  });
+});
+
+describe('rewriteCarouselItemMedia', () => {
+  const cached: Record<string, string> = { 'https://cdn.test/a.jpg': 'blob:a' };
+  const resolve = (url: string) => cached[url];
+
+  it('points cached media at the local copy', () => {
+    const item: CarouselItem = { id: '1', type: 'MEDIA_SLIDE', mediaUrl: 'https://cdn.test/a.jpg' };
+    expect(rewriteCarouselItemMedia(item, resolve)).toEqual({ ...item, mediaUrl: 'blob:a' });
+  });
+
+  it('returns the same object on a cache miss', () => {
+    const item: CarouselItem = { id: '2', type: 'ANNOUNCEMENT', imageUrl: 'https://cdn.test/miss.jpg' };
+    expect(rewriteCarouselItemMedia(item, resolve)).toBe(item);
+  });
+});
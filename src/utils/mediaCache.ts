@@ -0,0 +1,122 @@
+/**
+ * Pure helpers for the offline media cache (see services/mediaCacheService):
+ * which URLs the schedule and playlists need, which cached entries to evict,
+ * and rewriting carousel items to their cached copies.
+ */
+
+import type { CarouselItem } from '@/components/display/ContentCarousel';
+
+/** Index entry for one cached asset (persisted through storageService). */
+export interface MediaCacheEntry {
+  url: string;
+  bytes: number;
+  /** Epoch ms of the last time the asset was needed (sync or render) */
+  lastUsed: number;
+}
+
+/** Cache summary for the heartbeat (`mediaCache`). */
+export interface MediaCacheStats {
+  entries: number;
+  bytesUsed: number;
+  quotaBytes: number;
+  hits: number;
+  misses: number;
+  /** hits / lookups, 0–1; null before the first lookup */
+  hitRate: number | null;
+}
+
+/** Keys holding remote media in schedule items, content payloads and events. */
+const MEDIA_URL_KEY = /^(media|video|image|bannerImage|thumbnailImage|banner|poster|thumbnail)Url$|^displayThumbnail$/;
+const MAX_WALK_DEPTH = 8;
+
+function isRemoteUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^https?:\/\//i.test(value.trim());
+}
+
+function walk(node: unknown, depth: number, out: Set<string>): void {
+  if (depth > MAX_WALK_DEPTH || node === null || typeof node !== 'object') return;
+  if (Array.isArray(node)) {
+    node.forEach((child) => walk(child, depth + 1, out));
+    return;
+  }
+  for (const [key, value] of Object.entries(node as Record<string, unknown>)) {
+    if (MEDIA_URL_KEY.test(key) && isRemoteUrl(value)) out.add(value.trim());
+    else if (value && typeof value === 'object') walk(value, depth + 1, out);
+  }
+}
+
+/**
+ * Every remote media URL referenced by the given sources (active schedule,
+ * each `ScheduledPlaylistAssignment`, events, carousel items …),
+ * de-duplicated, in order.
+ */
+export function collectMediaUrls(...sources: unknown[]): string[] {
+  const out = new Set<string>();
+  sources.forEach((source) => walk(source, 0, out));
+  return [...out];
+}
+
+/**
+ * Entries to evict so the cache fits `quotaBytes`: least recently used first,
+ * never one of `keep` unless the needed set alone is over quota.
+ */
+export function planMediaEviction(
+  entries: MediaCacheEntry[],
+  quotaBytes: number,
+  keep: ReadonlySet<string> = new Set(),
+): MediaCacheEntry[] {
+  let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+  if (total <= quotaBytes) return [];
+
+  const byAge = [...entries].sort((a, b) => a.lastUsed - b.lastUsed);
+  const ordered = [
+    ...byAge.filter((entry) => !keep.has(entry.url)),
+    ...byAge.filter((entry) => keep.has(entry.url)),
+  ];
+  const evict: MediaCacheEntry[] = [];
+  for (const entry of ordered) {
+    if (total <= quotaBytes) break;
+    evict.push(entry);
+    total -= entry.bytes;
+  }
+  return evict;
+}
+
+/**
+ * Carousel item with its media pointing at cached copies. `resolve` returns
+ * the local (blob) URL for a remote one, or undefined on a cache miss.
+ * Returns the same object when nothing changed so memoised slides stay put.
+ */
+export function rewriteCarouselItemMedia(
+  item: CarouselItem,
+  resolve: (url: string) => string | undefined,
+): CarouselItem {
+  let changed = false;
+  const swap = (url: string | undefined | null): string | undefined => {
+    if (!isRemoteUrl(url)) return url ?? undefined;
+    const local = resolve(url.trim());
+    if (local && local !== url) changed = true;
+    return local ?? url;
+  };
+
+  const imageUrl = swap(item.imageUrl);
+  const mediaUrl = swap(item.mediaUrl);
+  const videoUrl = swap(item.videoUrl);
+  const event = item.event
+    ? {
+        ...item.event,
+        displayThumbnail: swap(item.event.displayThumbnail) ?? item.event.displayThumbnail,
+        bannerImageUrl: swap(item.event.bannerImageUrl) ?? item.event.bannerImageUrl,
+        thumbnailImageUrl: swap(item.event.thumbnailImageUrl) ?? item.event.thumbnailImageUrl,
+      }
+    : undefined;
+
+  if (!changed) return item;
+  return {
+    ...item,
+    ...(item.imageUrl !== undefined ? { imageUrl } : {}),
+    ...(item.mediaUrl !== undefined ? { mediaUrl } : {}),
+    ...(item.videoUrl !== undefined ? { videoUrl } : {}),
+    ...(event ? { event } : {}),
+  };
+}
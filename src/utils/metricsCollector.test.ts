@@ -4,6 +4,8 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { collectMetrics } from './metricsCollector';
+import brightnessService from '../services/brightnessService';
+import mediaCacheService from '../services/mediaCacheService';
 
 describe('collectMetrics', () => {
   const originalFetch = globalThis.fetch;
@@ -31,6 +33,24 @@ describe('collectMetrics', () => {
     expect(result.resolution).toBe('1920x1080');
   });
 
+  it('reports displayBrightness only while automatic brightness is applied', async () => {
+    expect((await collectMetrics()).displayBrightness).toBeUndefined();
+    vi.spyOn(brightnessService, 'getStatus').mockReturnValue({ level: 40, method: 'css' });
+    expect((await collectMetrics()).displayBrightness).toBe(40);
+  });
+
+  it('falls back to the offline media cache size for storageUsed', async () => {
+    vi.spyOn(mediaCacheService, 'getStats').mockReturnValue({
+      entries: 3,
+      bytesUsed: 250_000_000,
+      quotaBytes: 512 * 1024 * 1024,
+      hits: 9,
+      misses: 1,
+      hitRate: 0.9,
+    });
+    expect((await collectMetrics()).storageUsed).toBe(0.25);
+  });
+
   it('includes currentContentId when passed', async () => {
     const result = await collectMetrics('slide-123');
     expect(result.currentContent).toBe('slide-123');
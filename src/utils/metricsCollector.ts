@@ -9,11 +9,15 @@
  * - Standard browser APIs (screen, navigator, performance)
  * - Chrome/Chromium non-standard extensions (performance.memory, navigator.connection)
  * - RPi companion service REST API (cpu, temperature, storage) when available
+ * - brightnessService (level last applied by automatic brightness)
+ * - mediaCacheService (offline media bytes, when the companion reports no storage)
  *
  * This is a pure async utility — it carries no state and can be called freely.
  */
 
 import type { HeartbeatPayload } from '../types/realtime';
+import brightnessService from '../services/brightnessService';
+import mediaCacheService from '../services/mediaCacheService';
 import logger from './logger';
 
 // ────────────────────────────────────────────────────────────────────────────
@@ -58,8 +62,11 @@ interface CompanionSystemInfo {
 
 const COMPANION_TIMEOUT_MS = 2_000;
 
-/** Fetch RPi hardware metrics from the local companion service if it is available. */
-async function fetchCompanionMetrics(): Promise<Partial<CompanionSystemInfo>> {
+/**
+ * Fetch RPi hardware metrics from the local companion service if it is available.
+ * Also used by useBrightnessControl for the ambient light reading.
+ */
+export async function fetchCompanionMetrics(): Promise<Partial<CompanionSystemInfo>> {
   const baseUrl = (window as Window).companionService?.baseUrl;
   if (!baseUrl) return {};
 
@@ -139,6 +146,12 @@ export async function collectMetrics(
     // ignore
   }
 
+  // Automatic brightness (only while it is controlling the display)
+  const { level: brightnessLevel } = brightnessService.getStatus();
+  if (brightnessLevel !== null) {
+    metrics.displayBrightness = brightnessLevel;
+  }
+
   // Current content
   if (currentContentId) {
     metrics.currentContent = currentContentId;
@@ -160,5 +173,11 @@ export async function collectMetrics(
     logger.debug('[MetricsCollector] Companion metrics unavailable', { error: String(err) });
   }
 
+  // Offline media cache (GB) — browser-only devices have no companion storage figure
+  if (metrics.storageUsed === undefined) {
+    const { bytesUsed } = mediaCacheService.getStats();
+    if (bytesUsed > 0) metrics.storageUsed = Math.round((bytesUsed / 1e9) * 1000) / 1000;
+  }
+
   return metrics;
 }
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { parseVehicleDetails, resolvePlate, resolvePlateFormat } from '@/utils/numberPlate';
+
+describe('resolvePlateFormat', () => {
+  it('prefers the format named in the alert payload', () => {
+    expect(resolvePlateFormat({ format: 'us', masjidCountry: 'GB' })).toEqual({ format: 'us', countrySign: null });
+  });
+
+  it('uses the vehicle country, then the masjid country, then the timezone', () => {
+    expect(resolvePlateFormat({ country: 'de', masjidCountry: 'GB' })).toEqual({ format: 'eu', countrySign: 'D' });
+    expect(resolvePlateFormat({ masjidCountry: 'IE', masjidTimezone: 'Europe/London' })).toEqual({
+      format: 'ie',
+      countrySign: 'IRL',
+    });
+    expect(resolvePlateFormat({ masjidTimezone: 'Europe/Paris' })).toEqual({ format: 'eu', countrySign: 'F' });
+    expect(resolvePlateFormat({ masjidTimezone: 'America/Indiana/Indianapolis' }).format).toBe('us');
+  });
+
+  it('falls back to plain text when nothing identifies the country', () => {
+    expect(resolvePlateFormat({ masjidTimezone: 'Asia/Karachi' })).toEqual({ format: 'text', countrySign: null });
+  });
+});
+
+describe('resolvePlate', () => {
+  it('normalises and formats a registration in each format', () => {
+    expect(resolvePlate('ab12-cde', 'uk')?.text).toBe('AB12 CDE');
+    expect(resolvePlate('241 d 12345', 'ie')?.text).toBe('241-D-12345');
+    expect(resolvePlate('b - mw 1234', 'eu', 'D')).toEqual({ format: 'eu', text: 'B-MW 1234', countrySign: 'D' });
+    expect(resolvePlate('7abc123', 'us')?.text).toBe('7ABC123');
+  });
+
+  it('rejects Irish plates with an unknown county code', () => {
+    expect(resolvePlate('241-ZZ-123', 'ie')?.format).toBe('text');
+  });
+
+  it('falls back to plain text instead of a malformed plate', () => {
+    expect(resolvePlate('Blue Ford <b>by the gate</b>', 'uk')).toEqual({
+      format: 'text',
+      text: 'Blue Ford by the gate',
+      countrySign: null,
+    });
+    expect(resolvePlate('   ', 'uk')).toBeNull();
+  });
+});
+
+describe('parseVehicleDetails', () => {
+  it('reads the vehicle block or top-level plate fields', () => {
+    expect(parseVehicleDetails({ vehicle: { registration: ' 12-D-3456 ', plateCountry: 'ie' } })).toEqual({
+      registration: '12-D-3456',
+      plateFormat: null,
+      plateCountry: 'IE',
+    });
+    expect(parseVehicleDetails({ plateFormat: 'eu', plateCountry: 'FR' })?.plateFormat).toBe('eu');
+  });
+
+  it('ignores unknown formats and payloads without plate fields', () => {
+    expect(parseVehicleDetails({ plateFormat: 'mars' })).toBeNull();
+    expect(parseVehicleDetails({ title: 'Move your car' })).toBeNull();
+  });
+});
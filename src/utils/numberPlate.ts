@@ -0,0 +1,296 @@
+/**
+ * Number plate format registry for vehicle alerts. Each format normalises
+ * raw input, validates it against that country's registration scheme and
+ * formats it for the plate; `NumberPlate` holds the matching renderers.
+ *
+ * The format comes from the alert payload when it names one, otherwise from
+ * the vehicle's or the masjid's country, otherwise from the masjid timezone.
+ * A registration that fails validation is shown as plain text rather than
+ * squeezed into a plate it does not fit.
+ */
+
+import type { NumberPlateFormat, VehicleAlertDetails } from '@/api/models';
+import { formatUkPlateForDisplay, isValidUkPlate, normaliseUkPlateInput } from './ukNumberPlate';
+
+export interface PlateFormatDefinition {
+  id: NumberPlateFormat;
+  /** Raw input → canonical form (what validate and format receive) */
+  normalise: (raw: string) => string;
+  validate: (normalised: string) => boolean;
+  /** Canonical form → text printed on the plate */
+  format: (normalised: string) => string;
+}
+
+/** A registration ready to render. */
+export interface ResolvedPlate {
+  format: NumberPlateFormat;
+  text: string;
+  /** Distinguishing sign on the band (IRL, D, F …); null when not known */
+  countrySign: string | null;
+}
+
+/** Current county / city codes plus those retired in 2014 (LK, TN, TS, WD). */
+const IE_COUNTY_CODES = new Set([
+  'C', 'CE', 'CN', 'CW', 'D', 'DL', 'G', 'KE', 'KK', 'KY', 'L', 'LD', 'LH', 'LK', 'LM',
+  'LS', 'MH', 'MN', 'MO', 'OY', 'RN', 'SO', 'T', 'TN', 'TS', 'W', 'WD', 'WH', 'WW', 'WX',
+]);
+
+/** Year (87, 131 = first half of 2013), county, sequence. */
+const IE_PLATE = /^([0-9]{2}|[0-9]{2}[12])([A-Z]{1,2})([0-9]{1,6})$/;
+
+const EU_MAX_CHARACTERS = 10;
+const US_MAX_CHARACTERS = 8;
+const TEXT_MAX_LENGTH = 40;
+
+function alphanumeric(value: string): string {
+  return value.replace(/[^\p{L}0-9]/gu, '');
+}
+
+/** Uppercase, keeping the sender's grouping as single spaces or hyphens. */
+function normaliseGrouped(raw: string): string {
+  return raw
+    .toUpperCase()
+    .replace(/[^\p{L}0-9\s-]/gu, '')
+    .replace(/\s*-\s*/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s-]+|[\s-]+$/g, '');
+}
+
+function parseIePlate(normalised: string): RegExpExecArray | null {
+  const match = IE_PLATE.exec(normalised);
+  return match && IE_COUNTY_CODES.has(match[2]) ? match : null;
+}
+
+export const PLATE_FORMATS: Record<NumberPlateFormat, PlateFormatDefinition> = {
+  uk: {
+    id: 'uk',
+    normalise: normaliseUkPlateInput,
+    validate: isValidUkPlate,
+    format: formatUkPlateForDisplay,
+  },
+  ie: {
+    id: 'ie',
+    normalise: (raw) => raw.replace(/[^a-zA-Z0-9]/g, '').toUpperCase(),
+    validate: (normalised) => parseIePlate(normalised) !== null,
+    format: (normalised) => {
+      const match = parseIePlate(normalised);
+      return match ? `${match[1]}-${match[2]}-${match[3]}` : normalised;
+    },
+  },
+  eu: {
+    // Too many national schemes to check one by one: a short mark with at least one digit
+    id: 'eu',
+    normalise: normaliseGrouped,
+    validate: (normalised) => {
+      const characters = alphanumeric(normalised);
+      return characters.length >= 2 && characters.length <= EU_MAX_CHARACTERS && /[0-9]/.test(characters);
+    },
+    format: (normalised) => normalised,
+  },
+  us: {
+    // States issue their own serials and vanity plates: up to 8 letters or digits
+    id: 'us',
+    normalise: normaliseGrouped,
+    validate: (normalised) => {
+      const characters = alphanumeric(normalised);
+      return characters.length >= 1 && characters.length <= US_MAX_CHARACTERS && !/\s.*\s/.test(normalised);
+    },
+    format: (normalised) => normalised,
+  },
+  text: {
+    id: 'text',
+    normalise: (raw) =>
+      raw
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, TEXT_MAX_LENGTH),
+    validate: (normalised) => normalised.length > 0,
+    format: (normalised) => normalised,
+  },
+};
+
+/** Plate format and band sign per ISO 3166 alpha-2 country. */
+const COUNTRY_PLATES: Record<string, { format: NumberPlateFormat; sign: string | null }> = {
+  GB: { format: 'uk', sign: 'GB' },
+  GG: { format: 'uk', sign: 'GBG' },
+  JE: { format: 'uk', sign: 'GBJ' },
+  IM: { format: 'uk', sign: 'GBM' },
+  IE: { format: 'ie', sign: 'IRL' },
+  AT: { format: 'eu', sign: 'A' },
+  BE: { format: 'eu', sign: 'B' },
+  BG: { format: 'eu', sign: 'BG' },
+  CY: { format: 'eu', sign: 'CY' },
+  CZ: { format: 'eu', sign: 'CZ' },
+  DE: { format: 'eu', sign: 'D' },
+  DK: { format: 'eu', sign: 'DK' },
+  EE: { format: 'eu', sign: 'EST' },
+  ES: { format: 'eu', sign: 'E' },
+  FI: { format: 'eu', sign: 'FIN' },
+  FR: { format: 'eu', sign: 'F' },
+  GR: { format: 'eu', sign: 'GR' },
+  HR: { format: 'eu', sign: 'HR' },
+  HU: { format: 'eu', sign: 'H' },
+  IT: { format: 'eu', sign: 'I' },
+  LT: { format: 'eu', sign: 'LT' },
+  LU: { format: 'eu', sign: 'L' },
+  LV: { format: 'eu', sign: 'LV' },
+  MT: { format: 'eu', sign: 'M' },
+  NL: { format: 'eu', sign: 'NL' },
+  PL: { format: 'eu', sign: 'PL' },
+  PT: { format: 'eu', sign: 'P' },
+  RO: { format: 'eu', sign: 'RO' },
+  SE: { format: 'eu', sign: 'S' },
+  SI: { format: 'eu', sign: 'SLO' },
+  SK: { format: 'eu', sign: 'SK' },
+  US: { format: 'us', sign: null },
+  CA: { format: 'us', sign: null },
+};
+
+/** Common spellings that are not the ISO code. */
+const COUNTRY_ALIASES: Record<string, string> = { UK: 'GB', EL: 'GR' };
+
+/** IANA timezone → country, for masjids whose content does not carry a country. */
+const TIMEZONE_COUNTRIES: Record<string, string> = {
+  'Europe/London': 'GB',
+  'Europe/Belfast': 'GB',
+  'Europe/Guernsey': 'GG',
+  'Europe/Jersey': 'JE',
+  'Europe/Isle_of_Man': 'IM',
+  'Europe/Dublin': 'IE',
+  'Europe/Vienna': 'AT',
+  'Europe/Brussels': 'BE',
+  'Europe/Sofia': 'BG',
+  'Asia/Nicosia': 'CY',
+  'Asia/Famagusta': 'CY',
+  'Europe/Nicosia': 'CY',
+  'Europe/Prague': 'CZ',
+  'Europe/Berlin': 'DE',
+  'Europe/Busingen': 'DE',
+  'Europe/Copenhagen': 'DK',
+  'Europe/Tallinn': 'EE',
+  'Europe/Madrid': 'ES',
+  'Africa/Ceuta': 'ES',
+  'Atlantic/Canary': 'ES',
+  'Europe/Helsinki': 'FI',
+  'Europe/Paris': 'FR',
+  'Europe/Athens': 'GR',
+  'Europe/Zagreb': 'HR',
+  'Europe/Budapest': 'HU',
+  'Europe/Rome': 'IT',
+  'Europe/Vilnius': 'LT',
+  'Europe/Luxembourg': 'LU',
+  'Europe/Riga': 'LV',
+  'Europe/Malta': 'MT',
+  'Europe/Amsterdam': 'NL',
+  'Europe/Warsaw': 'PL',
+  'Europe/Lisbon': 'PT',
+  'Atlantic/Azores': 'PT',
+  'Atlantic/Madeira': 'PT',
+  'Europe/Bucharest': 'RO',
+  'Europe/Stockholm': 'SE',
+  'Europe/Ljubljana': 'SI',
+  'Europe/Bratislava': 'SK',
+  'America/New_York': 'US',
+  'America/Detroit': 'US',
+  'America/Chicago': 'US',
+  'America/Denver': 'US',
+  'America/Boise': 'US',
+  'America/Phoenix': 'US',
+  'America/Los_Angeles': 'US',
+  'America/Anchorage': 'US',
+  'Pacific/Honolulu': 'US',
+  'America/Toronto': 'CA',
+  'America/Montreal': 'CA',
+  'America/Vancouver': 'CA',
+  'America/Edmonton': 'CA',
+  'America/Winnipeg': 'CA',
+  'America/Regina': 'CA',
+  'America/Halifax': 'CA',
+  'America/St_Johns': 'CA',
+};
+
+/** Zone groups covering US states split across several zones. */
+const US_TIMEZONE_PREFIXES = ['America/Indiana/', 'America/Kentucky/', 'America/North_Dakota/'];
+
+function isPlateFormat(value: unknown): value is NumberPlateFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PLATE_FORMATS, value);
+}
+
+/** Upper-case ISO code for a country string; null when not one we know. */
+function countryCode(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const code = value.trim().toUpperCase();
+  const resolved = COUNTRY_ALIASES[code] ?? code;
+  return Object.prototype.hasOwnProperty.call(COUNTRY_PLATES, resolved) ? resolved : null;
+}
+
+function timezoneCountry(timezone: string | null | undefined): string | null {
+  if (!timezone) return null;
+  if (Object.prototype.hasOwnProperty.call(TIMEZONE_COUNTRIES, timezone)) return TIMEZONE_COUNTRIES[timezone];
+  return US_TIMEZONE_PREFIXES.some((prefix) => timezone.startsWith(prefix)) ? 'US' : null;
+}
+
+export interface PlateFormatSources {
+  /** Explicit format from the alert payload */
+  format?: string | null;
+  /** Vehicle country from the alert payload */
+  country?: string | null;
+  masjidCountry?: string | null;
+  masjidTimezone?: string | null;
+}
+
+/**
+ * Plate format to render: the payload's format, else the vehicle's country,
+ * else the masjid's country, else the masjid timezone; plain text when none
+ * of them is known.
+ */
+export function resolvePlateFormat(sources: PlateFormatSources): {
+  format: NumberPlateFormat;
+  countrySign: string | null;
+} {
+  const country =
+    countryCode(sources.country) ?? countryCode(sources.masjidCountry) ?? timezoneCountry(sources.masjidTimezone);
+  const plate = country ? COUNTRY_PLATES[country] : null;
+  const format = isPlateFormat(sources.format) ? sources.format : (plate?.format ?? 'text');
+  return { format, countrySign: plate?.format === format ? plate.sign : null };
+}
+
+/**
+ * Normalise and validate `raw` in `format`. A registration that does not
+ * validate falls back to plain text; null when there is nothing to show.
+ */
+export function resolvePlate(
+  raw: string,
+  format: NumberPlateFormat,
+  countrySign: string | null = null,
+): ResolvedPlate | null {
+  const definition = PLATE_FORMATS[format];
+  const normalised = definition.normalise(raw);
+  if (definition.validate(normalised)) {
+    return { format, text: definition.format(normalised), countrySign };
+  }
+  const text = PLATE_FORMATS.text.normalise(raw);
+  return text ? { format: 'text', text, countrySign: null } : null;
+}
+
+/**
+ * Validate the plate fields of a `vehicle` alert payload: the `vehicle`
+ * block, or `plateFormat` / `plateCountry` / `registration` at the top level.
+ */
+export function parseVehicleDetails(payload: Record<string, unknown>): VehicleAlertDetails | null {
+  const block = payload.vehicle;
+  const data =
+    block && typeof block === 'object' && !Array.isArray(block) ? (block as Record<string, unknown>) : payload;
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+  const details: VehicleAlertDetails = {
+    registration: text(data.registration),
+    plateFormat: isPlateFormat(data.plateFormat) ? data.plateFormat : null,
+    plateCountry: text(data.plateCountry)?.toUpperCase() ?? null,
+  };
+  return details.registration || details.plateFormat || details.plateCountry ? details : null;
+}
@@ -0,0 +1,92 @@
+/**
+ * Shared guards for sounds fired on `usePrayerPhase` edges (jamaat buzzer,
+ * adhan audio).
+ *
+ *   - Per-day dedupe persisted in `localStorage`, so a reload during the
+ *     phase does not replay the sound.
+ *   - Safety window: a cue is only allowed within a few seconds of its
+ *     scheduled minute, so a device that boots mid-phase stays quiet.
+ */
+
+import { nowMinutesInTz, toMinutesFromMidnight } from '@/utils/dateUtils';
+
+/** Maximum seconds past the scheduled minute that a cue may still fire. */
+export const CUE_SAFETY_WINDOW_SEC = 5;
+
+interface DedupeState {
+  /** Local-date key in `YYYY-MM-DD` format. */
+  date: string;
+  /** Cue keys (usually prayer names) already fired today. */
+  prayers: string[];
+}
+
+export interface DailyCueDedupe {
+  has: (cue: string) => boolean;
+  mark: (cue: string) => void;
+}
+
+function todayKey(): string {
+  const d = new Date();
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+/** Per-day dedupe backed by `localStorage[storageKey]`; resets at local midnight. */
+export function createDailyCueDedupe(storageKey: string): DailyCueDedupe {
+  const load = (): DedupeState => {
+    if (typeof localStorage === 'undefined') return { date: todayKey(), prayers: [] };
+    try {
+      const raw = localStorage.getItem(storageKey);
+      if (!raw) return { date: todayKey(), prayers: [] };
+      const parsed = JSON.parse(raw) as Partial<DedupeState> | null;
+      if (parsed?.date !== todayKey()) return { date: todayKey(), prayers: [] };
+      const prayers = Array.isArray(parsed.prayers)
+        ? parsed.prayers.filter((p): p is string => typeof p === 'string')
+        : [];
+      return { date: parsed.date, prayers };
+    } catch {
+      return { date: todayKey(), prayers: [] };
+    }
+  };
+
+  return {
+    has: (cue) => load().prayers.includes(cue),
+    mark: (cue) => {
+      const state = load();
+      if (state.prayers.includes(cue)) return;
+      const next: DedupeState = { date: state.date, prayers: [...state.prayers, cue] };
+      try {
+        if (typeof localStorage !== 'undefined') {
+          localStorage.setItem(storageKey, JSON.stringify(next));
+        }
+      } catch {
+        /* quota / private mode — non-fatal */
+      }
+    },
+  };
+}
+
+/**
+ * Seconds elapsed since `timeStr` (HH:mm, masjid-local) — negative before it,
+ * null when the time is missing or malformed. Compares in masjid wall-clock
+ * minutes; `Date.getHours()` would be wrong when the device runs in UTC
+ * (e.g. the Pi kiosk).
+ */
+export function secondsSinceCueTime(
+  timeStr: string | undefined,
+  prayerName: string,
+  tz: string,
+  now: Date = new Date(),
+): number | null {
+  if (!timeStr) return null;
+  const cueMin = toMinutesFromMidnight(timeStr, prayerName);
+  if (cueMin < 0) return null;
+  return (nowMinutesInTz(now, tz) - cueMin) * 60;
+}
+
+/** True when `elapsedSec` is inside [0, CUE_SAFETY_WINDOW_SEC]. */
+export function isWithinCueSafetyWindow(elapsedSec: number): boolean {
+  return elapsedSec >= 0 && elapsedSec <= CUE_SAFETY_WINDOW_SEC;
+}
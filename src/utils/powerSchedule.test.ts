@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import type { PowerScheduleSettings, PrayerTimes } from '@/api/models';
+import { findActivePowerOffWindow } from './powerSchedule';
+
+const times: PrayerTimes = {
+  fajr: '05:30',
+  sunrise: '06:45',
+  zuhr: '12:15',
+  asr: '15:30',
+  maghrib: '18:20',
+  isha: '19:45',
+  fajrJamaat: '05:45',
+  zuhrJamaat: '12:30',
+  asrJamaat: '16:00',
+  maghribJamaat: '18:25',
+  ishaJamaat: '20:00',
+};
+
+const overnight: PowerScheduleSettings = {
+  enabled: true,
+  windows: [{ start: { time: '23:30' }, end: { prayer: 'FAJR', offsetMinutes: -30 } }],
+};
+
+const at = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+describe('findActivePowerOffWindow', () => {
+  it('matches inside a window that crosses midnight', () => {
+    expect(findActivePowerOffWindow({ powerSchedule: overnight }, times, at('23:45'))).toBe(
+      overnight.windows[0],
+    );
+    expect(findActivePowerOffWindow({ powerSchedule: overnight }, times, at('04:59'))).toBe(
+      overnight.windows[0],
+    );
+  });
+
+  it('keeps the screen on outside the window or when disabled', () => {
+    expect(findActivePowerOffWindow({ powerSchedule: overnight }, times, at('05:00'))).toBeNull();
+    expect(findActivePowerOffWindow({ powerSchedule: overnight }, times, at('12:00'))).toBeNull();
+    expect(
+      findActivePowerOffWindow({ powerSchedule: { ...overnight, enabled: false } }, times, at('23:45')),
+    ).toBeNull();
+  });
+
+  it('skips a prayer-anchored window while the timetable is missing', () => {
+    expect(findActivePowerOffWindow({ powerSchedule: overnight }, null, at('23:45'))).toBeNull();
+  });
+});
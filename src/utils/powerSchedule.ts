@@ -0,0 +1,35 @@
+/**
+ * Scheduled screen power windows (`displaySettings.powerSchedule`).
+ *
+ * Each window turns the screen off from `start` until `end`; either edge is a
+ * time-of-day anchor (fixed time or prayer-relative, see utils/timeOfDayAnchor).
+ * A window whose end is before its start wraps midnight (e.g. 23:30 → 30 min
+ * before Fajr); the morning edge then uses today's Fajr, which is within a
+ * minute or two of tomorrow's.
+ */
+
+import type { DisplaySettings, PowerScheduleWindow, PrayerTimes } from '@/api/models';
+import { resolveTimeOfDayAnchorMinutes } from '@/utils/timeOfDayAnchor';
+
+/**
+ * The power-off window `nowMin` falls inside, or null when the screen should
+ * be on. Disabled schedules and malformed windows never switch anything off.
+ */
+export function findActivePowerOffWindow(
+  settings: Pick<DisplaySettings, 'powerSchedule'> | null | undefined,
+  times: PrayerTimes | null | undefined,
+  nowMin: number,
+): PowerScheduleWindow | null {
+  const schedule = settings?.powerSchedule;
+  if (!schedule?.enabled || !Array.isArray(schedule.windows)) return null;
+
+  for (const window of schedule.windows) {
+    const start = resolveTimeOfDayAnchorMinutes(window?.start, times);
+    const end = resolveTimeOfDayAnchorMinutes(window?.end, times);
+    if (start === null || end === null || start === end) continue;
+    const inside =
+      start < end ? nowMin >= start && nowMin < end : nowMin >= start || nowMin < end;
+    if (inside) return window;
+  }
+  return null;
+}
@@ -0,0 +1,73 @@
+/**
+ * Local prayer-time calculator tests — sanity checks against published
+ * almanac values (sunrise/sunset) and method-specific rules.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculatePrayerTimes } from './prayerCalculation';
+
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+const MAKKAH = { latitude: 21.4225, longitude: 39.8262 };
+
+function minutes(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+function expectNear(actual: string, expected: string, tolerance = 3) {
+  expect(Math.abs(minutes(actual) - minutes(expected))).toBeLessThanOrEqual(tolerance);
+}
+
+describe('calculatePrayerTimes', () => {
+  it('matches London equinox sunrise, solar noon and sunset (GMT)', () => {
+    const t = calculatePrayerTimes('2024-03-21', LONDON, 'Europe/London');
+    expectNear(t.sunrise, '06:02');
+    expectNear(t.zuhr, '12:08');
+    expectNear(t.maghrib, '18:15');
+    expect(minutes(t.fajr)).toBeLessThan(minutes(t.sunrise));
+    expect(minutes(t.isha)).toBeGreaterThan(minutes(t.maghrib));
+  });
+
+  it('applies the DST offset for the date', () => {
+    const t = calculatePrayerTimes('2024-06-21', LONDON, 'Europe/London');
+    expectNear(t.sunrise, '04:43');
+    expectNear(t.maghrib, '21:21');
+  });
+
+  it('Hanafi Asr is later than Shafi\'i Asr', () => {
+    const shafi = calculatePrayerTimes('2024-01-15', LONDON, 'Europe/London');
+    const hanafi = calculatePrayerTimes('2024-01-15', LONDON, 'Europe/London', { asrMadhab: 'hanafi' });
+    expect(minutes(hanafi.asr)).toBeGreaterThan(minutes(shafi.asr) + 20);
+  });
+
+  it('Umm al-Qura sets Isha 90 minutes after Maghrib', () => {
+    const t = calculatePrayerTimes('2024-03-21', MAKKAH, 'Asia/Riyadh', { method: 'UmmAlQura' });
+    expectNear(t.fajr, '05:08');
+    expectNear(t.maghrib, '18:32');
+    expect(minutes(t.isha) - minutes(t.maghrib)).toBe(90);
+  });
+
+  it('keeps UK summer Fajr/Isha within the night using the high-latitude rule', () => {
+    const angle = calculatePrayerTimes('2024-06-21', LONDON, 'Europe/London');
+    const seventh = calculatePrayerTimes('2024-06-21', LONDON, 'Europe/London', {
+      highLatitudeRule: 'seventh-of-night',
+    });
+    // 18° twilight never ends in London at midsummer; times must still be produced.
+    expect(minutes(angle.fajr)).toBeLessThan(minutes(angle.sunrise));
+    expect(minutes(seventh.fajr)).toBeGreaterThan(minutes(angle.fajr));
+    expect(minutes(seventh.isha)).toBeLessThan(minutes(angle.isha));
+  });
+
+  it('Moonsighting Committee adds its Dhuhr/Maghrib offsets', () => {
+    const mwl = calculatePrayerTimes('2024-06-21', LONDON, 'Europe/London');
+    const msc = calculatePrayerTimes('2024-06-21', LONDON, 'Europe/London', { method: 'MoonsightingCommittee' });
+    expect(minutes(msc.zuhr) - minutes(mwl.zuhr)).toBe(5);
+    expect(minutes(msc.maghrib) - minutes(mwl.maghrib)).toBe(3);
+  });
+
+  it('throws when the sun does not set (polar day)', () => {
+    expect(() =>
+      calculatePrayerTimes('2024-06-21', { latitude: 78.22, longitude: 15.65 }, 'Arctic/Longyearbyen'),
+    ).toThrow(/does not rise or set/);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Local astronomical prayer-time calculation.
+ *
+ * Offline fallback for when the cached timetable runs out (see prayerTimesFallback).
+ * Solar position follows the PrayTimes.org / USNO low-precision formulas (≈1 min
+ * accuracy); Moonsighting Committee uses Khalid Shaukat's seasonal twilight curves.
+ * Output is adhan times in HH:mm (masjid local time) — never jamaat times.
+ */
+
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import type {
+  HighLatitudeRule,
+  PrayerCalculationMethod,
+  PrayerCalculationSettings,
+} from "@/api/models";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface CalculatedPrayerTimes {
+  fajr: string;
+  sunrise: string;
+  zuhr: string;
+  asr: string;
+  maghrib: string;
+  isha: string;
+}
+
+interface MethodParams {
+  fajrAngle: number;
+  /** Isha by twilight angle… */
+  ishaAngle?: number;
+  /** …or a fixed interval after sunset (Umm al-Qura). */
+  ishaMinutes?: number;
+  /** Method-specific safety offsets (Moonsighting Committee). */
+  dhuhrMinutes?: number;
+  maghribMinutes?: number;
+}
+
+export const CALCULATION_METHODS: Record<PrayerCalculationMethod, MethodParams> = {
+  MWL: { fajrAngle: 18, ishaAngle: 17 },
+  ISNA: { fajrAngle: 15, ishaAngle: 15 },
+  UmmAlQura: { fajrAngle: 18.5, ishaMinutes: 90 },
+  Egyptian: { fajrAngle: 19.5, ishaAngle: 17.5 },
+  Karachi: { fajrAngle: 18, ishaAngle: 18 },
+  MoonsightingCommittee: { fajrAngle: 18, ishaAngle: 18, dhuhrMinutes: 5, maghribMinutes: 3 },
+};
+
+export const DEFAULT_CALCULATION_SETTINGS: Required<PrayerCalculationSettings> = {
+  method: "MWL",
+  asrMadhab: "shafi",
+  highLatitudeRule: "angle-based",
+};
+
+/** Sun's upper limb on the horizon, including standard refraction. */
+const SUNRISE_ANGLE = 0.833;
+/** Moonsighting Committee switches to 1/7-of-night at and above this latitude. */
+const MOONSIGHTING_HIGH_LATITUDE = 55;
+
+/* ---- Degree-based trigonometry ---- */
+
+const DEG = Math.PI / 180;
+const dsin = (d: number) => Math.sin(d * DEG);
+const dcos = (d: number) => Math.cos(d * DEG);
+const dtan = (d: number) => Math.tan(d * DEG);
+const darcsin = (x: number) => Math.asin(x) / DEG;
+const darccos = (x: number) => Math.acos(x) / DEG;
+const darctan2 = (y: number, x: number) => Math.atan2(y, x) / DEG;
+const darccot = (x: number) => Math.atan(1 / x) / DEG;
+
+const fix = (a: number, b: number) => a - b * Math.floor(a / b);
+const fixAngle = (a: number) => fix(a, 360);
+const fixHour = (a: number) => fix(a, 24);
+/** Hours from t1 forward to t2, wrapping midnight. */
+const timeDiff = (t1: number, t2: number) => fixHour(t2 - t1);
+
+function julianDate(year: number, month: number, day: number): number {
+  let y = year;
+  let m = month;
+  if (m <= 2) {
+    y -= 1;
+    m += 12;
+  }
+  const a = Math.floor(y / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (y + 4716)) + Math.floor(30.6001 * (m + 1)) + day + b - 1524.5;
+}
+
+/** Solar declination (degrees) and equation of time (hours) for a Julian date. */
+function sunPosition(jd: number): { declination: number; equation: number } {
+  const d = jd - 2451545.0;
+  const g = fixAngle(357.529 + 0.98560028 * d);
+  const q = fixAngle(280.459 + 0.98564736 * d);
+  const l = fixAngle(q + 1.915 * dsin(g) + 0.02 * dsin(2 * g));
+  const e = 23.439 - 0.00000036 * d;
+  const ra = fixHour(darctan2(dcos(e) * dsin(l), dcos(l)) / 15);
+  return {
+    declination: darcsin(dsin(e) * dsin(l)),
+    equation: q / 15 - ra,
+  };
+}
+
+/* ---- Moonsighting Committee seasonal twilight ---- */
+
+function daysSinceSolstice(dayOfYear: number, year: number, latitude: number): number {
+  const isLeap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+  const daysInYear = isLeap ? 366 : 365;
+  if (latitude >= 0) {
+    const d = dayOfYear + 10;
+    return d >= daysInYear ? d - daysInYear : d;
+  }
+  const d = dayOfYear - (isLeap ? 173 : 172);
+  return d < 0 ? d + daysInYear : d;
+}
+
+/** Piecewise-linear interpolation between the four seasonal anchors (minutes). */
+function seasonalMinutes(a: number, b: number, c: number, d: number, dyy: number): number {
+  if (dyy < 91) return a + ((b - a) / 91) * dyy;
+  if (dyy < 137) return b + ((c - b) / 46) * (dyy - 91);
+  if (dyy < 183) return c + ((d - c) / 46) * (dyy - 137);
+  if (dyy < 229) return d + ((c - d) / 46) * (dyy - 183);
+  if (dyy < 275) return c + ((b - c) / 46) * (dyy - 229);
+  return b + ((a - b) / 91) * (dyy - 275);
+}
+
+function seasonAdjustedFajrMinutes(latitude: number, dyy: number): number {
+  const lat = Math.abs(latitude);
+  return seasonalMinutes(
+    75 + (28.65 / 55) * lat,
+    75 + (19.44 / 55) * lat,
+    75 + (32.74 / 55) * lat,
+    75 + (48.1 / 55) * lat,
+    dyy,
+  );
+}
+
+/** General shafaq (red/white twilight blend) — the committee's default. */
+function seasonAdjustedIshaMinutes(latitude: number, dyy: number): number {
+  const lat = Math.abs(latitude);
+  return seasonalMinutes(
+    75 + (25.6 / 55) * lat,
+    75 + (2.05 / 55) * lat,
+    75 - (9.21 / 55) * lat,
+    75 + (6.14 / 55) * lat,
+    dyy,
+  );
+}
+
+function nightPortion(rule: HighLatitudeRule, angle: number, night: number): number {
+  if (rule === "middle-of-night") return night / 2;
+  if (rule === "seventh-of-night") return night / 7;
+  return (angle / 60) * night;
+}
+
+function toHHmm(hours: number): string {
+  const total = Math.round(fixHour(hours) * 60) % 1440;
+  const h = Math.floor(total / 60);
+  const m = total % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+/**
+ * Calculate adhan times for one day.
+ *
+ * @param date     YYYY-MM-DD in the masjid's timezone
+ * @param coords   masjid latitude / longitude (degrees, east positive)
+ * @param tz       IANA timezone used for the UTC offset (handles DST)
+ * @throws when the sun does not rise or set on that date (polar day/night)
+ */
+export function calculatePrayerTimes(
+  date: string,
+  coords: Coordinates,
+  tz: string,
+  settings: PrayerCalculationSettings = {},
+): CalculatedPrayerTimes {
+  const { method, asrMadhab, highLatitudeRule } = { ...DEFAULT_CALCULATION_SETTINGS, ...settings };
+  const params = CALCULATION_METHODS[method] ?? CALCULATION_METHODS.MWL;
+  const { latitude: lat, longitude: lng } = coords;
+
+  const day = dayjs.tz(`${date}T12:00:00`, tz);
+  if (!day.isValid()) throw new Error(`Invalid date: ${date}`);
+  const utcOffsetHours = day.utcOffset() / 60;
+  const jDate = julianDate(day.year(), day.month() + 1, day.date()) - lng / (15 * 24);
+
+  const midDay = (hours: number) => fixHour(12 - sunPosition(jDate + hours / 24).equation);
+  const sunAngleTime = (angle: number, hours: number, ccw = false) => {
+    const decl = sunPosition(jDate + hours / 24).declination;
+    const noon = midDay(hours);
+    const t = darccos((-dsin(angle) - dsin(decl) * dsin(lat)) / (dcos(decl) * dcos(lat))) / 15;
+    return noon + (ccw ? -t : t);
+  };
+  const asrTime = (factor: number, hours: number) => {
+    const decl = sunPosition(jDate + hours / 24).declination;
+    return sunAngleTime(-darccot(factor + dtan(Math.abs(lat - decl))), hours);
+  };
+  const asrFactor = asrMadhab === "hanafi" ? 2 : 1;
+
+  // Two passes: the first uses rough guesses for each event, the second refines
+  // the sun position at the time found by the first.
+  let t = { fajr: 5, sunrise: 6, dhuhr: 12, asr: 13, sunset: 18, isha: 18 };
+  for (let pass = 0; pass < 2; pass += 1) {
+    t = {
+      fajr: sunAngleTime(params.fajrAngle, Number.isNaN(t.fajr) ? 5 : t.fajr, true),
+      sunrise: sunAngleTime(SUNRISE_ANGLE, t.sunrise, true),
+      dhuhr: midDay(t.dhuhr),
+      asr: asrTime(asrFactor, t.asr),
+      sunset: sunAngleTime(SUNRISE_ANGLE, t.sunset),
+      isha: params.ishaAngle != null ? sunAngleTime(params.ishaAngle, Number.isNaN(t.isha) ? 18 : t.isha) : t.isha,
+    };
+  }
+  if (Number.isNaN(t.sunrise) || Number.isNaN(t.sunset)) {
+    throw new Error(`Sun does not rise or set at latitude ${lat} on ${date}`);
+  }
+  if (params.ishaMinutes != null) t.isha = t.sunset + params.ishaMinutes / 60;
+
+  const night = timeDiff(t.sunset, t.sunrise);
+  if (method === "MoonsightingCommittee") {
+    if (Math.abs(lat) >= MOONSIGHTING_HIGH_LATITUDE) {
+      t.fajr = t.sunrise - night / 7;
+      t.isha = t.sunset + night / 7;
+    } else {
+      const dyy = daysSinceSolstice(day.diff(day.startOf("year"), "day") + 1, day.year(), lat);
+      const safeFajr = t.sunrise - seasonAdjustedFajrMinutes(lat, dyy) / 60;
+      const safeIsha = t.sunset + seasonAdjustedIshaMinutes(lat, dyy) / 60;
+      if (Number.isNaN(t.fajr) || safeFajr > t.fajr) t.fajr = safeFajr;
+      if (Number.isNaN(t.isha) || safeIsha < t.isha) t.isha = safeIsha;
+    }
+  } else {
+    const fajrPortion = nightPortion(highLatitudeRule, params.fajrAngle, night);
+    if (Number.isNaN(t.fajr) || timeDiff(t.fajr, t.sunrise) > fajrPortion) {
+      t.fajr = t.sunrise - fajrPortion;
+    }
+    if (params.ishaAngle != null) {
+      const ishaPortion = nightPortion(highLatitudeRule, params.ishaAngle, night);
+      if (Number.isNaN(t.isha) || timeDiff(t.sunset, t.isha) > ishaPortion) {
+        t.isha = t.sunset + ishaPortion;
+      }
+    }
+  }
+
+  // Solar time → masjid clock time
+  const shift = utcOffsetHours - lng / 15;
+  return {
+    fajr: toHHmm(t.fajr + shift),
+    sunrise: toHHmm(t.sunrise + shift),
+    zuhr: toHHmm(t.dhuhr + shift + (params.dhuhrMinutes ?? 0) / 60),
+    asr: toHHmm(t.asr + shift),
+    maghrib: toHHmm(t.sunset + shift + (params.maghribMinutes ?? 0) / 60),
+    isha: toHHmm(t.isha + shift),
+  };
+}
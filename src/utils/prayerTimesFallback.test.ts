@@ -0,0 +1,102 @@
+/**
+ * Offline prayer-times fallback tests.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { PrayerTimes } from '../api/models';
+import {
+  buildCalculatedPrayerTimes,
+  deriveJamaatPattern,
+  isPrayerTimetableExhausted,
+  DEFAULT_JAMAAT_OFFSETS,
+} from './prayerTimesFallback';
+
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+
+function day(date: string, overrides: Partial<PrayerTimes> = {}): PrayerTimes {
+  return {
+    date,
+    fajr: '05:00',
+    sunrise: '06:30',
+    zuhr: '12:10',
+    asr: '15:00',
+    maghrib: '18:00',
+    isha: '19:30',
+    fajrJamaat: '05:30',
+    zuhrJamaat: '13:00',
+    asrJamaat: '15:15',
+    maghribJamaat: '18:05',
+    ishaJamaat: '19:45',
+    ...overrides,
+  };
+}
+
+describe('isPrayerTimetableExhausted', () => {
+  it('is true when nothing is stored', () => {
+    expect(isPrayerTimetableExhausted(null, '2026-03-10')).toBe(true);
+  });
+
+  it('is true only when every dated day is in the past', () => {
+    const stored = { ...day('2026-03-08'), data: [day('2026-03-08'), day('2026-03-09')] };
+    expect(isPrayerTimetableExhausted(stored, '2026-03-09')).toBe(false);
+    expect(isPrayerTimetableExhausted(stored, '2026-03-10')).toBe(true);
+  });
+
+  it('trusts undated payloads', () => {
+    expect(isPrayerTimetableExhausted(day(undefined as unknown as string), '2026-03-10')).toBe(false);
+  });
+});
+
+describe('deriveJamaatPattern', () => {
+  it('uses the newest day with a plausible gap per prayer', () => {
+    const pattern = deriveJamaatPattern([
+      day('2026-03-08', { ishaJamaat: '19:40' }),
+      day('2026-03-09', { fajrJamaat: '', asrJamaat: '23:59' }),
+    ]);
+    expect(pattern.offsets).toEqual({
+      fajr: 30, // 03-09 has no Fajr jamaat → 03-08
+      zuhr: 50,
+      asr: 15, // 03-09 gap is implausible → 03-08
+      maghrib: 5,
+      isha: 15,
+    });
+  });
+
+  it('falls back to defaults and keeps the last Jumuah times', () => {
+    const pattern = deriveJamaatPattern([
+      day('2026-03-06', { fajrJamaat: '', zuhrJamaat: '', jummahJamaat: '13:30', jummahKhutbah: '13:00' }),
+    ]);
+    expect(pattern.offsets.fajr).toBe(DEFAULT_JAMAAT_OFFSETS.fajr);
+    expect(pattern.offsets.zuhr).toBe(DEFAULT_JAMAAT_OFFSETS.zuhr);
+    expect(pattern.jummahJamaat).toBe('13:30');
+    expect(pattern.jummahKhutbah).toBe('13:00');
+  });
+});
+
+describe('buildCalculatedPrayerTimes', () => {
+  it('generates three flagged days with jamaats offset from calculated adhan', () => {
+    const previous = {
+      ...day('2026-03-05'),
+      data: [day('2026-03-05'), day('2026-03-06', { jummahJamaat: '13:30', jummahKhutbah: '13:05' })],
+    };
+    const result = buildCalculatedPrayerTimes({
+      coordinates: LONDON,
+      timezone: 'Europe/London',
+      today: '2026-03-12',
+      previous,
+    });
+
+    expect(result.isCalculated).toBe(true);
+    expect(result.data?.map((d) => d.date)).toEqual(['2026-03-12', '2026-03-13', '2026-03-14']);
+    const [thu, fri, sat] = result.data!;
+    expect(thu.isCalculated).toBe(true);
+    const gap = (a: string, b: string) =>
+      Number(b.slice(0, 2)) * 60 + Number(b.slice(3)) - (Number(a.slice(0, 2)) * 60 + Number(a.slice(3)));
+    expect(gap(thu.isha, thu.ishaJamaat)).toBe(15);
+    expect(gap(thu.maghrib, thu.maghribJamaat)).toBe(5);
+    expect(thu.jummahJamaat).toBeUndefined();
+    expect(fri.jummahJamaat).toBe('13:30');
+    expect(fri.jummahKhutbah).toBe('13:05');
+    expect(sat.jummahJamaat).toBeUndefined();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Offline prayer-times fallback.
+ *
+ * When the display has been offline long enough that the cached timetable no
+ * longer covers today, build a synthetic `{ data: [...] }` payload from the
+ * local calculator (prayerCalculation.ts) so the screen keeps showing sensible
+ * times instead of stale ones. Jamaat times are derived from the gaps between
+ * adhan and jamaat in the last published days, so a masjid that prays Isha
+ * 10 minutes after adhan keeps doing so. Every generated day is flagged
+ * `isCalculated` so the UI can mark it.
+ */
+
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import type { PrayerCalculationSettings, PrayerTimes } from "../api/models";
+import { calculatePrayerTimes, type Coordinates } from "./prayerCalculation";
+import { toMinutesFromMidnight } from "./dateUtils";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export type SalahKey = "fajr" | "zuhr" | "asr" | "maghrib" | "isha";
+
+const SALAH_KEYS: SalahKey[] = ["fajr", "zuhr", "asr", "maghrib", "isha"];
+
+/** Used when no published day has both adhan and jamaat for a prayer. */
+export const DEFAULT_JAMAAT_OFFSETS: Record<SalahKey, number> = {
+  fajr: 20,
+  zuhr: 15,
+  asr: 15,
+  maghrib: 5,
+  isha: 15,
+};
+
+/** Gaps outside 0–120 minutes are treated as data errors, not masjid policy. */
+const MAX_JAMAAT_OFFSET_MINUTES = 120;
+
+/** Days generated per fallback payload: today, tomorrow, day after (matches the API window the hook reads). */
+const FALLBACK_DAYS = 3;
+
+export interface JamaatPattern {
+  offsets: Record<SalahKey, number>;
+  /** Last known Jumuah clock times (HH:mm) — fixed times, not adhan-relative. */
+  jummahJamaat?: string;
+  jummahKhutbah?: string;
+}
+
+/** Flatten the stored payload (single day, `{ data: [...] }` or a bare array) into day rows. */
+export function extractPrayerDays(prayerTimes: PrayerTimes | null | undefined): PrayerTimes[] {
+  if (!prayerTimes || typeof prayerTimes !== "object") return [];
+  if (Array.isArray(prayerTimes)) return prayerTimes as PrayerTimes[];
+  if (Array.isArray(prayerTimes.data)) return prayerTimes.data;
+  return prayerTimes.fajr || prayerTimes.zuhr ? [prayerTimes] : [];
+}
+
+/**
+ * True when the stored timetable cannot produce today's times: nothing stored,
+ * or every dated day is before `today` (YYYY-MM-DD). Undated payloads are
+ * trusted — without a date we cannot tell they are stale.
+ */
+export function isPrayerTimetableExhausted(
+  prayerTimes: PrayerTimes | null | undefined,
+  today: string,
+): boolean {
+  const days = extractPrayerDays(prayerTimes);
+  if (days.length === 0) return true;
+  const dated = days.filter((d) => typeof d.date === "string" && d.date.length >= 10);
+  if (dated.length < days.length) return false;
+  return !dated.some((d) => d.date!.slice(0, 10) >= today);
+}
+
+/**
+ * Learn the masjid's adhan→jamaat gaps from the most recent published days.
+ * Each prayer uses the latest day that has both times and a plausible gap.
+ */
+export function deriveJamaatPattern(days: PrayerTimes[]): JamaatPattern {
+  const newestFirst = [...days].sort((a, b) => (b.date ?? "").localeCompare(a.date ?? ""));
+  const offsets = { ...DEFAULT_JAMAAT_OFFSETS };
+
+  for (const key of SALAH_KEYS) {
+    for (const day of newestFirst) {
+      const adhan = day[key];
+      const jamaat = day[`${key}Jamaat` as keyof PrayerTimes] as string | undefined;
+      if (!adhan || !jamaat) continue;
+      const name = key.charAt(0).toUpperCase() + key.slice(1);
+      const gap = toMinutesFromMidnight(jamaat, name) - toMinutesFromMidnight(adhan, name);
+      if (Number.isFinite(gap) && gap >= 0 && gap <= MAX_JAMAAT_OFFSET_MINUTES) {
+        offsets[key] = gap;
+        break;
+      }
+    }
+  }
+
+  const lastJummah = newestFirst.find((d) => d.jummahJamaat);
+  return {
+    offsets,
+    jummahJamaat: lastJummah?.jummahJamaat,
+    jummahKhutbah: lastJummah?.jummahKhutbah,
+  };
+}
+
+function addMinutes(hhmm: string, minutes: number): string {
+  const total = (((toMinutesFromMidnight(hhmm) + minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+}
+
+export interface CalculatedTimetableOptions {
+  coordinates: Coordinates;
+  timezone: string;
+  /** First day to generate (YYYY-MM-DD, masjid timezone). */
+  today: string;
+  settings?: PrayerCalculationSettings;
+  /** Last stored payload, used only to learn jamaat offsets. */
+  previous?: PrayerTimes | null;
+}
+
+/** Build a `{ data: [...] }` payload of calculated days starting at `today`. */
+export function buildCalculatedPrayerTimes(options: CalculatedTimetableOptions): PrayerTimes {
+  const { coordinates, timezone: tz, today, settings, previous } = options;
+  const pattern = deriveJamaatPattern(extractPrayerDays(previous));
+  const start = dayjs.tz(`${today}T12:00:00`, tz);
+
+  const data: PrayerTimes[] = [];
+  for (let i = 0; i < FALLBACK_DAYS; i += 1) {
+    const day = start.add(i, "day");
+    const date = day.format("YYYY-MM-DD");
+    const adhan = calculatePrayerTimes(date, coordinates, tz, settings);
+    const row: PrayerTimes = {
+      date,
+      ...adhan,
+      fajrJamaat: addMinutes(adhan.fajr, pattern.offsets.fajr),
+      zuhrJamaat: addMinutes(adhan.zuhr, pattern.offsets.zuhr),
+      asrJamaat: addMinutes(adhan.asr, pattern.offsets.asr),
+      maghribJamaat: addMinutes(adhan.maghrib, pattern.offsets.maghrib),
+      ishaJamaat: addMinutes(adhan.isha, pattern.offsets.isha),
+      isCalculated: true,
+    };
+    if (day.day() === 5 && pattern.jummahJamaat) {
+      row.jummahJamaat = pattern.jummahJamaat;
+      if (pattern.jummahKhutbah) row.jummahKhutbah = pattern.jummahKhutbah;
+    }
+    data.push(row);
+  }
+
+  return { ...data[0], data, isCalculated: true };
+}
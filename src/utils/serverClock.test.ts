@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { clockSampleFromAck, estimateClockOffset } from '@/utils/serverClock';
+
+describe('clockSampleFromAck', () => {
+  it('assumes the ack left the server halfway through the round trip', () => {
+    const serverTime = new Date(1_000_150).toISOString();
+    // Sent at 1000, received at 1200 (device); server stamped 1_000_150 → offset 1_000_150 + 100 - 1200
+    expect(clockSampleFromAck(1_000, 1_200, serverTime)).toEqual({ offsetMs: 999_050, rttMs: 200 });
+  });
+
+  it('rejects unparseable times and implausible round trips', () => {
+    expect(clockSampleFromAck(1_000, 1_200, 'not a date')).toBeNull();
+    expect(clockSampleFromAck(1_000, 1_200, undefined)).toBeNull();
+    expect(clockSampleFromAck(1_000, 900, new Date().toISOString())).toBeNull();
+    expect(clockSampleFromAck(1_000, 60_000, new Date().toISOString())).toBeNull();
+  });
+});
+
+describe('estimateClockOffset', () => {
+  it('is 0 without samples', () => {
+    expect(estimateClockOffset([])).toBe(0);
+  });
+
+  it('takes the median of the faster half so slow round trips do not skew it', () => {
+    expect(
+      estimateClockOffset([
+        { offsetMs: 500, rttMs: 40 },
+        { offsetMs: 520, rttMs: 60 },
+        { offsetMs: 2_000, rttMs: 3_000 },
+        { offsetMs: -1_500, rttMs: 2_500 },
+      ]),
+    ).toBe(510);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Server clock offset from heartbeat round trips.
+ *
+ * Each `display:heartbeat:ack` carries the server's `serverTime`. Assuming the
+ * ack left the server halfway through the round trip, the device clock is
+ * behind the server by `serverTime + rtt / 2 - receivedAt`. Samples with a long
+ * round trip carry the most error, so the estimate is the median offset of the
+ * faster half of the recent samples.
+ */
+
+/** Round trips slower than this say more about the network than the clock */
+const MAX_SAMPLE_RTT_MS = 5_000;
+
+export interface ClockSample {
+  /** Add to `Date.now()` to get server time */
+  offsetMs: number;
+  rttMs: number;
+}
+
+/**
+ * Offset sample from one heartbeat: device times the heartbeat was sent and
+ * the ack received, and the ack's `serverTime`. null when unusable.
+ */
+export function clockSampleFromAck(
+  sentAtMs: number,
+  receivedAtMs: number,
+  serverTime: unknown,
+): ClockSample | null {
+  if (typeof serverTime !== 'string' && typeof serverTime !== 'number') return null;
+  const serverMs = new Date(serverTime).getTime();
+  const rttMs = receivedAtMs - sentAtMs;
+  if (!Number.isFinite(serverMs) || rttMs < 0 || rttMs > MAX_SAMPLE_RTT_MS) return null;
+  return { offsetMs: Math.round(serverMs + rttMs / 2 - receivedAtMs), rttMs };
+}
+
+/** Offset to apply to the device clock (ms); 0 until there is a sample. */
+export function estimateClockOffset(samples: readonly ClockSample[]): number {
+  if (samples.length === 0) return 0;
+  const fastest = [...samples]
+    .sort((a, b) => a.rttMs - b.rttMs)
+    .slice(0, Math.ceil(samples.length / 2))
+    .map((s) => s.offsetMs)
+    .sort((a, b) => a - b);
+  const mid = Math.floor(fastest.length / 2);
+  return fastest.length % 2 === 1 ? fastest[mid] : Math.round((fastest[mid - 1] + fastest[mid]) / 2);
+}
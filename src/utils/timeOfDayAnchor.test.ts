@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import type { PrayerTimes } from '@/api/models';
+import { describeTimeOfDayAnchor, resolveTimeOfDayAnchorMinutes } from './timeOfDayAnchor';
+
+const times: PrayerTimes = {
+  fajr: '05:30',
+  sunrise: '06:45',
+  zuhr: '12:15',
+  asr: '15:30',
+  maghrib: '18:20',
+  isha: '19:45',
+  fajrJamaat: '05:45',
+  zuhrJamaat: '12:30',
+  asrJamaat: '16:00',
+  maghribJamaat: '18:25',
+  ishaJamaat: '20:00',
+};
+
+const at = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+describe('resolveTimeOfDayAnchorMinutes', () => {
+  it('resolves fixed times and prayer anchors with offsets', () => {
+    expect(resolveTimeOfDayAnchorMinutes({ time: '23:30' }, times)).toBe(at('23:30'));
+    expect(resolveTimeOfDayAnchorMinutes({ prayer: 'FAJR', offsetMinutes: -30 }, times)).toBe(at('05:00'));
+    expect(resolveTimeOfDayAnchorMinutes({ prayer: 'ISHA', anchor: 'JAMAAT', offsetMinutes: 60 }, times)).toBe(
+      at('21:00'),
+    );
+  });
+
+  it('wraps offsets past midnight and rejects unresolvable edges', () => {
+    expect(resolveTimeOfDayAnchorMinutes({ prayer: 'ISHA', offsetMinutes: 300 }, times)).toBe(at('00:45'));
+    expect(resolveTimeOfDayAnchorMinutes({ prayer: 'FAJR' }, null)).toBeNull();
+    expect(resolveTimeOfDayAnchorMinutes({ time: 'late' }, times)).toBeNull();
+  });
+});
+
+describe('describeTimeOfDayAnchor', () => {
+  it('formats fixed and prayer-relative edges', () => {
+    expect(describeTimeOfDayAnchor({ time: '23:30' })).toBe('23:30');
+    expect(describeTimeOfDayAnchor({ prayer: 'FAJR', offsetMinutes: -30 })).toBe('FAJR-30');
+    expect(describeTimeOfDayAnchor({ prayer: 'ISHA', anchor: 'JAMAAT', offsetMinutes: 15 })).toBe(
+      'ISHA jamaat+15',
+    );
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Time-of-day anchors shared by the power schedule and the brightness curve:
+ * a fixed masjid-local time or a prayer time plus offset, resolved against
+ * today's timetable like playlist `PRAYER_WINDOW` assignments.
+ */
+
+import type { PrayerTimes, TimeOfDayAnchor } from '@/api/models';
+import { toMinutesFromMidnight } from '@/utils/dateUtils';
+import { getPrayerWindowBoundaryMinutes } from '@/utils/prayerWindowSchedule';
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+/** Minutes from masjid-local midnight (0–1439), or null when unresolvable. */
+export function resolveTimeOfDayAnchorMinutes(
+  anchor: TimeOfDayAnchor | null | undefined,
+  times: PrayerTimes | null | undefined,
+): number | null {
+  if (!anchor) return null;
+  let minutes: number | null;
+  if ('time' in anchor) {
+    minutes = toMinutesFromMidnight(anchor.time);
+    if (minutes < 0) return null;
+  } else {
+    if (!times) return null;
+    minutes = getPrayerWindowBoundaryMinutes(
+      anchor.prayer,
+      anchor.anchor ?? 'ADHAN',
+      anchor.offsetMinutes ?? 0,
+      times,
+    );
+    if (minutes === null) return null;
+  }
+  /* Offsets may push a prayer anchor past midnight either way. */
+  return ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
+
+/** Human-readable anchor for logs, e.g. "FAJR-30", "ISHA jamaat+15" or "23:30". */
+export function describeTimeOfDayAnchor(anchor: TimeOfDayAnchor): string {
+  if ('time' in anchor) return anchor.time;
+  const offset = anchor.offsetMinutes ?? 0;
+  const kind = anchor.anchor === 'JAMAAT' ? ' jamaat' : '';
+  return `${anchor.prayer}${kind}${offset === 0 ? '' : offset > 0 ? `+${offset}` : offset}`;
+}
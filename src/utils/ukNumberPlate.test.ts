@@ -14,8 +14,16 @@ describe('ukNumberPlate', () => {
     expect(formatUkPlateForDisplay('AB12CDE')).toBe('AB12 CDE');
   });
 
-  it('validates minimum plate length', () => {
+  it('splits prefix, suffix and dateless marks where the plate does', () => {
+    expect(formatUkPlateForDisplay('A123BCD')).toBe('A123 BCD');
+    expect(formatUkPlateForDisplay('ABC123D')).toBe('ABC 123D');
+    expect(formatUkPlateForDisplay('ABZ1234')).toBe('ABZ 1234');
+  });
+
+  it('validates against the UK registration schemes', () => {
     expect(isValidUkPlate('A')).toBe(false);
-    expect(isValidUkPlate('AB')).toBe(true);
+    expect(isValidUkPlate('A1')).toBe(true);
+    expect(isValidUkPlate('AB12CDE')).toBe(true);
+    expect(isValidUkPlate('BLUEFORD')).toBe(false);
   });
 });
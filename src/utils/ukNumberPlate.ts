@@ -6,6 +6,19 @@
 
 const PLATE_MAX_LENGTH = 8;
 
+/**
+ * Registration schemes still on the road, each with where the display space
+ * goes: current (AB12 CDE), prefix (A123 BCD), suffix (ABC 123D) and dateless
+ * marks in either order (ABC 123, 1234 AB — also Northern Ireland's ABZ 1234).
+ */
+const UK_PLATE_PATTERNS: RegExp[] = [
+  /^([A-Z]{2}[0-9]{2})([A-Z]{3})$/,
+  /^([A-Z][0-9]{1,3})([A-Z]{3})$/,
+  /^([A-Z]{3})([0-9]{1,3}[A-Z])$/,
+  /^([A-Z]{1,3})([0-9]{1,4})$/,
+  /^([0-9]{1,4})([A-Z]{1,3})$/,
+];
+
 /** Strip to A–Z / 0–9 and uppercase. */
 export function normaliseUkPlateInput(raw: string): string {
   return raw.replace(/[^a-zA-Z0-9]/g, '').toUpperCase().slice(0, PLATE_MAX_LENGTH);
@@ -13,9 +26,14 @@ export function normaliseUkPlateInput(raw: string): string {
 
 /**
  * Format for display with a central space when long enough (current style:
- * AB12 CDE). Shorter or legacy marks are shown without forcing a split.
+ * AB12 CDE). Recognised schemes split where the real plate does; other marks
+ * are split before the last three characters, short ones not at all.
  */
 export function formatUkPlateForDisplay(normalised: string): string {
+  for (const pattern of UK_PLATE_PATTERNS) {
+    const match = pattern.exec(normalised);
+    if (match) return `${match[1]} ${match[2]}`;
+  }
   if (normalised.length <= 4) return normalised;
   if (normalised.length <= 7) {
     const splitAt = normalised.length - 3;
@@ -24,6 +42,7 @@ export function formatUkPlateForDisplay(normalised: string): string {
   return `${normalised.slice(0, 4)} ${normalised.slice(4)}`;
 }
 
+/** True when the mark follows one of the UK registration schemes. */
 export function isValidUkPlate(normalised: string): boolean {
-  return normalised.length >= 2 && normalised.length <= PLATE_MAX_LENGTH;
+  return UK_PLATE_PATTERNS.some((pattern) => pattern.test(normalised));
 }
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { normaliseReleaseVersion, parseUpdateChannelSettings } from './updateChannel';
+
+describe('normaliseReleaseVersion', () => {
+  it('strips the tag prefix and rejects non-semver values', () => {
+    expect(normaliseReleaseVersion('v1.4.2')).toBe('1.4.2');
+    expect(normaliseReleaseVersion('1.5.0-beta.3')).toBe('1.5.0-beta.3');
+    expect(normaliseReleaseVersion('latest')).toBeNull();
+    expect(normaliseReleaseVersion(142)).toBeNull();
+  });
+});
+
+describe('parseUpdateChannelSettings', () => {
+  it('reads settings blocks and FORCE_UPDATE payloads', () => {
+    expect(parseUpdateChannelSettings({ channel: 'beta' })).toEqual({ channel: 'beta', pinnedVersion: null });
+    expect(parseUpdateChannelSettings({ channel: 'PINNED', pinnedVersion: 'v1.4.2' })).toEqual({
+      channel: 'pinned',
+      pinnedVersion: '1.4.2',
+    });
+    expect(parseUpdateChannelSettings({ version: '1.4.2' })).toEqual({ channel: 'pinned', pinnedVersion: '1.4.2' });
+    expect(parseUpdateChannelSettings({ updateChannel: { channel: 'stable' } })).toEqual({
+      channel: 'stable',
+      pinnedVersion: null,
+    });
+  });
+
+  it('returns null without a usable channel', () => {
+    expect(parseUpdateChannelSettings(null)).toBeNull();
+    expect(parseUpdateChannelSettings({ countdown: 10 })).toBeNull();
+    expect(parseUpdateChannelSettings({ channel: 'nightly' })).toBeNull();
+    expect(parseUpdateChannelSettings({ channel: 'pinned' })).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Update channel settings (`displaySettings.updateChannel` or a FORCE_UPDATE
+ * payload): which releases the self-update installs. Release selection itself
+ * happens on the device in deploy/update-from-github.sh.
+ */
+
+import type { UpdateChannel, UpdateChannelSettings } from '@/api/models';
+
+export const DEFAULT_UPDATE_CHANNEL: UpdateChannelSettings = { channel: 'stable', pinnedVersion: null };
+
+const UPDATE_CHANNELS: readonly UpdateChannel[] = ['stable', 'beta', 'pinned'];
+const RELEASE_VERSION = /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?$/;
+
+/** "v1.4.2" / "1.4.2" → "1.4.2"; null when not a semver release version. */
+export function normaliseReleaseVersion(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const version = value.trim().replace(/^v/i, '');
+  return RELEASE_VERSION.test(version) ? version : null;
+}
+
+/**
+ * Channel settings from a settings block or command payload. Accepts
+ * `{ channel, pinnedVersion }`, `{ channel: "pinned", version }`, a bare
+ * `{ version }` (= pinned) and the same nested under `updateChannel`.
+ * Null when nothing usable is present (including "pinned" without a version).
+ */
+export function parseUpdateChannelSettings(raw: unknown): UpdateChannelSettings | null {
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const block = raw as Record<string, unknown>;
+  if (block.updateChannel && typeof block.updateChannel === 'object') {
+    return parseUpdateChannelSettings(block.updateChannel);
+  }
+
+  const version = normaliseReleaseVersion(block.pinnedVersion ?? block.version);
+  const channel =
+    typeof block.channel === 'string' && UPDATE_CHANNELS.includes(block.channel.toLowerCase() as UpdateChannel)
+      ? (block.channel.toLowerCase() as UpdateChannel)
+      : null;
+
+  if (channel === 'pinned' || (!channel && version)) {
+    return version ? { channel: 'pinned', pinnedVersion: version } : null;
+  }
+  return channel ? { channel, pinnedVersion: null } : null;
+}